@@ -1,28 +1,116 @@
 #!/usr/bin/env node
 import * as cdk from "aws-cdk-lib/core";
-import { ComprehendStack } from "../lib/stacks/comprehend-stack";
-import { EnvironmentName } from "../lib/types";
+import { checkStatefulReplacements } from "../lib/diff/replacement-guard";
+import {
+  ComprehendStack,
+  comprehendStackName,
+} from "../lib/stacks/comprehend-stack";
+import { ComprehendPipelineStack } from "../lib/stacks/pipeline-stack";
+import {
+  DEFAULT_ENVIRONMENT_CONFIGS,
+  ENVIRONMENT_TIERS,
+  EnvironmentName,
+  EnvironmentTier,
+  validateCidrOverlaps,
+} from "../lib/types";
 
 const app = new cdk.App();
 
-// Get environment from context (e.g., --context environment=dev)
+// Get environment from context (e.g., --context environment=dev, or a named
+// environment such as --context environment=dev-alice --context tier=dev)
+// Without it, every base tier is synthesized
 const environment = app.node.tryGetContext("environment") as
   | EnvironmentName
   | undefined;
+const tier = app.node.tryGetContext("tier") as EnvironmentTier | undefined;
 
-// Create stack with environment-specific configuration
-const stackName = environment
-  ? `Comprehend${environment.charAt(0).toUpperCase() + environment.slice(1)}Stack`
-  : "ComprehendDevStack";
+// A config file (--context configFile=path) is for the selected environment
+// only; synthesizing every tier with it would give them one config
+if (app.node.tryGetContext("configFile") && !environment) {
+  throw new Error("configFile context requires the environment context");
+}
 
-new ComprehendStack(app, stackName, {
-  environmentName: environment || "dev",
+// With a repository configured (e.g., --context pipelineRepository=owner/repo
+// --context pipelineConnectionArn=arn:...), synthesize the deployment
+// pipeline, which deploys every tier in order
+const pipelineRepository = app.node.tryGetContext("pipelineRepository") as
+  | string
+  | undefined;
+
+let stacks: ComprehendStack[];
+if (pipelineRepository) {
+  const connectionArn = app.node.tryGetContext("pipelineConnectionArn") as
+    | string
+    | undefined;
+  if (!connectionArn) {
+    throw new Error(
+      "pipelineConnectionArn context is required with pipelineRepository",
+    );
+  }
+
+  const pipelineStack = new ComprehendPipelineStack(
+    app,
+    "ComprehendPipelineStack",
+    {
+      repository: pipelineRepository,
+      branch: app.node.tryGetContext("pipelineBranch") as string | undefined,
+      connectionArn,
+      env: {
+        account: process.env.CDK_DEFAULT_ACCOUNT,
+        region: process.env.CDK_DEFAULT_REGION,
+      },
+    },
+  );
+  stacks = pipelineStack.stages.map((stage) => stage.comprehendStack);
+} else {
+  // One stack per environment, deployed to the account and region in its
+  // configuration (environment-agnostic when it has none)
+  stacks = (environment ? [environment] : ENVIRONMENT_TIERS).map(
+    (name) =>
+      new ComprehendStack(app, comprehendStackName(name), {
+        environmentName: name,
+        tier,
+      }),
+  );
+}
+
+// Environments sharing an account must not have overlapping VPC CIDRs
+const knownConfigs = new Map(
+  Object.values(DEFAULT_ENVIRONMENT_CONFIGS).map((config) => [
+    config.name,
+    config,
+  ]),
+);
+stacks.forEach((stack) =>
+  knownConfigs.set(stack.environmentConfig.name, stack.environmentConfig),
+);
 
-  /* Uncomment to specialize for specific AWS Account and Region */
-  // env: {
-  //   account: process.env.CDK_DEFAULT_ACCOUNT,
-  //   region: process.env.CDK_DEFAULT_REGION
-  // },
+// Named environments in use are listed in the namedEnvironments context
+// (name to tier, e.g. { "dev-alice": "dev" }), so a new sandbox whose hashed
+// CIDR collides with another one fails here instead of at deploy
+const namedEnvironments = (app.node.tryGetContext("namedEnvironments") ??
+  {}) as Record<EnvironmentName, EnvironmentTier>;
+Object.entries(namedEnvironments)
+  .filter(([name]) => !knownConfigs.has(name))
+  .forEach(([name, namedTier]) =>
+    knownConfigs.set(
+      name,
+      ComprehendStack.loadEnvironmentConfig(app, {
+        environmentName: name,
+        tier: namedTier,
+      }),
+    ),
+  );
+const overlapErrors = validateCidrOverlaps([...knownConfigs.values()]);
+if (overlapErrors.length > 0) {
+  const errorMessages = overlapErrors
+    .map((e) => `${e.field}: ${e.message}`)
+    .join("; ");
+  throw new Error(`Invalid environment configuration: ${errorMessages}`);
+}
 
-  /* For more information, see https://docs.aws.amazon.com/cdk/latest/guide/environments.html */
-});
+// With --context deployedTemplates=<dir> holding the deployed
+// <stackName>.template.json files, refuse updates that would remove or
+// replace the VPC, subnets or database cluster (override with
+// --context allowReplacement=true)
+checkStatefulReplacements(app, stacks);
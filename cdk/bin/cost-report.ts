@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib/core";
+import {
+  estimateStackCost,
+  formatCostReport,
+} from "../lib/cost/cost-estimator";
+import {
+  ComprehendStack,
+  comprehendStackName,
+} from "../lib/stacks/comprehend-stack";
+import { ENVIRONMENT_TIERS } from "../lib/types";
+
+// Estimates the monthly cost of each environment from its synthesized
+// template and the local price table; no AWS calls are made
+//
+// Usage: npm run cost-report -- [--json] [--context key=value...]
+//   [environment...]
+// Without environments, every base tier is estimated
+const args = process.argv.slice(2);
+const json = args.includes("--json");
+const environments: string[] = [];
+const cliContext: Record<string, string> = {};
+args.forEach((arg, index) => {
+  if (args[index - 1] === "--context") {
+    const [key, ...value] = arg.split("=");
+    cliContext[key] = value.join("=");
+  } else if (!arg.startsWith("--")) {
+    environments.push(arg);
+  }
+});
+
+// Stacks are synthesized with the context `cdk deploy` gives them (cdk.json,
+// then --context), so feature flags, the tier and config file, and with them
+// the account, region and AZs, match the deployed stack
+const { context: projectContext } = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "../cdk.json"), "utf-8"),
+);
+
+const estimates = (
+  environments.length > 0 ? environments : ENVIRONMENT_TIERS
+).map((name) => {
+  // One app per environment keeps export names apart, and Lambda bundling
+  // is skipped because assets do not affect the estimate
+  const app = new cdk.App({
+    context: {
+      ...projectContext,
+      ...cliContext,
+      "aws:cdk:bundling-stacks": [],
+    },
+  });
+  return estimateStackCost(
+    new ComprehendStack(app, comprehendStackName(name), {
+      environmentName: name,
+    }),
+  );
+});
+
+process.stdout.write(
+  json
+    ? JSON.stringify(estimates, null, 2) + "\n"
+    : formatCostReport(estimates),
+);
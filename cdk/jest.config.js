@@ -5,6 +5,7 @@ const config = {
   testEnvironment: "node",
   roots: ["<rootDir>/test"],
   testMatch: ["**/*.test.ts"],
+  setupFiles: ["<rootDir>/test/setup.ts"],
   transform: {
     "^.+\\.tsx?$": "ts-jest",
   },
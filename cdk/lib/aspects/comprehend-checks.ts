@@ -0,0 +1,271 @@
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+import {
+  NagMessageLevel,
+  NagPack,
+  NagPackProps,
+  NagRuleCompliance,
+  NagRuleResult,
+  NagRules,
+} from "cdk-nag";
+import { IConstruct } from "constructs";
+import { EnvironmentConfig, REQUIRED_TAGS } from "../types";
+
+/**
+ * CIDR ranges that mean "anywhere"
+ */
+const OPEN_CIDRS = ["0.0.0.0/0", "::/0"];
+
+/**
+ * Properties for ComprehendChecks
+ */
+export interface ComprehendChecksProps extends NagPackProps {
+  /**
+   * Environment the checked stack belongs to
+   */
+  readonly environmentConfig: EnvironmentConfig;
+}
+
+/**
+ * Comprehend compliance rules, applied as a cdk-nag rule pack
+ *
+ * Add it with READONLY priority so it sees the tree after tags and other
+ * mutating aspects have run:
+ *
+ * ```typescript
+ * Aspects.of(stack).add(new ComprehendChecks({ environmentConfig }), {
+ *   priority: AspectPriority.READONLY,
+ * });
+ * ```
+ *
+ * Violations are errors that fail synthesis in prod and warnings elsewhere.
+ * Suppress a finding on one resource with NagSuppressions, which records
+ * the reason in the template metadata:
+ *
+ * ```typescript
+ * NagSuppressions.addResourceSuppressions(bucket, [
+ *   { id: 'Comprehend-EncryptedLogs', reason: 'Holds no log data' },
+ * ]);
+ * ```
+ *
+ * Rules:
+ * - Comprehend-RequiredTags: taggable resources carry every REQUIRED_TAGS tag
+ * - Comprehend-OpenIngress: no security group allows ingress from anywhere,
+ *   except those of internet-facing Application Load Balancers
+ * - Comprehend-NatHighAvailability (prod): one NAT gateway per AZ
+ * - Comprehend-EncryptedLogs (prod): log groups use a KMS key
+ * - Comprehend-EncryptedFunctionLogs (prod): functions log to an encrypted
+ *   log group of the stack instead of the /aws/lambda/<function> group
+ *   Lambda creates unencrypted
+ */
+export class ComprehendChecks extends NagPack {
+  private readonly level: NagMessageLevel;
+  private readonly isProd: boolean;
+
+  constructor(props: ComprehendChecksProps) {
+    super(props);
+    this.packName = "Comprehend";
+
+    const { environmentConfig } = props;
+    this.isProd = (environmentConfig.tier ?? environmentConfig.name) === "prod";
+    this.level = this.isProd ? NagMessageLevel.ERROR : NagMessageLevel.WARN;
+  }
+
+  public visit(node: IConstruct): void {
+    if (!(node instanceof cdk.CfnResource)) {
+      return;
+    }
+
+    this.applyRule({
+      ruleSuffixOverride: "RequiredTags",
+      info: `The resource is missing one of the required tags (${REQUIRED_TAGS.join(", ")}).`,
+      explanation:
+        "Cost allocation and ownership reports group resources by these tags.",
+      level: this.level,
+      rule: requiredTags,
+      node,
+    });
+
+    this.applyRule({
+      ruleSuffixOverride: "OpenIngress",
+      info: "The security group allows inbound traffic from 0.0.0.0/0 or ::/0.",
+      explanation:
+        "Only internet-facing load balancers may accept traffic from anywhere; everything else is reached from inside the VPC or through API Gateway.",
+      level: this.level,
+      rule: noOpenIngress,
+      node,
+    });
+
+    if (this.isProd) {
+      this.applyRule({
+        ruleSuffixOverride: "NatHighAvailability",
+        info: "The VPC has fewer NAT gateways than availability zones.",
+        explanation:
+          "With a shared NAT gateway, an AZ outage cuts every private subnet off from the internet.",
+        level: this.level,
+        rule: natHighAvailability,
+        node,
+      });
+
+      this.applyRule({
+        ruleSuffixOverride: "EncryptedLogs",
+        info: "The log group is not encrypted with a KMS key.",
+        explanation:
+          "Production logs can contain user data and must be encrypted with a key we control.",
+        level: this.level,
+        rule: encryptedLogs,
+        node,
+      });
+
+      this.applyRule({
+        ruleSuffixOverride: "EncryptedFunctionLogs",
+        info: "The function does not log to a KMS-encrypted log group.",
+        explanation:
+          "Without a log group of its own, a function logs to a group Lambda creates unencrypted. Give it one from createFunctionLogGroup.",
+        level: this.level,
+        rule: encryptedFunctionLogs,
+        node,
+      });
+    }
+  }
+}
+
+/**
+ * Taggable resources must carry every required tag
+ * Findings name the missing tags
+ */
+function requiredTags(node: cdk.CfnResource): NagRuleResult {
+  const tagManager = cdk.TagManager.of(node);
+  if (!tagManager) {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+
+  const tags = tagManager.tagValues();
+  const missing = REQUIRED_TAGS.filter((tag) => !tags[tag]);
+  return missing.length > 0 ? missing : NagRuleCompliance.COMPLIANT;
+}
+
+/**
+ * Security groups and ingress rules must not be open to the internet,
+ * unless the group belongs to an internet-facing Application Load Balancer
+ */
+function noOpenIngress(node: cdk.CfnResource): NagRuleResult {
+  const stack = cdk.Stack.of(node);
+  let groupId: string;
+  let rules: { cidrIp?: string; cidrIpv6?: string }[];
+
+  if (node instanceof ec2.CfnSecurityGroup) {
+    groupId = stack.resolve(node.logicalId);
+    rules = stack.resolve(node.securityGroupIngress) ?? [];
+  } else if (node instanceof ec2.CfnSecurityGroupIngress) {
+    groupId = NagRules.resolveResourceFromIntrinsic(node, node.groupId);
+    rules = [{ cidrIp: node.cidrIp, cidrIpv6: node.cidrIpv6 }];
+  } else {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+
+  const open = rules.some((rule) =>
+    [rule.cidrIp, rule.cidrIpv6].some(
+      (cidr) => cidr !== undefined && OPEN_CIDRS.includes(stack.resolve(cidr)),
+    ),
+  );
+  if (!open || publicLoadBalancerGroupIds(stack).has(groupId)) {
+    return NagRuleCompliance.COMPLIANT;
+  }
+  return NagRuleCompliance.NON_COMPLIANT;
+}
+
+/**
+ * Logical IDs of the security groups of internet-facing ALBs in a stack
+ */
+function publicLoadBalancerGroupIds(stack: cdk.Stack): Set<string> {
+  const ids = new Set<string>();
+  stack.node
+    .findAll()
+    .filter(
+      (child): child is elbv2.CfnLoadBalancer =>
+        child instanceof elbv2.CfnLoadBalancer &&
+        (child.type ?? "application") === "application" &&
+        child.scheme === "internet-facing",
+    )
+    .forEach((loadBalancer) => {
+      const groups: unknown[] =
+        stack.resolve(loadBalancer.securityGroups) ?? [];
+      groups.forEach((group) =>
+        ids.add(NagRules.resolveResourceFromIntrinsic(loadBalancer, group)),
+      );
+    });
+  return ids;
+}
+
+/**
+ * VPCs must have a NAT gateway in every AZ they span
+ */
+function natHighAvailability(node: cdk.CfnResource): NagRuleResult {
+  if (!(node instanceof ec2.CfnVPC) || !node.node.scope) {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+
+  // The subnets and NAT gateways are siblings of the CfnVPC in the L2 VPC
+  const stack = cdk.Stack.of(node);
+  const resources = node.node.scope.node.findAll();
+  const availabilityZones = new Set(
+    resources
+      .filter((child) => child instanceof ec2.CfnSubnet)
+      .map((subnet) =>
+        JSON.stringify(
+          stack.resolve((subnet as ec2.CfnSubnet).availabilityZone),
+        ),
+      ),
+  );
+  const natGateways = resources.filter(
+    (child) => child instanceof ec2.CfnNatGateway,
+  ).length;
+
+  return natGateways >= availabilityZones.size
+    ? NagRuleCompliance.COMPLIANT
+    : NagRuleCompliance.NON_COMPLIANT;
+}
+
+/**
+ * Log groups must be encrypted with a KMS key
+ */
+function encryptedLogs(node: cdk.CfnResource): NagRuleResult {
+  if (!(node instanceof logs.CfnLogGroup)) {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+  return node.kmsKeyId !== undefined
+    ? NagRuleCompliance.COMPLIANT
+    : NagRuleCompliance.NON_COMPLIANT;
+}
+
+/**
+ * Functions must log to a KMS-encrypted log group in the same stack
+ */
+function encryptedFunctionLogs(node: cdk.CfnResource): NagRuleResult {
+  if (node.cfnResourceType !== "AWS::Lambda::Function") {
+    return NagRuleCompliance.NOT_APPLICABLE;
+  }
+
+  // Functions without the L1 class (e.g. CDK's own custom resource
+  // providers) cannot be given a log group, so they are flagged too
+  const stack = cdk.Stack.of(node);
+  const logGroup =
+    node instanceof lambda.CfnFunction
+      ? JSON.stringify(stack.resolve(node.loggingConfig)?.logGroup)
+      : undefined;
+  const encrypted = stack.node
+    .findAll()
+    .some(
+      (child) =>
+        child instanceof logs.CfnLogGroup &&
+        child.kmsKeyId !== undefined &&
+        JSON.stringify(stack.resolve(child.ref)) === logGroup,
+    );
+  return encrypted
+    ? NagRuleCompliance.COMPLIANT
+    : NagRuleCompliance.NON_COMPLIANT;
+}
@@ -0,0 +1,318 @@
+import * as fs from "fs";
+import * as path from "path";
+import Ajv, { ErrorObject } from "ajv";
+import {
+  Document,
+  LineCounter,
+  Node,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  parseDocument,
+} from "yaml";
+import { EnvironmentConfig, validateEnvironmentConfig } from "../types";
+
+/**
+ * JSON Schema that environment config files are validated against
+ * Kept in the package, in step with the contract in
+ * specs/001-base-cdk-stack/contracts
+ */
+export const ENVIRONMENT_CONFIG_SCHEMA_PATH = path.join(
+  __dirname,
+  "environment-config.schema.json",
+);
+
+/**
+ * Directory searched for `<environment>.json`, `.yaml` or `.yml` files
+ */
+export const DEFAULT_CONFIG_DIR = path.join(__dirname, "../../config");
+
+/**
+ * Config file extensions, in lookup order
+ */
+const CONFIG_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * A problem found in an environment config file
+ */
+export interface ConfigFileIssue {
+  /**
+   * Config field in validation-error form (e.g. 'subnets[0].cidrMask')
+   * Empty for problems with the file as a whole
+   */
+  readonly field: string;
+
+  /**
+   * What is wrong with the field
+   */
+  readonly message: string;
+
+  /**
+   * 1-based line of the offending value
+   * Undefined when the value came from the defaults rather than the file
+   */
+  readonly line?: number;
+
+  /**
+   * 1-based column of the offending value
+   */
+  readonly column?: number;
+}
+
+/**
+ * Thrown when an environment config file cannot be parsed or is invalid
+ * The message lists every issue as `file:line:column field: message`
+ */
+export class ConfigFileError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly issues: ConfigFileIssue[],
+  ) {
+    super(
+      [
+        `Invalid environment config file ${filePath}:`,
+        ...issues.map((issue) => `  ${formatIssue(filePath, issue)}`),
+      ].join("\n"),
+    );
+    this.name = "ConfigFileError";
+  }
+}
+
+type PathSegment = string | number;
+
+/**
+ * Finds the config file for an environment
+ *
+ * @param configDir - Directory to search
+ * @param environmentName - Environment to find a file for
+ * @returns Path to the first matching file, or undefined if there is none
+ */
+export function findEnvironmentConfigFile(
+  configDir: string,
+  environmentName: string,
+): string | undefined {
+  return CONFIG_FILE_EXTENSIONS.map((extension) =>
+    path.join(configDir, `${environmentName}${extension}`),
+  ).find((candidate) => fs.existsSync(candidate));
+}
+
+/**
+ * Loads an environment config file and deep-merges it over the defaults
+ *
+ * The file may hold a complete configuration or only the values to change.
+ * Objects are merged key by key; arrays and scalars replace the default, and
+ * `null` removes it. The merged result is validated against the JSON Schema
+ * and validateEnvironmentConfig, and issues are reported against the lines
+ * of the file they come from.
+ *
+ * @param filePath - JSON or YAML file to load
+ * @param defaults - Configuration the file is merged over
+ * @returns The merged configuration
+ * @throws ConfigFileError if the file cannot be parsed or the result is invalid
+ */
+export function loadEnvironmentConfigFile(
+  filePath: string,
+  defaults?: EnvironmentConfig,
+): EnvironmentConfig {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(fs.readFileSync(filePath, "utf8"), {
+    lineCounter,
+    prettyErrors: false,
+  });
+
+  if (document.errors.length > 0) {
+    throw new ConfigFileError(
+      filePath,
+      document.errors.map((error) => {
+        const position = lineCounter.linePos(error.pos[0]);
+        return {
+          field: "",
+          message: error.message.split("\n")[0],
+          line: position.line,
+          column: position.col,
+        };
+      }),
+    );
+  }
+
+  const contents: unknown = document.toJS();
+  if (!isPlainObject(contents)) {
+    throw new ConfigFileError(filePath, [
+      { field: "", message: "File must contain an object", line: 1, column: 1 },
+    ]);
+  }
+
+  const config = deepMerge(defaults ?? {}, contents) as EnvironmentConfig;
+  const locate = (segments: PathSegment[]) =>
+    locateNode(document, lineCounter, segments);
+
+  // Structural problems first; semantic checks assume a well-formed config
+  const validateSchema = getSchemaValidator();
+  if (!validateSchema(config)) {
+    throw new ConfigFileError(
+      filePath,
+      (validateSchema.errors ?? []).map((error) =>
+        toSchemaIssue(error, locate),
+      ),
+    );
+  }
+
+  const errors = validateEnvironmentConfig(config);
+  if (errors.length > 0) {
+    throw new ConfigFileError(
+      filePath,
+      errors.map((error) => ({
+        ...error,
+        ...locate(parseField(error.field)),
+      })),
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Deep-merges an override over a base value
+ * Objects are merged recursively; arrays and scalars from the override
+ * replace the base; `null` removes the key
+ */
+export function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = deepMerge(base[key], value);
+    }
+  });
+  return merged;
+}
+
+let schemaValidator: ReturnType<Ajv["compile"]> | undefined;
+
+/**
+ * Compiles the environment config schema once per process
+ */
+function getSchemaValidator(): ReturnType<Ajv["compile"]> {
+  if (!schemaValidator) {
+    const schema = JSON.parse(
+      fs.readFileSync(ENVIRONMENT_CONFIG_SCHEMA_PATH, "utf8"),
+    );
+    schemaValidator = new Ajv({ allErrors: true }).compile(schema);
+  }
+  return schemaValidator;
+}
+
+/**
+ * Converts an Ajv error into an issue located in the file
+ * Unknown properties point at the offending key rather than its parent
+ */
+function toSchemaIssue(
+  error: ErrorObject,
+  locate: (segments: PathSegment[]) => Partial<ConfigFileIssue>,
+): ConfigFileIssue {
+  const segments = error.instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+  if (error.keyword === "additionalProperties") {
+    const property = String(error.params.additionalProperty);
+    return {
+      field: formatField([...segments, property]),
+      message: `unknown property '${property}'`,
+      ...locate([...segments, property]),
+    };
+  }
+
+  const allowed =
+    error.keyword === "enum"
+      ? `: ${(error.params.allowedValues as unknown[]).join(", ")}`
+      : "";
+  return {
+    field: formatField(segments),
+    message: `${error.message ?? "is invalid"}${allowed}`,
+    ...locate(segments),
+  };
+}
+
+/**
+ * Finds the line and column of a path in the document
+ * Returns nothing if the path is not in the file (the value is a default)
+ */
+function locateNode(
+  document: Document,
+  lineCounter: LineCounter,
+  segments: PathSegment[],
+): Pick<ConfigFileIssue, "line" | "column"> {
+  let node: unknown = document.contents;
+  let keyNode: Node | undefined;
+
+  for (const segment of segments) {
+    if (isMap(node)) {
+      const pair = node.items.find(
+        (item) => isScalar(item.key) && item.key.value === segment,
+      );
+      if (!pair) {
+        return {};
+      }
+      keyNode = isNode(pair.key) ? pair.key : undefined;
+      node = pair.value;
+    } else if (isSeq(node) && typeof segment === "number") {
+      node = node.items[segment];
+      keyNode = undefined;
+    } else {
+      return {};
+    }
+  }
+
+  // Empty values have no node of their own; point at their key instead
+  const target = isNode(node) && node.range ? node : keyNode;
+  if (!target?.range) {
+    return {};
+  }
+  const position = lineCounter.linePos(target.range[0]);
+  return { line: position.line, column: position.col };
+}
+
+/**
+ * Splits a validation-error field such as 'subnets[0].cidrMask' into a path
+ */
+function parseField(field: string): PathSegment[] {
+  return field
+    .split(/\.|\[(\d+)\]/)
+    .filter((segment) => segment !== undefined && segment !== "")
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * Joins a path into validation-error form
+ */
+function formatField(segments: PathSegment[]): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : `${index > 0 ? "." : ""}${segment}`,
+    )
+    .join("");
+}
+
+function formatIssue(filePath: string, issue: ConfigFileIssue): string {
+  const location =
+    issue.line !== undefined
+      ? `${filePath}:${issue.line}:${issue.column}`
+      : `${filePath} (default value)`;
+  const field = issue.field ? `${issue.field}: ` : "";
+  return `${location} ${field}${issue.message}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
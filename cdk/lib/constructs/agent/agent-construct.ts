@@ -0,0 +1,112 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
+import { Construct } from "constructs";
+import { DATABASE_FUNCTION_BUNDLING } from "../database/database-construct";
+import { AgentConstructProps, DEFAULT_AGENT_CONFIG } from "../../types";
+import { createFunctionLogGroup } from "../logging/logging-construct";
+
+/**
+ * Allows a function to invoke a single Bedrock foundation model
+ */
+export function grantInvokeModel(fn: lambda.IFunction, modelId: string): void {
+  fn.addToRolePolicy(
+    new iam.PolicyStatement({
+      actions: ["bedrock:InvokeModel"],
+      resources: [
+        cdk.Stack.of(fn).formatArn({
+          service: "bedrock",
+          account: "",
+          resource: "foundation-model",
+          resourceName: modelId,
+        }),
+      ],
+    }),
+  );
+}
+
+/**
+ * Agent Construct for Comprehend Application
+ *
+ * Creates the ReaderAgent function that answers chat messages about an
+ * exercise. The function calls a Bedrock foundation model, validates the
+ * structured reply and stores the resulting messages, generated content and
+ * vocab in the database. The API routes POST /exercises/{exerciseId}/messages
+ * to it.
+ *
+ * Features:
+ * - Bedrock model configured per environment
+ * - Invoke permission scoped to the configured model
+ * - Runs in the VPC with access to the database port only
+ * - Logs to a KMS-encrypted log group
+ */
+export class AgentConstruct extends Construct {
+  /**
+   * The ReaderAgent function
+   */
+  public readonly agentFunction: nodejs.NodejsFunction;
+
+  /**
+   * Security group for the agent function
+   */
+  public readonly securityGroup: ec2.SecurityGroup;
+
+  constructor(scope: Construct, id: string, props: AgentConstructProps) {
+    super(scope, id);
+
+    const {
+      environmentConfig,
+      vpc,
+      subnets,
+      cluster,
+      secret,
+      databaseName,
+      logsKey,
+    } = props;
+    const agentConfig = environmentConfig.agent ?? DEFAULT_AGENT_CONFIG;
+    const envName = environmentConfig.name;
+    const maxTokens =
+      agentConfig.maxTokens ?? DEFAULT_AGENT_CONFIG.maxTokens ?? 2048;
+
+    this.securityGroup = new ec2.SecurityGroup(this, "SecurityGroup", {
+      vpc,
+      description: `ReaderAgent function for ${envName} environment`,
+      allowAllOutbound: true,
+    });
+
+    this.agentFunction = new nodejs.NodejsFunction(this, "AgentFunction", {
+      entry: path.join(__dirname, "../../lambda/agent/handler.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      // API Gateway gives up after 29 seconds
+      timeout: cdk.Duration.seconds(29),
+      memorySize: 512,
+      vpc,
+      vpcSubnets: { subnets },
+      securityGroups: [this.securityGroup],
+      logGroup: createFunctionLogGroup(this, "AgentFunctionLogGroup", logsKey),
+      environment: {
+        DB_SECRET_ARN: secret.secretArn,
+        DB_NAME: databaseName,
+        BEDROCK_MODEL_ID: agentConfig.modelId,
+        AGENT_MAX_TOKENS: String(maxTokens),
+      },
+      bundling: DATABASE_FUNCTION_BUNDLING,
+    });
+
+    secret.grantRead(this.agentFunction);
+    grantInvokeModel(this.agentFunction, agentConfig.modelId);
+
+    cluster.connections.allowDefaultPortFrom(this.securityGroup, "ReaderAgent");
+  }
+
+  /**
+   * Get the agent function ARN
+   */
+  public getFunctionArn(): string {
+    return this.agentFunction.functionArn;
+  }
+}
@@ -0,0 +1,193 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
+import { Construct } from "constructs";
+import { DATABASE_FUNCTION_BUNDLING } from "../database/database-construct";
+import { ApiConstructProps, DEFAULT_AGENT_CONFIG } from "../../types";
+import { grantInvokeModel } from "../agent/agent-construct";
+import { createFunctionLogGroup } from "../logging/logging-construct";
+
+/**
+ * Stage the API is deployed to; part of the API URL
+ */
+export const API_STAGE_NAME = "v1";
+
+/**
+ * API Construct for Comprehend Application
+ *
+ * Creates the REST API the Expo app calls (see the API Specification
+ * appendix in DEVELOPMENT_PLAN.md). Each resource group is served by one
+ * Lambda function that routes on method and path; the functions run in the
+ * private subnets and read database credentials from Secrets Manager.
+ *
+ * Features:
+ * - REST API with a Cognito user pool authorizer on every route
+ * - Exercises and Vocab endpoints; Messages are routed to the ReaderAgent
+ * - Handlers in the VPC with access to the database port only, logging to
+ *   KMS-encrypted log groups
+ * - Pasted exercise content tokenized on create
+ * - CORS preflight for web clients
+ */
+export class ApiConstruct extends Construct {
+  /**
+   * The REST API
+   */
+  public readonly restApi: apigateway.RestApi;
+
+  /**
+   * Function serving /exercises and /exercises/{exerciseId}
+   */
+  public readonly exercisesFunction: nodejs.NodejsFunction;
+
+  /**
+   * Function serving /exercises/{exerciseId}/vocab
+   */
+  public readonly vocabFunction: nodejs.NodejsFunction;
+
+  /**
+   * Security group shared by the API functions
+   */
+  public readonly securityGroup: ec2.SecurityGroup;
+
+  private readonly authorizer: apigateway.CognitoUserPoolsAuthorizer;
+
+  constructor(scope: Construct, id: string, props: ApiConstructProps) {
+    super(scope, id);
+
+    const {
+      environmentConfig,
+      vpc,
+      subnets,
+      userPool,
+      cluster,
+      secret,
+      databaseName,
+      agentFunction,
+      logsKey,
+    } = props;
+    const envName = environmentConfig.name;
+    const agentConfig = environmentConfig.agent ?? DEFAULT_AGENT_CONFIG;
+
+    this.securityGroup = new ec2.SecurityGroup(this, "SecurityGroup", {
+      vpc,
+      description: `API functions for ${envName} environment`,
+      allowAllOutbound: true,
+    });
+
+    const createFunction = (
+      functionId: string,
+      entry: string,
+    ): nodejs.NodejsFunction => {
+      const fn = new nodejs.NodejsFunction(this, functionId, {
+        entry: path.join(__dirname, "../../lambda/api", entry),
+        handler: "handler",
+        runtime: lambda.Runtime.NODEJS_22_X,
+        // API Gateway gives up after 29 seconds
+        timeout: cdk.Duration.seconds(29),
+        memorySize: 512,
+        vpc,
+        vpcSubnets: { subnets },
+        securityGroups: [this.securityGroup],
+        logGroup: createFunctionLogGroup(
+          this,
+          `${functionId}LogGroup`,
+          logsKey,
+        ),
+        environment: {
+          DB_SECRET_ARN: secret.secretArn,
+          DB_NAME: databaseName,
+        },
+        bundling: DATABASE_FUNCTION_BUNDLING,
+      });
+      secret.grantRead(fn);
+      return fn;
+    };
+
+    this.exercisesFunction = createFunction(
+      "ExercisesFunction",
+      "exercises/handler.ts",
+    );
+    // New exercises are tokenized by the agent's model, with a rule-based
+    // fallback when it is unavailable
+    this.exercisesFunction.addEnvironment(
+      "BEDROCK_MODEL_ID",
+      agentConfig.modelId,
+    );
+    this.exercisesFunction.addEnvironment(
+      "AGENT_MAX_TOKENS",
+      String(agentConfig.maxTokens ?? DEFAULT_AGENT_CONFIG.maxTokens),
+    );
+    grantInvokeModel(this.exercisesFunction, agentConfig.modelId);
+    this.vocabFunction = createFunction("VocabFunction", "vocab/handler.ts");
+
+    // The functions share a security group, so one rule covers all of them
+    cluster.connections.allowDefaultPortFrom(this.securityGroup, "API");
+
+    this.restApi = new apigateway.RestApi(this, "RestApi", {
+      restApiName: `comprehend-${envName}-api`,
+      description: `Comprehend REST API for ${envName} environment`,
+      cloudWatchRole: false,
+      deployOptions: {
+        stageName: API_STAGE_NAME,
+      },
+      defaultCorsPreflightOptions: {
+        allowOrigins: apigateway.Cors.ALL_ORIGINS,
+        allowHeaders: ["Authorization", "Content-Type"],
+      },
+    });
+
+    this.authorizer = new apigateway.CognitoUserPoolsAuthorizer(
+      this,
+      "Authorizer",
+      {
+        cognitoUserPools: [userPool],
+        authorizerName: `comprehend-${envName}-authorizer`,
+      },
+    );
+
+    // Exercises
+    const exercises = this.restApi.root.addResource("exercises");
+    this.addRoute(exercises, "POST", this.exercisesFunction);
+    this.addRoute(exercises, "GET", this.exercisesFunction);
+
+    const exercise = exercises.addResource("{exerciseId}");
+    this.addRoute(exercise, "GET", this.exercisesFunction);
+    this.addRoute(exercise, "PATCH", this.exercisesFunction);
+    this.addRoute(exercise, "DELETE", this.exercisesFunction);
+
+    // Vocab
+    const vocab = exercise.addResource("vocab");
+    this.addRoute(vocab, "POST", this.vocabFunction);
+    this.addRoute(vocab, "GET", this.vocabFunction);
+    this.addRoute(vocab.addResource("{vocabId}"), "PATCH", this.vocabFunction);
+
+    // Messages are answered by the ReaderAgent (see AgentConstruct)
+    const messages = exercise.addResource("messages");
+    this.addRoute(messages, "POST", agentFunction);
+  }
+
+  /**
+   * Adds a Cognito-authorized method proxied to a function
+   * Authorization is set per method so CORS preflight stays unauthenticated
+   */
+  private addRoute(
+    resource: apigateway.IResource,
+    httpMethod: string,
+    fn: lambda.IFunction,
+  ): void {
+    resource.addMethod(httpMethod, new apigateway.LambdaIntegration(fn), {
+      authorizer: this.authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+  }
+
+  /**
+   * Get the API base URL, including the stage
+   */
+  public getApiUrl(): string {
+    return this.restApi.url;
+  }
+}
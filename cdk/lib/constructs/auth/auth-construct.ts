@@ -0,0 +1,100 @@
+import * as cdk from "aws-cdk-lib";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import { Construct } from "constructs";
+import { AuthConstructProps, DEFAULT_AUTH_CONFIG, MfaMode } from "../../types";
+
+/**
+ * Maps the environment MFA mode onto the Cognito setting
+ */
+const MFA_MODES: Record<MfaMode, cognito.Mfa> = {
+  off: cognito.Mfa.OFF,
+  optional: cognito.Mfa.OPTIONAL,
+  required: cognito.Mfa.REQUIRED,
+};
+
+/**
+ * Auth Construct for Comprehend Application
+ *
+ * Creates the Cognito user pool the Expo app signs users into with its own
+ * in-app UI (see comprehend/docs/authentication.md). The app talks to Cognito
+ * directly through amazon-cognito-identity-js, so the client is public (no
+ * secret) and authenticates with SRP.
+ *
+ * Features:
+ * - Self sign-up with a username and a verified email address
+ * - Sign-in by username or email
+ * - Public app client with SRP and refresh token flows
+ * - Optional SMS or authenticator app MFA, configured per environment
+ * - Password reset by email
+ */
+export class AuthConstruct extends Construct {
+  /**
+   * The Cognito user pool
+   */
+  public readonly userPool: cognito.UserPool;
+
+  /**
+   * Public app client used by the Expo app
+   */
+  public readonly userPoolClient: cognito.UserPoolClient;
+
+  constructor(scope: Construct, id: string, props: AuthConstructProps) {
+    super(scope, id);
+
+    const { environmentConfig } = props;
+    const authConfig = environmentConfig.auth ?? DEFAULT_AUTH_CONFIG;
+    const envName = environmentConfig.name;
+    const mfa = MFA_MODES[authConfig.mfa ?? "off"];
+
+    this.userPool = new cognito.UserPool(this, "UserPool", {
+      userPoolName: `comprehend-${envName}-users`,
+      selfSignUpEnabled: true,
+      signInAliases: { username: true, email: true },
+      signInCaseSensitive: false,
+      autoVerify: { email: true },
+      standardAttributes: {
+        email: { required: true, mutable: true },
+        phoneNumber: { required: false, mutable: true },
+      },
+      passwordPolicy: {
+        minLength: 8,
+        requireLowercase: true,
+        requireUppercase: true,
+        requireDigits: true,
+        requireSymbols: false,
+      },
+      mfa,
+      // Second factors are only configurable when MFA is enabled
+      mfaSecondFactor:
+        mfa === cognito.Mfa.OFF ? undefined : { sms: true, otp: true },
+      accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+    });
+
+    // Public client: the app cannot keep a secret, so no client secret
+    this.userPoolClient = this.userPool.addClient("AppClient", {
+      userPoolClientName: `comprehend-${envName}-app`,
+      generateSecret: false,
+      authFlows: {
+        userSrp: true,
+      },
+      refreshTokenValidity: cdk.Duration.days(30),
+      accessTokenValidity: cdk.Duration.hours(1),
+      idTokenValidity: cdk.Duration.hours(1),
+      preventUserExistenceErrors: true,
+    });
+  }
+
+  /**
+   * Get the user pool ID
+   */
+  public getUserPoolId(): string {
+    return this.userPool.userPoolId;
+  }
+
+  /**
+   * Get the app client ID
+   */
+  public getUserPoolClientId(): string {
+    return this.userPoolClient.userPoolClientId;
+  }
+}
@@ -0,0 +1,158 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import { Construct } from "constructs";
+import { RDS_CA_BUNDLE_FILE } from "../../lambda/shared/database-provider";
+import { DEFAULT_DATABASE_CONFIG, DatabaseConstructProps } from "../../types";
+
+/**
+ * Name of the database created in the cluster for application data
+ */
+export const DATABASE_NAME = "comprehend";
+
+/**
+ * Master username stored in the generated credentials secret
+ */
+export const DATABASE_USERNAME = "comprehend_admin";
+
+/**
+ * Bundling for functions that connect to the database
+ * Copies the RDS CA bundle next to the handler, where DatabaseProvider
+ * reads it to verify the cluster's certificate
+ */
+export const DATABASE_FUNCTION_BUNDLING: nodejs.BundlingOptions = {
+  externalModules: ["@aws-sdk/*", "pg-native"],
+  minify: true,
+  sourceMap: true,
+  commandHooks: {
+    beforeBundling: () => [],
+    beforeInstall: () => [],
+    afterBundling: (_inputDir, outputDir) => [
+      `cp "${path.join(__dirname, "../../lambda/shared", RDS_CA_BUNDLE_FILE)}" "${outputDir}/${RDS_CA_BUNDLE_FILE}"`,
+    ],
+  },
+};
+
+/**
+ * Database Construct for Comprehend Application
+ *
+ * Creates an Aurora PostgreSQL Serverless v2 cluster in the given subnets
+ * of the application VPC. Master credentials are generated and stored in
+ * Secrets Manager; nothing in the cluster is reachable from outside the VPC.
+ *
+ * Features:
+ * - Serverless v2 writer with optional readers, sized per environment
+ * - Credentials generated into Secrets Manager
+ * - Encrypted storage
+ * - Configurable backup retention and deletion protection
+ * - Retained with its credentials when removed from the stack, if the
+ *   environment retains stateful resources
+ * - Dedicated security group with no ingress until callers are granted access
+ */
+export class DatabaseConstruct extends Construct {
+  /**
+   * The Aurora PostgreSQL cluster
+   */
+  public readonly cluster: rds.DatabaseCluster;
+
+  /**
+   * Secret holding the master credentials (username, password, host, port)
+   */
+  public readonly secret: secretsmanager.ISecret;
+
+  /**
+   * Security group attached to the cluster instances
+   */
+  public readonly securityGroup: ec2.SecurityGroup;
+
+  constructor(scope: Construct, id: string, props: DatabaseConstructProps) {
+    super(scope, id);
+
+    const { environmentConfig, vpc, subnets } = props;
+    const databaseConfig =
+      environmentConfig.database ?? DEFAULT_DATABASE_CONFIG;
+    const envName = environmentConfig.name;
+    const retain = environmentConfig.retainStatefulResources ?? false;
+
+    // Security group with no ingress; consumers call allowConnectionsFrom
+    this.securityGroup = new ec2.SecurityGroup(this, "SecurityGroup", {
+      vpc,
+      description: `Aurora PostgreSQL cluster for ${envName} environment`,
+      allowAllOutbound: false,
+    });
+
+    // Reader instances scale with the writer so failover keeps capacity
+    const readers = Array.from(
+      { length: databaseConfig.readers ?? 0 },
+      (_, index) =>
+        rds.ClusterInstance.serverlessV2(`Reader${index + 1}`, {
+          scaleWithWriter: true,
+        }),
+    );
+
+    this.cluster = new rds.DatabaseCluster(this, "Cluster", {
+      engine: rds.DatabaseClusterEngine.auroraPostgres({
+        version: rds.AuroraPostgresEngineVersion.VER_16_6,
+      }),
+      credentials: rds.Credentials.fromGeneratedSecret(DATABASE_USERNAME, {
+        secretName: `comprehend/${envName}/database`,
+      }),
+      defaultDatabaseName: DATABASE_NAME,
+      writer: rds.ClusterInstance.serverlessV2("Writer"),
+      readers,
+      serverlessV2MinCapacity: databaseConfig.minCapacity,
+      serverlessV2MaxCapacity: databaseConfig.maxCapacity,
+      vpc,
+      vpcSubnets: { subnets },
+      securityGroups: [this.securityGroup],
+      storageEncrypted: true,
+      backup: {
+        retention: cdk.Duration.days(databaseConfig.backupRetentionDays),
+      },
+      deletionProtection: databaseConfig.deletionProtection ?? retain,
+      // Otherwise the cluster keeps its default of a final snapshot
+      removalPolicy: retain ? cdk.RemovalPolicy.RETAIN : undefined,
+    });
+
+    // The generated secret is always present when credentials are generated
+    this.secret = this.cluster.secret!;
+
+    // A retained cluster is useless without its master password. The
+    // cluster's secret is the target attachment; the generated secret
+    // itself is the cluster's "Secret" child
+    if (retain) {
+      (
+        this.cluster.node.findChild("Secret") as secretsmanager.Secret
+      ).applyRemovalPolicy(cdk.RemovalPolicy.RETAIN);
+    }
+
+    cdk.Tags.of(this.cluster).add("Name", `comprehend-${envName}-database`);
+  }
+
+  /**
+   * Allow a peer (e.g. a Lambda function) to connect on the database port
+   */
+  public allowConnectionsFrom(
+    peer: ec2.IConnectable,
+    description?: string,
+  ): void {
+    this.cluster.connections.allowDefaultPortFrom(peer, description);
+  }
+
+  /**
+   * Get the writer endpoint hostname
+   */
+  public getEndpoint(): string {
+    return this.cluster.clusterEndpoint.hostname;
+  }
+
+  /**
+   * Get the ARN of the credentials secret
+   */
+  public getSecretArn(): string {
+    return this.secret.secretArn;
+  }
+}
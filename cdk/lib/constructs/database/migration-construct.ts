@@ -0,0 +1,122 @@
+import * as path from "path";
+import { createHash } from "crypto";
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
+import * as cr from "aws-cdk-lib/custom-resources";
+import { Construct } from "constructs";
+import { DATABASE_FUNCTION_BUNDLING } from "./database-construct";
+import {
+  LATEST_MIGRATION_VERSION,
+  MIGRATIONS,
+} from "../../lambda/migrations/migrations";
+import { MigrationConstructProps } from "../../types";
+import { createFunctionLogGroup } from "../logging/logging-construct";
+
+/**
+ * Migration Construct for Comprehend Application
+ *
+ * Runs the versioned schema migrations in `lib/lambda/migrations` as a
+ * CloudFormation custom resource. Every deploy whose bundled migrations
+ * differ from the last one triggers an update, and the function applies only
+ * the versions missing from the `schema_migrations` table.
+ *
+ * Features:
+ * - Forward-only, versioned migrations recorded in the database
+ * - Runs inside the VPC with access to the cluster port only
+ * - Reads credentials from the cluster secret at run time
+ * - The function and the custom resource provider log to KMS-encrypted log
+ *   groups
+ * - Deploy fails (and rolls back) if a migration fails
+ */
+export class MigrationConstruct extends Construct {
+  /**
+   * Function that applies migrations
+   */
+  public readonly migrationFunction: nodejs.NodejsFunction;
+
+  /**
+   * Custom resource that triggers the function on deploy
+   */
+  public readonly resource: cdk.CustomResource;
+
+  constructor(scope: Construct, id: string, props: MigrationConstructProps) {
+    super(scope, id);
+
+    const {
+      environmentConfig,
+      vpc,
+      subnets,
+      cluster,
+      secret,
+      databaseName,
+      logsKey,
+    } = props;
+
+    const securityGroup = new ec2.SecurityGroup(this, "SecurityGroup", {
+      vpc,
+      description: `Schema migration function for ${environmentConfig.name} environment`,
+      allowAllOutbound: true,
+    });
+
+    this.migrationFunction = new nodejs.NodejsFunction(this, "Function", {
+      entry: path.join(__dirname, "../../lambda/migrations/handler.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 256,
+      vpc,
+      vpcSubnets: { subnets },
+      securityGroups: [securityGroup],
+      logGroup: createFunctionLogGroup(this, "FunctionLogGroup", logsKey),
+      environment: {
+        DB_SECRET_ARN: secret.secretArn,
+        DB_NAME: databaseName,
+      },
+      bundling: DATABASE_FUNCTION_BUNDLING,
+    });
+
+    secret.grantRead(this.migrationFunction);
+    cluster.connections.allowDefaultPortFrom(
+      this.migrationFunction,
+      "Schema migrations",
+    );
+
+    const provider = new cr.Provider(this, "Provider", {
+      onEventHandler: this.migrationFunction,
+      logGroup: createFunctionLogGroup(this, "ProviderLogGroup", logsKey),
+    });
+
+    // Changing any migration changes the properties, which triggers an update
+    this.resource = new cdk.CustomResource(this, "Schema", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::ComprehendSchema",
+      properties: {
+        LatestVersion: LATEST_MIGRATION_VERSION,
+        MigrationsChecksum: checksumMigrations(),
+      },
+    });
+
+    // Instances must exist before the schema can be applied
+    this.resource.node.addDependency(cluster);
+  }
+
+  /**
+   * Get the schema version reported by the last migration run
+   */
+  public getCurrentVersion(): string {
+    return this.resource.getAttString("CurrentVersion");
+  }
+}
+
+/**
+ * Hash of every bundled migration, used to detect changes between deploys
+ */
+function checksumMigrations(): string {
+  const hash = createHash("sha256");
+  MIGRATIONS.forEach((migration) => {
+    hash.update(`${migration.version}:${migration.name}:${migration.sql}`);
+  });
+  return hash.digest("hex");
+}
@@ -0,0 +1,63 @@
+import * as cdk from "aws-cdk-lib";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import { Construct } from "constructs";
+import { LoggingConstructProps } from "../../types";
+
+/**
+ * Creates an encrypted log group for a Lambda function
+ *
+ * Pass it as the function's `logGroup`; without one, Lambda writes to an
+ * unencrypted /aws/lambda/<function> group it creates itself.
+ *
+ * @param scope - Construct the log group is created under
+ * @param id - Construct ID of the log group
+ * @param logsKey - Key the log group is encrypted with
+ * @returns The log group
+ */
+export function createFunctionLogGroup(
+  scope: Construct,
+  id: string,
+  logsKey: kms.IKey,
+): logs.LogGroup {
+  return new logs.LogGroup(scope, id, { encryptionKey: logsKey });
+}
+
+/**
+ * Logging Construct for Comprehend Application
+ *
+ * Creates the KMS key the environment's function logs are encrypted with.
+ * Constructs that create functions give each one a log group from
+ * createFunctionLogGroup.
+ *
+ * Features:
+ * - Customer managed key (`alias/comprehend-{env}-logs`) with rotation
+ *   enabled
+ * - CloudWatch Logs allowed to use the key in the stack's region
+ */
+export class LoggingConstruct extends Construct {
+  /**
+   * Key function log groups are encrypted with
+   */
+  public readonly logsKey: kms.Key;
+
+  constructor(scope: Construct, id: string, props: LoggingConstructProps) {
+    super(scope, id);
+
+    const { environmentConfig } = props;
+
+    this.logsKey = new kms.Key(this, "LogsKey", {
+      description: `Function logs for ${environmentConfig.name} environment`,
+      alias: `alias/comprehend-${environmentConfig.name}-logs`,
+      enableKeyRotation: true,
+    });
+
+    // CloudWatch Logs checks it can use the key when a log group is created
+    this.logsKey.grantEncryptDecrypt(
+      new iam.ServicePrincipal(
+        `logs.${cdk.Stack.of(this).region}.amazonaws.com`,
+      ),
+    );
+  }
+}
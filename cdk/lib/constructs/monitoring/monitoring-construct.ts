@@ -0,0 +1,332 @@
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as cloudwatchActions from "aws-cdk-lib/aws-cloudwatch-actions";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import { Construct } from "constructs";
+import {
+  AlarmSubscription,
+  AlarmSubscriptionProtocol,
+  DEFAULT_ALARM_THRESHOLDS,
+  DEFAULT_MONITORING_CONFIG,
+  MonitoringConstructProps,
+} from "../../types";
+
+/**
+ * Period every alarm evaluates
+ */
+const ALARM_PERIOD = cdk.Duration.minutes(5);
+
+/**
+ * Consecutive periods a sustained-load alarm waits for (latency, CPU,
+ * connections)
+ */
+const SUSTAINED_PERIODS = 3;
+
+/**
+ * Creates the SNS subscription for each protocol
+ */
+const SUBSCRIPTIONS: Record<
+  AlarmSubscriptionProtocol,
+  (endpoint: string) => sns.ITopicSubscription
+> = {
+  email: (endpoint) => new subscriptions.EmailSubscription(endpoint),
+  sms: (endpoint) => new subscriptions.SmsSubscription(endpoint),
+  https: (endpoint) => new subscriptions.UrlSubscription(endpoint),
+};
+
+/**
+ * Monitoring Construct for Comprehend Application
+ *
+ * Creates the environment's CloudWatch dashboard and alarms. Alarms notify
+ * an SNS topic when they fire and when they recover; the topic delivers to
+ * the subscriptions in `environmentConfig.monitoring`.
+ *
+ * Features:
+ * - NAT gateway port allocation errors and bytes sent, per gateway
+ * - Lambda errors and throttles, per function
+ * - REST API 5xx errors and p99 latency
+ * - Database CPU utilization and connections
+ * - Thresholds configured per environment, falling back to
+ *   DEFAULT_ALARM_THRESHOLDS
+ * - Email, SMS and HTTPS subscriptions configured per environment
+ * - Dashboard with alarm status and a graph per metric
+ */
+export class MonitoringConstruct extends Construct {
+  /**
+   * Topic alarms notify
+   */
+  public readonly alarmTopic: sns.Topic;
+
+  /**
+   * Alarms, in dashboard order
+   */
+  public readonly alarms: cloudwatch.Alarm[] = [];
+
+  /**
+   * The environment's dashboard
+   */
+  public readonly dashboard: cloudwatch.Dashboard;
+
+  private readonly envName: string;
+
+  constructor(scope: Construct, id: string, props: MonitoringConstructProps) {
+    super(scope, id);
+
+    const { environmentConfig, natGatewayIds, functions, restApi, cluster } =
+      props;
+    const monitoringConfig =
+      environmentConfig.monitoring ?? DEFAULT_MONITORING_CONFIG;
+    const thresholds = {
+      ...DEFAULT_ALARM_THRESHOLDS,
+      ...monitoringConfig.thresholds,
+    };
+    this.envName = environmentConfig.name;
+
+    this.alarmTopic = new sns.Topic(this, "AlarmTopic", {
+      topicName: `comprehend-${this.envName}-alarms`,
+      displayName: `Comprehend ${this.envName} alarms`,
+    });
+    this.subscribe(monitoringConfig.subscriptions ?? []);
+
+    // Without recipients prod alarms go unnoticed; validation requires them
+    // once prod has an account, so this covers environment-agnostic synths
+    const tier = environmentConfig.tier ?? environmentConfig.name;
+    if (
+      tier === "prod" &&
+      (monitoringConfig.subscriptions ?? []).length === 0
+    ) {
+      cdk.Annotations.of(this).addWarningV2(
+        "comprehend:no-alarm-subscriptions",
+        `Alarms for ${this.envName} notify nobody; add monitoring.subscriptions to its config file`,
+      );
+    }
+
+    const widgets: cloudwatch.IWidget[] = [];
+
+    // NAT gateways
+    if (natGatewayIds.length > 0) {
+      const natMetric = (metricName: string, gatewayId: string) =>
+        new cloudwatch.Metric({
+          namespace: "AWS/NATGateway",
+          metricName,
+          dimensionsMap: { NatGatewayId: gatewayId },
+          statistic: cloudwatch.Stats.SUM,
+          period: ALARM_PERIOD,
+        });
+      const errorMetrics: Record<string, cloudwatch.Metric> = {};
+      const bytesMetrics: Record<string, cloudwatch.Metric> = {};
+      const bytesThreshold = thresholds.natBytesOutGb * 1024 ** 3;
+
+      natGatewayIds.forEach((gatewayId, index) => {
+        const label = `NAT ${index + 1}`;
+        errorMetrics[label] = natMetric("ErrorPortAllocation", gatewayId);
+        bytesMetrics[label] = natMetric("BytesOutToDestination", gatewayId);
+        this.addAlarm(
+          `Nat${index + 1}PortAllocationErrors`,
+          errorMetrics[label],
+          {
+            threshold: thresholds.natPortAllocationErrors,
+            description: `NAT gateway ${index + 1} is refusing connections (port allocation errors)`,
+          },
+        );
+        this.addAlarm(`Nat${index + 1}BytesOut`, bytesMetrics[label], {
+          threshold: bytesThreshold,
+          description: `NAT gateway ${index + 1} sent over ${thresholds.natBytesOutGb} GB in ${ALARM_PERIOD.toMinutes()} minutes`,
+        });
+      });
+      widgets.push(
+        graph(
+          "NAT gateway port allocation errors",
+          errorMetrics,
+          thresholds.natPortAllocationErrors,
+        ),
+        graph(
+          "NAT gateway bytes to destinations",
+          bytesMetrics,
+          bytesThreshold,
+        ),
+      );
+    }
+
+    // Lambda functions
+    const errorMetrics: Record<string, cloudwatch.Metric> = {};
+    const throttleMetrics: Record<string, cloudwatch.Metric> = {};
+    Object.entries(functions).forEach(([name, fn]) => {
+      errorMetrics[name] = fn.metricErrors({
+        period: ALARM_PERIOD,
+        statistic: cloudwatch.Stats.SUM,
+      });
+      throttleMetrics[name] = fn.metricThrottles({
+        period: ALARM_PERIOD,
+        statistic: cloudwatch.Stats.SUM,
+      });
+      this.addAlarm(`${name}Errors`, errorMetrics[name], {
+        threshold: thresholds.lambdaErrors,
+        description: `${name} function errors`,
+      });
+      this.addAlarm(`${name}Throttles`, throttleMetrics[name], {
+        threshold: thresholds.lambdaThrottles,
+        description: `${name} function invocations are being throttled`,
+      });
+    });
+    widgets.push(
+      graph("Lambda errors", errorMetrics, thresholds.lambdaErrors),
+      graph("Lambda throttles", throttleMetrics, thresholds.lambdaThrottles),
+    );
+
+    // REST API
+    const serverErrors = restApi.metricServerError({
+      period: ALARM_PERIOD,
+      statistic: cloudwatch.Stats.SUM,
+    });
+    const latency = restApi.metricLatency({
+      period: ALARM_PERIOD,
+      statistic: cloudwatch.Stats.p(99),
+    });
+    this.addAlarm("Api5xxErrors", serverErrors, {
+      threshold: thresholds.api5xxErrors,
+      description: "REST API 5xx responses",
+    });
+    this.addAlarm("ApiLatency", latency, {
+      threshold: thresholds.apiLatencyMs,
+      evaluationPeriods: SUSTAINED_PERIODS,
+      description: `REST API p99 latency above ${thresholds.apiLatencyMs} ms`,
+    });
+    widgets.push(
+      graph("API 5xx errors", { "5xx": serverErrors }, thresholds.api5xxErrors),
+      graph("API latency (ms)", { p99: latency }, thresholds.apiLatencyMs),
+    );
+
+    // Database
+    const cpu = cluster.metricCPUUtilization({
+      period: ALARM_PERIOD,
+    });
+    const connections = cluster.metricDatabaseConnections({
+      period: ALARM_PERIOD,
+      statistic: cloudwatch.Stats.MAXIMUM,
+    });
+    this.addAlarm("DatabaseCpu", cpu, {
+      threshold: thresholds.databaseCpuPercent,
+      evaluationPeriods: SUSTAINED_PERIODS,
+      description: `Database CPU above ${thresholds.databaseCpuPercent}%`,
+    });
+    this.addAlarm("DatabaseConnections", connections, {
+      threshold: thresholds.databaseConnections,
+      evaluationPeriods: SUSTAINED_PERIODS,
+      description: `Over ${thresholds.databaseConnections} database connections`,
+    });
+    widgets.push(
+      graph(
+        "Database CPU utilization",
+        { "CPU %": cpu },
+        thresholds.databaseCpuPercent,
+      ),
+      graph(
+        "Database connections",
+        { Connections: connections },
+        thresholds.databaseConnections,
+      ),
+    );
+
+    this.dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
+      dashboardName: `comprehend-${this.envName}`,
+      defaultInterval: cdk.Duration.hours(3),
+      widgets: [
+        [
+          new cloudwatch.AlarmStatusWidget({
+            title: "Alarms",
+            alarms: this.alarms,
+            width: 24,
+          }),
+        ],
+        ...pairs(widgets),
+      ],
+    });
+  }
+
+  /**
+   * Subscribes each configured recipient to the alarm topic
+   */
+  private subscribe(recipients: AlarmSubscription[]): void {
+    recipients.forEach(({ protocol, endpoint }) =>
+      this.alarmTopic.addSubscription(SUBSCRIPTIONS[protocol](endpoint)),
+    );
+  }
+
+  /**
+   * Adds an alarm that notifies the topic when it fires and recovers
+   * Missing data (e.g. no invocations) counts as healthy
+   */
+  private addAlarm(
+    id: string,
+    metric: cloudwatch.IMetric,
+    options: {
+      threshold: number;
+      description: string;
+      evaluationPeriods?: number;
+    },
+  ): void {
+    const alarm = new cloudwatch.Alarm(this, `${id}Alarm`, {
+      alarmName: `comprehend-${this.envName}-${kebabCase(id)}`,
+      alarmDescription: `${options.description} (${this.envName})`,
+      metric,
+      threshold: options.threshold,
+      evaluationPeriods: options.evaluationPeriods ?? 1,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+    const action = new cloudwatchActions.SnsAction(this.alarmTopic);
+    alarm.addAlarmAction(action);
+    alarm.addOkAction(action);
+    this.alarms.push(alarm);
+  }
+
+  /**
+   * Get the ARN of the alarm topic
+   */
+  public getAlarmTopicArn(): string {
+    return this.alarmTopic.topicArn;
+  }
+}
+
+/**
+ * A half-width graph of labelled metrics with the alarm threshold drawn on it
+ * Labels are only set here; alarms on labelled metrics render as metric math
+ */
+function graph(
+  title: string,
+  metrics: Record<string, cloudwatch.Metric>,
+  threshold: number,
+): cloudwatch.GraphWidget {
+  return new cloudwatch.GraphWidget({
+    title,
+    left: Object.entries(metrics).map(([label, metric]) =>
+      metric.with({ label }),
+    ),
+    leftAnnotations: [{ value: threshold, label: "Alarm threshold" }],
+    width: 12,
+  });
+}
+
+/**
+ * Groups widgets into dashboard rows of two
+ */
+function pairs(widgets: cloudwatch.IWidget[]): cloudwatch.IWidget[][] {
+  const rows: cloudwatch.IWidget[][] = [];
+  for (let i = 0; i < widgets.length; i += 2) {
+    rows.push(widgets.slice(i, i + 2));
+  }
+  return rows;
+}
+
+/**
+ * Nat1BytesOut becomes nat1-bytes-out
+ */
+function kebabCase(id: string): string {
+  return id
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1-$2")
+    .toLowerCase();
+}
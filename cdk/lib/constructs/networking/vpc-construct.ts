@@ -1,12 +1,83 @@
 import * as cdk from "aws-cdk-lib";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
-import { VpcConstructProps } from "../../types";
+import { retireExport } from "../../exports/export-registry";
+import {
+  DEFAULT_FLOW_LOGS_CONFIG,
+  DEFAULT_SUBNET_TIERS,
+  DEFAULT_VPC_ENDPOINTS_CONFIG,
+  FlowLogTrafficType,
+  FlowLogsConfig,
+  InterfaceEndpointService,
+  NAT_GATEWAYS_DISABLED,
+  SubnetTierType,
+  VpcConstructProps,
+} from "../../types";
+
+/**
+ * Maps the environment traffic type onto the EC2 setting
+ */
+const TRAFFIC_TYPES: Record<FlowLogTrafficType, ec2.FlowLogTrafficType> = {
+  ALL: ec2.FlowLogTrafficType.ALL,
+  ACCEPT: ec2.FlowLogTrafficType.ACCEPT,
+  REJECT: ec2.FlowLogTrafficType.REJECT,
+};
+
+/**
+ * Maps a subnet tier type onto the EC2 subnet type
+ * Private tiers fall back to isolated when there are no NAT gateways
+ */
+function toSubnetType(
+  type: SubnetTierType,
+  enableNatGateways: boolean,
+): ec2.SubnetType {
+  switch (type) {
+    case "public":
+      return ec2.SubnetType.PUBLIC;
+    case "private":
+      return enableNatGateways
+        ? ec2.SubnetType.PRIVATE_WITH_EGRESS
+        : ec2.SubnetType.PRIVATE_ISOLATED;
+    case "isolated":
+      return ec2.SubnetType.PRIVATE_ISOLATED;
+  }
+}
+
+/**
+ * Construct IDs and AWS services for each interface endpoint
+ */
+const INTERFACE_ENDPOINTS: Record<
+  InterfaceEndpointService,
+  { id: string; service: ec2.InterfaceVpcEndpointAwsService }
+> = {
+  secretsmanager: {
+    id: "SecretsManagerEndpoint",
+    service: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+  },
+  "bedrock-runtime": {
+    id: "BedrockRuntimeEndpoint",
+    service: ec2.InterfaceVpcEndpointAwsService.BEDROCK_RUNTIME,
+  },
+  logs: {
+    id: "LogsEndpoint",
+    service: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+  },
+  sts: {
+    id: "StsEndpoint",
+    service: ec2.InterfaceVpcEndpointAwsService.STS,
+  },
+};
 
 /**
  * VPC Construct for Comprehend Application
  *
- * Creates a VPC with public and private subnets across multiple availability zones.
+ * Creates a VPC with tiers of public, private and isolated subnets across
+ * multiple availability zones.
  * Supports environment-specific configuration including NAT gateway enablement
  * for cost optimization in development environments.
  *
@@ -14,8 +85,16 @@ import { VpcConstructProps } from "../../types";
  * - Configurable CIDR block per environment
  * - Public subnets with Internet Gateway
  * - Private subnets with optional NAT Gateways
+ * - Subnet tiers (name, routing, mask, reserved space) set per environment
+ * - Optional isolated data tier for the database
  * - Multi-AZ deployment for high availability
  * - Environment-specific resource naming and tagging
+ * - VPC and subnets retained when removed from the stack, if the
+ *   environment retains stateful resources
+ * - Optional VPC Flow Logs to CloudWatch Logs or S3, encrypted with a
+ *   customer managed KMS key
+ * - Optional S3 and DynamoDB gateway endpoints plus interface endpoints for
+ *   the AWS APIs the backend calls, so isolated subnets can reach them
  */
 export class VpcConstruct extends Construct {
   /**
@@ -29,10 +108,16 @@ export class VpcConstruct extends Construct {
   public readonly publicSubnets: ec2.ISubnet[];
 
   /**
-   * Private subnets (internal)
+   * Private subnets (internal) for the backend functions
    */
   public readonly privateSubnets: ec2.ISubnet[];
 
+  /**
+   * Subnets for the database: the isolated tiers, or the private subnets
+   * when the environment has no isolated tier
+   */
+  public readonly databaseSubnets: ec2.ISubnet[];
+
   /**
    * Availability zones used
    */
@@ -43,10 +128,54 @@ export class VpcConstruct extends Construct {
    */
   public readonly natGatewayIps: string[];
 
+  /**
+   * NAT gateway IDs (empty if NAT gateways disabled)
+   */
+  public readonly natGatewayIds: string[];
+
+  /**
+   * VPC flow log (undefined if flow logs are disabled)
+   */
+  public readonly flowLog?: ec2.FlowLog;
+
+  /**
+   * KMS key encrypting the flow log destination
+   */
+  public readonly flowLogsKey?: kms.Key;
+
+  /**
+   * Log group receiving flow logs when the destination is CloudWatch Logs
+   */
+  public readonly flowLogGroup?: logs.LogGroup;
+
+  /**
+   * Bucket receiving flow logs when the destination is S3
+   */
+  public readonly flowLogsBucket?: s3.Bucket;
+
+  /**
+   * Security group shared by the interface endpoints (undefined if VPC
+   * endpoints are disabled)
+   */
+  public readonly endpointSecurityGroup?: ec2.SecurityGroup;
+
+  /**
+   * S3 and DynamoDB gateway endpoints (empty if VPC endpoints are disabled)
+   */
+  public readonly gatewayEndpoints: ec2.GatewayVpcEndpoint[] = [];
+
+  /**
+   * Interface endpoints by service
+   */
+  public readonly interfaceEndpoints: Partial<
+    Record<InterfaceEndpointService, ec2.InterfaceVpcEndpoint>
+  > = {};
+
   constructor(scope: Construct, id: string, props: VpcConstructProps) {
     super(scope, id);
 
     const { environmentConfig } = props;
+    const tiers = environmentConfig.subnets ?? DEFAULT_SUBNET_TIERS;
 
     // Calculate subnet configuration
     const maxAzs = environmentConfig.maxAzs;
@@ -61,22 +190,17 @@ export class VpcConstruct extends Construct {
       enableDnsHostnames: true,
       enableDnsSupport: true,
 
-      // Define subnet configuration
-      subnetConfiguration: [
-        {
-          name: "Public",
-          subnetType: ec2.SubnetType.PUBLIC,
-          cidrMask: 24,
-          mapPublicIpOnLaunch: true,
-        },
-        {
-          name: "Private",
-          subnetType: environmentConfig.enableNatGateways
-            ? ec2.SubnetType.PRIVATE_WITH_EGRESS
-            : ec2.SubnetType.PRIVATE_ISOLATED,
-          cidrMask: 23,
-        },
-      ],
+      // Define subnet configuration; tiers are allocated in order
+      subnetConfiguration: tiers.map((tier) => ({
+        name: tier.name,
+        subnetType: toSubnetType(
+          tier.type,
+          environmentConfig.enableNatGateways,
+        ),
+        cidrMask: tier.cidrMask,
+        reserved: tier.reserved,
+        mapPublicIpOnLaunch: tier.type === "public" ? true : undefined,
+      })),
 
       // NAT gateway configuration
       natGateways: natGateways,
@@ -85,28 +209,55 @@ export class VpcConstruct extends Construct {
       createInternetGateway: true,
     });
 
-    // Extract subnets
-    this.publicSubnets = this.vpc.publicSubnets;
-    this.privateSubnets = this.vpc.privateSubnets.concat(
-      this.vpc.isolatedSubnets,
-    );
+    // Extract subnets by tier; reserved tiers have none
+    const subnetsOf = (type: SubnetTierType): ec2.ISubnet[] =>
+      tiers
+        .filter((tier) => tier.type === type && !tier.reserved)
+        .flatMap(
+          (tier) =>
+            this.vpc.selectSubnets({ subnetGroupName: tier.name }).subnets,
+        );
+    this.publicSubnets = subnetsOf("public");
+    this.privateSubnets = subnetsOf("private");
+    const isolatedSubnets = subnetsOf("isolated");
+    this.databaseSubnets =
+      isolatedSubnets.length > 0 ? isolatedSubnets : this.privateSubnets;
     this.availabilityZones = this.vpc.availabilityZones;
 
-    // Extract NAT gateway IPs if enabled
-    this.natGatewayIps = [];
-    if (environmentConfig.enableNatGateways) {
-      // NAT gateway IPs are available through the VPC's NAT gateway provider
-      // For now, we'll collect them from the public subnets
-      this.publicSubnets.forEach((subnet, index) => {
-        if (index < natGateways) {
-          // NAT gateway EIP will be created automatically by CDK
-          // We'll expose the reference for stack outputs
-          const natGatewayId = `NatGateway${index + 1}`;
-          this.natGatewayIps.push(natGatewayId);
-        }
-      });
+    // With @aws-cdk/aws-ec2:restrictDefaultSecurityGroup the VPC clears the
+    // default security group's rules through a CDK-owned function, which
+    // cannot be given a log group
+    const restrictDefaultSecurityGroupProvider = cdk.Stack.of(
+      this,
+    ).node.tryFindChild("Custom::VpcRestrictDefaultSGCustomResourceProvider");
+    if (restrictDefaultSecurityGroupProvider) {
+      NagSuppressions.addResourceSuppressions(
+        restrictDefaultSecurityGroupProvider,
+        [
+          {
+            id: "Comprehend-EncryptedFunctionLogs",
+            reason:
+              "CDK-owned function that only revokes the default security group's rules",
+          },
+        ],
+        true,
+      );
     }
 
+    // The VPC gives each NAT gateway an Elastic IP in the public subnet
+    // hosting it
+    this.natGatewayIps = this.publicSubnets
+      .map((subnet) => subnet.node.tryFindChild("EIP"))
+      .filter((eip): eip is ec2.CfnEIP => eip instanceof ec2.CfnEIP)
+      .map((eip) => eip.attrPublicIp);
+    this.natGatewayIds = this.publicSubnets
+      .map((subnet) => subnet.node.tryFindChild("NATGateway"))
+      .filter(
+        (gateway): gateway is ec2.CfnNatGateway =>
+          gateway instanceof ec2.CfnNatGateway,
+      )
+      .map((gateway) => gateway.ref);
+
     // Apply tags to VPC and all subnets
     cdk.Tags.of(this.vpc).add(
       "Name",
@@ -122,22 +273,20 @@ export class VpcConstruct extends Construct {
     );
     cdk.Tags.of(this.vpc).add("ManagedBy", environmentConfig.tags.ManagedBy);
 
-    // Tag subnets with their type
-    this.publicSubnets.forEach((subnet, index) => {
-      cdk.Tags.of(subnet).add(
-        "Name",
-        `comprehend-${environmentConfig.name}-public-${index + 1}`,
-      );
-      cdk.Tags.of(subnet).add("SubnetType", "Public");
-    });
-
-    this.privateSubnets.forEach((subnet, index) => {
-      cdk.Tags.of(subnet).add(
-        "Name",
-        `comprehend-${environmentConfig.name}-private-${index + 1}`,
-      );
-      cdk.Tags.of(subnet).add("SubnetType", "Private");
-    });
+    // Tag subnets with their tier
+    tiers
+      .filter((tier) => !tier.reserved)
+      .forEach((tier) => {
+        this.vpc
+          .selectSubnets({ subnetGroupName: tier.name })
+          .subnets.forEach((subnet, index) => {
+            cdk.Tags.of(subnet).add(
+              "Name",
+              `comprehend-${environmentConfig.name}-${tier.name.toLowerCase()}-${index + 1}`,
+            );
+            cdk.Tags.of(subnet).add("SubnetType", tier.name);
+          });
+      });
 
     // Add additional custom tags if provided
     Object.entries(environmentConfig.tags).forEach(([key, value]) => {
@@ -146,21 +295,137 @@ export class VpcConstruct extends Construct {
       }
     });
 
-    // Output information for debugging
-    new cdk.CfnOutput(this, "VpcIdOutput", {
-      value: this.vpc.vpcId,
-      description: `VPC ID for ${environmentConfig.name} environment`,
-      exportName: `${environmentConfig.name}-VpcId-Construct`,
-    });
+    // Keep the network if a refactor drops it from the template; replacing
+    // it would replace every subnet, endpoint and database in it
+    if (environmentConfig.retainStatefulResources) {
+      this.vpc.applyRemovalPolicy(cdk.RemovalPolicy.RETAIN);
+      [
+        ...this.vpc.publicSubnets,
+        ...this.vpc.privateSubnets,
+        ...this.vpc.isolatedSubnets,
+      ].forEach((subnet) =>
+        subnet.applyRemovalPolicy(cdk.RemovalPolicy.RETAIN),
+      );
+    }
 
-    new cdk.CfnOutput(this, "VpcCidrOutput", {
-      value: this.vpc.vpcCidrBlock,
-      description: `VPC CIDR block for ${environmentConfig.name} environment`,
-    });
+    if (props.enableFlowLogs) {
+      const flowLogsConfig: FlowLogsConfig = {
+        ...DEFAULT_FLOW_LOGS_CONFIG,
+        ...environmentConfig.flowLogs,
+      };
+      const retentionDays =
+        flowLogsConfig.retentionDays ?? DEFAULT_FLOW_LOGS_CONFIG.retentionDays!;
+
+      this.flowLogsKey = new kms.Key(this, "FlowLogsKey", {
+        description: `VPC flow logs for ${environmentConfig.name} environment`,
+        alias: `alias/comprehend-${environmentConfig.name}-flow-logs`,
+        enableKeyRotation: true,
+      });
+
+      let destination: ec2.FlowLogDestination;
+      if (flowLogsConfig.destination === "s3") {
+        this.flowLogsBucket = new s3.Bucket(this, "FlowLogsBucket", {
+          encryption: s3.BucketEncryption.KMS,
+          encryptionKey: this.flowLogsKey,
+          bucketKeyEnabled: true,
+          blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+          enforceSSL: true,
+          lifecycleRules: [{ expiration: cdk.Duration.days(retentionDays) }],
+        });
+        // The log delivery service writes objects with the bucket key
+        this.flowLogsKey.grant(
+          new iam.ServicePrincipal("delivery.logs.amazonaws.com"),
+          "kms:Encrypt",
+          "kms:Decrypt",
+          "kms:ReEncrypt*",
+          "kms:GenerateDataKey*",
+          "kms:DescribeKey",
+        );
+        destination = ec2.FlowLogDestination.toS3(this.flowLogsBucket);
+      } else {
+        // CloudWatch Logs checks it can use the key when the log group is
+        // created
+        this.flowLogsKey.grantEncryptDecrypt(
+          new iam.ServicePrincipal(
+            `logs.${cdk.Stack.of(this).region}.amazonaws.com`,
+          ),
+        );
+        this.flowLogGroup = new logs.LogGroup(this, "FlowLogGroup", {
+          logGroupName: `/comprehend/${environmentConfig.name}/vpc-flow-logs`,
+          encryptionKey: this.flowLogsKey,
+          retention: retentionDays as logs.RetentionDays,
+        });
+        destination = ec2.FlowLogDestination.toCloudWatchLogs(
+          this.flowLogGroup,
+        );
+      }
+
+      this.flowLog = this.vpc.addFlowLog("FlowLog", {
+        destination,
+        trafficType: TRAFFIC_TYPES[flowLogsConfig.trafficType ?? "ALL"],
+        logFormat: flowLogsConfig.logFormat?.map((field) =>
+          ec2.LogFormat.field(field),
+        ),
+      });
+    }
+
+    if (props.enableVpcEndpoints) {
+      const endpointsConfig = {
+        ...DEFAULT_VPC_ENDPOINTS_CONFIG,
+        ...environmentConfig.vpcEndpoints,
+      };
 
-    new cdk.CfnOutput(this, "AvailabilityZonesOutput", {
-      value: this.availabilityZones.join(", "),
-      description: `Availability zones used in ${environmentConfig.name} environment`,
+      // Gateway endpoints add routes to every route table and cost nothing
+      this.gatewayEndpoints.push(
+        this.vpc.addGatewayEndpoint("S3Endpoint", {
+          service: ec2.GatewayVpcEndpointAwsService.S3,
+        }),
+        this.vpc.addGatewayEndpoint("DynamoDbEndpoint", {
+          service: ec2.GatewayVpcEndpointAwsService.DYNAMODB,
+        }),
+      );
+
+      const services = endpointsConfig.interfaceEndpoints ?? [];
+      if (services.length > 0) {
+        // One group for all interface endpoints: HTTPS from inside the VPC
+        const securityGroup = new ec2.SecurityGroup(
+          this,
+          "EndpointSecurityGroup",
+          {
+            vpc: this.vpc,
+            description: `VPC interface endpoints for ${environmentConfig.name} environment`,
+            allowAllOutbound: false,
+          },
+        );
+        securityGroup.addIngressRule(
+          ec2.Peer.ipv4(this.vpc.vpcCidrBlock),
+          ec2.Port.tcp(443),
+          "HTTPS from within the VPC",
+        );
+        this.endpointSecurityGroup = securityGroup;
+
+        services.forEach((name) => {
+          const { id: endpointId, service } = INTERFACE_ENDPOINTS[name];
+          this.interfaceEndpoints[name] = this.vpc.addInterfaceEndpoint(
+            endpointId,
+            {
+              service,
+              subnets: { subnets: this.privateSubnets, onePerAz: true },
+              securityGroups: [securityGroup],
+              // Lets SDKs keep using the public service hostnames
+              privateDnsEnabled: true,
+            },
+          );
+        });
+      }
+    }
+
+    // VPC values are exported by the stack (see ComprehendStackOutputs).
+    // This export duplicated VpcId and is kept only until nothing imports it
+    retireExport(this, "VpcIdOutput", {
+      exportName: `${environmentConfig.name}-VpcId-Construct`,
+      value: this.vpc.vpcId,
+      replacement: `${environmentConfig.name}-VpcId`,
     });
   }
 
@@ -186,12 +451,12 @@ export class VpcConstruct extends Construct {
   }
 
   /**
-   * Get NAT gateway IPs as comma-separated string
-   * Returns "disabled" when NAT gateways are not enabled
+   * Get NAT gateway Elastic IPs as comma-separated string
+   * Returns NAT_GATEWAYS_DISABLED when NAT gateways are not enabled
    */
   public getNatGatewayIpsString(): string {
     return this.natGatewayIps.length > 0
       ? this.natGatewayIps.join(",")
-      : "disabled";
+      : NAT_GATEWAYS_DISABLED;
   }
 }
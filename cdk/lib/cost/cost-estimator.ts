@@ -0,0 +1,408 @@
+import * as cdk from "aws-cdk-lib";
+import { ComprehendStack } from "../stacks/comprehend-stack";
+import { FlowLogTrafficType } from "../types";
+import {
+  DEFAULT_USAGE_ASSUMPTIONS,
+  PRICE_TABLE,
+  PriceTable,
+  UsageAssumptions,
+} from "./price-table";
+
+/**
+ * Cost center of resources without a CostCenter tag
+ */
+export const UNTAGGED_COST_CENTER = "Untagged";
+
+/**
+ * Usage-priced services the estimate leaves out
+ */
+export const UNESTIMATED_SERVICES = [
+  "Lambda",
+  "API Gateway",
+  "Cognito",
+  "Bedrock",
+  "Secrets Manager",
+  "KMS",
+  "CloudWatch",
+  "SNS",
+];
+
+/**
+ * Monthly cost of one billable resource
+ */
+export interface CostLineItem {
+  /**
+   * Logical ID of the resource in the template
+   */
+  readonly logicalId: string;
+
+  /**
+   * CloudFormation resource type
+   */
+  readonly resourceType: string;
+
+  /**
+   * What is billed (e.g. 'NAT gateway: 730 h, 50 GB processed')
+   */
+  readonly description: string;
+
+  /**
+   * Value of the resource's CostCenter tag
+   */
+  readonly costCenter: string;
+
+  /**
+   * Estimated monthly cost
+   */
+  readonly monthlyCost: number;
+}
+
+/**
+ * Monthly cost estimate for one environment
+ */
+export interface CostEstimate {
+  /**
+   * Environment the estimate is for
+   */
+  readonly environmentName: string;
+
+  /**
+   * Version of the price table used
+   */
+  readonly priceTableVersion: string;
+
+  /**
+   * Currency of every amount
+   */
+  readonly currency: string;
+
+  /**
+   * Billable resources, in template order
+   */
+  readonly lineItems: CostLineItem[];
+
+  /**
+   * Monthly cost per CostCenter tag value
+   */
+  readonly byCostCenter: Record<string, number>;
+
+  /**
+   * Total monthly cost
+   */
+  readonly total: number;
+}
+
+/**
+ * Options for the cost estimate
+ */
+export interface CostEstimateOptions {
+  /**
+   * Prices to use
+   *
+   * @default PRICE_TABLE
+   */
+  readonly priceTable?: PriceTable;
+
+  /**
+   * Usage of volume-billed resources
+   *
+   * @default DEFAULT_USAGE_ASSUMPTIONS
+   */
+  readonly usage?: UsageAssumptions;
+}
+
+/**
+ * Synthesized CloudFormation template, as far as the estimate reads it
+ */
+export interface CostTemplate {
+  readonly Resources?: Record<string, TemplateResource>;
+}
+
+interface TemplateResource {
+  readonly Type: string;
+  readonly Properties?: TemplateProperties;
+}
+
+/**
+ * Properties read from the priced resource types
+ */
+interface TemplateProperties {
+  readonly Tags?: { Key: string; Value: string }[];
+  readonly VpcEndpointType?: string;
+  readonly ServiceName?: unknown;
+  readonly SubnetIds?: unknown[];
+  readonly DBClusterIdentifier?: unknown;
+  readonly DBInstanceClass?: string;
+  readonly ServerlessV2ScalingConfiguration?: { MinCapacity?: number };
+  readonly TrafficType?: FlowLogTrafficType;
+  readonly LogDestinationType?: string;
+  readonly LogGroupName?: unknown;
+  readonly LogDestination?: unknown;
+  readonly RetentionInDays?: number;
+  readonly LifecycleConfiguration?: { Rules?: { ExpirationInDays?: number }[] };
+}
+
+/**
+ * What a pricer bills for a resource
+ */
+interface PricedItem {
+  readonly description: string;
+  readonly monthlyCost: number;
+}
+
+/**
+ * Prices one resource type; undefined when the resource is free
+ */
+type Pricer = (
+  properties: TemplateProperties,
+  template: CostTemplate,
+  prices: PriceTable,
+  usage: UsageAssumptions,
+) => PricedItem | undefined;
+
+const PRICERS: Record<string, Pricer> = {
+  "AWS::EC2::NatGateway": (_properties, _template, prices, usage) => ({
+    description: `NAT gateway: ${prices.hoursPerMonth} h, ${usage.natGatewayDataGb} GB processed`,
+    monthlyCost:
+      prices.hoursPerMonth * prices.natGatewayHour +
+      usage.natGatewayDataGb * prices.natGatewayDataGb,
+  }),
+
+  "AWS::EC2::EIP": (_properties, _template, prices) => ({
+    description: `Elastic IP: ${prices.hoursPerMonth} h`,
+    monthlyCost: prices.hoursPerMonth * prices.publicIpv4Hour,
+  }),
+
+  // Gateway endpoints (S3, DynamoDB) are free
+  "AWS::EC2::VPCEndpoint": (properties, _template, prices, usage) => {
+    if (properties.VpcEndpointType !== "Interface") {
+      return undefined;
+    }
+    const azs = properties.SubnetIds?.length ?? 1;
+    return {
+      description: `Interface endpoint (${endpointService(properties.ServiceName)}): ${azs} AZs × ${prices.hoursPerMonth} h, ${usage.interfaceEndpointDataGb} GB processed`,
+      monthlyCost:
+        azs * prices.hoursPerMonth * prices.interfaceEndpointAzHour +
+        usage.interfaceEndpointDataGb * prices.interfaceEndpointDataGb,
+    };
+  },
+
+  "AWS::RDS::DBInstance": (properties, template, prices) => {
+    const instanceClass = properties.DBInstanceClass ?? "";
+    if (instanceClass === "db.serverless") {
+      const cluster = referencedResource(
+        template,
+        properties.DBClusterIdentifier,
+      );
+      const acus =
+        cluster?.Properties?.ServerlessV2ScalingConfiguration?.MinCapacity ??
+        0.5;
+      return {
+        description: `Aurora Serverless v2 instance: ${acus} ACU × ${prices.hoursPerMonth} h`,
+        monthlyCost:
+          acus * prices.hoursPerMonth * prices.auroraServerlessAcuHour,
+      };
+    }
+
+    const hourly = prices.auroraInstanceHour[instanceClass];
+    if (hourly === undefined) {
+      throw new Error(
+        `No price for RDS instance class ${instanceClass} in price table ${prices.version}`,
+      );
+    }
+    return {
+      description: `Aurora ${instanceClass} instance: ${prices.hoursPerMonth} h`,
+      monthlyCost: prices.hoursPerMonth * hourly,
+    };
+  },
+
+  "AWS::RDS::DBCluster": (_properties, _template, prices, usage) => ({
+    description: `Aurora storage: ${usage.databaseStorageGb} GB`,
+    monthlyCost: usage.databaseStorageGb * prices.auroraStorageGbMonth,
+  }),
+
+  // Records are billed on delivery and kept for the destination's retention
+  "AWS::EC2::FlowLog": (properties, template, prices, usage) => {
+    const trafficType = properties.TrafficType ?? "ALL";
+    const volumeGb = usage.flowLogGb[trafficType];
+
+    if (properties.LogDestinationType === "s3") {
+      const bucket = referencedResource(template, properties.LogDestination);
+      const retentionDays =
+        bucket?.Properties?.LifecycleConfiguration?.Rules?.find(
+          (rule) => rule.ExpirationInDays !== undefined,
+        )?.ExpirationInDays ?? 30;
+      return {
+        description: `Flow logs (${trafficType} to S3): ${volumeGb} GB/month, ${retentionDays}-day retention`,
+        monthlyCost:
+          volumeGb * prices.s3LogDeliveryGb +
+          ((volumeGb * retentionDays) / 30) * prices.s3StorageGbMonth,
+      };
+    }
+
+    const logGroup = referencedResource(template, properties.LogGroupName);
+    const retentionDays = logGroup?.Properties?.RetentionInDays ?? 30;
+    return {
+      description: `Flow logs (${trafficType} to CloudWatch Logs): ${volumeGb} GB/month, ${retentionDays}-day retention`,
+      monthlyCost:
+        volumeGb * prices.cloudWatchLogsIngestionGb +
+        ((volumeGb * retentionDays) / 30) * prices.cloudWatchLogsStorageGbMonth,
+    };
+  },
+};
+
+/**
+ * Estimates the monthly cost of a synthesized template
+ *
+ * Counts the resources with a fixed hourly price (NAT gateways, Elastic
+ * IPs, interface endpoints, Aurora instances) and prices volume-billed ones
+ * (NAT and endpoint data, flow logs, Aurora storage) from usage
+ * assumptions. Services billed purely by requests are not included; see
+ * UNESTIMATED_SERVICES.
+ *
+ * @param environmentName - Environment the template belongs to
+ * @param template - Synthesized CloudFormation template
+ * @param options - Price table and usage assumptions
+ * @returns Line items, per-cost-center totals and the overall total
+ * @throws Error if an RDS instance class has no price in the table
+ */
+export function estimateTemplateCost(
+  environmentName: string,
+  template: CostTemplate,
+  options: CostEstimateOptions = {},
+): CostEstimate {
+  const prices = options.priceTable ?? PRICE_TABLE;
+  const usage = options.usage ?? DEFAULT_USAGE_ASSUMPTIONS;
+
+  const lineItems: CostLineItem[] = [];
+  Object.entries(template.Resources ?? {}).forEach(([logicalId, resource]) => {
+    const pricer = PRICERS[resource.Type];
+    const item = pricer?.(resource.Properties ?? {}, template, prices, usage);
+    if (item) {
+      lineItems.push({
+        logicalId,
+        resourceType: resource.Type,
+        costCenter:
+          resource.Properties?.Tags?.find((tag) => tag.Key === "CostCenter")
+            ?.Value ?? UNTAGGED_COST_CENTER,
+        ...item,
+      });
+    }
+  });
+
+  const byCostCenter: Record<string, number> = {};
+  lineItems.forEach((item) => {
+    byCostCenter[item.costCenter] =
+      (byCostCenter[item.costCenter] ?? 0) + item.monthlyCost;
+  });
+
+  return {
+    environmentName,
+    priceTableVersion: prices.version,
+    currency: prices.currency,
+    lineItems,
+    byCostCenter,
+    total: lineItems.reduce((sum, item) => sum + item.monthlyCost, 0),
+  };
+}
+
+/**
+ * Synthesizes a stack and estimates its monthly cost
+ *
+ * @param stack - Stack to estimate
+ * @param options - Price table and usage assumptions
+ * @returns The stack's cost estimate
+ */
+export function estimateStackCost(
+  stack: ComprehendStack,
+  options: CostEstimateOptions = {},
+): CostEstimate {
+  const assembly = cdk.Stage.of(stack)!.synth();
+  return estimateTemplateCost(
+    stack.environmentConfig.name,
+    assembly.getStackArtifact(stack.artifactId).template,
+    options,
+  );
+}
+
+/**
+ * Formats estimates as a Markdown report
+ *
+ * @param estimates - Estimates to include, one section each
+ * @param priceTable - Price table the estimates were made with
+ * @returns Report text
+ */
+export function formatCostReport(
+  estimates: CostEstimate[],
+  priceTable: PriceTable = PRICE_TABLE,
+): string {
+  const amount = (value: number) => value.toFixed(2);
+  const lines = [
+    "# Monthly Cost Estimate",
+    "",
+    `Prices: table ${priceTable.version} (${priceTable.region}, ${priceTable.currency}). ` +
+      `Not included: ${UNESTIMATED_SERVICES.join(", ")}.`,
+    "",
+    "| Environment | Monthly |",
+    "|-------------|--------:|",
+    ...estimates.map(
+      (estimate) =>
+        `| ${estimate.environmentName} | ${amount(estimate.total)} |`,
+    ),
+  ];
+
+  estimates.forEach((estimate) => {
+    lines.push(
+      "",
+      `## ${estimate.environmentName}`,
+      "",
+      "| Cost center | Monthly |",
+      "|-------------|--------:|",
+      ...Object.entries(estimate.byCostCenter).map(
+        ([costCenter, total]) => `| ${costCenter} | ${amount(total)} |`,
+      ),
+      "",
+      "| Resource | Billed for | Cost center | Monthly |",
+      "|----------|------------|-------------|--------:|",
+      ...estimate.lineItems.map(
+        (item) =>
+          `| ${item.logicalId} | ${item.description} | ${item.costCenter} | ${amount(item.monthlyCost)} |`,
+      ),
+    );
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Resource a Ref or Fn::GetAtt points at
+ */
+function referencedResource(
+  template: CostTemplate,
+  reference: unknown,
+): TemplateResource | undefined {
+  if (typeof reference !== "object" || reference === null) {
+    return undefined;
+  }
+  const { Ref: ref, "Fn::GetAtt": getAtt } = reference as {
+    Ref?: string;
+    "Fn::GetAtt"?: string[];
+  };
+  const logicalId = ref ?? getAtt?.[0];
+  return logicalId ? template.Resources?.[logicalId] : undefined;
+}
+
+/**
+ * Service part of an endpoint service name (e.g. 'secretsmanager')
+ * CDK joins the name from the region, so only the final literal is kept
+ */
+function endpointService(serviceName: unknown): string {
+  const parts =
+    typeof serviceName === "string"
+      ? [serviceName]
+      : ((serviceName as { "Fn::Join"?: [string, unknown[]] })?.[
+          "Fn::Join"
+        ]?.[1] ?? []);
+  const last = parts[parts.length - 1];
+  return typeof last === "string" ? last.split(".").pop()! : "unknown";
+}
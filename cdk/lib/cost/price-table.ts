@@ -0,0 +1,156 @@
+import { FlowLogTrafficType } from "../types";
+
+/**
+ * On-demand prices used by the cost estimate
+ *
+ * Prices are copied by hand from the AWS pricing pages; the estimate never
+ * calls a pricing API. Bump `version` whenever a price changes so reports
+ * say which table they were produced with.
+ */
+export interface PriceTable {
+  /**
+   * Date the prices were last checked (YYYY-MM-DD)
+   */
+  readonly version: string;
+
+  /**
+   * Region the prices were taken from
+   */
+  readonly region: string;
+
+  /**
+   * Currency of every price
+   */
+  readonly currency: string;
+
+  /**
+   * Hours billed per month for always-on resources
+   */
+  readonly hoursPerMonth: number;
+
+  /**
+   * NAT gateway, per gateway-hour
+   */
+  readonly natGatewayHour: number;
+
+  /**
+   * NAT gateway data processing, per GB
+   */
+  readonly natGatewayDataGb: number;
+
+  /**
+   * Public IPv4 address (Elastic IP), per address-hour
+   */
+  readonly publicIpv4Hour: number;
+
+  /**
+   * Interface VPC endpoint, per endpoint-hour in each AZ
+   */
+  readonly interfaceEndpointAzHour: number;
+
+  /**
+   * Interface VPC endpoint data processing, per GB
+   */
+  readonly interfaceEndpointDataGb: number;
+
+  /**
+   * Aurora Serverless v2 capacity, per ACU-hour
+   */
+  readonly auroraServerlessAcuHour: number;
+
+  /**
+   * Aurora provisioned instances, per instance-hour by instance class
+   */
+  readonly auroraInstanceHour: Readonly<Record<string, number>>;
+
+  /**
+   * Aurora storage, per GB-month
+   */
+  readonly auroraStorageGbMonth: number;
+
+  /**
+   * CloudWatch Logs ingestion of vended logs (flow logs), per GB
+   */
+  readonly cloudWatchLogsIngestionGb: number;
+
+  /**
+   * CloudWatch Logs storage, per GB-month
+   */
+  readonly cloudWatchLogsStorageGbMonth: number;
+
+  /**
+   * Vended log delivery to S3, per GB
+   */
+  readonly s3LogDeliveryGb: number;
+
+  /**
+   * S3 Standard storage, per GB-month
+   */
+  readonly s3StorageGbMonth: number;
+}
+
+/**
+ * Usage the estimate assumes for resources billed by volume
+ */
+export interface UsageAssumptions {
+  /**
+   * Data processed by each NAT gateway, GB per month
+   */
+  readonly natGatewayDataGb: number;
+
+  /**
+   * Data processed by each interface endpoint, GB per month
+   */
+  readonly interfaceEndpointDataGb: number;
+
+  /**
+   * Flow log records produced by a VPC, GB per month by traffic type
+   */
+  readonly flowLogGb: Readonly<Record<FlowLogTrafficType, number>>;
+
+  /**
+   * Aurora cluster volume size, GB
+   */
+  readonly databaseStorageGb: number;
+}
+
+/**
+ * us-east-1 on-demand prices
+ */
+export const PRICE_TABLE: PriceTable = {
+  version: "2026-10-01",
+  region: "us-east-1",
+  currency: "USD",
+  hoursPerMonth: 730,
+  natGatewayHour: 0.045,
+  natGatewayDataGb: 0.045,
+  publicIpv4Hour: 0.005,
+  interfaceEndpointAzHour: 0.01,
+  interfaceEndpointDataGb: 0.01,
+  auroraServerlessAcuHour: 0.12,
+  auroraInstanceHour: {
+    "db.t4g.medium": 0.073,
+    "db.r6g.large": 0.26,
+    "db.r7g.large": 0.276,
+  },
+  auroraStorageGbMonth: 0.1,
+  cloudWatchLogsIngestionGb: 0.5,
+  cloudWatchLogsStorageGbMonth: 0.03,
+  s3LogDeliveryGb: 0.25,
+  s3StorageGbMonth: 0.023,
+};
+
+/**
+ * Usage assumed when no measurements are available
+ * Serverless v2 instances are assumed to sit at their minimum capacity
+ */
+export const DEFAULT_USAGE_ASSUMPTIONS: UsageAssumptions = {
+  natGatewayDataGb: 50,
+  interfaceEndpointDataGb: 5,
+  flowLogGb: {
+    ALL: 20,
+    ACCEPT: 18,
+    REJECT: 2,
+  },
+  databaseStorageGb: 10,
+};
@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import {
+  CloudFormationTemplate,
+  ResourceChange,
+  diffTemplates,
+  formatTemplateDiff,
+} from "./template-diff";
+
+/**
+ * Context key naming the directory of previously deployed templates
+ */
+export const DEPLOYED_TEMPLATES_CONTEXT = "deployedTemplates";
+
+/**
+ * Context key that lets a deploy replace stateful resources
+ */
+export const ALLOW_REPLACEMENT_CONTEXT = "allowReplacement";
+
+/**
+ * Resource types whose replacement loses data or moves everything in them
+ */
+export const STATEFUL_RESOURCE_TYPES = [
+  "AWS::EC2::VPC",
+  "AWS::EC2::Subnet",
+  "AWS::RDS::DBCluster",
+];
+
+/**
+ * A stack whose update would remove or replace stateful resources
+ */
+export interface BlockedStack {
+  /**
+   * CloudFormation stack name
+   */
+  readonly stackName: string;
+
+  /**
+   * Stateful resources removed or replaced
+   */
+  readonly changes: ResourceChange[];
+}
+
+/**
+ * Finds stateful resources that an update would remove or replace
+ *
+ * A removed resource counts too: moving a construct changes its logical
+ * ID, and CloudFormation then creates a new resource and deletes the old.
+ *
+ * @param deployed - Template of the deployed stack
+ * @param synthesized - Template about to be deployed
+ * @param resourceTypes - Resource types to guard
+ * @returns The offending changes, in logical ID order
+ */
+export function findStatefulReplacements(
+  deployed: CloudFormationTemplate,
+  synthesized: CloudFormationTemplate,
+  resourceTypes: string[] = STATEFUL_RESOURCE_TYPES,
+): ResourceChange[] {
+  return diffTemplates(deployed, synthesized).resources.filter(
+    (resource) =>
+      resourceTypes.includes(resource.resourceType) &&
+      (resource.change === "removed" || resource.change === "replaced"),
+  );
+}
+
+/**
+ * Compares stacks with their previously deployed templates before deploy
+ *
+ * Runs when the `deployedTemplates` context names a directory holding
+ * `<stackName>.template.json` files, e.g. saved with
+ * `aws cloudformation get-template --stack-name <stackName>
+ * --query TemplateBody`. Stacks without a file there are skipped, since
+ * they have not been deployed yet.
+ *
+ * @param app - App the stacks belong to
+ * @param stacks - Stacks to check; synthesized by this call
+ * @throws Error listing the offending resources if any stack would remove
+ * or replace a stateful resource, unless the `allowReplacement` context is
+ * 'true', which turns the error into a warning on each such stack
+ * @throws Error if a stack is not in an app or stage
+ */
+export function checkStatefulReplacements(
+  app: cdk.App,
+  stacks: cdk.Stack[],
+): void {
+  const directory = app.node.tryGetContext(DEPLOYED_TEMPLATES_CONTEXT) as
+    | string
+    | undefined;
+  if (!directory) {
+    return;
+  }
+
+  const blocked: (BlockedStack & { stack: cdk.Stack })[] = stacks
+    .map((stack) => {
+      const deployedPath = path.join(
+        directory,
+        `${stack.stackName}.template.json`,
+      );
+      if (!fs.existsSync(deployedPath)) {
+        return { stack, stackName: stack.stackName, changes: [] };
+      }
+      const deployed = JSON.parse(fs.readFileSync(deployedPath, "utf-8"));
+      const synthesized = stageOf(stack)
+        .synth()
+        .getStackArtifact(stack.artifactId).template;
+      return {
+        stack,
+        stackName: stack.stackName,
+        changes: findStatefulReplacements(deployed, synthesized),
+      };
+    })
+    .filter((stack) => stack.changes.length > 0);
+  if (blocked.length === 0) {
+    return;
+  }
+
+  // Context values from the command line are strings
+  const allowed = [true, "true"].includes(
+    app.node.tryGetContext(ALLOW_REPLACEMENT_CONTEXT),
+  );
+  if (allowed) {
+    blocked.forEach(({ stack, changes }) =>
+      cdk.Annotations.of(stack).addWarningV2(
+        "comprehend:stateful-replacement",
+        `Replacing stateful resources (${ALLOW_REPLACEMENT_CONTEXT} is set):\n` +
+          formatTemplateDiff({ resources: changes, other: [] }),
+      ),
+    );
+    // The stages were synthesized above, so synthesize them again for the
+    // warnings to reach the cloud assembly
+    new Set(blocked.map(({ stack }) => stageOf(stack))).forEach((stage) =>
+      stage.synth({ force: true }),
+    );
+    return;
+  }
+  const report = blocked
+    .map(
+      (stack) =>
+        `${stack.stackName}:\n` +
+        formatTemplateDiff({ resources: stack.changes, other: [] }),
+    )
+    .join("\n");
+  throw new Error(
+    `Deploying would remove or replace stateful resources:\n${report}\n` +
+      `Re-run with --context ${ALLOW_REPLACEMENT_CONTEXT}=true if this is intended.`,
+  );
+}
+
+/**
+ * Stage that synthesizes the stack
+ *
+ * @throws Error if the stack is not in an app or stage
+ */
+function stageOf(stack: cdk.Stack): cdk.Stage {
+  const stage = cdk.Stage.of(stack);
+  if (!stage) {
+    throw new Error(
+      `Stack ${stack.stackName} is not in a cdk.App or Stage, so it cannot be synthesized for the replacement check`,
+    );
+  }
+  return stage;
+}
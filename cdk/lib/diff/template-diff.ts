@@ -0,0 +1,259 @@
+import {
+  ResourceDifference,
+  ResourceImpact,
+  fullDiff,
+} from "@aws-cdk/cloudformation-diff";
+
+/**
+ * Placeholder asset hashes are replaced with by normalizeAssetHashes
+ */
+export const ASSET_HASH_PLACEHOLDER = "<asset-hash>";
+
+/**
+ * SHA-256 hex digests, as CDK uses for asset hashes and object keys
+ */
+const ASSET_HASH_PATTERN = /[0-9a-f]{64}/g;
+
+/**
+ * Template keys whose values name an asset: S3 object keys, image URIs and
+ * asset paths in resource metadata
+ */
+const ASSET_KEYS = ["S3Key", "ImageUri", "aws:asset:path"];
+
+/**
+ * Parameters the legacy synthesizer adds for each asset
+ */
+const ASSET_PARAMETER_PREFIX = "AssetParameters";
+
+/**
+ * Template sections compared entry by entry, besides Resources
+ */
+const OTHER_SECTIONS = [
+  "Parameters",
+  "Conditions",
+  "Mappings",
+  "Rules",
+  "Outputs",
+];
+
+/**
+ * A CloudFormation template
+ */
+export type CloudFormationTemplate = { [section: string]: unknown };
+
+/**
+ * How a resource changes between two templates
+ */
+export type ResourceChangeType = "added" | "removed" | "replaced" | "updated";
+
+/**
+ * A changed resource
+ */
+export interface ResourceChange {
+  /**
+   * Logical ID of the resource
+   */
+  readonly logicalId: string;
+
+  /**
+   * CloudFormation resource type (the new type if it changed)
+   */
+  readonly resourceType: string;
+
+  /**
+   * What happens to the resource
+   */
+  readonly change: ResourceChangeType;
+
+  /**
+   * Changed properties, plus changed resource attributes such as
+   * DeletionPolicy
+   */
+  readonly properties: string[];
+
+  /**
+   * Changed properties that force replacement
+   */
+  readonly replacingProperties: string[];
+
+  /**
+   * Whether replacement depends on the new value (CloudFormation's
+   * "may replace"), so the resource might only be updated
+   */
+  readonly conditional: boolean;
+}
+
+/**
+ * Differences between two templates
+ */
+export interface TemplateChanges {
+  /**
+   * Changed resources, in logical ID order
+   */
+  readonly resources: ResourceChange[];
+
+  /**
+   * Changed entries of the other sections (e.g. 'Outputs.VpcId')
+   */
+  readonly other: string[];
+}
+
+/**
+ * Compares two templates the way CloudFormation would apply them
+ *
+ * Replacement is judged from the CloudFormation resource specification, so
+ * a resource whose replacing property references a replaced resource is
+ * reported as replaced too. A resource whose logical ID changed shows up as
+ * removed plus added: CloudFormation creates the new one and deletes the old.
+ *
+ * @param current - Template deployed (or committed) now
+ * @param next - Template about to replace it
+ * @returns Resource and section changes
+ */
+export function diffTemplates(
+  current: CloudFormationTemplate,
+  next: CloudFormationTemplate,
+): TemplateChanges {
+  const resources: ResourceChange[] = [];
+  fullDiff(current, next).resources.forEachDifference((logicalId, diff) => {
+    resources.push(resourceChange(logicalId, diff));
+  });
+  resources.sort((a, b) => a.logicalId.localeCompare(b.logicalId));
+
+  const other = OTHER_SECTIONS.flatMap((section) => {
+    const before = (current[section] ?? {}) as Record<string, unknown>;
+    const after = (next[section] ?? {}) as Record<string, unknown>;
+    return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(
+        (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+      )
+      .sort()
+      .map((key) => `${section}.${key}`);
+  });
+
+  return { resources, other };
+}
+
+/**
+ * Whether two templates differ at all
+ */
+export function hasChanges(changes: TemplateChanges): boolean {
+  return changes.resources.length > 0 || changes.other.length > 0;
+}
+
+/**
+ * Formats template changes, one line per resource or section entry
+ *
+ * ```
+ * [-/+] AWS::EC2::VPC VpcConstructVpc3805DAA4 (replacement: CidrBlock)
+ * [~] AWS::Lambda::Function ApiHandler (Code, Environment)
+ * [+] AWS::EC2::Subnet VpcConstructVpcDataSubnet3Subnet
+ * [-] AWS::EC2::Subnet VpcConstructVpcReservedSubnet1Subnet
+ * [~] Outputs.VpcId
+ * ```
+ *
+ * @param changes - Changes from diffTemplates
+ * @returns Report text; empty when nothing changed
+ */
+export function formatTemplateDiff(changes: TemplateChanges): string {
+  const lines = changes.resources.map((resource) => {
+    const name = `${resource.resourceType} ${resource.logicalId}`;
+    switch (resource.change) {
+      case "added":
+        return `[+] ${name}`;
+      case "removed":
+        return `[-] ${name}`;
+      case "replaced":
+        return `[-/+] ${name} (${resource.conditional ? "possible replacement" : "replacement"}: ${resource.replacingProperties.join(", ")})`;
+      case "updated":
+        return `[~] ${name} (${resource.properties.join(", ")})`;
+    }
+  });
+  changes.other.forEach((entry) => lines.push(`[~] ${entry}`));
+  return lines.join("\n");
+}
+
+/**
+ * Replaces asset hashes with a placeholder
+ *
+ * Asset hashes change with every handler edit and dependency bump, so
+ * templates compared for structural changes leave them out. Only asset keys
+ * and asset parameters are normalized; other hashes, such as the migration
+ * checksum, are real changes and stay in.
+ *
+ * @param template - Synthesized template
+ * @returns A copy of the template with every asset hash replaced
+ */
+export function normalizeAssetHashes<T>(template: T): T {
+  return normalizeAssets(template, false) as T;
+}
+
+function normalizeAssets(value: unknown, isAsset: boolean): unknown {
+  if (typeof value === "string") {
+    return normalizeAssetName(value, isAsset);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeAssets(item, isAsset));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        normalizeAssetName(key, isAsset),
+        normalizeAssets(child, isAsset || ASSET_KEYS.includes(key)),
+      ]),
+    );
+  }
+  return value;
+}
+
+function normalizeAssetName(name: string, isAsset: boolean): string {
+  return isAsset || name.startsWith(ASSET_PARAMETER_PREFIX)
+    ? name.replace(ASSET_HASH_PATTERN, ASSET_HASH_PLACEHOLDER)
+    : name;
+}
+
+function resourceChange(
+  logicalId: string,
+  diff: ResourceDifference,
+): ResourceChange {
+  const resourceType = (diff.newResourceType ?? diff.oldResourceType)!;
+  const properties: string[] = [];
+  const replacingProperties: string[] = [];
+  diff.forEachDifference((_kind, name, value) => {
+    properties.push(name);
+    const impact = (value as { changeImpact?: ResourceImpact }).changeImpact;
+    if (
+      impact === ResourceImpact.WILL_REPLACE ||
+      impact === ResourceImpact.MAY_REPLACE
+    ) {
+      replacingProperties.push(name);
+    }
+  });
+  if (diff.resourceTypeChanged) {
+    replacingProperties.push("Type");
+  }
+
+  const impact = diff.changeImpact;
+  let change: ResourceChangeType;
+  if (diff.isAddition) {
+    change = "added";
+  } else if (diff.isRemoval) {
+    change = "removed";
+  } else if (
+    impact === ResourceImpact.WILL_REPLACE ||
+    impact === ResourceImpact.MAY_REPLACE
+  ) {
+    change = "replaced";
+  } else {
+    change = "updated";
+  }
+
+  return {
+    logicalId,
+    resourceType,
+    change,
+    properties,
+    replacingProperties,
+    conditional: impact === ResourceImpact.MAY_REPLACE,
+  };
+}
@@ -0,0 +1,206 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct, IConstruct } from "constructs";
+import { EnvironmentName, formatExportName } from "../types";
+
+/**
+ * Properties for addExport
+ */
+export interface ExportProps {
+  /**
+   * Environment exporting the value; the first part of the export name
+   */
+  readonly environmentName: EnvironmentName;
+
+  /**
+   * PascalCase name of the value; the second part of the export name
+   */
+  readonly name: string;
+
+  /**
+   * Exported value
+   */
+  readonly value: string;
+
+  /**
+   * Output description
+   */
+  readonly description: string;
+}
+
+/**
+ * Properties for retireExport
+ */
+export interface RetiredExportProps {
+  /**
+   * Full export name, as it was deployed
+   * Retired names predate the naming scheme, so they are not checked against it
+   */
+  readonly exportName: string;
+
+  /**
+   * Value the export must keep until nothing imports it
+   */
+  readonly value: string;
+
+  /**
+   * Export consumers should import instead
+   */
+  readonly replacement: string;
+}
+
+/**
+ * Where an export name was registered
+ */
+export interface RegisteredExport {
+  /**
+   * Export name
+   */
+  readonly exportName: string;
+
+  /**
+   * Construct path of the output
+   */
+  readonly path: string;
+
+  /**
+   * Whether the export is retired and waiting for its importers to move
+   */
+  readonly retired: boolean;
+}
+
+/**
+ * A registered export and the environment of the stack exporting it
+ * Account and region are undefined when unresolved (environment-agnostic)
+ */
+interface RegistryEntry {
+  readonly registered: RegisteredExport;
+  readonly account?: string;
+  readonly region?: string;
+}
+
+/**
+ * Registered exports per app
+ * CloudFormation export names are unique per account and region
+ */
+const registries = new WeakMap<IConstruct, RegistryEntry[]>();
+
+/**
+ * Exports a value under the `{environment}-{Name}` naming scheme
+ *
+ * Every export in the app goes through here (or retireExport), so a name
+ * that is exported twice in the same account and region fails synthesis
+ * instead of the second deployment. An environment-agnostic stack can be
+ * deployed to any account and region, so its names clash with every stack.
+ *
+ * @param scope - Construct the output is created in
+ * @param id - Output construct ID
+ * @param props - Export name parts, value and description
+ * @returns The exported output
+ * @throws Error if the name is not PascalCase or is already exported
+ */
+export function addExport(
+  scope: Construct,
+  id: string,
+  props: ExportProps,
+): cdk.CfnOutput {
+  const exportName = formatExportName(props.environmentName, props.name);
+  register(scope, id, exportName, false);
+
+  return new cdk.CfnOutput(scope, id, {
+    value: props.value,
+    description: props.description,
+    exportName,
+  });
+}
+
+/**
+ * Keeps exporting a value under a name that is being removed
+ *
+ * CloudFormation refuses to delete an export another stack imports, and a
+ * failed update of the base stack rolls back everything else in it. A
+ * retired export stays in the template with the same construct ID (so the
+ * output keeps its logical ID) and a deprecation notice, and every synth
+ * warns about it. Delete the retireExport call once
+ * `aws cloudformation list-imports --export-name <name>` lists no importers
+ * in any account and region the environment is deployed to.
+ *
+ * @param scope - Construct the output was created in
+ * @param id - Construct ID the output was created with
+ * @param props - Legacy export name, value and replacement
+ * @returns The retired output
+ * @throws Error if the name is already exported
+ */
+export function retireExport(
+  scope: Construct,
+  id: string,
+  props: RetiredExportProps,
+): cdk.CfnOutput {
+  register(scope, id, props.exportName, true);
+
+  const output = new cdk.CfnOutput(scope, id, {
+    value: props.value,
+    description: `Deprecated: import ${props.replacement} instead`,
+    exportName: props.exportName,
+  });
+  cdk.Annotations.of(output).addWarningV2(
+    "comprehend:retired-export",
+    `Export ${props.exportName} is retired in favour of ${props.replacement}. Remove it once no stack imports it (aws cloudformation list-imports --export-name ${props.exportName}).`,
+  );
+  return output;
+}
+
+/**
+ * Lists the exports registered in the scope's app
+ */
+export function registeredExports(scope: IConstruct): RegisteredExport[] {
+  return (registries.get(scope.node.root) ?? []).map(
+    (entry) => entry.registered,
+  );
+}
+
+/**
+ * Resolved value, or undefined for a token
+ */
+function resolvedOrUndefined(value: string): string | undefined {
+  return cdk.Token.isUnresolved(value) ? undefined : value;
+}
+
+/**
+ * Whether two account or region values could name the same one
+ * An unresolved value is deployed wherever the CLI points, so it can match
+ * any other
+ */
+function mayMatch(a: string | undefined, b: string | undefined): boolean {
+  return a === undefined || b === undefined || a === b;
+}
+
+function register(
+  scope: Construct,
+  id: string,
+  exportName: string,
+  retired: boolean,
+): void {
+  const root = scope.node.root;
+  let registry = registries.get(root);
+  if (!registry) {
+    registry = [];
+    registries.set(root, registry);
+  }
+
+  const stack = cdk.Stack.of(scope);
+  const account = resolvedOrUndefined(stack.account);
+  const region = resolvedOrUndefined(stack.region);
+  const path = `${scope.node.path}/${id}`;
+  const existing = registry.find(
+    (entry) =>
+      entry.registered.exportName === exportName &&
+      mayMatch(entry.account, account) &&
+      mayMatch(entry.region, region),
+  );
+  if (existing) {
+    throw new Error(
+      `Export name ${exportName} is already exported by ${existing.registered.path}; cannot export it again from ${path}`,
+    );
+  }
+  registry.push({ registered: { exportName, path, retired }, account, region });
+}
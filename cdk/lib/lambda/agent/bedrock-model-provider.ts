@@ -0,0 +1,57 @@
+import {
+  BedrockRuntimeClient,
+  ConverseCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+import { ModelProviderError } from "./errors";
+import { ModelProvider } from "./model-provider";
+import { ModelProviderConfig, ModelRequest } from "./types";
+
+/**
+ * Model provider backed by the Bedrock Converse API
+ * Works with any Bedrock chat model that supports system prompts
+ */
+export class BedrockModelProvider implements ModelProvider {
+  private bedrockClient: BedrockRuntimeClient;
+
+  constructor(private readonly config: ModelProviderConfig) {
+    this.bedrockClient = new BedrockRuntimeClient({
+      region: this.config.region,
+      ...this.config.clientConfig,
+    });
+  }
+
+  async complete(request: ModelRequest): Promise<string> {
+    let response;
+    try {
+      response = await this.bedrockClient.send(
+        new ConverseCommand({
+          modelId: this.config.modelId,
+          system: [{ text: request.system }],
+          messages: request.messages.map((message) => ({
+            role: message.role,
+            content: [{ text: message.content }],
+          })),
+          inferenceConfig: {
+            maxTokens: Math.min(request.maxTokens, this.config.maxTokens),
+            temperature: 0.3,
+          },
+        }),
+      );
+    } catch (error: any) {
+      throw new ModelProviderError(
+        `Bedrock request to ${this.config.modelId} failed: ${error.message}`,
+        error,
+      );
+    }
+
+    const text = (response.output?.message?.content ?? [])
+      .map((block) => block.text ?? "")
+      .join("");
+    if (!text) {
+      throw new ModelProviderError(
+        `Bedrock returned no text (stop reason: ${response.stopReason})`,
+      );
+    }
+    return text;
+  }
+}
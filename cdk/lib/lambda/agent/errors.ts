@@ -0,0 +1,22 @@
+/**
+ * Error raised when the model cannot be reached or rejects the request
+ */
+export class ModelProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "ModelProviderError";
+  }
+}
+
+/**
+ * Error raised when the model's reply is not a valid AgentResponse
+ */
+export class AgentResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentResponseError";
+  }
+}
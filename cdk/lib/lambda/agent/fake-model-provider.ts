@@ -0,0 +1,54 @@
+import { ModelProvider } from "./model-provider";
+import { AgentResponse, ModelRequest } from "./types";
+
+/**
+ * Deterministic model provider for offline development and tests
+ *
+ * Returns queued replies first; once the queue is empty it answers every
+ * request with a plain message echoing the last user turn. Requests are
+ * recorded so tests can inspect the prompt.
+ */
+export class FakeModelProvider implements ModelProvider {
+  private readonly replies: string[] = [];
+  private readonly requests: ModelRequest[] = [];
+
+  /**
+   * Queues a raw reply, e.g. invalid JSON to exercise error handling
+   */
+  withReply(reply: string): this {
+    this.replies.push(reply);
+    return this;
+  }
+
+  /**
+   * Queues a well-formed agent response
+   */
+  withResponse(response: AgentResponse): this {
+    return this.withReply(JSON.stringify(response));
+  }
+
+  /**
+   * Gets every request received so far
+   */
+  getRequests(): ModelRequest[] {
+    return this.requests;
+  }
+
+  async complete(request: ModelRequest): Promise<string> {
+    this.requests.push(request);
+
+    const queued = this.replies.shift();
+    if (queued !== undefined) {
+      return queued;
+    }
+
+    const lastUserTurn = [...request.messages]
+      .reverse()
+      .find((message) => message.role === "user");
+    const response: AgentResponse = {
+      type: "message",
+      message: `You said: ${lastUserTurn?.content ?? ""}`,
+    };
+    return JSON.stringify(response);
+  }
+}
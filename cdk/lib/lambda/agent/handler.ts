@@ -0,0 +1,80 @@
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
+import { getDatabase } from "../api/shared/database";
+import { ApiError } from "../api/shared/errors";
+import { created } from "../api/shared/responses";
+import {
+  getPathParameter,
+  getUserId,
+  parseJsonBody,
+} from "../api/shared/request";
+import { routeRequest } from "../api/shared/router";
+import { requireUuid } from "../api/shared/validation";
+import { validateCreateMessage } from "../api/messages/validator";
+import { AgentResponseError, ModelProviderError } from "./errors";
+import { ModelProvider } from "./model-provider";
+import { ReaderAgent } from "./reader-agent";
+import { createModelProvider } from "./utils";
+
+let modelProvider: ModelProvider | undefined;
+
+/**
+ * Gets the model provider, reused across warm invocations
+ */
+function getModelProvider(): ModelProvider {
+  if (!modelProvider) {
+    modelProvider = createModelProvider();
+  }
+  return modelProvider;
+}
+
+/**
+ * Lambda handler for POST /exercises/{exerciseId}/messages
+ *
+ * Runs one ReaderAgent turn. Model failures are reported as 502 so clients
+ * can tell them apart from problems with their own request.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context,
+): Promise<APIGatewayProxyResult> {
+  return routeRequest(event, {
+    "POST /exercises/{exerciseId}/messages": async (event) => {
+      const input = validateCreateMessage(parseJsonBody(event));
+      const agent = new ReaderAgent(getDatabase(), getModelProvider());
+
+      try {
+        const result = await agent.execute({
+          userId: getUserId(event),
+          exerciseId: requireUuid(
+            getPathParameter(event, "exerciseId"),
+            "exerciseId",
+          ),
+          message: input.content,
+        });
+        return created(result);
+      } catch (error: any) {
+        if (error instanceof ModelProviderError) {
+          console.error(`Model error: ${error.message}`);
+          throw new ApiError(
+            502,
+            "AGENT_UNAVAILABLE",
+            "The reading assistant is unavailable. Please try again.",
+          );
+        }
+        if (error instanceof AgentResponseError) {
+          console.error(`Invalid agent response: ${error.message}`);
+          throw new ApiError(
+            502,
+            "AGENT_INVALID_RESPONSE",
+            "The reading assistant returned an invalid reply. Please try again.",
+          );
+        }
+        throw error;
+      }
+    },
+  });
+}
@@ -0,0 +1,12 @@
+import { ModelRequest } from "./types";
+
+/**
+ * A chat model the ReaderAgent can talk to
+ *
+ * Implementations return the raw text of the model's reply; parsing and
+ * validation happen in the agent so every provider is held to the same
+ * response contract.
+ */
+export interface ModelProvider {
+  complete(request: ModelRequest): Promise<string>;
+}
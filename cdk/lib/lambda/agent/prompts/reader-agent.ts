@@ -0,0 +1,65 @@
+import { Exercise, Token } from "../../api/exercises/types";
+
+/**
+ * Most exercise tokens listed in the prompt; longer texts are truncated
+ */
+export const MAX_PROMPT_TOKENS = 800;
+
+/**
+ * Builds the ReaderAgent system prompt for an exercise
+ *
+ * The token list gives the model exact offsets to cite, since models are
+ * unreliable at counting characters themselves.
+ */
+export function buildReaderSystemPrompt(
+  exercise: Exercise,
+  tokens: Token[],
+): string {
+  const tokenLines = tokens
+    .slice(0, MAX_PROMPT_TOKENS)
+    .map(
+      (token) =>
+        `${token.startIndex}-${token.endIndex}: ${JSON.stringify(
+          exercise.content.slice(token.startIndex, token.endIndex),
+        )}`,
+    )
+    .join("\n");
+
+  return `You are ReaderAgent, a patient reading tutor helping a learner read a text in the language "${exercise.language}".
+Answer questions about the text, explain words and grammar, and write new reading material when asked.
+
+The learner is reading this exercise:
+Title: ${exercise.title}
+Content:
+"""
+${exercise.content}
+"""
+${
+  tokenLines
+    ? `
+Tokens of the content as startIndex-endIndex (end exclusive, UTF-16 offsets):
+${tokenLines}
+`
+    : ""
+}
+Always reply with exactly one JSON object and nothing else, in this format:
+{
+  "type": "message" | "message_content" | "message_vocab",
+  "message": string,
+  "content"?: { "title": string, "tokens": [{ "text": string, "startIndex": number, "endIndex": number }] },
+  "vocab"?: { "vocab": string, "reading"?: string, "equivalent": string, "tokens": [{ "startIndex": number, "endIndex": number }] }
+}
+
+Rules:
+- Use "message" for ordinary replies. Write "message" in the language the learner writes to you.
+- Use "message_content" only when the learner asks for new reading material. "content.tokens" must split the new text into words (and punctuation or spaces) in order, starting at 0, each token starting where the previous one ended, so that joining every token's text reproduces the new text exactly.
+- Use "message_vocab" when the learner asks about a word or phrase in the exercise. "vocab.tokens" must be spans of the exercise content above, preferably copied from the token list. "reading" is the pronunciation (e.g. kana or pinyin) when the script does not show it.
+- Never include "content" or "vocab" with other types.`;
+}
+
+/**
+ * Builds the follow-up turn sent when a reply could not be parsed
+ */
+export function buildCorrectionPrompt(problem: string): string {
+  return `Your previous reply could not be used: ${problem}. Reply again with only the corrected JSON object.`;
+}
@@ -0,0 +1,269 @@
+import { SqlClient, TransactionalSqlClient } from "../shared/types";
+import { NotFoundError } from "../api/shared/errors";
+import { ExerciseProvider } from "../api/exercises/exercise-provider";
+import { MessageProvider } from "../api/exercises/message-provider";
+import { TokenProvider } from "../api/exercises/token-provider";
+import { ChatMessage, Exercise, Token, Vocab } from "../api/exercises/types";
+import { VocabProvider } from "../api/exercises/vocab-provider";
+import { AgentResponseError } from "./errors";
+import { ModelProvider } from "./model-provider";
+import {
+  buildCorrectionPrompt,
+  buildReaderSystemPrompt,
+} from "./prompts/reader-agent";
+import { parseAgentResponse } from "./response-parser";
+import {
+  AgentResponse,
+  AgentVocab,
+  ModelMessage,
+  ReaderAgentInput,
+  ReaderAgentResult,
+} from "./types";
+
+/**
+ * Number of earlier chat messages sent to the model as context
+ */
+export const HISTORY_LIMIT = 20;
+
+/**
+ * Model calls per turn; later attempts include the parse error
+ */
+export const MAX_ATTEMPTS = 2;
+
+/**
+ * Upper bound on generated tokens per reply
+ */
+export const MAX_REPLY_TOKENS = 2048;
+
+interface ExerciseContext {
+  exercise: Exercise;
+  tokens: Token[];
+  history: ChatMessage[];
+}
+
+/**
+ * ReaderAgent
+ *
+ * Answers a chat message about an exercise. The model must reply with an
+ * AgentResponse; the reply is validated and both messages are stored
+ * together with any content or vocab the reply produced, so a failed turn
+ * leaves no partial history behind.
+ */
+export class ReaderAgent {
+  constructor(
+    private readonly database: TransactionalSqlClient,
+    private readonly modelProvider: ModelProvider,
+  ) {}
+
+  /**
+   * Main entry point - handles one chat turn
+   */
+  async execute(input: ReaderAgentInput): Promise<ReaderAgentResult> {
+    console.log(`ReaderAgent turn for exercise ${input.exerciseId}`);
+
+    // Step 1: Load the exercise, its tokens and recent chat
+    const context = await this.loadContext(input.userId, input.exerciseId);
+
+    // Step 2: Ask the model and validate its reply
+    const response = await this.requestResponse(context, input.message);
+    console.log(`Agent replied with ${response.type}`);
+
+    // Step 3: Store messages and anything the reply produced
+    const result = await this.persist(context, input, response);
+
+    console.log(`ReaderAgent turn completed for exercise ${input.exerciseId}`);
+    return result;
+  }
+
+  /**
+   * Step 1: Load the caller's exercise with its tokens and chat history
+   */
+  private async loadContext(
+    userId: string,
+    exerciseId: string,
+  ): Promise<ExerciseContext> {
+    const exercise = await new ExerciseProvider(this.database).find(
+      userId,
+      exerciseId,
+    );
+    if (!exercise) {
+      throw new NotFoundError(`Exercise ${exerciseId} not found`);
+    }
+
+    const tokens = await new TokenProvider(this.database).listForExercise(
+      exerciseId,
+    );
+    const messages = await new MessageProvider(this.database).listForExercise(
+      exerciseId,
+    );
+
+    return { exercise, tokens, history: messages.slice(-HISTORY_LIMIT) };
+  }
+
+  /**
+   * Step 2: Call the model, retrying once with the validation error
+   */
+  private async requestResponse(
+    context: ExerciseContext,
+    message: string,
+  ): Promise<AgentResponse> {
+    const system = buildReaderSystemPrompt(context.exercise, context.tokens);
+    const messages = this.buildConversation(context.history, message);
+    let lastError: AgentResponseError | undefined;
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const reply = await this.modelProvider.complete({
+        system,
+        messages,
+        maxTokens: MAX_REPLY_TOKENS,
+      });
+
+      try {
+        return parseAgentResponse(reply, context.exercise.content.length);
+      } catch (error: any) {
+        if (!(error instanceof AgentResponseError)) {
+          throw error;
+        }
+        console.log(
+          `Attempt ${attempt} returned an invalid reply: ${error.message}`,
+        );
+        lastError = error;
+        messages.push(
+          { role: "assistant", content: reply },
+          { role: "user", content: buildCorrectionPrompt(error.message) },
+        );
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Builds the conversation for the model
+   * Earlier replies are replayed as JSON so the model keeps to the format
+   */
+  private buildConversation(
+    history: ChatMessage[],
+    message: string,
+  ): ModelMessage[] {
+    const turns: ModelMessage[] = history.map((entry) => ({
+      role: entry.role,
+      content:
+        entry.role === "assistant"
+          ? JSON.stringify({ type: "message", message: entry.content })
+          : entry.content,
+    }));
+
+    // The conversation must start with a user turn
+    while (turns.length > 0 && turns[0].role !== "user") {
+      turns.shift();
+    }
+    turns.push({ role: "user", content: message });
+    return turns;
+  }
+
+  /**
+   * Step 3: Store the turn in a single transaction
+   */
+  private async persist(
+    context: ExerciseContext,
+    input: ReaderAgentInput,
+    response: AgentResponse,
+  ): Promise<ReaderAgentResult> {
+    return this.database.transaction(async (client) => {
+      const messages = new MessageProvider(client);
+      const userMessage = await messages.create(
+        input.exerciseId,
+        "user",
+        input.message,
+      );
+      const assistantMessage = await messages.create(
+        input.exerciseId,
+        "assistant",
+        response.message,
+      );
+
+      const result: ReaderAgentResult = {
+        userMessage,
+        assistantMessage,
+        response,
+      };
+      if (response.content) {
+        result.createdExerciseId = await this.storeContent(
+          client,
+          input.userId,
+          context.exercise.language,
+          response,
+        );
+      }
+      if (response.vocab) {
+        result.vocab = await this.storeVocab(client, context, response.vocab);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Stores generated content as a new exercise with its tokens
+   */
+  private async storeContent(
+    client: SqlClient,
+    userId: string,
+    language: string,
+    response: AgentResponse,
+  ): Promise<string> {
+    const content = response.content!;
+    const exercise = await new ExerciseProvider(client).create(userId, {
+      title: content.title,
+      content: content.tokens.map((token) => token.text).join(""),
+      language,
+    });
+    await new TokenProvider(client).createMany(
+      exercise.exerciseId,
+      content.tokens.map((token, order) => ({
+        startIndex: token.startIndex,
+        endIndex: token.endIndex,
+        order,
+      })),
+    );
+
+    console.log(`Stored generated content as exercise ${exercise.exerciseId}`);
+    return exercise.exerciseId;
+  }
+
+  /**
+   * Stores a vocab item in the current exercise
+   * Links every exercise token that lies inside one of the vocab spans
+   */
+  private async storeVocab(
+    client: SqlClient,
+    context: ExerciseContext,
+    agentVocab: AgentVocab,
+  ): Promise<Vocab> {
+    const exerciseId = context.exercise.exerciseId;
+    const spans = agentVocab.tokens;
+    const vocab = new VocabProvider(client);
+
+    const vocabId = await vocab.create(exerciseId, {
+      vocab: agentVocab.vocab,
+      reading: agentVocab.reading ?? null,
+      equivalent: agentVocab.equivalent,
+      excerptStartIndex: Math.min(...spans.map((span) => span.startIndex)),
+      excerptEndIndex: Math.max(...spans.map((span) => span.endIndex)),
+    });
+
+    const tokenIds = context.tokens
+      .filter((token) =>
+        spans.some(
+          (span) =>
+            token.startIndex >= span.startIndex &&
+            token.endIndex <= span.endIndex,
+        ),
+      )
+      .map((token) => token.tokenId);
+    await vocab.setTokens(exerciseId, vocabId, tokenIds);
+
+    console.log(`Stored vocab ${vocabId} for exercise ${exerciseId}`);
+    return (await vocab.find(exerciseId, vocabId))!;
+  }
+}
@@ -0,0 +1,190 @@
+import { AgentResponseError } from "./errors";
+import {
+  AgentContent,
+  AgentContentToken,
+  AgentResponse,
+  AgentResponseType,
+  AgentSpan,
+  AgentVocab,
+} from "./types";
+
+const RESPONSE_TYPES: AgentResponseType[] = [
+  "message",
+  "message_content",
+  "message_vocab",
+];
+
+/**
+ * Extracts the JSON object from a model reply
+ * Models sometimes wrap JSON in a code fence or add a sentence around it
+ */
+export function extractJson(raw: string): unknown {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : raw;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new AgentResponseError("Reply does not contain a JSON object");
+  }
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch (error: any) {
+    throw new AgentResponseError(`Reply is not valid JSON: ${error.message}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function requireText(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new AgentResponseError(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireSpan(value: unknown, field: string): AgentSpan {
+  if (
+    !isRecord(value) ||
+    !Number.isInteger(value.startIndex) ||
+    !Number.isInteger(value.endIndex)
+  ) {
+    throw new AgentResponseError(
+      `${field} must have integer startIndex and endIndex`,
+    );
+  }
+  const span = {
+    startIndex: value.startIndex as number,
+    endIndex: value.endIndex as number,
+  };
+  if (span.startIndex < 0 || span.endIndex <= span.startIndex) {
+    throw new AgentResponseError(
+      `${field} must satisfy 0 <= startIndex < endIndex`,
+    );
+  }
+  return span;
+}
+
+/**
+ * Validates generated content
+ * Tokens must be contiguous from offset 0 so they cover the text exactly
+ */
+function parseContent(value: unknown): AgentContent {
+  if (!isRecord(value)) {
+    throw new AgentResponseError("content must be an object");
+  }
+  const title = requireText(value.title, "content.title");
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0) {
+    throw new AgentResponseError("content.tokens must be a non-empty array");
+  }
+
+  const tokens: AgentContentToken[] = value.tokens.map((token, index) => {
+    const field = `content.tokens[${index}]`;
+    const span = requireSpan(token, field);
+    const text = (token as Record<string, unknown>).text;
+    if (typeof text !== "string" || text.length === 0) {
+      throw new AgentResponseError(`${field}.text must be a non-empty string`);
+    }
+    if (text.length !== span.endIndex - span.startIndex) {
+      throw new AgentResponseError(
+        `${field}.text length does not match its startIndex and endIndex`,
+      );
+    }
+    return { text, ...span };
+  });
+
+  tokens.sort((a, b) => a.startIndex - b.startIndex);
+  let expectedStart = 0;
+  tokens.forEach((token) => {
+    if (token.startIndex !== expectedStart) {
+      throw new AgentResponseError(
+        `content.tokens must be contiguous from 0; expected a token starting at ${expectedStart}, got ${token.startIndex}`,
+      );
+    }
+    expectedStart = token.endIndex;
+  });
+
+  return { title, tokens };
+}
+
+/**
+ * Validates a vocab item against the length of the exercise content
+ */
+function parseVocab(value: unknown, contentLength: number): AgentVocab {
+  if (!isRecord(value)) {
+    throw new AgentResponseError("vocab must be an object");
+  }
+  if (value.reading !== undefined && typeof value.reading !== "string") {
+    throw new AgentResponseError("vocab.reading must be a string");
+  }
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0) {
+    throw new AgentResponseError("vocab.tokens must be a non-empty array");
+  }
+
+  const tokens = value.tokens
+    .map((token, index) => requireSpan(token, `vocab.tokens[${index}]`))
+    .sort((a, b) => a.startIndex - b.startIndex);
+  tokens.forEach((token, index) => {
+    if (token.endIndex > contentLength) {
+      throw new AgentResponseError(
+        `vocab.tokens[${index}] ends past the exercise content (${contentLength})`,
+      );
+    }
+    if (index > 0 && token.startIndex < tokens[index - 1].endIndex) {
+      throw new AgentResponseError("vocab.tokens must not overlap");
+    }
+  });
+
+  return {
+    vocab: requireText(value.vocab, "vocab.vocab"),
+    reading: value.reading || undefined,
+    equivalent: requireText(value.equivalent, "vocab.equivalent"),
+    tokens,
+  };
+}
+
+/**
+ * Parses and validates a model reply as an AgentResponse
+ *
+ * @param raw - Raw reply text from the model
+ * @param contentLength - Length of the current exercise content, used to
+ *   bounds-check vocab spans
+ * @throws AgentResponseError describing the first problem found
+ */
+export function parseAgentResponse(
+  raw: string,
+  contentLength: number,
+): AgentResponse {
+  const json = extractJson(raw);
+  if (!isRecord(json)) {
+    throw new AgentResponseError("Reply must be a JSON object");
+  }
+
+  const type = json.type as AgentResponseType;
+  if (!RESPONSE_TYPES.includes(type)) {
+    throw new AgentResponseError(
+      `type must be one of: ${RESPONSE_TYPES.join(", ")}`,
+    );
+  }
+  const message = requireText(json.message, "message");
+
+  if (type !== "message_content" && json.content !== undefined) {
+    throw new AgentResponseError(
+      `content is only allowed with message_content`,
+    );
+  }
+  if (type !== "message_vocab" && json.vocab !== undefined) {
+    throw new AgentResponseError(`vocab is only allowed with message_vocab`);
+  }
+
+  const response: AgentResponse = { type, message };
+  if (type === "message_content") {
+    response.content = parseContent(json.content);
+  }
+  if (type === "message_vocab") {
+    response.vocab = parseVocab(json.vocab, contentLength);
+  }
+  return response;
+}
@@ -0,0 +1,121 @@
+/**
+ * Type definitions for the ReaderAgent
+ */
+
+import { ClientConfig } from "../shared/types";
+import { ChatMessage, Vocab } from "../api/exercises/types";
+
+/**
+ * Kinds of response the ReaderAgent can produce
+ * - message: a plain chat reply
+ * - message_content: a reply with new reading content
+ * - message_vocab: a reply explaining a vocab item in the current exercise
+ */
+export type AgentResponseType = "message" | "message_content" | "message_vocab";
+
+/**
+ * A character span in exercise content
+ * @param startIndex - Inclusive start offset
+ * @param endIndex - Exclusive end offset
+ */
+export interface AgentSpan {
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * A token of generated content
+ */
+export interface AgentContentToken extends AgentSpan {
+  text: string;
+}
+
+/**
+ * Generated reading content
+ * Tokens are contiguous and cover the whole text, so joining their text in
+ * order reproduces it
+ */
+export interface AgentContent {
+  title: string;
+  tokens: AgentContentToken[];
+}
+
+/**
+ * A vocab item found in the current exercise
+ * Token spans are offsets into the exercise content
+ */
+export interface AgentVocab {
+  vocab: string;
+  reading?: string;
+  equivalent: string;
+  tokens: AgentSpan[];
+}
+
+/**
+ * JSON response of the ReaderAgent (see DEVELOPMENT_PLAN.md)
+ */
+export interface AgentResponse {
+  type: AgentResponseType;
+  message: string;
+  content?: AgentContent;
+  vocab?: AgentVocab;
+}
+
+/**
+ * A turn in the conversation sent to the model
+ */
+export interface ModelMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * A request to a chat model
+ * @param system - System prompt
+ * @param messages - Conversation, oldest first, ending with a user turn
+ * @param maxTokens - Upper bound on generated tokens
+ */
+export interface ModelRequest {
+  system: string;
+  messages: ModelMessage[];
+  maxTokens: number;
+}
+
+/**
+ * Configuration for the Bedrock model provider
+ * @param modelId - Bedrock model or inference profile ID
+ * @param region - AWS region of the Bedrock runtime
+ * @param maxTokens - Upper bound on generated tokens per reply
+ * @param clientConfig - AWS client configuration overrides for testing
+ */
+export interface ModelProviderConfig {
+  modelId: string;
+  region: string;
+  maxTokens: number;
+  clientConfig: ClientConfig;
+}
+
+/**
+ * Input to the ReaderAgent
+ */
+export interface ReaderAgentInput {
+  userId: string;
+  exerciseId: string;
+  message: string;
+}
+
+/**
+ * Result of a ReaderAgent turn
+ * @param userMessage - The stored user message
+ * @param assistantMessage - The stored reply
+ * @param response - The validated agent response
+ * @param createdExerciseId - Exercise created from generated content, if any
+ * @param vocab - Vocab entry created in the current exercise, if any
+ */
+export interface ReaderAgentResult {
+  userMessage: ChatMessage;
+  assistantMessage: ChatMessage;
+  response: AgentResponse;
+  createdExerciseId?: string;
+  vocab?: Vocab;
+}
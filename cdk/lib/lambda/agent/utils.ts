@@ -0,0 +1,57 @@
+import { ConfigurationError } from "../shared/errors";
+import { buildClientConfig } from "../shared/utils";
+import { BedrockModelProvider } from "./bedrock-model-provider";
+import { FakeModelProvider } from "./fake-model-provider";
+import { ModelProvider } from "./model-provider";
+import { ModelProviderConfig } from "./types";
+
+/**
+ * Model providers the agent can be configured with
+ * - bedrock: Amazon Bedrock (deployed functions)
+ * - fake: deterministic offline replies (local development)
+ */
+export type ModelProviderName = "bedrock" | "fake";
+
+/**
+ * Reads the model provider to use from MODEL_PROVIDER
+ */
+export function getModelProviderName(): ModelProviderName {
+  const name = process.env.MODEL_PROVIDER || "bedrock";
+  if (name !== "bedrock" && name !== "fake") {
+    throw new ConfigurationError(
+      `MODEL_PROVIDER must be 'bedrock' or 'fake', got: ${name}`,
+    );
+  }
+  return name;
+}
+
+/**
+ * Builds Bedrock model configuration from the environment
+ */
+export function validateModelEnvironment(): ModelProviderConfig {
+  const modelId = process.env.BEDROCK_MODEL_ID;
+  if (!modelId) {
+    throw new ConfigurationError("BEDROCK_MODEL_ID is required");
+  }
+
+  const maxTokens = parseInt(process.env.AGENT_MAX_TOKENS || "2048", 10);
+  if (isNaN(maxTokens) || maxTokens < 1) {
+    throw new ConfigurationError("AGENT_MAX_TOKENS must be a positive integer");
+  }
+
+  return {
+    modelId,
+    region: process.env.AWS_REGION || "us-east-1",
+    maxTokens,
+    clientConfig: buildClientConfig(),
+  };
+}
+
+/**
+ * Creates the model provider selected by MODEL_PROVIDER
+ */
+export function createModelProvider(): ModelProvider {
+  return getModelProviderName() === "fake"
+    ? new FakeModelProvider()
+    : new BedrockModelProvider(validateModelEnvironment());
+}
@@ -0,0 +1,173 @@
+import { TransactionalSqlClient } from "../../shared/types";
+import { RuleBasedTokenizer } from "../../tokenizer/rule-based-tokenizer";
+import { Tokenizer } from "../../tokenizer/tokenizer";
+import { NotFoundError } from "../shared/errors";
+import { ExerciseProvider } from "./exercise-provider";
+import { MessageProvider } from "./message-provider";
+import { TokenProvider } from "./token-provider";
+import { VocabProvider } from "./vocab-provider";
+import {
+  CreateExerciseInput,
+  Exercise,
+  ExerciseDetail,
+  ExerciseInclude,
+  ExerciseList,
+  ListExercisesQuery,
+  UpdateExerciseInput,
+} from "./types";
+import { MAX_TITLE_LENGTH } from "./validator";
+
+/**
+ * Length of titles derived from exercise content
+ */
+const DERIVED_TITLE_LENGTH = 50;
+
+/**
+ * Derives a title from the first non-empty line of the content
+ */
+export function deriveTitle(content: string): string {
+  const firstLine =
+    content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .find((line) => line.length > 0) ?? "";
+  const characters = Array.from(firstLine);
+  return characters.length > DERIVED_TITLE_LENGTH
+    ? `${characters.slice(0, DERIVED_TITLE_LENGTH).join("")}…`
+    : firstLine;
+}
+
+/**
+ * Agent for the Exercises endpoints
+ *
+ * Each public method backs one route. Exercises are always looked up by
+ * owner, so another user's exercise is reported as not found.
+ */
+export class ExerciseAgent {
+  constructor(
+    private readonly database: TransactionalSqlClient,
+    private readonly tokenizer: Tokenizer = new RuleBasedTokenizer(),
+  ) {}
+
+  /**
+   * POST /exercises
+   */
+  async createExercise(
+    userId: string,
+    input: CreateExerciseInput,
+  ): Promise<ExerciseDetail> {
+    console.log(`Creating exercise for user ${userId}`);
+
+    // Step 1: Tokenize outside the transaction; it may call the model
+    const textTokens = await this.tokenizer.tokenize(
+      input.content,
+      input.language,
+    );
+
+    const detail = await this.database.transaction(async (client) => {
+      const exercises = new ExerciseProvider(client);
+
+      // Step 2: Make sure the Cognito user has a row to own the exercise
+      await exercises.ensureUser(userId);
+
+      // Step 3: Store the exercise and its tokens
+      const exercise = await exercises.create(userId, {
+        title: (input.title ?? deriveTitle(input.content)).slice(
+          0,
+          MAX_TITLE_LENGTH,
+        ),
+        content: input.content,
+        language: input.language,
+      });
+      const tokens = await new TokenProvider(client).createMany(
+        exercise.exerciseId,
+        textTokens,
+      );
+      return { ...exercise, tokens };
+    });
+
+    console.log(
+      `Created exercise ${detail.exerciseId} with ${detail.tokens.length} tokens`,
+    );
+    return detail;
+  }
+
+  /**
+   * GET /exercises
+   */
+  async listExercises(
+    userId: string,
+    query: ListExercisesQuery,
+  ): Promise<ExerciseList> {
+    return new ExerciseProvider(this.database).list(userId, query);
+  }
+
+  /**
+   * GET /exercises/{exerciseId}
+   * Opening an exercise updates its lastAccessedAt
+   */
+  async getExercise(
+    userId: string,
+    exerciseId: string,
+    includes: ExerciseInclude[],
+  ): Promise<ExerciseDetail> {
+    const exercise = await new ExerciseProvider(this.database).findAndTouch(
+      userId,
+      exerciseId,
+    );
+    if (!exercise) {
+      throw new NotFoundError(`Exercise ${exerciseId} not found`);
+    }
+
+    const detail: ExerciseDetail = { ...exercise };
+    if (includes.includes("tokens")) {
+      detail.tokens = await new TokenProvider(this.database).listForExercise(
+        exerciseId,
+      );
+    }
+    if (includes.includes("vocab")) {
+      detail.vocab = await new VocabProvider(this.database).listForExercise(
+        exerciseId,
+      );
+    }
+    if (includes.includes("messages")) {
+      detail.messages = await new MessageProvider(
+        this.database,
+      ).listForExercise(exerciseId);
+    }
+    return detail;
+  }
+
+  /**
+   * PATCH /exercises/{exerciseId}
+   */
+  async updateExercise(
+    userId: string,
+    exerciseId: string,
+    input: UpdateExerciseInput,
+  ): Promise<Exercise> {
+    const exercise = await new ExerciseProvider(this.database).update(
+      userId,
+      exerciseId,
+      input,
+    );
+    if (!exercise) {
+      throw new NotFoundError(`Exercise ${exerciseId} not found`);
+    }
+    return exercise;
+  }
+
+  /**
+   * DELETE /exercises/{exerciseId}
+   */
+  async deleteExercise(userId: string, exerciseId: string): Promise<void> {
+    const deleted = await new ExerciseProvider(this.database).delete(
+      userId,
+      exerciseId,
+    );
+    if (!deleted) {
+      throw new NotFoundError(`Exercise ${exerciseId} not found`);
+    }
+    console.log(`Deleted exercise ${exerciseId}`);
+  }
+}
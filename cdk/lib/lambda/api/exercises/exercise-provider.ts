@@ -0,0 +1,206 @@
+import { SqlClient } from "../../shared/types";
+import {
+  Exercise,
+  ExerciseList,
+  ExerciseSortField,
+  ListExercisesQuery,
+  UpdateExerciseInput,
+} from "./types";
+
+const EXERCISE_COLUMNS =
+  "exercise_id, title, content, language, created_at, updated_at, last_accessed_at, is_archived";
+
+/**
+ * Full-text document for an exercise; matches idx_exercise_search
+ */
+const SEARCH_DOCUMENT = "to_tsvector('simple', title || ' ' || content)";
+
+const SORT_COLUMNS: Record<Exclude<ExerciseSortField, "relevance">, string> = {
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+  lastAccessedAt: "last_accessed_at",
+  title: "title",
+};
+
+/**
+ * Maps an exercise row to its API shape
+ */
+export function toExercise(row: Record<string, any>): Exercise {
+  return {
+    exerciseId: row.exercise_id,
+    title: row.title,
+    content: row.content,
+    language: row.language,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    lastAccessedAt: new Date(row.last_accessed_at).toISOString(),
+    isArchived: row.is_archived,
+  };
+}
+
+/**
+ * Escapes LIKE wildcards so user input matches literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Provider for exercise and user rows
+ *
+ * Every query is scoped to the owning user; rows belonging to other users
+ * behave as if they do not exist.
+ */
+export class ExerciseProvider {
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Ensures a user row exists for the Cognito user ID
+   */
+  async ensureUser(userId: string): Promise<void> {
+    await this.client.query(
+      `INSERT INTO "user" (user_id) VALUES ($1) ON CONFLICT (user_id) DO NOTHING`,
+      [userId],
+    );
+  }
+
+  /**
+   * Creates an exercise
+   */
+  async create(
+    userId: string,
+    input: { title: string; content: string; language: string },
+  ): Promise<Exercise> {
+    const result = await this.client.query(
+      `INSERT INTO exercise (exercise_user_id, title, content, language)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${EXERCISE_COLUMNS}`,
+      [userId, input.title, input.content, input.language],
+    );
+    return toExercise(result.rows[0]);
+  }
+
+  /**
+   * Lists one page of a user's exercises
+   *
+   * Search matches the full-text index and, so that CJK text without word
+   * boundaries still matches, a substring search on title and content.
+   */
+  async list(userId: string, query: ListExercisesQuery): Promise<ExerciseList> {
+    const values: unknown[] = [userId];
+    let where = "exercise_user_id = $1";
+    let orderBy: string;
+
+    if (query.query) {
+      values.push(query.query, `%${escapeLike(query.query)}%`);
+      where += ` AND (${SEARCH_DOCUMENT} @@ plainto_tsquery('simple', $2) OR title ILIKE $3 OR content ILIKE $3)`;
+    }
+
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    if (query.sort === "relevance") {
+      orderBy = `ts_rank(${SEARCH_DOCUMENT}, plainto_tsquery('simple', $2)) ${direction}, created_at DESC`;
+    } else {
+      orderBy = `${SORT_COLUMNS[query.sort]} ${direction}`;
+    }
+
+    const countResult = await this.client.query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM exercise WHERE ${where}`,
+      values,
+    );
+
+    const pageValues = [...values, query.limit, query.offset];
+    const result = await this.client.query(
+      `SELECT ${EXERCISE_COLUMNS}
+       FROM exercise
+       WHERE ${where}
+       ORDER BY ${orderBy}, exercise_id ASC
+       LIMIT $${pageValues.length - 1} OFFSET $${pageValues.length}`,
+      pageValues,
+    );
+
+    return {
+      items: result.rows.map(toExercise),
+      total: parseInt(countResult.rows[0]?.total ?? "0", 10),
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+
+  /**
+   * Finds a user's exercise without changing it
+   */
+  async find(
+    userId: string,
+    exerciseId: string,
+  ): Promise<Exercise | undefined> {
+    const result = await this.client.query(
+      `SELECT ${EXERCISE_COLUMNS}
+       FROM exercise
+       WHERE exercise_id = $1 AND exercise_user_id = $2`,
+      [exerciseId, userId],
+    );
+    return result.rows[0] ? toExercise(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Finds a user's exercise and records that it was opened
+   */
+  async findAndTouch(
+    userId: string,
+    exerciseId: string,
+  ): Promise<Exercise | undefined> {
+    const result = await this.client.query(
+      `UPDATE exercise SET last_accessed_at = NOW()
+       WHERE exercise_id = $1 AND exercise_user_id = $2
+       RETURNING ${EXERCISE_COLUMNS}`,
+      [exerciseId, userId],
+    );
+    return result.rows[0] ? toExercise(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Updates the given fields of a user's exercise
+   */
+  async update(
+    userId: string,
+    exerciseId: string,
+    input: UpdateExerciseInput,
+  ): Promise<Exercise | undefined> {
+    const columns: Record<keyof UpdateExerciseInput, string> = {
+      title: "title",
+      language: "language",
+      isArchived: "is_archived",
+    };
+    const values: unknown[] = [exerciseId, userId];
+    const assignments = ["updated_at = NOW()"];
+
+    (Object.keys(columns) as Array<keyof UpdateExerciseInput>).forEach(
+      (key) => {
+        if (input[key] !== undefined) {
+          values.push(input[key]);
+          assignments.push(`${columns[key]} = $${values.length}`);
+        }
+      },
+    );
+
+    const result = await this.client.query(
+      `UPDATE exercise SET ${assignments.join(", ")}
+       WHERE exercise_id = $1 AND exercise_user_id = $2
+       RETURNING ${EXERCISE_COLUMNS}`,
+      values,
+    );
+    return result.rows[0] ? toExercise(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Deletes a user's exercise; related rows are removed by cascade
+   * @returns whether an exercise was deleted
+   */
+  async delete(userId: string, exerciseId: string): Promise<boolean> {
+    const result = await this.client.query(
+      `DELETE FROM exercise WHERE exercise_id = $1 AND exercise_user_id = $2`,
+      [exerciseId, userId],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
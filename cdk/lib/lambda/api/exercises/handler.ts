@@ -0,0 +1,101 @@
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
+import { createModelProvider } from "../../agent/utils";
+import { FallbackTokenizer } from "../../tokenizer/fallback-tokenizer";
+import { ModelTokenizer } from "../../tokenizer/model-tokenizer";
+import { RuleBasedTokenizer } from "../../tokenizer/rule-based-tokenizer";
+import { Tokenizer } from "../../tokenizer/tokenizer";
+import { getDatabase } from "../shared/database";
+import { created, noContent, ok } from "../shared/responses";
+import { getPathParameter, getUserId, parseJsonBody } from "../shared/request";
+import { routeRequest } from "../shared/router";
+import { requireUuid } from "../shared/validation";
+import { ExerciseAgent } from "./exercise-agent";
+import {
+  parseIncludes,
+  parseListExercisesQuery,
+  validateCreateExercise,
+  validateUpdateExercise,
+} from "./validator";
+
+let tokenizer: Tokenizer | undefined;
+
+/**
+ * Gets the tokenizer for new exercises, reused across warm invocations
+ * Uses the model when one is configured and rules otherwise
+ */
+function getTokenizer(): Tokenizer {
+  if (!tokenizer) {
+    const modelConfigured =
+      !!process.env.BEDROCK_MODEL_ID || process.env.MODEL_PROVIDER === "fake";
+    tokenizer = modelConfigured
+      ? new FallbackTokenizer(
+          new ModelTokenizer(createModelProvider()),
+          new RuleBasedTokenizer(),
+        )
+      : new RuleBasedTokenizer();
+  }
+  return tokenizer;
+}
+
+/**
+ * Gets the exercise ID path parameter
+ */
+function getExerciseId(event: APIGatewayProxyEvent): string {
+  return requireUuid(getPathParameter(event, "exerciseId"), "exerciseId");
+}
+
+/**
+ * Lambda handler for the Exercises endpoints
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context,
+): Promise<APIGatewayProxyResult> {
+  return routeRequest(event, {
+    "POST /exercises": async (event) => {
+      const input = validateCreateExercise(parseJsonBody(event));
+      const agent = new ExerciseAgent(getDatabase(), getTokenizer());
+      return created(await agent.createExercise(getUserId(event), input));
+    },
+
+    "GET /exercises": async (event) => {
+      const query = parseListExercisesQuery(event);
+      const agent = new ExerciseAgent(getDatabase());
+      return ok(await agent.listExercises(getUserId(event), query));
+    },
+
+    "GET /exercises/{exerciseId}": async (event) => {
+      const includes = parseIncludes(event);
+      const agent = new ExerciseAgent(getDatabase());
+      return ok(
+        await agent.getExercise(
+          getUserId(event),
+          getExerciseId(event),
+          includes,
+        ),
+      );
+    },
+
+    "PATCH /exercises/{exerciseId}": async (event) => {
+      const input = validateUpdateExercise(parseJsonBody(event));
+      const agent = new ExerciseAgent(getDatabase());
+      return ok(
+        await agent.updateExercise(
+          getUserId(event),
+          getExerciseId(event),
+          input,
+        ),
+      );
+    },
+
+    "DELETE /exercises/{exerciseId}": async (event) => {
+      const agent = new ExerciseAgent(getDatabase());
+      await agent.deleteExercise(getUserId(event), getExerciseId(event));
+      return noContent();
+    },
+  });
+}
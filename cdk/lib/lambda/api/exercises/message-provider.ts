@@ -0,0 +1,53 @@
+import { SqlClient } from "../../shared/types";
+import { ChatMessage, ChatRole } from "./types";
+
+/**
+ * Maps a chat message row to its API shape
+ */
+export function toChatMessage(row: Record<string, any>): ChatMessage {
+  return {
+    chatMessageId: row.chat_message_id,
+    role: row.role,
+    content: row.content,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Provider for the chat messages of an exercise
+ * Callers are responsible for checking the exercise belongs to the user
+ */
+export class MessageProvider {
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Lists an exercise's messages oldest first
+   */
+  async listForExercise(exerciseId: string): Promise<ChatMessage[]> {
+    const result = await this.client.query(
+      `SELECT chat_message_id, role, content, created_at
+       FROM chat_message
+       WHERE chat_message_exercise_id = $1
+       ORDER BY created_at ASC, chat_message_id ASC`,
+      [exerciseId],
+    );
+    return result.rows.map(toChatMessage);
+  }
+
+  /**
+   * Adds a message to an exercise's chat
+   */
+  async create(
+    exerciseId: string,
+    role: ChatRole,
+    content: string,
+  ): Promise<ChatMessage> {
+    const result = await this.client.query(
+      `INSERT INTO chat_message (chat_message_exercise_id, role, content)
+       VALUES ($1, $2, $3)
+       RETURNING chat_message_id, role, content, created_at`,
+      [exerciseId, role, content],
+    );
+    return toChatMessage(result.rows[0]);
+  }
+}
@@ -0,0 +1,68 @@
+import { SqlClient } from "../../shared/types";
+import { Token } from "./types";
+
+/**
+ * A token to store; offsets are into the exercise content
+ */
+export interface NewToken {
+  startIndex: number;
+  endIndex: number;
+  order: number;
+}
+
+/**
+ * Maps a token row to its API shape
+ */
+export function toToken(row: Record<string, any>): Token {
+  return {
+    tokenId: row.token_id,
+    startIndex: row.start_index,
+    endIndex: row.end_index,
+    order: row.order,
+  };
+}
+
+/**
+ * Provider for the tokens of an exercise
+ * Callers are responsible for checking the exercise belongs to the user
+ */
+export class TokenProvider {
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Lists an exercise's tokens in reading order
+   */
+  async listForExercise(exerciseId: string): Promise<Token[]> {
+    const result = await this.client.query(
+      `SELECT token_id, start_index, end_index, "order"
+       FROM token
+       WHERE token_exercise_id = $1
+       ORDER BY "order" ASC`,
+      [exerciseId],
+    );
+    return result.rows.map(toToken);
+  }
+
+  /**
+   * Stores tokens for an exercise in a single statement
+   */
+  async createMany(exerciseId: string, tokens: NewToken[]): Promise<Token[]> {
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    const result = await this.client.query(
+      `INSERT INTO token (token_exercise_id, start_index, end_index, "order")
+       SELECT $1, t.start_index, t.end_index, t.token_order
+       FROM unnest($2::int[], $3::int[], $4::int[]) AS t(start_index, end_index, token_order)
+       RETURNING token_id, start_index, end_index, "order"`,
+      [
+        exerciseId,
+        tokens.map((token) => token.startIndex),
+        tokens.map((token) => token.endIndex),
+        tokens.map((token) => token.order),
+      ],
+    );
+    return result.rows.map(toToken).sort((a, b) => a.order - b.order);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Type definitions for exercises and their related data
+ *
+ * API shapes are camelCase; the providers map them from the snake_case
+ * columns described in the Database Schema appendix of DEVELOPMENT_PLAN.md.
+ */
+
+/**
+ * A reading exercise owned by a user
+ */
+export interface Exercise {
+  exerciseId: string;
+  title: string;
+  content: string;
+  language: string;
+  createdAt: string;
+  updatedAt: string;
+  lastAccessedAt: string;
+  isArchived: boolean;
+}
+
+/**
+ * A span of exercise content the reader can tap
+ * @param startIndex - Inclusive start offset into the exercise content
+ * @param endIndex - Exclusive end offset into the exercise content
+ * @param order - Position of the token in reading order
+ */
+export interface Token {
+  tokenId: string;
+  startIndex: number;
+  endIndex: number;
+  order: number;
+}
+
+/**
+ * A vocabulary entry saved from an exercise
+ * @param excerptStartIndex - Inclusive start of the excerpt the vocab came from
+ * @param excerptEndIndex - Exclusive end of the excerpt the vocab came from
+ * @param tokenIds - Tokens in the exercise that make up this vocab
+ */
+export interface Vocab {
+  vocabId: string;
+  vocab: string;
+  reading: string | null;
+  equivalent: string;
+  excerptStartIndex: number;
+  excerptEndIndex: number;
+  tokenIds: string[];
+}
+
+/**
+ * Author of a chat message
+ */
+export type ChatRole = "user" | "assistant";
+
+/**
+ * A chat message exchanged with the ReaderAgent about an exercise
+ */
+export interface ChatMessage {
+  chatMessageId: string;
+  role: ChatRole;
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * Related data that GET /exercises/{id} can include
+ */
+export type ExerciseInclude = "tokens" | "vocab" | "messages";
+
+/**
+ * Exercise with any requested related data
+ */
+export interface ExerciseDetail extends Exercise {
+  tokens?: Token[];
+  vocab?: Vocab[];
+  messages?: ChatMessage[];
+}
+
+/**
+ * Fields GET /exercises can sort by
+ */
+export type ExerciseSortField =
+  | "createdAt"
+  | "updatedAt"
+  | "lastAccessedAt"
+  | "relevance"
+  | "title";
+
+/**
+ * Sort direction
+ */
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Parsed query parameters for GET /exercises
+ * @param query - Optional full-text search query
+ */
+export interface ListExercisesQuery {
+  sort: ExerciseSortField;
+  order: SortOrder;
+  limit: number;
+  offset: number;
+  query?: string;
+}
+
+/**
+ * One page of exercises
+ * @param total - Number of exercises matching the query across all pages
+ */
+export interface ExerciseList {
+  items: Exercise[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Body of POST /exercises
+ * @param title - Optional; derived from the content when omitted
+ */
+export interface CreateExerciseInput {
+  title?: string;
+  content: string;
+  language: string;
+}
+
+/**
+ * Body of PATCH /exercises/{id}
+ * Content is immutable because tokens and vocab reference it by offset
+ */
+export interface UpdateExerciseInput {
+  title?: string;
+  language?: string;
+  isArchived?: boolean;
+}
+
+/**
+ * Body of POST /exercises/{id}/vocab
+ */
+export interface CreateVocabInput {
+  vocab: string;
+  reading?: string | null;
+  equivalent: string;
+  excerptStartIndex: number;
+  excerptEndIndex: number;
+  tokenIds?: string[];
+}
+
+/**
+ * Body of PATCH /exercises/{id}/vocab/{vocabId}
+ */
+export interface UpdateVocabInput {
+  vocab?: string;
+  reading?: string | null;
+  equivalent?: string;
+  tokenIds?: string[];
+}
+
+/**
+ * Body of POST /exercises/{id}/messages
+ */
+export interface CreateMessageInput {
+  content: string;
+}
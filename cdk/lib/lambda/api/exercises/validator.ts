@@ -0,0 +1,198 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { BadRequestError } from "../shared/errors";
+import { getQueryValues } from "../shared/request";
+import {
+  optionalBoolean,
+  optionalString,
+  rejectUnknownFields,
+  requireString,
+} from "../shared/validation";
+import {
+  CreateExerciseInput,
+  ExerciseInclude,
+  ExerciseSortField,
+  ListExercisesQuery,
+  SortOrder,
+  UpdateExerciseInput,
+} from "./types";
+
+/**
+ * Maximum length of exercise content in characters
+ */
+export const MAX_CONTENT_LENGTH = 50_000;
+
+/**
+ * Maximum length of an exercise title in characters
+ */
+export const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Page size used when GET /exercises omits limit
+ */
+export const DEFAULT_LIST_LIMIT = 20;
+
+/**
+ * Largest page size GET /exercises accepts
+ */
+export const MAX_LIST_LIMIT = 100;
+
+const SORT_FIELDS: ExerciseSortField[] = [
+  "createdAt",
+  "updatedAt",
+  "lastAccessedAt",
+  "relevance",
+  "title",
+];
+
+const INCLUDES: ExerciseInclude[] = ["tokens", "vocab", "messages"];
+
+/**
+ * Validates a language code such as `ja`, `zh-Hant` or `pt-BR`
+ * Must fit the VARCHAR(10) language column
+ */
+function validateLanguage(language: string): string {
+  if (!/^[a-z]{2,3}(-[A-Za-z0-9]{2,4})?$/.test(language)) {
+    throw new BadRequestError(
+      `language must be a language code such as 'ja' or 'zh-Hant'`,
+      { field: "language" },
+    );
+  }
+  return language;
+}
+
+/**
+ * Validates the body of POST /exercises
+ */
+export function validateCreateExercise(
+  body: Record<string, unknown>,
+): CreateExerciseInput {
+  rejectUnknownFields(body, ["title", "content", "language"]);
+
+  return {
+    title: optionalString(body, "title", MAX_TITLE_LENGTH),
+    content: requireString(body, "content", MAX_CONTENT_LENGTH),
+    language: validateLanguage(requireString(body, "language", 10)),
+  };
+}
+
+/**
+ * Validates the body of PATCH /exercises/{id}
+ */
+export function validateUpdateExercise(
+  body: Record<string, unknown>,
+): UpdateExerciseInput {
+  if ("content" in body) {
+    throw new BadRequestError(
+      "content cannot be changed; create a new exercise instead",
+      { field: "content" },
+    );
+  }
+  rejectUnknownFields(body, ["title", "language", "isArchived"]);
+
+  const language = optionalString(body, "language", 10);
+  const input: UpdateExerciseInput = {
+    title: optionalString(body, "title", MAX_TITLE_LENGTH),
+    language: language === undefined ? undefined : validateLanguage(language),
+    isArchived: optionalBoolean(body, "isArchived"),
+  };
+
+  if (Object.values(input).every((value) => value === undefined)) {
+    throw new BadRequestError("At least one field must be provided");
+  }
+  return input;
+}
+
+/**
+ * Parses an integer query parameter within bounds
+ */
+function parseIntegerParam(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new BadRequestError(
+      `${name} must be an integer between ${min} and ${max}`,
+      { field: name },
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Parses the query string of GET /exercises
+ *
+ * Defaults to newest first. `relevance` requires a search query; title sorts
+ * default to ascending, every other field to descending.
+ */
+export function parseListExercisesQuery(
+  event: APIGatewayProxyEvent,
+): ListExercisesQuery {
+  const params = event.queryStringParameters ?? {};
+  const query = params.query?.trim() || undefined;
+
+  const sort = (params.sort ?? (query ? "relevance" : "createdAt")) as
+    | ExerciseSortField
+    | string;
+  if (!SORT_FIELDS.includes(sort as ExerciseSortField)) {
+    throw new BadRequestError(
+      `sort must be one of: ${SORT_FIELDS.join(", ")}`,
+      { field: "sort" },
+    );
+  }
+  if (sort === "relevance" && !query) {
+    throw new BadRequestError("sort=relevance requires a query", {
+      field: "sort",
+    });
+  }
+
+  const order = params.order ?? (sort === "title" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc") {
+    throw new BadRequestError("order must be 'asc' or 'desc'", {
+      field: "order",
+    });
+  }
+
+  return {
+    sort: sort as ExerciseSortField,
+    order: order as SortOrder,
+    limit: parseIntegerParam(
+      params.limit,
+      "limit",
+      DEFAULT_LIST_LIMIT,
+      1,
+      MAX_LIST_LIMIT,
+    ),
+    offset: parseIntegerParam(
+      params.offset,
+      "offset",
+      0,
+      0,
+      Number.MAX_SAFE_INTEGER,
+    ),
+    query,
+  };
+}
+
+/**
+ * Parses the include parameter of GET /exercises/{id}
+ */
+export function parseIncludes(event: APIGatewayProxyEvent): ExerciseInclude[] {
+  const includes = getQueryValues(event, "include");
+  const unknown = includes.filter(
+    (include) => !INCLUDES.includes(include as ExerciseInclude),
+  );
+  if (unknown.length > 0) {
+    throw new BadRequestError(
+      `include must be any of: ${INCLUDES.join(", ")}`,
+      { field: "include", values: unknown },
+    );
+  }
+  return Array.from(new Set(includes)) as ExerciseInclude[];
+}
@@ -0,0 +1,150 @@
+import { SqlClient } from "../../shared/types";
+import { CreateVocabInput, UpdateVocabInput, Vocab } from "./types";
+
+const VOCAB_SELECT = `
+  SELECT v.vocab_id, v.vocab, v.reading, v.equivalent,
+         v.excerpt_start_index, v.excerpt_end_index,
+         COALESCE(
+           array_agg(j.join_vocab_token_token_id) FILTER (WHERE j.join_vocab_token_token_id IS NOT NULL),
+           '{}'
+         ) AS token_ids
+  FROM vocab v
+  LEFT JOIN join_vocab_token j ON j.join_vocab_token_vocab_id = v.vocab_id`;
+
+/**
+ * Maps a vocab row (with aggregated token IDs) to its API shape
+ */
+export function toVocab(row: Record<string, any>): Vocab {
+  return {
+    vocabId: row.vocab_id,
+    vocab: row.vocab,
+    reading: row.reading ?? null,
+    equivalent: row.equivalent,
+    excerptStartIndex: row.excerpt_start_index,
+    excerptEndIndex: row.excerpt_end_index,
+    tokenIds: row.token_ids ?? [],
+  };
+}
+
+/**
+ * Provider for vocab entries and their links to tokens
+ * Callers are responsible for checking the exercise belongs to the user
+ */
+export class VocabProvider {
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Lists an exercise's vocab in excerpt order
+   */
+  async listForExercise(exerciseId: string): Promise<Vocab[]> {
+    const result = await this.client.query(
+      `${VOCAB_SELECT}
+       WHERE v.vocab_exercise_id = $1
+       GROUP BY v.vocab_id
+       ORDER BY v.excerpt_start_index ASC, v.vocab_id ASC`,
+      [exerciseId],
+    );
+    return result.rows.map(toVocab);
+  }
+
+  /**
+   * Finds a vocab entry of an exercise
+   */
+  async find(exerciseId: string, vocabId: string): Promise<Vocab | undefined> {
+    const result = await this.client.query(
+      `${VOCAB_SELECT}
+       WHERE v.vocab_exercise_id = $1 AND v.vocab_id = $2
+       GROUP BY v.vocab_id`,
+      [exerciseId, vocabId],
+    );
+    return result.rows[0] ? toVocab(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Creates a vocab entry without token links
+   * @returns the new vocab ID
+   */
+  async create(
+    exerciseId: string,
+    input: Omit<CreateVocabInput, "tokenIds">,
+  ): Promise<string> {
+    const result = await this.client.query<{ vocab_id: string }>(
+      `INSERT INTO vocab (vocab_exercise_id, vocab, reading, equivalent, excerpt_start_index, excerpt_end_index)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING vocab_id`,
+      [
+        exerciseId,
+        input.vocab,
+        input.reading ?? null,
+        input.equivalent,
+        input.excerptStartIndex,
+        input.excerptEndIndex,
+      ],
+    );
+    return result.rows[0].vocab_id;
+  }
+
+  /**
+   * Updates the text fields of a vocab entry
+   * @returns whether the vocab entry exists
+   */
+  async update(
+    exerciseId: string,
+    vocabId: string,
+    input: Omit<UpdateVocabInput, "tokenIds">,
+  ): Promise<boolean> {
+    const columns: Record<keyof typeof input, string> = {
+      vocab: "vocab",
+      reading: "reading",
+      equivalent: "equivalent",
+    };
+    const values: unknown[] = [exerciseId, vocabId];
+    const assignments: string[] = [];
+
+    (Object.keys(columns) as Array<keyof typeof input>).forEach((key) => {
+      if (input[key] !== undefined) {
+        values.push(input[key]);
+        assignments.push(`${columns[key]} = $${values.length}`);
+      }
+    });
+
+    // Nothing to change; still report whether the entry exists
+    if (assignments.length === 0) {
+      return (await this.find(exerciseId, vocabId)) !== undefined;
+    }
+
+    const result = await this.client.query(
+      `UPDATE vocab SET ${assignments.join(", ")}
+       WHERE vocab_exercise_id = $1 AND vocab_id = $2`,
+      values,
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Replaces the tokens linked to a vocab entry
+   * Only tokens of the same exercise are linked
+   * @returns the number of tokens linked
+   */
+  async setTokens(
+    exerciseId: string,
+    vocabId: string,
+    tokenIds: string[],
+  ): Promise<number> {
+    await this.client.query(
+      `DELETE FROM join_vocab_token WHERE join_vocab_token_vocab_id = $1`,
+      [vocabId],
+    );
+    if (tokenIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.client.query(
+      `INSERT INTO join_vocab_token (join_vocab_token_vocab_id, join_vocab_token_token_id)
+       SELECT $1, token_id FROM token
+       WHERE token_exercise_id = $2 AND token_id = ANY($3::uuid[])`,
+      [vocabId, exerciseId, tokenIds],
+    );
+    return result.rowCount ?? 0;
+  }
+}
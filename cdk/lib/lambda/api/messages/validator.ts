@@ -0,0 +1,17 @@
+import { rejectUnknownFields, requireString } from "../shared/validation";
+import { CreateMessageInput } from "../exercises/types";
+
+/**
+ * Maximum length of a chat message in characters
+ */
+export const MAX_MESSAGE_LENGTH = 4_000;
+
+/**
+ * Validates the body of POST /exercises/{id}/messages
+ */
+export function validateCreateMessage(
+  body: Record<string, unknown>,
+): CreateMessageInput {
+  rejectUnknownFields(body, ["content"]);
+  return { content: requireString(body, "content", MAX_MESSAGE_LENGTH) };
+}
@@ -0,0 +1,17 @@
+import { DatabaseProvider } from "../../shared/database-provider";
+import { validateDatabaseEnvironment } from "../../shared/utils";
+
+let database: DatabaseProvider | undefined;
+
+/**
+ * Gets the database provider shared by API handlers
+ *
+ * Created on first use and kept for the lifetime of the execution
+ * environment so warm invocations reuse the connection pool.
+ */
+export function getDatabase(): DatabaseProvider {
+  if (!database) {
+    database = new DatabaseProvider(validateDatabaseEnvironment());
+  }
+  return database;
+}
@@ -0,0 +1,45 @@
+/**
+ * Error returned to API clients with an HTTP status
+ * The message and code are safe to show to the caller
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Error raised when a request body or query string is invalid (400)
+ */
+export class BadRequestError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(400, "BAD_REQUEST", message, details);
+    this.name = "BadRequestError";
+  }
+}
+
+/**
+ * Error raised when the caller is not authenticated (401)
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Unauthorized") {
+    super(401, "UNAUTHORIZED", message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * Error raised when a resource does not exist or belongs to another user (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, "NOT_FOUND", message);
+    this.name = "NotFoundError";
+  }
+}
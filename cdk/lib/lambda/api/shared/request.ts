@@ -0,0 +1,74 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { BadRequestError, UnauthorizedError } from "./errors";
+
+/**
+ * Gets the Cognito user ID (the `sub` claim) set by the API authorizer
+ */
+export function getUserId(event: APIGatewayProxyEvent): string {
+  const sub = event.requestContext.authorizer?.claims?.sub;
+  if (!sub || typeof sub !== "string") {
+    throw new UnauthorizedError();
+  }
+  return sub;
+}
+
+/**
+ * Gets a required path parameter
+ */
+export function getPathParameter(
+  event: APIGatewayProxyEvent,
+  name: string,
+): string {
+  const value = event.pathParameters?.[name];
+  if (!value) {
+    throw new BadRequestError(`Missing path parameter: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Parses the JSON request body into an object
+ */
+export function parseJsonBody(
+  event: APIGatewayProxyEvent,
+): Record<string, unknown> {
+  if (!event.body) {
+    throw new BadRequestError("Request body is required");
+  }
+
+  const raw = event.isBase64Encoded
+    ? Buffer.from(event.body, "base64").toString("utf8")
+    : event.body;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new BadRequestError("Request body must be valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new BadRequestError("Request body must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Gets every value of a query parameter
+ * Accepts repeated (`?a=1&a=2`) and comma-separated (`?a=1,2`) forms
+ */
+export function getQueryValues(
+  event: APIGatewayProxyEvent,
+  name: string,
+): string[] {
+  const values =
+    event.multiValueQueryStringParameters?.[name] ??
+    (event.queryStringParameters?.[name] !== undefined
+      ? [event.queryStringParameters[name] as string]
+      : []);
+
+  return values
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
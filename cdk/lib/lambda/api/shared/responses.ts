@@ -0,0 +1,61 @@
+import { APIGatewayProxyResult } from "aws-lambda";
+import { ApiError } from "./errors";
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json",
+  "Access-Control-Allow-Origin": "*",
+};
+
+/**
+ * Builds a JSON response
+ */
+export function jsonResponse(
+  statusCode: number,
+  body: unknown,
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: JSON_HEADERS,
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * 200 OK with a JSON body
+ */
+export function ok(body: unknown): APIGatewayProxyResult {
+  return jsonResponse(200, body);
+}
+
+/**
+ * 201 Created with a JSON body
+ */
+export function created(body: unknown): APIGatewayProxyResult {
+  return jsonResponse(201, body);
+}
+
+/**
+ * 204 No Content
+ */
+export function noContent(): APIGatewayProxyResult {
+  return { statusCode: 204, headers: JSON_HEADERS, body: "" };
+}
+
+/**
+ * Converts an error into a response
+ * ApiErrors keep their status and message; anything else becomes an opaque 500
+ */
+export function errorResponse(error: unknown): APIGatewayProxyResult {
+  if (error instanceof ApiError) {
+    return jsonResponse(error.statusCode, {
+      message: error.message,
+      code: error.code,
+      ...(error.details ? { details: error.details } : {}),
+    });
+  }
+
+  return jsonResponse(500, {
+    message: "Internal server error",
+    code: "INTERNAL_ERROR",
+  });
+}
@@ -0,0 +1,45 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { ApiError, NotFoundError } from "./errors";
+import { errorResponse } from "./responses";
+
+/**
+ * Handler for a single API route
+ */
+export type RouteHandler = (
+  event: APIGatewayProxyEvent,
+) => Promise<APIGatewayProxyResult>;
+
+/**
+ * Routes keyed by `METHOD /resource/{param}` as API Gateway reports them
+ * e.g. `GET /exercises/{exerciseId}`
+ */
+export type Routes = Record<string, RouteHandler>;
+
+/**
+ * Dispatches an API Gateway proxy event to the matching route
+ *
+ * Known errors are returned with their status; anything else is logged and
+ * returned as a 500 without internal details.
+ */
+export async function routeRequest(
+  event: APIGatewayProxyEvent,
+  routes: Routes,
+): Promise<APIGatewayProxyResult> {
+  const routeKey = `${event.httpMethod} ${event.resource}`;
+  console.log(`Handling ${routeKey}`);
+
+  try {
+    const route = routes[routeKey];
+    if (!route) {
+      throw new NotFoundError(`No route for ${routeKey}`);
+    }
+    return await route(event);
+  } catch (error: any) {
+    if (error instanceof ApiError) {
+      console.log(`Request failed (${error.statusCode}): ${error.message}`);
+    } else {
+      console.error("Unexpected error:", error);
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,140 @@
+import { BadRequestError } from "./errors";
+
+/**
+ * Reads a required, non-blank string field
+ */
+export function requireString(
+  body: Record<string, unknown>,
+  field: string,
+  maxLength: number,
+): string {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new BadRequestError(`${field} is required and must be a string`, {
+      field,
+    });
+  }
+  if (value.length > maxLength) {
+    throw new BadRequestError(
+      `${field} must be at most ${maxLength} characters`,
+      { field },
+    );
+  }
+  return value;
+}
+
+/**
+ * Reads an optional string field; absent fields return undefined
+ */
+export function optionalString(
+  body: Record<string, unknown>,
+  field: string,
+  maxLength: number,
+): string | undefined {
+  if (body[field] === undefined) {
+    return undefined;
+  }
+  return requireString(body, field, maxLength);
+}
+
+/**
+ * Reads an optional string field that may be explicitly cleared with null
+ */
+export function optionalNullableString(
+  body: Record<string, unknown>,
+  field: string,
+  maxLength: number,
+): string | null | undefined {
+  if (body[field] === null) {
+    return null;
+  }
+  return optionalString(body, field, maxLength);
+}
+
+/**
+ * Reads a required non-negative integer field
+ */
+export function requireIndex(
+  body: Record<string, unknown>,
+  field: string,
+): number {
+  const value = body[field];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new BadRequestError(`${field} must be a non-negative integer`, {
+      field,
+    });
+  }
+  return value;
+}
+
+/**
+ * Reads an optional boolean field
+ */
+export function optionalBoolean(
+  body: Record<string, unknown>,
+  field: string,
+): boolean | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "boolean") {
+    throw new BadRequestError(`${field} must be a boolean`, { field });
+  }
+  return value;
+}
+
+/**
+ * Reads an optional array of UUID strings
+ */
+export function optionalIdList(
+  body: Record<string, unknown>,
+  field: string,
+): string[] | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every((id) => isUuid(id))) {
+    throw new BadRequestError(`${field} must be an array of IDs`, { field });
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+/**
+ * Rejects fields the endpoint does not accept
+ */
+export function rejectUnknownFields(
+  body: Record<string, unknown>,
+  allowed: string[],
+): void {
+  const unknown = Object.keys(body).filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new BadRequestError(`Unknown fields: ${unknown.join(", ")}`, {
+      fields: unknown,
+    });
+  }
+}
+
+/**
+ * Checks whether a value is a UUID string
+ */
+export function isUuid(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      value,
+    )
+  );
+}
+
+/**
+ * Validates that a path parameter is a UUID
+ * Unknown IDs are reported as missing rather than as a database error
+ */
+export function requireUuid(value: string, name: string): string {
+  if (!isUuid(value)) {
+    throw new BadRequestError(`${name} must be a valid ID`, { field: name });
+  }
+  return value;
+}
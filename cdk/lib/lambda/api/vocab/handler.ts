@@ -0,0 +1,63 @@
+import {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+} from "aws-lambda";
+import { getDatabase } from "../shared/database";
+import { created, ok } from "../shared/responses";
+import { getPathParameter, getUserId, parseJsonBody } from "../shared/request";
+import { routeRequest } from "../shared/router";
+import { requireUuid } from "../shared/validation";
+import { validateCreateVocab, validateUpdateVocab } from "./validator";
+import { VocabAgent } from "./vocab-agent";
+
+/**
+ * Gets a UUID path parameter
+ */
+function getId(event: APIGatewayProxyEvent, name: string): string {
+  return requireUuid(getPathParameter(event, name), name);
+}
+
+/**
+ * Lambda handler for the Vocab endpoints
+ */
+export async function handler(
+  event: APIGatewayProxyEvent,
+  context: Context,
+): Promise<APIGatewayProxyResult> {
+  return routeRequest(event, {
+    "POST /exercises/{exerciseId}/vocab": async (event) => {
+      const input = validateCreateVocab(parseJsonBody(event));
+      const agent = new VocabAgent(getDatabase());
+      return created(
+        await agent.createVocab(
+          getUserId(event),
+          getId(event, "exerciseId"),
+          input,
+        ),
+      );
+    },
+
+    "GET /exercises/{exerciseId}/vocab": async (event) => {
+      const agent = new VocabAgent(getDatabase());
+      const items = await agent.listVocab(
+        getUserId(event),
+        getId(event, "exerciseId"),
+      );
+      return ok({ items, total: items.length });
+    },
+
+    "PATCH /exercises/{exerciseId}/vocab/{vocabId}": async (event) => {
+      const input = validateUpdateVocab(parseJsonBody(event));
+      const agent = new VocabAgent(getDatabase());
+      return ok(
+        await agent.updateVocab(
+          getUserId(event),
+          getId(event, "exerciseId"),
+          getId(event, "vocabId"),
+          input,
+        ),
+      );
+    },
+  });
+}
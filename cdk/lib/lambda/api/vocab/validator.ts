@@ -0,0 +1,70 @@
+import { BadRequestError } from "../shared/errors";
+import {
+  optionalIdList,
+  optionalNullableString,
+  optionalString,
+  rejectUnknownFields,
+  requireIndex,
+  requireString,
+} from "../shared/validation";
+import { CreateVocabInput, UpdateVocabInput } from "../exercises/types";
+
+/**
+ * Maximum length of the vocab, reading and equivalent fields
+ */
+export const MAX_VOCAB_FIELD_LENGTH = 500;
+
+/**
+ * Validates the body of POST /exercises/{id}/vocab
+ * Excerpt bounds are checked against the exercise content by the agent
+ */
+export function validateCreateVocab(
+  body: Record<string, unknown>,
+): CreateVocabInput {
+  rejectUnknownFields(body, [
+    "vocab",
+    "reading",
+    "equivalent",
+    "excerptStartIndex",
+    "excerptEndIndex",
+    "tokenIds",
+  ]);
+
+  const input: CreateVocabInput = {
+    vocab: requireString(body, "vocab", MAX_VOCAB_FIELD_LENGTH),
+    reading: optionalNullableString(body, "reading", MAX_VOCAB_FIELD_LENGTH),
+    equivalent: requireString(body, "equivalent", MAX_VOCAB_FIELD_LENGTH),
+    excerptStartIndex: requireIndex(body, "excerptStartIndex"),
+    excerptEndIndex: requireIndex(body, "excerptEndIndex"),
+    tokenIds: optionalIdList(body, "tokenIds"),
+  };
+
+  if (input.excerptEndIndex <= input.excerptStartIndex) {
+    throw new BadRequestError(
+      "excerptEndIndex must be greater than excerptStartIndex",
+      { field: "excerptEndIndex" },
+    );
+  }
+  return input;
+}
+
+/**
+ * Validates the body of PATCH /exercises/{id}/vocab/{vocabId}
+ */
+export function validateUpdateVocab(
+  body: Record<string, unknown>,
+): UpdateVocabInput {
+  rejectUnknownFields(body, ["vocab", "reading", "equivalent", "tokenIds"]);
+
+  const input: UpdateVocabInput = {
+    vocab: optionalString(body, "vocab", MAX_VOCAB_FIELD_LENGTH),
+    reading: optionalNullableString(body, "reading", MAX_VOCAB_FIELD_LENGTH),
+    equivalent: optionalString(body, "equivalent", MAX_VOCAB_FIELD_LENGTH),
+    tokenIds: optionalIdList(body, "tokenIds"),
+  };
+
+  if (Object.values(input).every((value) => value === undefined)) {
+    throw new BadRequestError("At least one field must be provided");
+  }
+  return input;
+}
@@ -0,0 +1,117 @@
+import { SqlClient, TransactionalSqlClient } from "../../shared/types";
+import { BadRequestError, NotFoundError } from "../shared/errors";
+import { ExerciseProvider } from "../exercises/exercise-provider";
+import { CreateVocabInput, UpdateVocabInput, Vocab } from "../exercises/types";
+import { VocabProvider } from "../exercises/vocab-provider";
+
+/**
+ * Agent for the Vocab endpoints
+ *
+ * Vocab belongs to an exercise; the exercise must be owned by the caller.
+ * Token links are validated against the exercise's own tokens, and writes
+ * run in a transaction so a rejected link leaves nothing behind.
+ */
+export class VocabAgent {
+  constructor(private readonly database: TransactionalSqlClient) {}
+
+  /**
+   * POST /exercises/{exerciseId}/vocab
+   */
+  async createVocab(
+    userId: string,
+    exerciseId: string,
+    input: CreateVocabInput,
+  ): Promise<Vocab> {
+    return this.database.transaction(async (client) => {
+      // Step 1: Check ownership and that the excerpt lies within the content
+      const exercise = await this.requireExercise(client, userId, exerciseId);
+      if (input.excerptEndIndex > exercise.content.length) {
+        throw new BadRequestError(
+          `excerptEndIndex exceeds the exercise content length (${exercise.content.length})`,
+          { field: "excerptEndIndex" },
+        );
+      }
+
+      // Step 2: Store the vocab entry
+      const vocab = new VocabProvider(client);
+      const vocabId = await vocab.create(exerciseId, input);
+
+      // Step 3: Link tokens
+      await this.linkTokens(vocab, exerciseId, vocabId, input.tokenIds ?? []);
+
+      console.log(`Created vocab ${vocabId} for exercise ${exerciseId}`);
+      return (await vocab.find(exerciseId, vocabId))!;
+    });
+  }
+
+  /**
+   * GET /exercises/{exerciseId}/vocab
+   */
+  async listVocab(userId: string, exerciseId: string): Promise<Vocab[]> {
+    await this.requireExercise(this.database, userId, exerciseId);
+    return new VocabProvider(this.database).listForExercise(exerciseId);
+  }
+
+  /**
+   * PATCH /exercises/{exerciseId}/vocab/{vocabId}
+   */
+  async updateVocab(
+    userId: string,
+    exerciseId: string,
+    vocabId: string,
+    input: UpdateVocabInput,
+  ): Promise<Vocab> {
+    return this.database.transaction(async (client) => {
+      await this.requireExercise(client, userId, exerciseId);
+
+      const vocab = new VocabProvider(client);
+      const { tokenIds, ...fields } = input;
+      const exists = await vocab.update(exerciseId, vocabId, fields);
+      if (!exists) {
+        throw new NotFoundError(`Vocab ${vocabId} not found`);
+      }
+
+      if (tokenIds !== undefined) {
+        await this.linkTokens(vocab, exerciseId, vocabId, tokenIds);
+      }
+
+      return (await vocab.find(exerciseId, vocabId))!;
+    });
+  }
+
+  /**
+   * Loads the caller's exercise or throws NotFoundError
+   */
+  private async requireExercise(
+    client: SqlClient,
+    userId: string,
+    exerciseId: string,
+  ) {
+    const exercise = await new ExerciseProvider(client).find(
+      userId,
+      exerciseId,
+    );
+    if (!exercise) {
+      throw new NotFoundError(`Exercise ${exerciseId} not found`);
+    }
+    return exercise;
+  }
+
+  /**
+   * Replaces token links, rejecting tokens from other exercises
+   */
+  private async linkTokens(
+    vocab: VocabProvider,
+    exerciseId: string,
+    vocabId: string,
+    tokenIds: string[],
+  ): Promise<void> {
+    const linked = await vocab.setTokens(exerciseId, vocabId, tokenIds);
+    if (linked !== tokenIds.length) {
+      throw new BadRequestError(
+        "tokenIds must reference tokens of this exercise",
+        { field: "tokenIds" },
+      );
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Error raised when migrations cannot be applied safely
+ * e.g. an applied migration was edited or the database is ahead of the code
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
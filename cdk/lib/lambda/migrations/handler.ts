@@ -0,0 +1,79 @@
+import {
+  CdkCustomResourceEvent,
+  CdkCustomResourceResponse,
+  Context,
+} from "aws-lambda";
+import { DatabaseProvider } from "../shared/database-provider";
+import { ConfigurationError } from "../shared/errors";
+import { validateDatabaseEnvironment } from "../shared/utils";
+import { MigrationError } from "./errors";
+import { MigrationAgent } from "./migration-agent";
+import { MigrationProvider } from "./migration-provider";
+import { MIGRATIONS } from "./migrations";
+
+/**
+ * Physical resource ID of the schema custom resource
+ * Kept constant so updates never trigger a replacement (and a Delete)
+ */
+export const PHYSICAL_RESOURCE_ID = "comprehend-schema";
+
+/**
+ * Lambda handler for the schema migration custom resource
+ *
+ * Create and Update apply pending migrations. Delete is a no-op: the schema
+ * lives and dies with the database cluster.
+ */
+export async function handler(
+  event: CdkCustomResourceEvent,
+  context: Context,
+): Promise<CdkCustomResourceResponse> {
+  console.log("Event received:", JSON.stringify(event, null, 2));
+
+  if (event.RequestType === "Delete") {
+    return { PhysicalResourceId: event.PhysicalResourceId };
+  }
+
+  let databaseProvider: DatabaseProvider | undefined;
+  try {
+    // Step 1: Validate environment
+    const config = validateDatabaseEnvironment();
+
+    // Step 2: Initialize providers on a dedicated connection
+    databaseProvider = new DatabaseProvider(config);
+    const client = await databaseProvider.connect();
+
+    try {
+      // Step 3: Initialize and run agent
+      const agent = new MigrationAgent(
+        new MigrationProvider(client),
+        MIGRATIONS,
+      );
+      const result = await agent.execute();
+
+      // Step 4: Report result to CloudFormation
+      return {
+        PhysicalResourceId: PHYSICAL_RESOURCE_ID,
+        Data: {
+          CurrentVersion: result.currentVersion,
+          Applied: result.applied.join(","),
+        },
+      };
+    } finally {
+      client.release();
+    }
+  } catch (error: any) {
+    if (error instanceof ConfigurationError) {
+      console.error(`Configuration error: ${error.message}`);
+    } else if (error instanceof MigrationError) {
+      console.error(`Migration error: ${error.message}`);
+      if (error.cause) {
+        console.error(`Cause: ${error.cause.message}`);
+      }
+    } else {
+      console.error("Unexpected error:", error);
+    }
+    throw error;
+  } finally {
+    await databaseProvider?.close();
+  }
+}
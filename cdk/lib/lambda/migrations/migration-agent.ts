@@ -0,0 +1,139 @@
+import { MigrationError } from "./errors";
+import { checksumMigration, MigrationProvider } from "./migration-provider";
+import { AppliedMigration, Migration, MigrationResult } from "./types";
+
+/**
+ * Agent that brings the database schema up to date
+ *
+ * Compares the migrations bundled with this build against those recorded in
+ * the database and applies only the missing ones, in version order. Refuses
+ * to run when the recorded history does not match the bundled migrations,
+ * since migrations are forward-only.
+ */
+export class MigrationAgent {
+  constructor(
+    private readonly migrationProvider: MigrationProvider,
+    private readonly migrations: Migration[],
+  ) {}
+
+  /**
+   * Main entry point - applies all pending migrations
+   */
+  async execute(): Promise<MigrationResult> {
+    console.log(`Running migrations (${this.migrations.length} known)`);
+
+    // Step 1: Validate bundled migrations
+    const ordered = this.validateMigrations(this.migrations);
+
+    // Step 2: Ensure bookkeeping table exists
+    await this.migrationProvider.ensureMigrationsTable();
+
+    // Step 3: Serialize against concurrent runs
+    await this.migrationProvider.acquireLock();
+    try {
+      // Step 4: Determine pending migrations
+      const appliedMigrations =
+        await this.migrationProvider.getAppliedMigrations();
+      const pending = this.findPendingMigrations(ordered, appliedMigrations);
+
+      // Step 5: Apply pending migrations in order
+      const applied = await this.applyMigrations(pending);
+
+      const currentVersion = Math.max(
+        0,
+        ...appliedMigrations.map((m) => m.version),
+        ...applied,
+      );
+      const message =
+        applied.length > 0
+          ? `Applied migrations ${applied.join(", ")}; schema at version ${currentVersion}`
+          : `Schema up to date at version ${currentVersion}`;
+
+      console.log(message);
+      return { applied, currentVersion, message };
+    } finally {
+      await this.migrationProvider.releaseLock();
+    }
+  }
+
+  /**
+   * Step 1: Check versions are positive, unique integers (pure)
+   */
+  private validateMigrations(migrations: Migration[]): Migration[] {
+    const seen = new Set<number>();
+    for (const migration of migrations) {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new MigrationError(
+          `Migration version must be a positive integer, got: ${migration.version}`,
+        );
+      }
+      if (seen.has(migration.version)) {
+        throw new MigrationError(
+          `Duplicate migration version: ${migration.version}`,
+        );
+      }
+      seen.add(migration.version);
+    }
+
+    return [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Step 4: Compare bundled and applied migrations (pure)
+   */
+  private findPendingMigrations(
+    migrations: Migration[],
+    appliedMigrations: AppliedMigration[],
+  ): Migration[] {
+    const known = new Map(migrations.map((m) => [m.version, m]));
+
+    for (const applied of appliedMigrations) {
+      const migration = known.get(applied.version);
+      if (!migration) {
+        throw new MigrationError(
+          `Database has migration ${applied.version} (${applied.name}) which this build does not know about; deploy a newer build instead of rolling back`,
+        );
+      }
+      if (checksumMigration(migration) !== applied.checksum.trim()) {
+        throw new MigrationError(
+          `Migration ${applied.version} (${applied.name}) was modified after it was applied; add a new migration instead`,
+        );
+      }
+    }
+
+    const appliedVersions = new Set(appliedMigrations.map((m) => m.version));
+    const latestApplied = Math.max(0, ...appliedVersions);
+    const pending = migrations.filter((m) => !appliedVersions.has(m.version));
+
+    const outOfOrder = pending.find((m) => m.version < latestApplied);
+    if (outOfOrder) {
+      throw new MigrationError(
+        `Migration ${outOfOrder.version} (${outOfOrder.name}) is older than applied version ${latestApplied}; renumber it after the latest version`,
+      );
+    }
+
+    return pending;
+  }
+
+  /**
+   * Step 5: Apply each migration in its own transaction
+   */
+  private async applyMigrations(pending: Migration[]): Promise<number[]> {
+    const applied: number[] = [];
+    for (const migration of pending) {
+      console.log(
+        `Applying migration ${migration.version} (${migration.name})`,
+      );
+      try {
+        await this.migrationProvider.applyMigration(migration);
+      } catch (error: any) {
+        throw new MigrationError(
+          `Migration ${migration.version} (${migration.name}) failed: ${error.message}`,
+          error,
+        );
+      }
+      applied.push(migration.version);
+    }
+    return applied;
+  }
+}
@@ -0,0 +1,103 @@
+import { createHash } from "crypto";
+import { SqlClient } from "../shared/types";
+import { AppliedMigration, Migration } from "./types";
+
+/**
+ * Name of the table recording applied migrations
+ */
+export const MIGRATIONS_TABLE = "schema_migrations";
+
+/**
+ * Advisory lock key held while migrations run
+ * Prevents two concurrent deployments from applying the same migration
+ */
+export const MIGRATION_LOCK_KEY = 727_001;
+
+/**
+ * Computes the checksum recorded for a migration's SQL
+ */
+export function checksumMigration(migration: Migration): string {
+  return createHash("sha256").update(migration.sql).digest("hex");
+}
+
+/**
+ * Provider for migration bookkeeping and execution
+ *
+ * Operates on a single dedicated connection so the advisory lock and the
+ * per-migration transactions share one session.
+ */
+export class MigrationProvider {
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Create the migrations table if it does not exist (idempotent)
+   */
+  async ensureMigrationsTable(): Promise<void> {
+    await this.client.query(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )`,
+    );
+  }
+
+  /**
+   * Block until this session holds the migration lock
+   */
+  async acquireLock(): Promise<void> {
+    await this.client.query("SELECT pg_advisory_lock($1)", [
+      MIGRATION_LOCK_KEY,
+    ]);
+  }
+
+  /**
+   * Release the migration lock held by this session
+   */
+  async releaseLock(): Promise<void> {
+    await this.client.query("SELECT pg_advisory_unlock($1)", [
+      MIGRATION_LOCK_KEY,
+    ]);
+  }
+
+  /**
+   * List applied migrations in version order
+   */
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const result = await this.client.query<{
+      version: number;
+      name: string;
+      checksum: string;
+      applied_at: Date;
+    }>(
+      `SELECT version, name, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`,
+    );
+
+    return result.rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }));
+  }
+
+  /**
+   * Apply a migration and record it in one transaction
+   * Either the schema change and its record both commit, or neither does
+   */
+  async applyMigration(migration: Migration): Promise<void> {
+    await this.client.query("BEGIN");
+    try {
+      await this.client.query(migration.sql);
+      await this.client.query(
+        `INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum) VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, checksumMigration(migration)],
+      );
+      await this.client.query("COMMIT");
+    } catch (error) {
+      await this.client.query("ROLLBACK");
+      throw error;
+    }
+  }
+}
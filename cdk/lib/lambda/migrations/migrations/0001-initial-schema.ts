@@ -0,0 +1,65 @@
+import { Migration } from "../types";
+
+/**
+ * Initial schema: users, exercises, tokens, vocab and chat messages
+ * See the Database Schema appendix in DEVELOPMENT_PLAN.md
+ */
+export const migration: Migration = {
+  version: 1,
+  name: "initial-schema",
+  sql: `
+CREATE TABLE "user" (
+    user_id UUID PRIMARY KEY DEFAULT gen_random_uuid()
+);
+
+CREATE TABLE exercise (
+    exercise_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    exercise_user_id UUID NOT NULL REFERENCES "user"(user_id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    language VARCHAR(10) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_accessed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    is_archived BOOLEAN DEFAULT FALSE
+);
+
+CREATE TABLE token (
+    token_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    token_exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+    start_index INTEGER NOT NULL,
+    end_index INTEGER NOT NULL,
+    "order" INTEGER NOT NULL
+);
+
+CREATE TABLE vocab (
+    vocab_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vocab_exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+    vocab TEXT NOT NULL,
+    reading TEXT,
+    equivalent TEXT NOT NULL,
+    excerpt_start_index INTEGER NOT NULL,
+    excerpt_end_index INTEGER NOT NULL
+);
+
+CREATE TABLE join_vocab_token (
+    join_vocab_token_vocab_id UUID NOT NULL REFERENCES vocab(vocab_id) ON DELETE CASCADE,
+    join_vocab_token_token_id UUID NOT NULL REFERENCES token(token_id) ON DELETE CASCADE,
+    PRIMARY KEY (join_vocab_token_vocab_id, join_vocab_token_token_id)
+);
+
+CREATE TABLE chat_message (
+    chat_message_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chat_message_exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_exercise_user_date ON exercise(exercise_user_id, created_at DESC);
+CREATE INDEX idx_token_exercise_order ON token(token_exercise_id, "order");
+CREATE INDEX idx_vocab_exercise ON vocab(vocab_exercise_id);
+CREATE INDEX idx_chat_exercise_date ON chat_message(chat_message_exercise_id, created_at);
+CREATE INDEX idx_exercise_search ON exercise USING GIN(to_tsvector('simple', title || ' ' || content));
+`,
+};
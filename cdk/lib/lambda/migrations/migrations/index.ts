@@ -0,0 +1,18 @@
+import { Migration } from "../types";
+import { migration as initialSchema } from "./0001-initial-schema";
+
+/**
+ * All schema migrations, in the order they are applied
+ *
+ * Migrations are forward-only: never edit or remove an entry once it has been
+ * deployed. Add a new file with the next version number and append it here.
+ */
+export const MIGRATIONS: Migration[] = [initialSchema];
+
+/**
+ * Highest migration version known to this build
+ */
+export const LATEST_MIGRATION_VERSION = Math.max(
+  0,
+  ...MIGRATIONS.map((m) => m.version),
+);
@@ -0,0 +1,41 @@
+/**
+ * Type definitions for the schema migration runner
+ */
+
+/**
+ * A forward-only schema migration
+ * @param version - Positive integer; migrations are applied in ascending order
+ * @param name - Short description recorded alongside the version
+ * @param sql - SQL statements applied in a single transaction
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * A migration recorded in the migrations table
+ * @param version - Version of the applied migration
+ * @param name - Name recorded when the migration was applied
+ * @param checksum - SHA-256 of the SQL at the time it was applied
+ * @param appliedAt - When the migration was applied
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+/**
+ * Result of a migration run
+ * @param applied - Versions applied during this run, in order
+ * @param currentVersion - Highest version recorded after the run (0 if none)
+ * @param message - Human-readable summary
+ */
+export interface MigrationResult {
+  applied: number[];
+  currentVersion: number;
+  message: string;
+}
@@ -0,0 +1,140 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
+import { Pool, PoolClient } from "pg";
+import { ConfigurationError } from "./errors";
+import {
+  DatabaseConnectionConfig,
+  DatabaseCredentials,
+  SqlClient,
+  TransactionalSqlClient,
+} from "./types";
+
+/**
+ * Amazon RDS certificate authorities (the RDS global bundle)
+ * Bundled next to each handler that connects to the database, so the
+ * server certificate is verified without a download at cold start
+ */
+export const RDS_CA_BUNDLE_FILE = "global-bundle.pem";
+
+/**
+ * Provider for PostgreSQL connections
+ *
+ * Resolves credentials from Secrets Manager (or uses explicit credentials for
+ * a local Postgres) and lazily creates a connection pool. The pool is kept
+ * for the lifetime of the Lambda execution environment so warm invocations
+ * reuse connections.
+ */
+export class DatabaseProvider implements TransactionalSqlClient {
+  private secretsClient: SecretsManagerClient;
+  private pool?: Pool;
+
+  constructor(private readonly config: DatabaseConnectionConfig) {
+    this.secretsClient = new SecretsManagerClient({
+      region: this.config.region,
+      ...this.config.clientConfig,
+    });
+  }
+
+  /**
+   * Run a single query on a pooled connection
+   */
+  async query<R extends Record<string, any> = Record<string, any>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: R[]; rowCount: number | null }> {
+    const pool = await this.getPool();
+    return pool.query<R>(text, values);
+  }
+
+  /**
+   * Check out a dedicated connection
+   * Callers must release it; needed for session state such as advisory locks
+   */
+  async connect(): Promise<PoolClient> {
+    const pool = await this.getPool();
+    return pool.connect();
+  }
+
+  /**
+   * Run a callback inside a transaction on a dedicated connection
+   * Commits when the callback resolves and rolls back when it throws
+   */
+  async transaction<T>(
+    callback: (client: SqlClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await this.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await callback(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Close the pool and all idle connections
+   */
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = undefined;
+    }
+  }
+
+  private async getPool(): Promise<Pool> {
+    if (!this.pool) {
+      const credentials = await this.resolveCredentials();
+      this.pool = new Pool({
+        host: credentials.host,
+        port: credentials.port,
+        user: credentials.username,
+        password: credentials.password,
+        database: this.config.databaseName,
+        ssl: this.config.ssl
+          ? {
+              ca: fs.readFileSync(
+                path.join(__dirname, RDS_CA_BUNDLE_FILE),
+                "utf-8",
+              ),
+              rejectUnauthorized: true,
+            }
+          : undefined,
+        max: 2,
+        idleTimeoutMillis: 30000,
+      });
+    }
+    return this.pool;
+  }
+
+  private async resolveCredentials(): Promise<DatabaseCredentials> {
+    if (this.config.credentials) {
+      return this.config.credentials;
+    }
+
+    if (!this.config.secretArn) {
+      throw new ConfigurationError(
+        "Either credentials or secretArn must be configured",
+      );
+    }
+
+    const response = await this.secretsClient.send(
+      new GetSecretValueCommand({ SecretId: this.config.secretArn }),
+    );
+    if (!response.SecretString) {
+      throw new ConfigurationError(
+        `Secret ${this.config.secretArn} has no string value`,
+      );
+    }
+
+    return JSON.parse(response.SecretString) as DatabaseCredentials;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Error raised when the Lambda environment is missing required configuration
+ */
+export class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigurationError";
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Shared type definitions for Comprehend Lambda functions
+ */
+
+/**
+ * Base configuration for AWS client initialization
+ * Used to override default AWS SDK configuration in tests
+ * @param endpoint - Optional custom endpoint URL (e.g., for LocalStack)
+ * @param credentials - Optional explicit credentials for testing
+ */
+export interface ClientConfig {
+  endpoint?: string;
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+  };
+}
+
+/**
+ * Credentials and location of a PostgreSQL database
+ * Matches the JSON shape of the secret generated for the Aurora cluster
+ * @param host - The database host address
+ * @param port - The database port number
+ * @param username - The username for authentication
+ * @param password - The password for authentication
+ * @param dbname - Optional database name stored in the secret
+ */
+export interface DatabaseCredentials {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  dbname?: string;
+}
+
+/**
+ * Configuration for connecting to the application database
+ * @param secretArn - ARN of the Secrets Manager secret holding credentials
+ * @param databaseName - Name of the database to connect to
+ * @param region - AWS region where the secret is stored
+ * @param ssl - Whether to require TLS for the connection
+ * @param credentials - Explicit credentials; skips Secrets Manager when set (local Postgres)
+ * @param clientConfig - AWS client configuration overrides for testing
+ */
+export interface DatabaseConnectionConfig {
+  secretArn?: string;
+  databaseName: string;
+  region: string;
+  ssl: boolean;
+  credentials?: DatabaseCredentials;
+  clientConfig: ClientConfig;
+}
+
+/**
+ * Minimal SQL client surface used by providers
+ * Satisfied by pg.Client, pg.PoolClient and test doubles
+ */
+export interface SqlClient {
+  query<R extends Record<string, any> = Record<string, any>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: R[]; rowCount: number | null }>;
+}
+
+/**
+ * SQL client that can also run work inside a transaction
+ * Satisfied by DatabaseProvider and test doubles
+ */
+export interface TransactionalSqlClient extends SqlClient {
+  transaction<T>(callback: (client: SqlClient) => Promise<T>): Promise<T>;
+}
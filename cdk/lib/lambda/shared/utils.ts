@@ -0,0 +1,66 @@
+import { ConfigurationError } from "./errors";
+import { ClientConfig, DatabaseConnectionConfig } from "./types";
+
+/**
+ * Builds AWS client configuration from the environment
+ * In production this is empty; in tests it points clients at LocalStack
+ */
+export function buildClientConfig(): ClientConfig {
+  const clientConfig: ClientConfig = {};
+
+  // Override endpoint for local testing (LocalStack)
+  if (process.env.AWS_ENDPOINT_URL) {
+    clientConfig.endpoint = process.env.AWS_ENDPOINT_URL;
+  }
+
+  // Override credentials for local testing
+  if (process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY) {
+    clientConfig.credentials = {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    };
+  }
+
+  return clientConfig;
+}
+
+/**
+ * Builds database connection configuration from the environment
+ *
+ * Deployed functions read credentials from the secret named by DB_SECRET_ARN.
+ * Against a local Postgres, DB_HOST/DB_PORT/DB_USER/DB_PASSWORD can be set
+ * instead and Secrets Manager is not called.
+ */
+export function validateDatabaseEnvironment(): DatabaseConnectionConfig {
+  const secretArn = process.env.DB_SECRET_ARN;
+  const databaseName = process.env.DB_NAME || "comprehend";
+  const region = process.env.AWS_REGION || "us-east-1";
+  const ssl = process.env.DB_SSL !== "false";
+
+  if (process.env.DB_HOST) {
+    return {
+      databaseName,
+      region,
+      ssl,
+      credentials: {
+        host: process.env.DB_HOST,
+        port: parseInt(process.env.DB_PORT || "5432", 10),
+        username: process.env.DB_USER || "postgres",
+        password: process.env.DB_PASSWORD || "",
+      },
+      clientConfig: buildClientConfig(),
+    };
+  }
+
+  if (!secretArn) {
+    throw new ConfigurationError("DB_SECRET_ARN or DB_HOST is required");
+  }
+
+  return {
+    secretArn,
+    databaseName,
+    region,
+    ssl,
+    clientConfig: buildClientConfig(),
+  };
+}
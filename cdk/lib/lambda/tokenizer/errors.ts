@@ -0,0 +1,9 @@
+/**
+ * Error raised when a tokenizer cannot produce valid spans for a text
+ */
+export class TokenizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenizationError";
+  }
+}
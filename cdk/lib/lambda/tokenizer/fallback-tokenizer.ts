@@ -0,0 +1,39 @@
+import { ModelProviderError } from "../agent/errors";
+import { TokenizationError } from "./errors";
+import { validateSpans } from "./spans";
+import { Tokenizer } from "./tokenizer";
+import { TextToken } from "./types";
+
+/**
+ * Tokenizer that falls back when the primary tokenizer fails
+ *
+ * Used to prefer model tokenization while still accepting content when the
+ * model is unavailable or returns unusable tokens. Tokens from either
+ * tokenizer are validated before they are returned.
+ */
+export class FallbackTokenizer implements Tokenizer {
+  constructor(
+    private readonly primary: Tokenizer,
+    private readonly fallback: Tokenizer,
+  ) {}
+
+  async tokenize(text: string, language: string): Promise<TextToken[]> {
+    try {
+      const tokens = await this.primary.tokenize(text, language);
+      validateSpans(text, tokens);
+      return tokens;
+    } catch (error: any) {
+      if (
+        !(error instanceof TokenizationError) &&
+        !(error instanceof ModelProviderError)
+      ) {
+        throw error;
+      }
+      console.log(`Falling back to rule-based tokenization: ${error.message}`);
+    }
+
+    const tokens = await this.fallback.tokenize(text, language);
+    validateSpans(text, tokens);
+    return tokens;
+  }
+}
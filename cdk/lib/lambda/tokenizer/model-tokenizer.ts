@@ -0,0 +1,63 @@
+import { extractJson } from "../agent/response-parser";
+import { AgentResponseError } from "../agent/errors";
+import { ModelProvider } from "../agent/model-provider";
+import { TokenizationError } from "./errors";
+import { buildTokenizerSystemPrompt } from "./prompts/tokenizer";
+import { spansFromPieces } from "./spans";
+import { Tokenizer } from "./tokenizer";
+import { TextToken } from "./types";
+
+/**
+ * Longest text sent to the model in one request
+ * Longer texts would not fit a reply within the API Gateway timeout
+ */
+export const MAX_MODEL_TEXT_LENGTH = 500;
+
+/**
+ * Upper bound on generated tokens for a tokenization reply
+ */
+export const MAX_TOKENIZER_REPLY_TOKENS = 2048;
+
+/**
+ * Tokenizer that asks a model for dictionary-quality word boundaries
+ *
+ * Throws TokenizationError when the text is too long or the reply does not
+ * reproduce the text, and ModelProviderError when the model is unavailable;
+ * wrap it in a FallbackTokenizer to recover from either.
+ */
+export class ModelTokenizer implements Tokenizer {
+  constructor(private readonly modelProvider: ModelProvider) {}
+
+  async tokenize(text: string, language: string): Promise<TextToken[]> {
+    if (text.length > MAX_MODEL_TEXT_LENGTH) {
+      throw new TokenizationError(
+        `Text of ${text.length} characters is too long for model tokenization`,
+      );
+    }
+
+    const reply = await this.modelProvider.complete({
+      system: buildTokenizerSystemPrompt(language),
+      messages: [{ role: "user", content: text }],
+      maxTokens: MAX_TOKENIZER_REPLY_TOKENS,
+    });
+
+    let json: unknown;
+    try {
+      json = extractJson(reply);
+    } catch (error: any) {
+      if (error instanceof AgentResponseError) {
+        throw new TokenizationError(error.message);
+      }
+      throw error;
+    }
+
+    const pieces = (json as { tokens?: unknown })?.tokens;
+    if (
+      !Array.isArray(pieces) ||
+      !pieces.every((piece) => typeof piece === "string")
+    ) {
+      throw new TokenizationError("Reply must have a tokens array of strings");
+    }
+    return spansFromPieces(text, pieces);
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Builds the system prompt asking a model to tokenize text
+ *
+ * The model returns token strings rather than offsets; offsets are derived
+ * by matching the strings against the text, which models do reliably
+ * where counting characters is not.
+ */
+export function buildTokenizerSystemPrompt(language: string): string {
+  return `You split text in the language "${language}" into tokens for a language learner.
+
+Rules:
+- Split the text into words as a learner would look them up in a dictionary. Keep compounds and inflected forms together where a dictionary lists them together.
+- Whitespace runs, punctuation and symbols are separate tokens.
+- Copy every character exactly, in order, including spaces and line breaks. Joining the tokens must reproduce the text exactly.
+
+Reply with only a JSON object, no prose, in this format:
+{ "tokens": string[] }`;
+}
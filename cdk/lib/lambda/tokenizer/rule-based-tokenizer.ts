@@ -0,0 +1,127 @@
+import { spansFromPieces } from "./spans";
+import { Tokenizer } from "./tokenizer";
+import { TextToken } from "./types";
+
+/**
+ * Character classes the rule-based tokenizer splits on
+ */
+type CharClass =
+  | "space"
+  | "word"
+  | "han"
+  | "hiragana"
+  | "katakana"
+  | "punctuation";
+
+const SPACE = /\s/u;
+// 々 (iteration mark) and 〆 are Common script but written as kanji
+const HAN = /[\p{Script=Han}々〆]/u;
+const HIRAGANA = /\p{Script=Hiragana}/u;
+// ー (prolonged sound mark) is Common script but belongs to katakana words
+const KATAKANA = /[\p{Script=Katakana}ー]/u;
+const WORD = /[\p{L}\p{M}\p{N}]/u;
+// Marks and the zero-width joiner attach to the preceding character
+const COMBINING = /^[\p{M}\u200d]$/u;
+// Joins two word characters: don't, well-known, 3.14, 1,000
+const WORD_JOINER = /^['’\-.,]$/u;
+
+function classify(char: string): CharClass {
+  if (SPACE.test(char)) {
+    return "space";
+  }
+  if (HAN.test(char)) {
+    return "han";
+  }
+  if (HIRAGANA.test(char)) {
+    return "hiragana";
+  }
+  if (KATAKANA.test(char)) {
+    return "katakana";
+  }
+  if (WORD.test(char)) {
+    return "word";
+  }
+  return "punctuation";
+}
+
+/**
+ * Whether a joiner character continues the current word
+ * Apostrophes and hyphens join letters; periods and commas join digits
+ */
+function joinsWord(previous: string, joiner: string, next: string): boolean {
+  if (joiner === "." || joiner === ",") {
+    return /\p{N}/u.test(previous) && /\p{N}/u.test(next);
+  }
+  return WORD.test(previous) && WORD.test(next);
+}
+
+/**
+ * Rule-based tokenizer used when no model is available
+ *
+ * Works on any script without a dictionary:
+ * - Whitespace languages split into words, whitespace runs and punctuation
+ * - Japanese splits where the script changes (kanji, hiragana, katakana),
+ *   which separates most particles and loanwords from the words around them
+ * - Chinese splits every Han character, since words are not marked
+ * - Punctuation and symbols are single-character tokens
+ * - Other scripts without spaces (e.g. Thai) stay as one token per run
+ */
+export class RuleBasedTokenizer implements Tokenizer {
+  async tokenize(text: string, language: string): Promise<TextToken[]> {
+    return spansFromPieces(text, this.split(text, language));
+  }
+
+  /**
+   * Splits text into pieces that join back to the original text
+   */
+  split(text: string, language: string): string[] {
+    const splitHan = language.toLowerCase().startsWith("zh");
+    // Iterate by code point so surrogate pairs are never separated
+    const chars = Array.from(text);
+    const pieces: string[] = [];
+    let current = "";
+    let currentClass: CharClass | undefined;
+
+    const flush = () => {
+      if (current) {
+        pieces.push(current);
+      }
+      current = "";
+      currentClass = undefined;
+    };
+
+    chars.forEach((char, index) => {
+      let charClass = classify(char);
+
+      // Combining marks (accents, dakuten, variation selectors) and
+      // zero-width joiner sequences stay with the character before them
+      if (current && (COMBINING.test(char) || current.endsWith("\u200d"))) {
+        current += char;
+        return;
+      }
+
+      if (
+        charClass === "punctuation" &&
+        currentClass === "word" &&
+        WORD_JOINER.test(char) &&
+        index + 1 < chars.length &&
+        joinsWord(chars[index - 1], char, chars[index + 1])
+      ) {
+        charClass = "word";
+      }
+
+      const continues =
+        charClass === currentClass &&
+        charClass !== "punctuation" &&
+        !(charClass === "han" && splitHan);
+      if (!continues) {
+        flush();
+      }
+      current += char;
+      currentClass = charClass;
+    });
+    flush();
+
+    return pieces;
+  }
+}
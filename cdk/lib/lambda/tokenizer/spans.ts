@@ -0,0 +1,78 @@
+import { TokenizationError } from "./errors";
+import { TextToken } from "./types";
+
+/**
+ * Builds tokens from consecutive pieces of a text
+ *
+ * @param text - The source text
+ * @param pieces - Token texts in order; must join to exactly the source text
+ * @throws TokenizationError if the pieces do not reproduce the text
+ */
+export function spansFromPieces(text: string, pieces: string[]): TextToken[] {
+  const tokens: TextToken[] = [];
+  let offset = 0;
+
+  pieces.forEach((piece) => {
+    if (piece.length === 0) {
+      return;
+    }
+    if (!text.startsWith(piece, offset)) {
+      throw new TokenizationError(
+        `Token ${JSON.stringify(piece)} does not match the text at offset ${offset}`,
+      );
+    }
+    tokens.push({
+      text: piece,
+      startIndex: offset,
+      endIndex: offset + piece.length,
+      order: tokens.length,
+    });
+    offset += piece.length;
+  });
+
+  if (offset !== text.length) {
+    throw new TokenizationError(
+      `Tokens cover ${offset} of ${text.length} characters`,
+    );
+  }
+  return tokens;
+}
+
+/**
+ * Checks that tokens are ordered, never overlap and cover the whole text
+ *
+ * @throws TokenizationError describing the first problem found
+ */
+export function validateSpans(text: string, tokens: TextToken[]): void {
+  let offset = 0;
+
+  tokens.forEach((token, index) => {
+    if (token.order !== index) {
+      throw new TokenizationError(
+        `Token ${index} has order ${token.order}, expected ${index}`,
+      );
+    }
+    if (token.startIndex !== offset) {
+      throw new TokenizationError(
+        token.startIndex < offset
+          ? `Token ${index} overlaps the previous token at offset ${token.startIndex}`
+          : `Characters ${offset}-${token.startIndex} are not covered by a token`,
+      );
+    }
+    if (token.endIndex <= token.startIndex) {
+      throw new TokenizationError(`Token ${index} is empty`);
+    }
+    if (text.slice(token.startIndex, token.endIndex) !== token.text) {
+      throw new TokenizationError(
+        `Token ${index} text does not match the text at its offsets`,
+      );
+    }
+    offset = token.endIndex;
+  });
+
+  if (offset !== text.length) {
+    throw new TokenizationError(
+      `Tokens cover ${offset} of ${text.length} characters`,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { TextToken } from "./types";
+
+/**
+ * Splits exercise content into tokens
+ *
+ * Implementations return tokens in order that never overlap and together
+ * cover the whole text, including whitespace and punctuation, so joining
+ * the token text reproduces the content exactly.
+ */
+export interface Tokenizer {
+  tokenize(text: string, language: string): Promise<TextToken[]>;
+}
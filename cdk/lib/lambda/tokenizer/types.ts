@@ -0,0 +1,16 @@
+/**
+ * Type definitions for the tokenizer
+ */
+
+/**
+ * A token of exercise content, matching a row of the token table
+ * @param startIndex - Inclusive start offset (UTF-16 code units)
+ * @param endIndex - Exclusive end offset (UTF-16 code units)
+ * @param order - Position of the token in the text, from 0
+ */
+export interface TextToken {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  order: number;
+}
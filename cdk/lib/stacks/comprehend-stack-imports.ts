@@ -0,0 +1,204 @@
+import * as cdk from "aws-cdk-lib";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import { Construct } from "constructs";
+import {
+  ComprehendStackOutputs,
+  DEFAULT_ENVIRONMENT_CONFIGS,
+  DEFAULT_SUBNET_TIERS,
+  EnvironmentConfig,
+  EnvironmentName,
+  SubnetTierType,
+  createNamedEnvironmentConfig,
+  isEnvironmentTier,
+  stackOutputExportName,
+} from "../types";
+
+/**
+ * Options for importComprehendStack
+ */
+export interface ImportComprehendStackOptions {
+  /**
+   * Configuration the base stack was deployed with; used to work out how
+   * many subnets and AZs its list exports hold
+   *
+   * @default the defaults for the environment name
+   */
+  readonly environmentConfig?: EnvironmentConfig;
+
+  /**
+   * Number of AZs the base stack's VPC spans
+   *
+   * @default the length of environmentConfig.availabilityZones, or for an
+   * environment-agnostic base stack two (CDK places its VPC in at most two
+   * AZs whatever maxAzs says)
+   */
+  readonly availabilityZoneCount?: number;
+}
+
+/**
+ * AZs CDK gives an environment-agnostic stack
+ */
+const ENVIRONMENT_AGNOSTIC_AZ_COUNT = 2;
+
+/**
+ * Base stack resources rebuilt from its CloudFormation exports
+ */
+export interface ImportedComprehendStack {
+  /**
+   * Environment name, from `{environment}-EnvironmentName`
+   */
+  readonly environmentName: string;
+
+  /**
+   * The base stack's VPC, with its public and private subnets
+   */
+  readonly vpc: ec2.IVpc;
+
+  /**
+   * Public subnets, in AZ order
+   */
+  readonly publicSubnets: ec2.ISubnet[];
+
+  /**
+   * Private subnets for backend functions, in AZ order
+   */
+  readonly privateSubnets: ec2.ISubnet[];
+
+  /**
+   * Availability zones the VPC spans
+   */
+  readonly availabilityZones: string[];
+
+  /**
+   * Aurora cluster writer endpoint hostname
+   */
+  readonly databaseEndpoint: string;
+
+  /**
+   * Secret holding the database credentials
+   */
+  readonly databaseSecret: secretsmanager.ISecret;
+
+  /**
+   * Cognito user pool
+   */
+  readonly userPool: cognito.IUserPool;
+
+  /**
+   * Cognito app client
+   */
+  readonly userPoolClient: cognito.IUserPoolClient;
+
+  /**
+   * Base URL of the REST API, including the stage
+   */
+  readonly apiUrl: string;
+}
+
+/**
+ * Imports a deployed ComprehendStack into a dependent stack
+ *
+ * Every value comes from the base stack's exports (see
+ * ComprehendStackOutputs), so CloudFormation keeps the base stack from
+ * removing an export while it is imported. Comma-separated exports are
+ * split into as many elements as the base stack's subnet tiers and AZ count
+ * produce; if those differ from what was deployed, pass the deployed
+ * configuration or AZ count in the options.
+ *
+ * Usage:
+ * ```typescript
+ * const base = importComprehendStack(this, 'Base', 'dev');
+ * new lambda.Function(this, 'Worker', {
+ *   vpc: base.vpc,
+ *   vpcSubnets: { subnets: base.privateSubnets },
+ *   // ...
+ * });
+ * ```
+ *
+ * @param scope - Construct the imported resources are created under
+ * @param id - Construct ID for the imported resources
+ * @param environmentName - Environment of the base stack
+ * @param options - Base stack layout, if it differs from the defaults
+ * @returns The base stack's resources
+ */
+export function importComprehendStack(
+  scope: Construct,
+  id: string,
+  environmentName: EnvironmentName,
+  options: ImportComprehendStackOptions = {},
+): ImportedComprehendStack {
+  const config =
+    options.environmentConfig ??
+    (isEnvironmentTier(environmentName)
+      ? DEFAULT_ENVIRONMENT_CONFIGS[environmentName]
+      : createNamedEnvironmentConfig(environmentName));
+  // The AZ list the base stack exports is its pinned availabilityZones
+  const azCount =
+    options.availabilityZoneCount ??
+    config.availabilityZones?.length ??
+    Math.min(config.maxAzs, ENVIRONMENT_AGNOSTIC_AZ_COUNT);
+  const tiers = config.subnets ?? DEFAULT_SUBNET_TIERS;
+
+  // Subnet exports list every subnet of every tier of a type, AZ by AZ
+  const subnetCount = (type: SubnetTierType): number =>
+    tiers.filter((tier) => tier.type === type && !tier.reserved).length *
+    azCount;
+
+  const importValue = (output: keyof ComprehendStackOutputs): string =>
+    cdk.Fn.importValue(stackOutputExportName(environmentName, output));
+  const importList = (
+    output: keyof ComprehendStackOutputs,
+    length: number,
+  ): string[] =>
+    length > 0 ? cdk.Fn.split(",", importValue(output), length) : [];
+
+  const container = new Construct(scope, id);
+
+  const availabilityZones = importList("availabilityZones", azCount);
+  const publicSubnetIds = importList("publicSubnetIds", subnetCount("public"));
+  const privateSubnetIds = importList(
+    "privateSubnetIds",
+    subnetCount("private"),
+  );
+
+  // Private subnets have no route out without NAT gateways, so they are
+  // imported as isolated to keep subnet selection by type truthful
+  const vpc = ec2.Vpc.fromVpcAttributes(container, "Vpc", {
+    vpcId: importValue("vpcId"),
+    vpcCidrBlock: importValue("vpcCidr"),
+    availabilityZones,
+    publicSubnetIds,
+    ...(config.enableNatGateways
+      ? { privateSubnetIds }
+      : { isolatedSubnetIds: privateSubnetIds }),
+  });
+
+  return {
+    environmentName: importValue("environmentName"),
+    vpc,
+    publicSubnets: vpc.publicSubnets,
+    privateSubnets: config.enableNatGateways
+      ? vpc.privateSubnets
+      : vpc.isolatedSubnets,
+    availabilityZones,
+    databaseEndpoint: importValue("databaseEndpoint"),
+    databaseSecret: secretsmanager.Secret.fromSecretCompleteArn(
+      container,
+      "DatabaseSecret",
+      importValue("databaseSecretArn"),
+    ),
+    userPool: cognito.UserPool.fromUserPoolId(
+      container,
+      "UserPool",
+      importValue("userPoolId"),
+    ),
+    userPoolClient: cognito.UserPoolClient.fromUserPoolClientId(
+      container,
+      "UserPoolClient",
+      importValue("userPoolClientId"),
+    ),
+    apiUrl: importValue("apiUrl"),
+  };
+}
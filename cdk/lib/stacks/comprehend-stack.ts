@@ -1,11 +1,35 @@
 import * as cdk from "aws-cdk-lib";
 import { Construct } from "constructs";
+import {
+  DEFAULT_CONFIG_DIR,
+  findEnvironmentConfigFile,
+  loadEnvironmentConfigFile,
+} from "../config/environment-config-loader";
+import { ComprehendChecks } from "../aspects/comprehend-checks";
+import { addExport } from "../exports/export-registry";
+import { AgentConstruct } from "../constructs/agent/agent-construct";
+import { ApiConstruct } from "../constructs/api/api-construct";
+import { AuthConstruct } from "../constructs/auth/auth-construct";
+import {
+  DATABASE_NAME,
+  DatabaseConstruct,
+} from "../constructs/database/database-construct";
+import { MigrationConstruct } from "../constructs/database/migration-construct";
+import { LoggingConstruct } from "../constructs/logging/logging-construct";
+import { MonitoringConstruct } from "../constructs/monitoring/monitoring-construct";
 import { VpcConstruct } from "../constructs/networking/vpc-construct";
 import {
+  ComprehendStackOutputs,
   EnvironmentConfig,
   DEFAULT_ENVIRONMENT_CONFIGS,
   validateEnvironmentConfig,
   EnvironmentName,
+  EnvironmentTier,
+  createNamedEnvironmentConfig,
+  isEnvironmentTier,
+  NAT_GATEWAYS_DISABLED,
+  REQUIRED_TAGS,
+  STACK_OUTPUT_EXPORT_SUFFIXES,
 } from "../types";
 
 /**
@@ -19,10 +43,29 @@ export interface ComprehendStackProps extends cdk.StackProps {
   environmentConfig?: EnvironmentConfig;
 
   /**
-   * Environment name (dev, staging, prod)
+   * Environment name: a base tier (dev, staging, prod) or a named
+   * environment such as 'dev-alice' or 'pr-123'
    * Used to load default configuration if environmentConfig not provided
    */
   environmentName?: EnvironmentName;
+
+  /**
+   * Base tier a named environment derives its defaults from
+   * Ignored for the base tiers themselves; falls back to the `tier` context
+   *
+   * @default dev
+   */
+  tier?: EnvironmentTier;
+
+  /**
+   * Directory searched for `<environment>.json`, `.yaml` or `.yml` config
+   * files, which are deep-merged over the defaults
+   * Ignored if environmentConfig is provided or the `configFile` context is
+   * set for this environment
+   *
+   * @default DEFAULT_CONFIG_DIR (cdk/config)
+   */
+  configDir?: string;
 }
 
 /**
@@ -32,9 +75,22 @@ export interface ComprehendStackProps extends cdk.StackProps {
  * including VPC networking, environment configuration, and resource exports for dependent stacks.
  *
  * Features:
- * - Environment-specific configuration (dev, staging, prod)
+ * - Environment-specific configuration (dev, staging, prod), optionally
+ *   overridden by a JSON or YAML file validated against the config schema
+ * - Named sandbox environments derived from a base tier, each with its own
+ *   VPC CIDR and export names
+ * - Deployed to the environment's configured account and region; synthesis
+ *   fails when the current credentials belong to another account
  * - VPC with public and private subnets across multiple AZs
  * - NAT gateways for private subnet internet access (configurable per environment)
+ * - KMS-encrypted VPC Flow Logs where the environment configures them
+ * - KMS-encrypted log groups for every function
+ * - VPC endpoints so private subnets reach AWS APIs without NAT gateways
+ * - Aurora PostgreSQL cluster in an isolated data tier with credentials in Secrets Manager
+ * - Versioned schema migrations applied on every deploy
+ * - Cognito user pool and public app client for the Expo app
+ * - REST API for exercises, vocab and messages behind a Cognito authorizer
+ * - CloudWatch dashboard and alarms notifying a per-environment SNS topic
  * - CloudFormation exports for dependent stacks
  * - Comprehensive resource tagging for cost tracking
  *
@@ -56,11 +112,58 @@ export class ComprehendStack extends cdk.Stack {
    */
   public readonly vpcConstruct: VpcConstruct;
 
-  constructor(scope: Construct, id: string, props: ComprehendStackProps = {}) {
-    super(scope, id, props);
+  /**
+   * Logging construct
+   */
+  public readonly loggingConstruct: LoggingConstruct;
+
+  /**
+   * Database construct
+   */
+  public readonly databaseConstruct: DatabaseConstruct;
+
+  /**
+   * Schema migration construct
+   */
+  public readonly migrationConstruct: MigrationConstruct;
+
+  /**
+   * Auth construct
+   */
+  public readonly authConstruct: AuthConstruct;
+
+  /**
+   * ReaderAgent construct
+   */
+  public readonly agentConstruct: AgentConstruct;
+
+  /**
+   * API construct
+   */
+  public readonly apiConstruct: ApiConstruct;
 
-    // Load environment configuration
-    this.environmentConfig = this.loadEnvironmentConfig(props);
+  /**
+   * Monitoring construct
+   */
+  public readonly monitoringConstruct: MonitoringConstruct;
+
+  /**
+   * CloudFormation outputs exported for dependent stacks, keyed by
+   * ComprehendStackOutputs field
+   */
+  public readonly outputs: Record<keyof ComprehendStackOutputs, cdk.CfnOutput>;
+
+  constructor(scope: Construct, id: string, props: ComprehendStackProps = {}) {
+    // Load environment configuration first; it decides the account and region
+    const environmentConfig = ComprehendStack.loadEnvironmentConfig(
+      scope,
+      props,
+    );
+    super(scope, id, {
+      ...props,
+      env: props.env ?? resolveStackEnvironment(environmentConfig),
+    });
+    this.environmentConfig = environmentConfig;
 
     // Validate configuration
     const validationErrors = validateEnvironmentConfig(this.environmentConfig);
@@ -71,11 +174,99 @@ export class ComprehendStack extends cdk.Stack {
       throw new Error(`Invalid environment configuration: ${errorMessages}`);
     }
 
+    // Refuse to synthesize an environment with another account's credentials
+    this.validateAccount(props);
+
+    // CDK places an environment-agnostic VPC in two AZs whatever maxAzs says
+    const { maxAzs, name } = this.environmentConfig;
+    if (this.availabilityZones.length < maxAzs) {
+      cdk.Annotations.of(this).addWarningV2(
+        "comprehend:unpinned-availability-zones",
+        `Environment ${name} is environment-agnostic, so its VPC spans ${this.availabilityZones.length} AZs instead of maxAzs (${maxAzs}); set accountId, region and availabilityZones in its config file`,
+      );
+    }
+
     // Create VPC construct
     this.vpcConstruct = new VpcConstruct(this, "VpcConstruct", {
       environmentConfig: this.environmentConfig,
+      enableFlowLogs: this.environmentConfig.flowLogs !== undefined,
+      enableVpcEndpoints: this.environmentConfig.vpcEndpoints !== undefined,
+    });
+
+    // Create the key function logs are encrypted with
+    this.loggingConstruct = new LoggingConstruct(this, "LoggingConstruct", {
+      environmentConfig: this.environmentConfig,
+    });
+    const { logsKey } = this.loggingConstruct;
+
+    // Create database construct in the data tier
+    this.databaseConstruct = new DatabaseConstruct(this, "DatabaseConstruct", {
+      environmentConfig: this.environmentConfig,
+      vpc: this.vpcConstruct.vpc,
+      subnets: this.vpcConstruct.databaseSubnets,
+    });
+
+    // Apply pending schema migrations on deploy
+    this.migrationConstruct = new MigrationConstruct(
+      this,
+      "MigrationConstruct",
+      {
+        environmentConfig: this.environmentConfig,
+        vpc: this.vpcConstruct.vpc,
+        subnets: this.vpcConstruct.privateSubnets,
+        cluster: this.databaseConstruct.cluster,
+        secret: this.databaseConstruct.secret,
+        databaseName: DATABASE_NAME,
+        logsKey,
+      },
+    );
+
+    // Create Cognito user pool for app sign-in
+    this.authConstruct = new AuthConstruct(this, "AuthConstruct", {
+      environmentConfig: this.environmentConfig,
+    });
+
+    // Create ReaderAgent function for the chat endpoint
+    this.agentConstruct = new AgentConstruct(this, "AgentConstruct", {
+      environmentConfig: this.environmentConfig,
+      vpc: this.vpcConstruct.vpc,
+      subnets: this.vpcConstruct.privateSubnets,
+      cluster: this.databaseConstruct.cluster,
+      secret: this.databaseConstruct.secret,
+      databaseName: DATABASE_NAME,
+      logsKey,
     });
 
+    // Create REST API backed by Lambda functions in the private subnets
+    this.apiConstruct = new ApiConstruct(this, "ApiConstruct", {
+      environmentConfig: this.environmentConfig,
+      vpc: this.vpcConstruct.vpc,
+      subnets: this.vpcConstruct.privateSubnets,
+      userPool: this.authConstruct.userPool,
+      cluster: this.databaseConstruct.cluster,
+      secret: this.databaseConstruct.secret,
+      databaseName: DATABASE_NAME,
+      agentFunction: this.agentConstruct.agentFunction,
+      logsKey,
+    });
+
+    // Create dashboard and alarms for the network, functions, API and database
+    this.monitoringConstruct = new MonitoringConstruct(
+      this,
+      "MonitoringConstruct",
+      {
+        environmentConfig: this.environmentConfig,
+        natGatewayIds: this.vpcConstruct.natGatewayIds,
+        functions: {
+          Exercises: this.apiConstruct.exercisesFunction,
+          Vocab: this.apiConstruct.vocabFunction,
+          Agent: this.agentConstruct.agentFunction,
+        },
+        restApi: this.apiConstruct.restApi,
+        cluster: this.databaseConstruct.cluster,
+      },
+    );
+
     // Apply environment-specific tags to all resources in the stack
     cdk.Tags.of(this).add(
       "Application",
@@ -89,19 +280,35 @@ export class ComprehendStack extends cdk.Stack {
 
     // Apply additional custom tags
     Object.entries(this.environmentConfig.tags).forEach(([key, value]) => {
-      if (!["Application", "Environment", "ManagedBy"].includes(key)) {
+      if (!REQUIRED_TAGS.includes(key)) {
         cdk.Tags.of(this).add(key, value);
       }
     });
 
+    // Check tagging, ingress, NAT and logging rules once every mutating
+    // aspect (tags included) has run; see ComprehendChecks
+    cdk.Aspects.of(this).add(
+      new ComprehendChecks({ environmentConfig: this.environmentConfig }),
+      { priority: cdk.AspectPriority.READONLY },
+    );
+
     // Export VPC and subnet information for dependent stacks
-    this.createStackOutputs();
+    this.outputs = this.createStackOutputs();
   }
 
   /**
-   * Load environment configuration from props or defaults
+   * Load environment configuration from props, a config file, or defaults
+   *
+   * The environment comes from props, then the `environment` context, then
+   * dev. Base tiers start from their defaults; any other name is a named
+   * environment derived from the tier in props or the `tier` context (dev
+   * if neither is set). The result is deep-merged with the file named by the
+   * `configFile` context when this is the environment the `environment`
+   * context selects, or else `<configDir>/<environment>.json` (or
+   * .yaml/.yml) when one exists.
    */
-  private loadEnvironmentConfig(
+  public static loadEnvironmentConfig(
+    scope: Construct,
     props: ComprehendStackProps,
   ): EnvironmentConfig {
     // If explicit config provided, use it
@@ -109,83 +316,244 @@ export class ComprehendStack extends cdk.Stack {
       return props.environmentConfig;
     }
 
-    // If environment name provided, use default config
-    if (props.environmentName) {
-      const defaultConfig = DEFAULT_ENVIRONMENT_CONFIGS[props.environmentName];
-      if (!defaultConfig) {
-        throw new Error(
-          `No default configuration found for environment: ${props.environmentName}`,
-        );
-      }
-      return defaultConfig;
+    // Otherwise take the name from props or CDK context
+    let environmentName =
+      props.environmentName ??
+      (scope.node.tryGetContext("environment") as EnvironmentName | undefined);
+    if (!environmentName) {
+      // Default to dev if nothing specified
+      console.warn("No environment specified, defaulting to dev");
+      environmentName = "dev";
+    }
+
+    if (isEnvironmentTier(environmentName)) {
+      return ComprehendStack.applyConfigFile(
+        scope,
+        props,
+        environmentName,
+        DEFAULT_ENVIRONMENT_CONFIGS[environmentName],
+      );
     }
 
-    // Try to get environment from CDK context
-    const contextEnv = this.node.tryGetContext("environment") as
-      | EnvironmentName
-      | undefined;
-    if (contextEnv && DEFAULT_ENVIRONMENT_CONFIGS[contextEnv]) {
-      return DEFAULT_ENVIRONMENT_CONFIGS[contextEnv];
+    const tier =
+      props.tier ??
+      (scope.node.tryGetContext("tier") as string | undefined) ??
+      "dev";
+    if (!isEnvironmentTier(tier)) {
+      throw new Error(
+        `Invalid tier for environment ${environmentName}: ${tier}. Must be 'dev', 'staging', or 'prod'`,
+      );
     }
+    return ComprehendStack.applyConfigFile(
+      scope,
+      props,
+      environmentName,
+      createNamedEnvironmentConfig(environmentName, tier),
+    );
+  }
+
+  /**
+   * Merge the environment's config file, if any, over its defaults
+   */
+  private static applyConfigFile(
+    scope: Construct,
+    props: ComprehendStackProps,
+    environmentName: EnvironmentName,
+    defaults: EnvironmentConfig,
+  ): EnvironmentConfig {
+    // The configFile context is written for the selected environment, so
+    // the other stacks in the same app keep their own files
+    const selected =
+      scope.node.tryGetContext("environment") === environmentName;
+    const configFile =
+      (selected
+        ? (scope.node.tryGetContext("configFile") as string | undefined)
+        : undefined) ??
+      findEnvironmentConfigFile(
+        props.configDir ?? DEFAULT_CONFIG_DIR,
+        environmentName,
+      );
 
-    // Default to dev if nothing specified
-    console.warn("No environment specified, defaulting to dev");
-    return DEFAULT_ENVIRONMENT_CONFIGS.dev;
+    return configFile
+      ? loadEnvironmentConfigFile(configFile, defaults)
+      : defaults;
+  }
+
+  /**
+   * AZs the VPC is placed in
+   *
+   * The environment's availabilityZones when set, so an environment-aware
+   * stack never looks them up; otherwise the CDK default.
+   */
+  public get availabilityZones(): string[] {
+    return this.environmentConfig.availabilityZones ?? super.availabilityZones;
+  }
+
+  /**
+   * Check that the stack is synthesized for the account its config names
+   *
+   * The account the CLI resolved from the current credentials
+   * (CDK_DEFAULT_ACCOUNT), or an explicit env.account, must match accountId.
+   * A mismatch is reported as an error annotation, which fails synthesis of
+   * this stack without blocking other environments in the same app.
+   * Stacks in a pipeline stage are skipped: the pipeline deploys them with
+   * the target account's bootstrap roles, not the synthesizing credentials.
+   */
+  private validateAccount(props: ComprehendStackProps): void {
+    const { accountId, name } = this.environmentConfig;
+    const resolvedAccount =
+      props.env?.account ?? process.env.CDK_DEFAULT_ACCOUNT;
+    if (
+      !cdk.App.isApp(cdk.Stage.of(this)) ||
+      accountId === undefined ||
+      resolvedAccount === undefined ||
+      cdk.Token.isUnresolved(resolvedAccount) ||
+      resolvedAccount === accountId
+    ) {
+      return;
+    }
+
+    cdk.Annotations.of(this).addError(
+      `Environment ${name} is configured for account ${accountId}, but the resolved account is ${resolvedAccount}. Use credentials for ${accountId} to synthesize or deploy this stack.`,
+    );
   }
 
   /**
    * Create CloudFormation outputs for dependent stacks
    */
-  private createStackOutputs(): void {
+  private createStackOutputs(): Record<
+    keyof ComprehendStackOutputs,
+    cdk.CfnOutput
+  > {
     const envName = this.environmentConfig.name;
+    const exportOutput = (
+      output: keyof ComprehendStackOutputs,
+      value: string,
+      description: string,
+    ): cdk.CfnOutput =>
+      addExport(this, STACK_OUTPUT_EXPORT_SUFFIXES[output], {
+        environmentName: envName,
+        name: STACK_OUTPUT_EXPORT_SUFFIXES[output],
+        value,
+        description,
+      });
 
-    // VPC ID
-    new cdk.CfnOutput(this, "VpcId", {
-      value: this.vpcConstruct.vpc.vpcId,
-      description: `VPC ID for ${envName} environment`,
-      exportName: `${envName}-VpcId`,
-    });
+    return {
+      // VPC ID
+      vpcId: exportOutput(
+        "vpcId",
+        this.vpcConstruct.vpc.vpcId,
+        `VPC ID for ${envName} environment`,
+      ),
 
-    // VPC CIDR
-    new cdk.CfnOutput(this, "VpcCidr", {
-      value: this.vpcConstruct.vpc.vpcCidrBlock,
-      description: `VPC CIDR block for ${envName} environment`,
-      exportName: `${envName}-VpcCidr`,
-    });
+      // VPC CIDR
+      vpcCidr: exportOutput(
+        "vpcCidr",
+        this.vpcConstruct.vpc.vpcCidrBlock,
+        `VPC CIDR block for ${envName} environment`,
+      ),
 
-    // Public Subnet IDs
-    new cdk.CfnOutput(this, "PublicSubnetIds", {
-      value: this.vpcConstruct.getPublicSubnetIds(),
-      description: `Public subnet IDs for ${envName} environment (comma-separated)`,
-      exportName: `${envName}-PublicSubnetIds`,
-    });
+      // Public Subnet IDs
+      publicSubnetIds: exportOutput(
+        "publicSubnetIds",
+        this.vpcConstruct.getPublicSubnetIds(),
+        `Public subnet IDs for ${envName} environment (comma-separated)`,
+      ),
 
-    // Private Subnet IDs
-    new cdk.CfnOutput(this, "PrivateSubnetIds", {
-      value: this.vpcConstruct.getPrivateSubnetIds(),
-      description: `Private subnet IDs for ${envName} environment (comma-separated)`,
-      exportName: `${envName}-PrivateSubnetIds`,
-    });
+      // Private Subnet IDs
+      privateSubnetIds: exportOutput(
+        "privateSubnetIds",
+        this.vpcConstruct.getPrivateSubnetIds(),
+        `Private subnet IDs for ${envName} environment (comma-separated)`,
+      ),
 
-    // Availability Zones
-    new cdk.CfnOutput(this, "AvailabilityZones", {
-      value: this.vpcConstruct.getAvailabilityZonesString(),
-      description: `Availability zones used in ${envName} environment (comma-separated)`,
-      exportName: `${envName}-AvailabilityZones`,
-    });
+      // Availability Zones
+      availabilityZones: exportOutput(
+        "availabilityZones",
+        this.vpcConstruct.getAvailabilityZonesString(),
+        `Availability zones used in ${envName} environment (comma-separated)`,
+      ),
 
-    // NAT Gateway IPs (may be empty if NAT gateways disabled)
-    new cdk.CfnOutput(this, "NatGatewayIps", {
-      value: this.vpcConstruct.getNatGatewayIpsString(),
-      description: `NAT gateway Elastic IP addresses for ${envName} environment (comma-separated, empty if disabled)`,
-      exportName: `${envName}-NatGatewayIps`,
-    });
+      // NAT Gateway IPs ("disabled" if NAT gateways disabled)
+      natGatewayIps: exportOutput(
+        "natGatewayIps",
+        this.vpcConstruct.getNatGatewayIpsString(),
+        `NAT gateway Elastic IP addresses for ${envName} environment (comma-separated, "${NAT_GATEWAYS_DISABLED}" if there are none)`,
+      ),
 
-    // Environment Name
-    new cdk.CfnOutput(this, "EnvironmentName", {
-      value: envName,
-      description: "Environment name",
-      exportName: `${envName}-EnvironmentName`,
-    });
+      // Database Endpoint
+      databaseEndpoint: exportOutput(
+        "databaseEndpoint",
+        this.databaseConstruct.getEndpoint(),
+        `Aurora PostgreSQL writer endpoint for ${envName} environment`,
+      ),
+
+      // Database Secret ARN
+      databaseSecretArn: exportOutput(
+        "databaseSecretArn",
+        this.databaseConstruct.getSecretArn(),
+        `Secrets Manager ARN of database credentials for ${envName} environment`,
+      ),
+
+      // User Pool ID
+      userPoolId: exportOutput(
+        "userPoolId",
+        this.authConstruct.getUserPoolId(),
+        `Cognito user pool ID for ${envName} environment (EXPO_PUBLIC_USER_POOL_ID)`,
+      ),
+
+      // User Pool Client ID
+      userPoolClientId: exportOutput(
+        "userPoolClientId",
+        this.authConstruct.getUserPoolClientId(),
+        `Cognito app client ID for ${envName} environment (EXPO_PUBLIC_USER_POOL_CLIENT_ID)`,
+      ),
+
+      // API URL
+      apiUrl: exportOutput(
+        "apiUrl",
+        this.apiConstruct.getApiUrl(),
+        `REST API base URL for ${envName} environment`,
+      ),
+
+      // Environment Name
+      environmentName: exportOutput(
+        "environmentName",
+        envName,
+        "Environment name",
+      ),
+    };
   }
 }
+
+/**
+ * Resolves the account and region a stack is deployed to
+ *
+ * Only the environment's accountId and region are used, never the CLI
+ * defaults for the current credentials, so synthesis does not depend on who
+ * runs it. Without them the stack stays environment-agnostic.
+ *
+ * @param config - Environment configuration
+ * @returns Stack environment
+ */
+export function resolveStackEnvironment(
+  config: EnvironmentConfig,
+): cdk.Environment {
+  return {
+    account: config.accountId,
+    region: config.region,
+  };
+}
+
+/**
+ * Stack name for an environment; dev-alice becomes ComprehendDevAliceStack
+ *
+ * @param environmentName - Environment name
+ * @returns CloudFormation stack name
+ */
+export function comprehendStackName(environmentName: EnvironmentName): string {
+  return `Comprehend${environmentName
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")}Stack`;
+}
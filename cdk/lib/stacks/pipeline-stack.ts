@@ -0,0 +1,263 @@
+import * as cdk from "aws-cdk-lib";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as pipelines from "aws-cdk-lib/pipelines";
+import { Construct } from "constructs";
+import { DEPLOYED_TEMPLATES_CONTEXT } from "../diff/replacement-guard";
+import { ENVIRONMENT_TIERS, EnvironmentTier } from "../types";
+import { ComprehendStack, comprehendStackName } from "./comprehend-stack";
+
+/**
+ * Environments that wait for a manual approval before they are deployed
+ */
+export const APPROVAL_REQUIRED_ENVIRONMENTS: EnvironmentTier[] = ["prod"];
+
+/**
+ * Directory, relative to cdk/, the synth step saves deployed templates to
+ */
+const DEPLOYED_TEMPLATES_DIR = "deployed-templates";
+
+/**
+ * Properties for ComprehendStage
+ */
+export interface ComprehendStageProps extends cdk.StageProps {
+  /**
+   * Environment deployed by this stage
+   */
+  readonly environmentName: EnvironmentTier;
+}
+
+/**
+ * Deployable unit of the pipeline: the ComprehendStack for one environment
+ *
+ * The stack keeps the name used for manual deployments
+ * (e.g. ComprehendDevStack), so the pipeline takes over existing stacks
+ * instead of creating new ones next to them.
+ */
+export class ComprehendStage extends cdk.Stage {
+  /**
+   * Environment deployed by this stage
+   */
+  public readonly environmentName: EnvironmentTier;
+
+  /**
+   * The environment's base stack
+   */
+  public readonly comprehendStack: ComprehendStack;
+
+  constructor(scope: Construct, id: string, props: ComprehendStageProps) {
+    super(scope, id, props);
+
+    this.environmentName = props.environmentName;
+
+    this.comprehendStack = new ComprehendStack(this, "ComprehendStack", {
+      environmentName: props.environmentName,
+      stackName: comprehendStackName(props.environmentName),
+    });
+  }
+}
+
+/**
+ * Properties for ComprehendPipelineStack
+ */
+export interface ComprehendPipelineStackProps extends cdk.StackProps {
+  /**
+   * Source repository in `owner/name` form
+   */
+  readonly repository: string;
+
+  /**
+   * Branch that triggers the pipeline
+   *
+   * @default "main"
+   */
+  readonly branch?: string;
+
+  /**
+   * ARN of the CodeConnections connection to the repository
+   */
+  readonly connectionArn: string;
+
+  /**
+   * Environments to deploy, in promotion order
+   *
+   * @default ENVIRONMENT_TIERS (dev, staging, prod)
+   */
+  readonly environments?: EnvironmentTier[];
+}
+
+/**
+ * Comprehend Deployment Pipeline Stack
+ *
+ * Self-mutating CDK pipeline that builds the app from the repository and
+ * promotes it through the environments in order.
+ *
+ * Features:
+ * - Synth step that installs dependencies, runs the Jest suites and
+ *   synthesizes the app, allowed to assume the CDK lookup role of each
+ *   bootstrapped target account for context lookups
+ * - Replacement guard: the synth step saves each stack's deployed template
+ *   first, so synthesis fails if a change would remove or replace a VPC,
+ *   subnet or database cluster (see checkStatefulReplacements)
+ * - Self-mutation, so changes to the pipeline deploy themselves first
+ * - One stage per environment, each deploying its ComprehendStack to the
+ *   account and region in the environment's configuration
+ * - Manual approval before prod
+ * - Post-deploy smoke test that checks the stack outputs and that the API
+ *   rejects unauthenticated requests
+ * - Cross-account KMS keys for artifacts, so environments can live in
+ *   separate accounts
+ *
+ * Usage:
+ * ```typescript
+ * new ComprehendPipelineStack(app, 'ComprehendPipelineStack', {
+ *   repository: 'example/comprehend',
+ *   connectionArn: 'arn:aws:codeconnections:...',
+ * });
+ * ```
+ */
+export class ComprehendPipelineStack extends cdk.Stack {
+  /**
+   * The CDK pipeline
+   */
+  public readonly pipeline: pipelines.CodePipeline;
+
+  /**
+   * Deployment stages, in promotion order
+   */
+  public readonly stages: ComprehendStage[];
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props: ComprehendPipelineStackProps,
+  ) {
+    super(scope, id, props);
+
+    const branch = props.branch ?? "main";
+
+    this.stages = (props.environments ?? ENVIRONMENT_TIERS).map(
+      (environmentName) =>
+        new ComprehendStage(
+          this,
+          environmentName.charAt(0).toUpperCase() + environmentName.slice(1),
+          { environmentName },
+        ),
+    );
+
+    this.pipeline = new pipelines.CodePipeline(this, "Pipeline", {
+      pipelineName: "comprehend-pipeline",
+      crossAccountKeys: true,
+      synth: new pipelines.ShellStep("Synth", {
+        input: pipelines.CodePipelineSource.connection(
+          props.repository,
+          branch,
+          { connectionArn: props.connectionArn },
+        ),
+        // The same context recreates this pipeline, which is what lets it
+        // update itself
+        commands: [
+          "cd cdk",
+          "npm ci",
+          "npm test",
+          ...this.stages.map((stage) =>
+            fetchDeployedTemplateCommand(stage.comprehendStack),
+          ),
+          [
+            "npx cdk synth",
+            `--context pipelineRepository=${props.repository}`,
+            `--context pipelineBranch=${branch}`,
+            `--context pipelineConnectionArn=${props.connectionArn}`,
+            `--context ${DEPLOYED_TEMPLATES_CONTEXT}=${DEPLOYED_TEMPLATES_DIR}`,
+          ].join(" "),
+        ],
+        primaryOutputDirectory: "cdk/cdk.out",
+      }),
+      // Stages deployed to another account or region resolve context
+      // lookups (cdk.context.json misses) through that account's lookup role
+      synthCodeBuildDefaults: {
+        rolePolicy: [
+          new iam.PolicyStatement({
+            actions: ["sts:AssumeRole"],
+            resources: ["*"],
+            conditions: {
+              StringEquals: {
+                "iam:ResourceTag/aws-cdk:bootstrap-role": "lookup",
+              },
+            },
+          }),
+        ],
+      },
+    });
+
+    this.stages.forEach((stage) => {
+      this.pipeline.addStage(stage, {
+        pre: APPROVAL_REQUIRED_ENVIRONMENTS.includes(stage.environmentName)
+          ? [
+              new pipelines.ManualApprovalStep(
+                `Approve-${stage.environmentName}`,
+              ),
+            ]
+          : [],
+        post: [createSmokeTestStep(stage.comprehendStack)],
+      });
+    });
+  }
+}
+
+/**
+ * Synth step command saving the stack's deployed template
+ *
+ * A stack with an account and region is read through that account's CDK
+ * lookup role, which the synth step may assume; an environment-agnostic one
+ * is deployed to the pipeline's account and read with its credentials.
+ * A stack that should replace its stateful resources anyway needs a manual
+ * deploy with --context allowReplacement=true.
+ */
+function fetchDeployedTemplateCommand(stack: ComprehendStack): string {
+  const { accountId, region } = stack.environmentConfig;
+  const qualifier = cdk.DefaultStackSynthesizer.DEFAULT_QUALIFIER;
+  const target =
+    accountId !== undefined && region !== undefined
+      ? [
+          region,
+          `arn:aws:iam::${accountId}:role/cdk-${qualifier}-lookup-role-${accountId}-${region}`,
+        ]
+      : [];
+  return [
+    "bash scripts/fetch-deployed-template.sh",
+    DEPLOYED_TEMPLATES_DIR,
+    stack.stackName,
+    ...target,
+  ].join(" ");
+}
+
+/**
+ * Post-deploy check of a deployed ComprehendStack
+ *
+ * Fails when an output the app depends on is empty, when the stack reports
+ * another environment, or when the API does not answer unauthenticated
+ * requests with 401.
+ */
+function createSmokeTestStep(stack: ComprehendStack): pipelines.ShellStep {
+  const { outputs } = stack;
+  const envName = stack.environmentConfig.name;
+
+  return new pipelines.ShellStep("SmokeTest", {
+    envFromCfnOutputs: {
+      ENVIRONMENT_NAME: outputs.environmentName,
+      VPC_ID: outputs.vpcId,
+      PRIVATE_SUBNET_IDS: outputs.privateSubnetIds,
+      DATABASE_ENDPOINT: outputs.databaseEndpoint,
+      USER_POOL_ID: outputs.userPoolId,
+      USER_POOL_CLIENT_ID: outputs.userPoolClientId,
+      API_URL: outputs.apiUrl,
+    },
+    commands: [
+      "set -eu",
+      'for name in VPC_ID PRIVATE_SUBNET_IDS DATABASE_ENDPOINT USER_POOL_ID USER_POOL_CLIENT_ID API_URL; do test -n "$(printenv "$name")" || { echo "Output $name is empty"; exit 1; }; done',
+      `test "$ENVIRONMENT_NAME" = "${envName}" || { echo "Expected environment ${envName}, got $ENVIRONMENT_NAME"; exit 1; }`,
+      'status=$(curl -s -o /dev/null -w "%{http_code}" "${API_URL}exercises")',
+      'test "$status" = "401" || { echo "Expected 401 from ${API_URL}exercises, got $status"; exit 1; }',
+    ],
+  });
+}
@@ -6,10 +6,60 @@
  * and validation utilities.
  */
 
+import { createHash } from "crypto";
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+
+/**
+ * Base tiers of the Comprehend application; every environment is one of
+ * these or derives its settings from one
+ */
+export type EnvironmentTier = "dev" | "staging" | "prod";
+
+/**
+ * Base tiers in promotion order
+ */
+export const ENVIRONMENT_TIERS: EnvironmentTier[] = ["dev", "staging", "prod"];
+
+/**
+ * Name of a deployment environment
+ * A base tier, or a named environment such as 'dev-alice' or 'pr-123'
+ */
+export type EnvironmentName = string;
+
+/**
+ * Environment names: lowercase letters, digits and hyphens, starting with a
+ * letter and ending with a letter or digit, at most 24 characters
+ * Names are embedded in resource names and export names
+ */
+export const ENVIRONMENT_NAME_PATTERN = /^[a-z](?:[a-z0-9-]{0,22}[a-z0-9])?$/;
+
+/**
+ * AWS account IDs are exactly 12 digits
+ */
+export const AWS_ACCOUNT_ID_PATTERN = /^\d{12}$/;
+
 /**
- * Supported deployment environments for the Comprehend application
+ * AWS region identifiers such as 'us-east-1', 'ap-southeast-2' or
+ * 'us-gov-west-1'
  */
-export type EnvironmentName = "dev" | "staging" | "prod";
+export const AWS_REGION_PATTERN = /^[a-z]{2}(?:-[a-z]+)+-\d$/;
+
+/**
+ * Tags every environment must set; applied to every resource in the stack
+ */
+export const REQUIRED_TAGS = ["Application", "Environment", "ManagedBy"];
+
+/**
+ * Address pool named environments take their VPC CIDR from
+ * Kept clear of the base tiers, which use the bottom of 10.0.0.0/8
+ */
+export const NAMED_ENVIRONMENT_CIDR_POOL = "10.128.0.0/9";
 
 /**
  * Environment-specific configuration for infrastructure resources
@@ -19,14 +69,23 @@ export type EnvironmentName = "dev" | "staging" | "prod";
  */
 export interface EnvironmentConfig {
   /**
-   * Environment identifier (dev, staging, prod)
-   * Used in resource naming and tagging
+   * Environment identifier (e.g. dev, staging, prod, dev-alice)
+   * Used in resource naming, tagging and export names
    */
   readonly name: EnvironmentName;
 
+  /**
+   * Base tier this environment derives from
+   *
+   * @default name, for the base tiers themselves
+   */
+  readonly tier?: EnvironmentTier;
+
   /**
    * VPC CIDR block for this environment
-   * Must not overlap with other environments in the same AWS account
+   * Must be an RFC 1918 network address with a /16 to /28 prefix, and must
+   * not overlap with other environments in the same AWS account (see
+   * validateCidrOverlaps)
    *
    * @example '10.0.0.0/16' for dev
    * @example '10.1.0.0/16' for staging
@@ -61,6 +120,12 @@ export interface EnvironmentConfig {
    */
   readonly natGateways?: number;
 
+  /**
+   * Subnet tiers to create in each AZ, allocated from vpcCidr in order
+   * If not specified, uses DEFAULT_SUBNET_TIERS
+   */
+  readonly subnets?: SubnetTierConfig[];
+
   /**
    * Resource tags for cost tracking and management (FR-007)
    * These tags will be applied to all resources in the stack
@@ -69,239 +134,1279 @@ export interface EnvironmentConfig {
 
   /**
    * AWS account ID for this environment (optional)
-   * Used for stack targeting and validation
+   * The stack is deployed to this account, and synthesis fails when the
+   * current credentials belong to another one
+   * Without accountId and region the stack is environment-agnostic
    */
   readonly accountId?: string;
 
   /**
    * AWS region for this environment (optional)
-   * If not specified, uses CDK_DEFAULT_REGION
+   * Without accountId and region the stack is environment-agnostic
    */
   readonly region?: string;
+
+  /**
+   * AZs the subnets are placed in, in order; one per maxAzs
+   * Required when accountId and region are set. Subnet CIDRs are allocated
+   * AZ by AZ, so a looked-up AZ list that grows would move every subnet.
+   *
+   * @example ['us-east-1a', 'us-east-1b']
+   */
+  readonly availabilityZones?: string[];
+
+  /**
+   * Aurora PostgreSQL sizing and backup settings
+   * If not specified, uses DEFAULT_DATABASE_CONFIG
+   */
+  readonly database?: DatabaseConfig;
+
+  /**
+   * Cognito user pool settings
+   * If not specified, uses DEFAULT_AUTH_CONFIG
+   */
+  readonly auth?: AuthConfig;
+
+  /**
+   * ReaderAgent model settings
+   * If not specified, uses DEFAULT_AGENT_CONFIG
+   */
+  readonly agent?: AgentConfig;
+
+  /**
+   * VPC Flow Logs settings
+   * Flow logs are created only when this is set
+   */
+  readonly flowLogs?: FlowLogsConfig;
+
+  /**
+   * VPC endpoint settings
+   * Endpoints are created only when this is set
+   */
+  readonly vpcEndpoints?: VpcEndpointsConfig;
+
+  /**
+   * Whether the VPC, subnets and database cluster outlive their removal
+   * from the stack (RemovalPolicy.RETAIN), and the cluster has deletion
+   * protection unless database.deletionProtection says otherwise
+   *
+   * @default false
+   */
+  readonly retainStatefulResources?: boolean;
+
+  /**
+   * Alarm thresholds and notification recipients
+   * If not specified, uses DEFAULT_MONITORING_CONFIG
+   */
+  readonly monitoring?: MonitoringConfig;
 }
 
 /**
- * Properties for VpcConstruct
- *
- * Defines the configuration for creating a VPC with public and private subnets
- * across multiple availability zones.
+ * Routing for a subnet tier
+ * - public: routed to the Internet Gateway
+ * - private: routed to the NAT gateways (isolated when NAT is disabled)
+ * - isolated: no route out of the VPC; used for the database
  */
-export interface VpcConstructProps {
+export type SubnetTierType = "public" | "private" | "isolated";
+
+/**
+ * One subnet tier, created once per availability zone
+ */
+export interface SubnetTierConfig {
   /**
-   * Environment configuration containing VPC CIDR, AZ settings, etc.
+   * Tier name; part of the subnet construct IDs and Name tags
+   * Must be unique and alphanumeric (e.g. 'Public', 'Data')
    */
-  readonly environmentConfig: EnvironmentConfig;
+  readonly name: string;
 
   /**
-   * Enable VPC Flow Logs for network traffic monitoring
-   * @default false (future enhancement)
+   * Routing for the tier's subnets
    */
-  readonly enableFlowLogs?: boolean;
+  readonly type: SubnetTierType;
 
   /**
-   * Enable VPC endpoints for AWS services (S3, DynamoDB, etc.)
-   * @default false (future enhancement)
+   * Netmask of each subnet in the tier
+   *
+   * @minimum 16
+   * @maximum 28
    */
-  readonly enableVpcEndpoints?: boolean;
+  readonly cidrMask: number;
+
+  /**
+   * Reserve the address space without creating subnets, so the tier can be
+   * added later without renumbering the tiers after it
+   *
+   * @default false
+   */
+  readonly reserved?: boolean;
 }
 
 /**
- * Outputs exported by the base stack for dependent stacks
- * These values are available via CloudFormation exports
+ * Aurora PostgreSQL cluster settings for an environment
+ *
+ * Capacity is expressed in Aurora Capacity Units (ACUs) for Serverless v2
+ * instances. Each ACU provides roughly 2 GiB of memory.
  */
-export interface ComprehendStackOutputs {
+export interface DatabaseConfig {
   /**
-   * VPC ID
-   * Export name: `{environment}-VpcId`
+   * Minimum Serverless v2 capacity in ACUs
+   *
+   * @minimum 0.5
    */
-  readonly vpcId: string;
+  readonly minCapacity: number;
 
   /**
-   * Public subnet IDs (comma-separated)
-   * Export name: `{environment}-PublicSubnetIds`
+   * Maximum Serverless v2 capacity in ACUs
+   * Must be greater than or equal to minCapacity
+   *
+   * @maximum 256
    */
-  readonly publicSubnetIds: string;
+  readonly maxCapacity: number;
 
   /**
-   * Private subnet IDs (comma-separated)
-   * Export name: `{environment}-PrivateSubnetIds`
+   * Number of reader instances in addition to the writer
+   *
+   * @default 0
+   * @maximum 15
    */
-  readonly privateSubnetIds: string;
+  readonly readers?: number;
 
   /**
-   * Availability zones used (comma-separated)
-   * Export name: `{environment}-AvailabilityZones`
+   * Number of days to retain automated backups
+   *
+   * @minimum 1
+   * @maximum 35
    */
-  readonly availabilityZones: string;
+  readonly backupRetentionDays: number;
 
   /**
-   * NAT gateway public IPs (comma-separated)
-   * Export name: `{environment}-NatGatewayIps`
+   * Whether to prevent the cluster from being deleted
+   *
+   * @default EnvironmentConfig.retainStatefulResources
    */
-  readonly natGatewayIps: string;
+  readonly deletionProtection?: boolean;
+}
+
+/**
+ * Multi-factor authentication mode for the user pool
+ *
+ * - off: MFA cannot be enabled by users
+ * - optional: users may enroll an SMS or authenticator app second factor
+ * - required: every user must complete a second factor at sign-in
+ */
+export type MfaMode = "off" | "optional" | "required";
 
+/**
+ * Cognito user pool settings for an environment
+ */
+export interface AuthConfig {
   /**
-   * Environment name
-   * Export name: `{environment}-EnvironmentName`
+   * Multi-factor authentication mode
+   *
+   * @default 'off'
    */
-  readonly environmentName: string;
+  readonly mfa?: MfaMode;
+}
 
+/**
+ * ReaderAgent settings for an environment
+ */
+export interface AgentConfig {
   /**
-   * VPC CIDR block
-   * Export name: `{environment}-VpcCidr`
+   * Bedrock foundation model ID the agent calls
    */
-  readonly vpcCidr: string;
+  readonly modelId: string;
+
+  /**
+   * Upper bound on tokens generated per reply
+   *
+   * @default 2048
+   * @maximum 8192
+   */
+  readonly maxTokens?: number;
 }
 
 /**
- * Default environment configurations for dev, staging, and prod
+ * Where VPC Flow Logs are delivered
  */
-export const DEFAULT_ENVIRONMENT_CONFIGS: Record<
-  EnvironmentName,
-  EnvironmentConfig
-> = {
-  dev: {
-    name: "dev",
-    vpcCidr: "10.0.0.0/16",
-    maxAzs: 2,
-    enableNatGateways: false, // Cost optimization
-    tags: {
-      Application: "Comprehend",
-      Environment: "dev",
-      ManagedBy: "CDK",
-      CostCenter: "Development",
-    },
-  },
-  staging: {
-    name: "staging",
-    vpcCidr: "10.1.0.0/16",
-    maxAzs: 2,
-    enableNatGateways: true,
-    tags: {
-      Application: "Comprehend",
-      Environment: "staging",
-      ManagedBy: "CDK",
-      CostCenter: "Staging",
-    },
-  },
-  prod: {
-    name: "prod",
-    vpcCidr: "10.2.0.0/16",
-    maxAzs: 3, // Maximum availability
-    enableNatGateways: true,
-    tags: {
-      Application: "Comprehend",
-      Environment: "prod",
-      ManagedBy: "CDK",
-      CostCenter: "Production",
-    },
-  },
-};
+export type FlowLogDestinationType = "cloudwatch" | "s3";
 
 /**
- * Validation error type
+ * Which traffic VPC Flow Logs record
  */
-export interface ValidationError {
-  field: string;
-  message: string;
-}
+export type FlowLogTrafficType = "ALL" | "ACCEPT" | "REJECT";
 
 /**
- * Validates a CIDR block string
+ * Retention periods CloudWatch Logs accepts, in days
+ */
+export const CLOUDWATCH_RETENTION_DAYS = [
+  1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1096, 1827,
+  2192, 2557, 2922, 3288, 3653,
+];
+
+/**
+ * VPC Flow Logs settings for an environment
  *
- * @param cidr - CIDR block to validate (e.g., '10.0.0.0/16')
- * @returns true if valid, false otherwise
+ * Logs are encrypted with a customer managed KMS key created alongside the
+ * destination.
  */
-export function validateCidr(cidr: string): boolean {
-  // First check if the format matches RFC 1918 private ranges
-  const privateRanges = [
-    /^10\.\d{1,3}\.\d{1,3}\.\d{1,3}\/\d{1,2}$/, // 10.0.0.0/8
-    /^172\.(1[6-9]|2\d|3[0-1])\.\d{1,3}\.\d{1,3}\/\d{1,2}$/, // 172.16.0.0/12
-    /^192\.168\.\d{1,3}\.\d{1,3}\/\d{1,2}$/, // 192.168.0.0/16
-  ];
-
-  const matchesPrivateRange = privateRanges.some((pattern) =>
-    pattern.test(cidr),
-  );
-  if (!matchesPrivateRange) {
-    return false;
-  }
+export interface FlowLogsConfig {
+  /**
+   * Destination for the flow log records
+   *
+   * @default 'cloudwatch'
+   */
+  readonly destination?: FlowLogDestinationType;
 
-  // Validate netmask is between 0 and 32
-  const parts = cidr.split("/");
-  if (parts.length !== 2) {
-    return false;
-  }
-  const netmask = parseInt(parts[1], 10);
-  if (isNaN(netmask) || netmask < 0 || netmask > 32) {
-    return false;
-  }
+  /**
+   * Days to keep flow log records
+   * CloudWatch Logs only accepts CLOUDWATCH_RETENTION_DAYS values; S3
+   * objects expire after any number of days
+   *
+   * @default 30
+   */
+  readonly retentionDays?: number;
 
-  // Validate each octet is between 0 and 255
-  const octets = parts[0].split(".");
-  for (const octet of octets) {
-    const num = parseInt(octet, 10);
-    if (isNaN(num) || num < 0 || num > 255) {
-      return false;
-    }
-  }
+  /**
+   * Traffic to record
+   *
+   * @default 'ALL'
+   */
+  readonly trafficType?: FlowLogTrafficType;
 
-  return true;
+  /**
+   * Flow log record fields, in order (e.g. 'srcaddr', 'dstport', 'action')
+   * If not specified, uses the AWS default format
+   */
+  readonly logFormat?: string[];
 }
 
 /**
- * Validates an environment configuration
+ * AWS services reachable through interface VPC endpoints
+ */
+export type InterfaceEndpointService =
+  | "secretsmanager"
+  | "bedrock-runtime"
+  | "logs"
+  | "sts";
+
+/**
+ * Interface endpoint services in the order they are created
+ */
+export const INTERFACE_ENDPOINT_SERVICES: InterfaceEndpointService[] = [
+  "secretsmanager",
+  "bedrock-runtime",
+  "logs",
+  "sts",
+];
+
+/**
+ * VPC endpoint settings for an environment
  *
- * @param config - Environment configuration to validate
- * @returns Array of validation errors (empty if valid)
+ * Gateway endpoints for S3 and DynamoDB are always created since they are
+ * free; interface endpoints are billed per AZ-hour, so each one is opt-in.
  */
-export function validateEnvironmentConfig(
-  config: EnvironmentConfig,
-): ValidationError[] {
-  const errors: ValidationError[] = [];
+export interface VpcEndpointsConfig {
+  /**
+   * Services to reach through interface endpoints in the private subnets
+   *
+   * @default all INTERFACE_ENDPOINT_SERVICES
+   */
+  readonly interfaceEndpoints?: InterfaceEndpointService[];
+}
 
-  // Validate environment name
-  if (!["dev", "staging", "prod"].includes(config.name)) {
-    errors.push({
-      field: "name",
-      message: `Invalid environment name: ${config.name}. Must be 'dev', 'staging', or 'prod'`,
-    });
-  }
+/**
+ * How alarm notifications are delivered
+ * - email: to an address, once its owner confirms the subscription
+ * - sms: to a phone number in E.164 format (e.g. '+15555550100')
+ * - https: to a webhook, once it confirms the subscription
+ */
+export type AlarmSubscriptionProtocol = "email" | "sms" | "https";
 
-  // Validate VPC CIDR
-  if (!validateCidr(config.vpcCidr)) {
-    errors.push({
-      field: "vpcCidr",
-      message: `Invalid VPC CIDR: ${config.vpcCidr}. Must be a valid RFC 1918 private IP range`,
-    });
-  }
+/**
+ * Alarm subscription protocols, for validation
+ */
+export const ALARM_SUBSCRIPTION_PROTOCOLS: AlarmSubscriptionProtocol[] = [
+  "email",
+  "sms",
+  "https",
+];
 
-  // Validate maxAzs
-  if (config.maxAzs < 2 || config.maxAzs > 3) {
-    errors.push({
-      field: "maxAzs",
-      message: `maxAzs must be between 2 and 3 (inclusive), got: ${config.maxAzs}`,
-    });
-  }
+/**
+ * Endpoint formats accepted for each subscription protocol
+ */
+const ALARM_SUBSCRIPTION_ENDPOINT_PATTERNS: Record<
+  AlarmSubscriptionProtocol,
+  RegExp
+> = {
+  email: /^[^@\s]+@[^@\s]+\.[^@\s]+$/,
+  sms: /^\+[1-9]\d{6,14}$/,
+  https: /^https:\/\/\S+$/,
+};
 
-  // Validate natGateways
-  if (config.natGateways !== undefined && config.natGateways > config.maxAzs) {
-    errors.push({
-      field: "natGateways",
-      message: `natGateways (${config.natGateways}) cannot exceed maxAzs (${config.maxAzs})`,
-    });
-  }
+/**
+ * A recipient of an environment's alarm notifications
+ */
+export interface AlarmSubscription {
+  /**
+   * Delivery protocol
+   */
+  readonly protocol: AlarmSubscriptionProtocol;
 
-  // Validate required tags
-  const requiredTags = ["Application", "Environment", "ManagedBy"];
-  requiredTags.forEach((tag) => {
-    if (!config.tags[tag]) {
-      errors.push({
-        field: "tags",
-        message: `Missing required tag: ${tag}`,
-      });
-    }
-  });
+  /**
+   * Email address, phone number or https URL, matching the protocol
+   */
+  readonly endpoint: string;
+}
+
+/**
+ * Alarm thresholds for an environment
+ *
+ * Metrics are evaluated over five-minute periods. Error and throttle
+ * counts alarm on the first period at or above the threshold; latency, CPU
+ * and connections alarm after three periods in a row, so a brief spike
+ * does not page anyone.
+ */
+export interface AlarmThresholds {
+  /**
+   * Port allocation errors of one NAT gateway in a period
+   * Any error means connections through it are being refused
+   *
+   * @default 1
+   */
+  readonly natPortAllocationErrors?: number;
+
+  /**
+   * GB one NAT gateway sends to destinations in a period
+   *
+   * @default 5
+   */
+  readonly natBytesOutGb?: number;
+
+  /**
+   * Errors of one Lambda function in a period
+   *
+   * @default 5
+   */
+  readonly lambdaErrors?: number;
+
+  /**
+   * Throttled invocations of one Lambda function in a period
+   *
+   * @default 1
+   */
+  readonly lambdaThrottles?: number;
+
+  /**
+   * 5xx responses from the REST API in a period
+   *
+   * @default 5
+   */
+  readonly api5xxErrors?: number;
+
+  /**
+   * p99 REST API latency in milliseconds
+   * API Gateway gives up after 29 seconds
+   *
+   * @default 10000
+   */
+  readonly apiLatencyMs?: number;
+
+  /**
+   * Average CPU utilization of the database cluster, in percent
+   *
+   * @default 80
+   */
+  readonly databaseCpuPercent?: number;
+
+  /**
+   * Highest number of open database connections
+   *
+   * @default 100
+   */
+  readonly databaseConnections?: number;
+}
+
+/**
+ * Monitoring settings for an environment
+ *
+ * Every environment gets a dashboard and alarms; alarms notify the
+ * environment's SNS topic, which delivers to the configured subscriptions.
+ */
+export interface MonitoringConfig {
+  /**
+   * Alarm thresholds
+   * Unset thresholds use DEFAULT_ALARM_THRESHOLDS
+   */
+  readonly thresholds?: AlarmThresholds;
+
+  /**
+   * Recipients of alarm notifications
+   *
+   * @default none; alarms only show on the dashboard
+   */
+  readonly subscriptions?: AlarmSubscription[];
+}
+
+/**
+ * Properties for VpcConstruct
+ *
+ * Defines the configuration for creating a VPC with public and private subnets
+ * across multiple availability zones.
+ */
+export interface VpcConstructProps {
+  /**
+   * Environment configuration containing VPC CIDR, AZ settings, etc.
+   */
+  readonly environmentConfig: EnvironmentConfig;
+
+  /**
+   * Enable VPC Flow Logs for network traffic monitoring
+   * Settings come from `environmentConfig.flowLogs`, falling back to
+   * DEFAULT_FLOW_LOGS_CONFIG
+   * @default false
+   */
+  readonly enableFlowLogs?: boolean;
+
+  /**
+   * Enable VPC endpoints for AWS services
+   * Creates S3 and DynamoDB gateway endpoints plus the interface endpoints
+   * listed in `environmentConfig.vpcEndpoints`, falling back to
+   * DEFAULT_VPC_ENDPOINTS_CONFIG
+   * @default false
+   */
+  readonly enableVpcEndpoints?: boolean;
+}
+
+/**
+ * Properties for LoggingConstruct
+ */
+export interface LoggingConstructProps {
+  /**
+   * Environment configuration used for naming
+   */
+  readonly environmentConfig: EnvironmentConfig;
+}
+
+/**
+ * Properties for DatabaseConstruct
+ *
+ * Defines the configuration for creating an Aurora PostgreSQL cluster
+ * inside the private subnets of an existing VPC.
+ */
+export interface DatabaseConstructProps {
+  /**
+   * Environment configuration containing database sizing, tags, etc.
+   */
+  readonly environmentConfig: EnvironmentConfig;
+
+  /**
+   * VPC to place the cluster in
+   */
+  readonly vpc: ec2.IVpc;
+
+  /**
+   * Subnets to place the cluster instances in
+   * Must span at least two availability zones
+   */
+  readonly subnets: ec2.ISubnet[];
+}
+
+/**
+ * Properties for MigrationConstruct
+ *
+ * Defines the database the schema migration custom resource runs against.
+ */
+export interface MigrationConstructProps {
+  /**
+   * Environment configuration used for naming and tagging
+   */
+  readonly environmentConfig: EnvironmentConfig;
+
+  /**
+   * VPC the migration function runs in
+   */
+  readonly vpc: ec2.IVpc;
+
+  /**
+   * Subnets the migration function runs in
+   * Must be able to reach the cluster and Secrets Manager
+   */
+  readonly subnets: ec2.ISubnet[];
+
+  /**
+   * Cluster to migrate; the function is granted access on its port
+   */
+  readonly cluster: rds.IDatabaseCluster;
+
+  /**
+   * Secret holding the cluster credentials
+   */
+  readonly secret: secretsmanager.ISecret;
+
+  /**
+   * Name of the database to migrate
+   */
+  readonly databaseName: string;
+
+  /**
+   * Key the function log groups are encrypted with (see LoggingConstruct)
+   */
+  readonly logsKey: kms.IKey;
+}
+
+/**
+ * Properties for AuthConstruct
+ *
+ * Defines the configuration for creating the Cognito user pool used by
+ * the Expo app.
+ */
+export interface AuthConstructProps {
+  /**
+   * Environment configuration containing auth settings, tags, etc.
+   */
+  readonly environmentConfig: EnvironmentConfig;
+}
+
+/**
+ * Properties for ApiConstruct
+ *
+ * Defines the user pool that authorizes requests and the database the
+ * API handlers read and write.
+ */
+export interface ApiConstructProps {
+  /**
+   * Environment configuration used for naming and tagging
+   */
+  readonly environmentConfig: EnvironmentConfig;
+
+  /**
+   * VPC the API handlers run in
+   */
+  readonly vpc: ec2.IVpc;
+
+  /**
+   * Subnets the API handlers run in
+   * Must be able to reach the cluster and Secrets Manager
+   */
+  readonly subnets: ec2.ISubnet[];
+
+  /**
+   * User pool whose ID tokens are accepted by the API authorizer
+   */
+  readonly userPool: cognito.IUserPool;
+
+  /**
+   * Cluster holding application data; handlers are granted access on its port
+   */
+  readonly cluster: rds.IDatabaseCluster;
+
+  /**
+   * Secret holding the cluster credentials
+   */
+  readonly secret: secretsmanager.ISecret;
+
+  /**
+   * Name of the application database
+   */
+  readonly databaseName: string;
+
+  /**
+   * ReaderAgent function serving POST /exercises/{exerciseId}/messages
+   */
+  readonly agentFunction: lambda.IFunction;
+
+  /**
+   * Key the function log groups are encrypted with (see LoggingConstruct)
+   */
+  readonly logsKey: kms.IKey;
+}
+
+/**
+ * Properties for AgentConstruct
+ */
+export interface AgentConstructProps {
+  /**
+   * Environment configuration containing agent model settings
+   */
+  readonly environmentConfig: EnvironmentConfig;
+
+  /**
+   * VPC the agent function runs in
+   */
+  readonly vpc: ec2.IVpc;
+
+  /**
+   * Subnets the agent function runs in
+   * Must be able to reach the cluster, Secrets Manager and Bedrock
+   */
+  readonly subnets: ec2.ISubnet[];
+
+  /**
+   * Cluster holding application data; the agent is granted access on its port
+   */
+  readonly cluster: rds.IDatabaseCluster;
+
+  /**
+   * Secret holding the cluster credentials
+   */
+  readonly secret: secretsmanager.ISecret;
+
+  /**
+   * Name of the application database
+   */
+  readonly databaseName: string;
+
+  /**
+   * Key the function log groups are encrypted with (see LoggingConstruct)
+   */
+  readonly logsKey: kms.IKey;
+}
+
+/**
+ * Properties for MonitoringConstruct
+ */
+export interface MonitoringConstructProps {
+  /**
+   * Environment configuration containing alarm thresholds and subscriptions
+   */
+  readonly environmentConfig: EnvironmentConfig;
+
+  /**
+   * IDs of the NAT gateways to watch (empty if NAT gateways are disabled)
+   */
+  readonly natGatewayIds: string[];
+
+  /**
+   * Lambda functions to watch, keyed by a short name used in alarm names
+   * and dashboard labels (e.g. 'Exercises')
+   */
+  readonly functions: Record<string, lambda.IFunction>;
+
+  /**
+   * REST API to watch
+   */
+  readonly restApi: apigateway.RestApi;
+
+  /**
+   * Database cluster to watch
+   */
+  readonly cluster: rds.IDatabaseCluster;
+}
+
+/**
+ * Outputs exported by the base stack for dependent stacks
+ * These values are available via CloudFormation exports
+ */
+export interface ComprehendStackOutputs {
+  /**
+   * VPC ID
+   * Export name: `{environment}-VpcId`
+   */
+  readonly vpcId: string;
+
+  /**
+   * Public subnet IDs (comma-separated)
+   * Export name: `{environment}-PublicSubnetIds`
+   */
+  readonly publicSubnetIds: string;
+
+  /**
+   * Private subnet IDs (comma-separated)
+   * Export name: `{environment}-PrivateSubnetIds`
+   */
+  readonly privateSubnetIds: string;
+
+  /**
+   * Availability zones used (comma-separated)
+   * Export name: `{environment}-AvailabilityZones`
+   */
+  readonly availabilityZones: string;
+
+  /**
+   * Elastic IP addresses of the NAT gateways (comma-separated), or
+   * NAT_GATEWAYS_DISABLED when the environment has no NAT gateways
+   * Export name: `{environment}-NatGatewayIps`
+   */
+  readonly natGatewayIps: string;
+
+  /**
+   * Environment name
+   * Export name: `{environment}-EnvironmentName`
+   */
+  readonly environmentName: string;
+
+  /**
+   * VPC CIDR block
+   * Export name: `{environment}-VpcCidr`
+   */
+  readonly vpcCidr: string;
+
+  /**
+   * Aurora cluster writer endpoint hostname
+   * Export name: `{environment}-DatabaseEndpoint`
+   */
+  readonly databaseEndpoint: string;
+
+  /**
+   * ARN of the Secrets Manager secret holding database credentials
+   * Export name: `{environment}-DatabaseSecretArn`
+   */
+  readonly databaseSecretArn: string;
+
+  /**
+   * Cognito user pool ID (EXPO_PUBLIC_USER_POOL_ID)
+   * Export name: `{environment}-UserPoolId`
+   */
+  readonly userPoolId: string;
+
+  /**
+   * Cognito app client ID (EXPO_PUBLIC_USER_POOL_CLIENT_ID)
+   * Export name: `{environment}-UserPoolClientId`
+   */
+  readonly userPoolClientId: string;
+
+  /**
+   * Base URL of the REST API, including the stage
+   * Export name: `{environment}-ApiUrl`
+   */
+  readonly apiUrl: string;
+}
+
+/**
+ * Value of the NatGatewayIps export when an environment has no NAT gateways
+ * CloudFormation outputs cannot be empty, so the absence is spelled out
+ */
+export const NAT_GATEWAYS_DISABLED = "disabled";
+
+/**
+ * Export name suffixes are PascalCase: a capital letter, then letters and
+ * digits
+ */
+export const EXPORT_NAME_SUFFIX_PATTERN = /^[A-Z][A-Za-z0-9]*$/;
+
+/**
+ * Export name suffix of each ComprehendStackOutputs field
+ * The full export name is `{environment}-{suffix}`
+ */
+export const STACK_OUTPUT_EXPORT_SUFFIXES: Record<
+  keyof ComprehendStackOutputs,
+  string
+> = {
+  vpcId: "VpcId",
+  publicSubnetIds: "PublicSubnetIds",
+  privateSubnetIds: "PrivateSubnetIds",
+  availabilityZones: "AvailabilityZones",
+  natGatewayIps: "NatGatewayIps",
+  environmentName: "EnvironmentName",
+  vpcCidr: "VpcCidr",
+  databaseEndpoint: "DatabaseEndpoint",
+  databaseSecretArn: "DatabaseSecretArn",
+  userPoolId: "UserPoolId",
+  userPoolClientId: "UserPoolClientId",
+  apiUrl: "ApiUrl",
+};
+
+/**
+ * Export name of a base stack output for an environment
+ *
+ * @param environmentName - Environment the base stack belongs to
+ * @param output - ComprehendStackOutputs field
+ * @returns Export name, e.g. 'dev-VpcId'
+ */
+export function stackOutputExportName(
+  environmentName: EnvironmentName,
+  output: keyof ComprehendStackOutputs,
+): string {
+  return formatExportName(
+    environmentName,
+    STACK_OUTPUT_EXPORT_SUFFIXES[output],
+  );
+}
+
+/**
+ * Export name for a value exported by an environment
+ * Every export follows `{environment}-{Suffix}`
+ *
+ * @param environmentName - Environment exporting the value
+ * @param suffix - PascalCase name of the value (e.g. 'VpcId')
+ * @returns Export name, e.g. 'dev-VpcId'
+ * @throws Error if the suffix is not PascalCase
+ */
+export function formatExportName(
+  environmentName: EnvironmentName,
+  suffix: string,
+): string {
+  if (!EXPORT_NAME_SUFFIX_PATTERN.test(suffix)) {
+    throw new Error(
+      `Invalid export name suffix: ${suffix}. Must be PascalCase letters and digits`,
+    );
+  }
+  return `${environmentName}-${suffix}`;
+}
+
+/**
+ * Database settings used when an environment does not specify its own
+ */
+export const DEFAULT_DATABASE_CONFIG: DatabaseConfig = {
+  minCapacity: 0.5,
+  maxCapacity: 2,
+  readers: 0,
+  backupRetentionDays: 1,
+};
+
+/**
+ * Auth settings used when an environment does not specify its own
+ */
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  mfa: "off",
+};
+
+/**
+ * Agent settings used when an environment does not specify its own
+ */
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+  maxTokens: 2048,
+};
+
+/**
+ * Alarm thresholds used when an environment does not set its own
+ */
+export const DEFAULT_ALARM_THRESHOLDS: Required<AlarmThresholds> = {
+  natPortAllocationErrors: 1,
+  natBytesOutGb: 5,
+  lambdaErrors: 5,
+  lambdaThrottles: 1,
+  api5xxErrors: 5,
+  apiLatencyMs: 10000,
+  databaseCpuPercent: 80,
+  databaseConnections: 100,
+};
+
+/**
+ * Monitoring settings used when an environment does not specify its own
+ */
+export const DEFAULT_MONITORING_CONFIG: MonitoringConfig = {
+  thresholds: DEFAULT_ALARM_THRESHOLDS,
+  subscriptions: [],
+};
+
+/**
+ * Subnet tiers used when the environment does not list any
+ * Public and private subnets only; the database shares the private subnets
+ */
+export const DEFAULT_SUBNET_TIERS: SubnetTierConfig[] = [
+  { name: "Public", type: "public", cidrMask: 24 },
+  { name: "Private", type: "private", cidrMask: 23 },
+];
+
+/**
+ * Flow log settings used when flow logs are enabled without settings
+ */
+export const DEFAULT_FLOW_LOGS_CONFIG: FlowLogsConfig = {
+  destination: "cloudwatch",
+  retentionDays: 30,
+  trafficType: "ALL",
+};
+
+/**
+ * VPC endpoint settings used when endpoints are enabled without settings
+ */
+export const DEFAULT_VPC_ENDPOINTS_CONFIG: VpcEndpointsConfig = {
+  interfaceEndpoints: INTERFACE_ENDPOINT_SERVICES,
+};
+
+/**
+ * Default environment configurations for dev, staging, and prod
+ */
+export const DEFAULT_ENVIRONMENT_CONFIGS: Record<
+  EnvironmentTier,
+  EnvironmentConfig
+> = {
+  dev: {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false, // Cost optimization
+    // Public and Private keep their original masks so existing subnets stay
+    // in place; new tiers are appended after them
+    subnets: [
+      ...DEFAULT_SUBNET_TIERS,
+      { name: "Data", type: "isolated", cidrMask: 26 },
+      { name: "Reserved", type: "isolated", cidrMask: 22, reserved: true },
+    ],
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+      CostCenter: "Development",
+    },
+    database: DEFAULT_DATABASE_CONFIG,
+    auth: DEFAULT_AUTH_CONFIG,
+    // Private subnets are isolated without NAT gateways, so AWS APIs are
+    // only reachable through endpoints
+    vpcEndpoints: DEFAULT_VPC_ENDPOINTS_CONFIG,
+    monitoring: DEFAULT_MONITORING_CONFIG,
+  },
+  staging: {
+    name: "staging",
+    vpcCidr: "10.1.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: true,
+    subnets: [
+      ...DEFAULT_SUBNET_TIERS,
+      { name: "Data", type: "isolated", cidrMask: 25 },
+      { name: "Reserved", type: "isolated", cidrMask: 22, reserved: true },
+    ],
+    tags: {
+      Application: "Comprehend",
+      Environment: "staging",
+      ManagedBy: "CDK",
+      CostCenter: "Staging",
+    },
+    database: {
+      minCapacity: 0.5,
+      maxCapacity: 4,
+      readers: 0,
+      backupRetentionDays: 7,
+    },
+    auth: {
+      mfa: "optional",
+    },
+    flowLogs: {
+      destination: "cloudwatch",
+      retentionDays: 30,
+      trafficType: "REJECT",
+    },
+    // AWS APIs are reached through the NAT gateways; S3 and DynamoDB
+    // traffic skips them
+    vpcEndpoints: { interfaceEndpoints: [] },
+    retainStatefulResources: true,
+    // No recipients by default; add monitoring.subscriptions to the
+    // staging config file
+    monitoring: DEFAULT_MONITORING_CONFIG,
+  },
+  prod: {
+    name: "prod",
+    vpcCidr: "10.2.0.0/16",
+    maxAzs: 3, // Maximum availability
+    enableNatGateways: true,
+    subnets: [
+      ...DEFAULT_SUBNET_TIERS,
+      { name: "Data", type: "isolated", cidrMask: 24 },
+      { name: "Reserved", type: "isolated", cidrMask: 20, reserved: true },
+    ],
+    tags: {
+      Application: "Comprehend",
+      Environment: "prod",
+      ManagedBy: "CDK",
+      CostCenter: "Production",
+    },
+    database: {
+      minCapacity: 2,
+      maxCapacity: 16,
+      readers: 1, // Reader in a second AZ for failover
+      backupRetentionDays: 30,
+      deletionProtection: true,
+    },
+    auth: {
+      mfa: "optional",
+    },
+    flowLogs: {
+      destination: "cloudwatch",
+      retentionDays: 365, // Kept for security review
+      trafficType: "ALL",
+    },
+    vpcEndpoints: { interfaceEndpoints: [] },
+    retainStatefulResources: true,
+    // Recipients come from the prod config file, which must list
+    // monitoring.subscriptions once it sets an accountId
+    monitoring: {
+      thresholds: {
+        ...DEFAULT_ALARM_THRESHOLDS,
+        natBytesOutGb: 20,
+        databaseConnections: 1000, // Sized for up to 16 ACUs
+      },
+      subscriptions: [],
+    },
+  },
+};
+
+/**
+ * Validation error type
+ */
+export interface ValidationError {
+  field: string;
+  message: string;
+}
+
+/**
+ * A parsed IPv4 CIDR block
+ */
+export interface ParsedCidr {
+  /**
+   * Network address as an unsigned 32-bit number
+   */
+  readonly network: number;
+
+  /**
+   * Prefix length (0-32)
+   */
+  readonly prefixLength: number;
+}
+
+/**
+ * RFC 1918 private address ranges
+ */
+export const PRIVATE_CIDR_RANGES = [
+  "10.0.0.0/8",
+  "172.16.0.0/12",
+  "192.168.0.0/16",
+];
+
+/**
+ * Prefix lengths AWS accepts for a VPC CIDR block
+ */
+export const VPC_PREFIX_LENGTH = { min: 16, max: 28 };
+
+/**
+ * Parses an IPv4 CIDR block
+ *
+ * @param cidr - CIDR block to parse (e.g., '10.0.0.0/16')
+ * @returns The network address and prefix length, or undefined if the block
+ * is malformed or has host bits set (e.g., '10.0.0.5/16')
+ */
+export function parseCidr(cidr: string): ParsedCidr | undefined {
+  const octet = "(0|[1-9]\\d{0,2})";
+  const match = new RegExp(
+    `^${octet}\\.${octet}\\.${octet}\\.${octet}\\/(\\d{1,2})$`,
+  ).exec(cidr);
+  if (!match) {
+    return undefined;
+  }
+
+  const octets = match.slice(1, 5).map(Number);
+  const prefixLength = Number(match[5]);
+  if (octets.some((value) => value > 255) || prefixLength > 32) {
+    return undefined;
+  }
+
+  const network = octets.reduce((address, value) => address * 256 + value, 0);
+  if (network % 2 ** (32 - prefixLength) !== 0) {
+    return undefined;
+  }
+
+  return { network, prefixLength };
+}
+
+/**
+ * Checks whether one CIDR block lies entirely inside another
+ */
+export function cidrContains(outer: ParsedCidr, inner: ParsedCidr): boolean {
+  const outerSize = 2 ** (32 - outer.prefixLength);
+  return (
+    inner.prefixLength >= outer.prefixLength &&
+    Math.floor(inner.network / outerSize) * outerSize === outer.network
+  );
+}
+
+/**
+ * Checks whether two CIDR blocks share any addresses
+ * Aligned blocks either nest or are disjoint, so overlap means one contains
+ * the other
+ */
+export function cidrsOverlap(a: ParsedCidr, b: ParsedCidr): boolean {
+  return cidrContains(a, b) || cidrContains(b, a);
+}
+
+/**
+ * Validates a CIDR block string
+ * The block must be a network address inside one of the RFC 1918 ranges
+ *
+ * @param cidr - CIDR block to validate (e.g., '10.0.0.0/16')
+ * @returns true if valid, false otherwise
+ */
+export function validateCidr(cidr: string): boolean {
+  const parsed = parseCidr(cidr);
+  if (!parsed) {
+    return false;
+  }
+
+  return PRIVATE_CIDR_RANGES.some((range) =>
+    cidrContains(parseCidr(range)!, parsed),
+  );
+}
+
+/**
+ * Validates that environments sharing an AWS account use disjoint VPC CIDRs
+ * Environments without an accountId are treated as sharing the default
+ * account
+ *
+ * @param configs - Environment configurations to compare
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateCidrOverlaps(
+  configs: EnvironmentConfig[],
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  configs.forEach((config, index) => {
+    const cidr = parseCidr(config.vpcCidr);
+    if (!cidr) {
+      return;
+    }
+
+    configs.slice(index + 1).forEach((other) => {
+      const otherCidr = parseCidr(other.vpcCidr);
+      if (
+        otherCidr &&
+        config.accountId === other.accountId &&
+        cidrsOverlap(cidr, otherCidr)
+      ) {
+        errors.push({
+          field: `${other.name}.vpcCidr`,
+          message: `VPC CIDR ${other.vpcCidr} (${other.name}) overlaps ${config.vpcCidr} (${config.name}) in the same account`,
+        });
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Validates an environment configuration
+ *
+ * @param config - Environment configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateEnvironmentConfig(
+  config: EnvironmentConfig,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // Validate environment name
+  if (!ENVIRONMENT_NAME_PATTERN.test(config.name)) {
+    errors.push({
+      field: "name",
+      message: `Invalid environment name: ${config.name}. Must be at most 24 lowercase letters, digits and hyphens, starting with a letter`,
+    });
+  }
+
+  // Validate base tier
+  if (config.tier !== undefined && !isEnvironmentTier(config.tier)) {
+    errors.push({
+      field: "tier",
+      message: `Invalid tier: ${config.tier}. Must be 'dev', 'staging', or 'prod'`,
+    });
+  }
+
+  // Validate VPC CIDR
+  if (!validateCidr(config.vpcCidr)) {
+    errors.push({
+      field: "vpcCidr",
+      message: `Invalid VPC CIDR: ${config.vpcCidr}. Must be a valid RFC 1918 private IP range`,
+    });
+  } else {
+    const { prefixLength } = parseCidr(config.vpcCidr)!;
+    if (
+      prefixLength < VPC_PREFIX_LENGTH.min ||
+      prefixLength > VPC_PREFIX_LENGTH.max
+    ) {
+      errors.push({
+        field: "vpcCidr",
+        message: `VPC CIDR prefix must be between /${VPC_PREFIX_LENGTH.min} and /${VPC_PREFIX_LENGTH.max}, got: /${prefixLength}`,
+      });
+    }
+  }
+
+  // Validate deployment account and region
+  if (
+    config.accountId !== undefined &&
+    !AWS_ACCOUNT_ID_PATTERN.test(config.accountId)
+  ) {
+    errors.push({
+      field: "accountId",
+      message: `Invalid AWS account ID: ${config.accountId}. Must be 12 digits`,
+    });
+  }
+
+  if (config.region !== undefined && !AWS_REGION_PATTERN.test(config.region)) {
+    errors.push({
+      field: "region",
+      message: `Invalid AWS region: ${config.region}. Expected a region identifier such as 'us-east-1'`,
+    });
+  }
+
+  // Validate maxAzs
+  if (config.maxAzs < 2 || config.maxAzs > 3) {
+    errors.push({
+      field: "maxAzs",
+      message: `maxAzs must be between 2 and 3 (inclusive), got: ${config.maxAzs}`,
+    });
+  }
+
+  // Validate availabilityZones
+  if (config.availabilityZones !== undefined) {
+    if (config.availabilityZones.length !== config.maxAzs) {
+      errors.push({
+        field: "availabilityZones",
+        message: `availabilityZones must list one AZ per maxAzs (${config.maxAzs}), got: ${config.availabilityZones.length}`,
+      });
+    }
+    const { region } = config;
+    if (region !== undefined) {
+      config.availabilityZones
+        .filter((az) => !new RegExp(`^${region}[a-z]$`).test(az))
+        .forEach((az) =>
+          errors.push({
+            field: "availabilityZones",
+            message: `AZ ${az} is not in region ${region}`,
+          }),
+        );
+    }
+  } else if (config.accountId !== undefined && config.region !== undefined) {
+    errors.push({
+      field: "availabilityZones",
+      message: `availabilityZones is required when accountId and region are set, so the subnet layout does not depend on an AZ lookup`,
+    });
+  }
+
+  // Validate natGateways
+  if (config.natGateways !== undefined && config.natGateways > config.maxAzs) {
+    errors.push({
+      field: "natGateways",
+      message: `natGateways (${config.natGateways}) cannot exceed maxAzs (${config.maxAzs})`,
+    });
+  }
+
+  // Validate subnet layout
+  const subnets = config.subnets ?? DEFAULT_SUBNET_TIERS;
+  if (config.subnets) {
+    errors.push(
+      ...validateSubnetTiers(config.subnets, config.vpcCidr, config.maxAzs),
+    );
+  }
+  if (
+    config.enableNatGateways &&
+    !subnets.some((tier) => tier.type === "public" && !tier.reserved)
+  ) {
+    errors.push({
+      field: "subnets",
+      message: "NAT gateways require a public subnet tier",
+    });
+  }
+
+  // Validate required tags
+  REQUIRED_TAGS.forEach((tag) => {
+    if (!config.tags[tag]) {
+      errors.push({
+        field: "tags",
+        message: `Missing required tag: ${tag}`,
+      });
+    }
+  });
 
   // Validate Environment tag matches name
   if (config.tags.Environment && config.tags.Environment !== config.name) {
@@ -311,5 +1416,520 @@ export function validateEnvironmentConfig(
     });
   }
 
+  // Validate database settings
+  if (config.database) {
+    errors.push(...validateDatabaseConfig(config.database));
+  }
+
+  // Validate auth settings
+  if (config.auth) {
+    errors.push(...validateAuthConfig(config.auth));
+  }
+
+  // Validate agent settings
+  if (config.agent) {
+    errors.push(...validateAgentConfig(config.agent));
+  }
+
+  // Validate flow log settings
+  if (config.flowLogs) {
+    errors.push(...validateFlowLogsConfig(config.flowLogs));
+  }
+
+  // Validate VPC endpoint settings
+  if (config.vpcEndpoints) {
+    errors.push(...validateVpcEndpointsConfig(config.vpcEndpoints));
+  }
+
+  // Validate monitoring settings
+  if (config.monitoring) {
+    errors.push(...validateMonitoringConfig(config.monitoring));
+  }
+  if (
+    (config.tier ?? config.name) === "prod" &&
+    config.accountId !== undefined &&
+    (config.monitoring?.subscriptions ?? []).length === 0
+  ) {
+    errors.push({
+      field: "monitoring.subscriptions",
+      message:
+        "monitoring.subscriptions is required when a prod environment has an accountId, so its alarms reach someone",
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates database sizing and backup settings
+ *
+ * @param database - Database configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateDatabaseConfig(
+  database: DatabaseConfig,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (database.minCapacity < 0.5 || database.minCapacity > 256) {
+    errors.push({
+      field: "database.minCapacity",
+      message: `minCapacity must be between 0.5 and 256 ACUs, got: ${database.minCapacity}`,
+    });
+  }
+
+  if (database.maxCapacity < 0.5 || database.maxCapacity > 256) {
+    errors.push({
+      field: "database.maxCapacity",
+      message: `maxCapacity must be between 0.5 and 256 ACUs, got: ${database.maxCapacity}`,
+    });
+  }
+
+  if (database.minCapacity > database.maxCapacity) {
+    errors.push({
+      field: "database.minCapacity",
+      message: `minCapacity (${database.minCapacity}) cannot exceed maxCapacity (${database.maxCapacity})`,
+    });
+  }
+
+  if (
+    database.readers !== undefined &&
+    (!Number.isInteger(database.readers) ||
+      database.readers < 0 ||
+      database.readers > 15)
+  ) {
+    errors.push({
+      field: "database.readers",
+      message: `readers must be an integer between 0 and 15, got: ${database.readers}`,
+    });
+  }
+
+  if (
+    !Number.isInteger(database.backupRetentionDays) ||
+    database.backupRetentionDays < 1 ||
+    database.backupRetentionDays > 35
+  ) {
+    errors.push({
+      field: "database.backupRetentionDays",
+      message: `backupRetentionDays must be an integer between 1 and 35, got: ${database.backupRetentionDays}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates Cognito user pool settings
+ *
+ * @param auth - Auth configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateAuthConfig(auth: AuthConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (
+    auth.mfa !== undefined &&
+    !["off", "optional", "required"].includes(auth.mfa)
+  ) {
+    errors.push({
+      field: "auth.mfa",
+      message: `Invalid MFA mode: ${auth.mfa}. Must be 'off', 'optional', or 'required'`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates ReaderAgent model settings
+ *
+ * @param agent - Agent configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateAgentConfig(agent: AgentConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!agent.modelId || agent.modelId.trim() === "") {
+    errors.push({
+      field: "agent.modelId",
+      message: "modelId must be a non-empty Bedrock model ID",
+    });
+  }
+
+  if (
+    agent.maxTokens !== undefined &&
+    (!Number.isInteger(agent.maxTokens) ||
+      agent.maxTokens < 1 ||
+      agent.maxTokens > 8192)
+  ) {
+    errors.push({
+      field: "agent.maxTokens",
+      message: `maxTokens must be an integer between 1 and 8192, got: ${agent.maxTokens}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates VPC Flow Logs settings
+ *
+ * @param flowLogs - Flow log configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateFlowLogsConfig(
+  flowLogs: FlowLogsConfig,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const destination = flowLogs.destination ?? "cloudwatch";
+
+  if (!["cloudwatch", "s3"].includes(destination)) {
+    errors.push({
+      field: "flowLogs.destination",
+      message: `Invalid flow log destination: ${destination}. Must be 'cloudwatch' or 's3'`,
+    });
+  }
+
+  if (
+    flowLogs.trafficType !== undefined &&
+    !["ALL", "ACCEPT", "REJECT"].includes(flowLogs.trafficType)
+  ) {
+    errors.push({
+      field: "flowLogs.trafficType",
+      message: `Invalid traffic type: ${flowLogs.trafficType}. Must be 'ALL', 'ACCEPT', or 'REJECT'`,
+    });
+  }
+
+  const retentionDays = flowLogs.retentionDays;
+  if (retentionDays !== undefined) {
+    if (destination === "cloudwatch") {
+      if (!CLOUDWATCH_RETENTION_DAYS.includes(retentionDays)) {
+        errors.push({
+          field: "flowLogs.retentionDays",
+          message: `retentionDays must be one of ${CLOUDWATCH_RETENTION_DAYS.join(", ")} for CloudWatch Logs, got: ${retentionDays}`,
+        });
+      }
+    } else if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+      errors.push({
+        field: "flowLogs.retentionDays",
+        message: `retentionDays must be a positive integer, got: ${retentionDays}`,
+      });
+    }
+  }
+
+  if (flowLogs.logFormat !== undefined) {
+    if (flowLogs.logFormat.length === 0) {
+      errors.push({
+        field: "flowLogs.logFormat",
+        message: "logFormat must list at least one field",
+      });
+    }
+
+    const invalid = flowLogs.logFormat.filter(
+      (field) => !/^[a-z][a-z0-9-]*$/.test(field),
+    );
+    if (invalid.length > 0) {
+      errors.push({
+        field: "flowLogs.logFormat",
+        message: `Invalid flow log fields: ${invalid.join(", ")}. Use field names such as 'srcaddr' or 'pkt-dstaddr'`,
+      });
+    }
+
+    if (new Set(flowLogs.logFormat).size !== flowLogs.logFormat.length) {
+      errors.push({
+        field: "flowLogs.logFormat",
+        message: "logFormat must not repeat fields",
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates VPC endpoint settings
+ *
+ * @param vpcEndpoints - VPC endpoint configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateVpcEndpointsConfig(
+  vpcEndpoints: VpcEndpointsConfig,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const services = vpcEndpoints.interfaceEndpoints;
+
+  if (services !== undefined) {
+    const unknown = services.filter(
+      (service) => !INTERFACE_ENDPOINT_SERVICES.includes(service),
+    );
+    if (unknown.length > 0) {
+      errors.push({
+        field: "vpcEndpoints.interfaceEndpoints",
+        message: `Unsupported interface endpoint services: ${unknown.join(", ")}. Must be one of ${INTERFACE_ENDPOINT_SERVICES.join(", ")}`,
+      });
+    }
+
+    if (new Set(services).size !== services.length) {
+      errors.push({
+        field: "vpcEndpoints.interfaceEndpoints",
+        message: "interfaceEndpoints must not repeat services",
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates alarm thresholds and subscriptions
+ *
+ * @param monitoring - Monitoring configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateMonitoringConfig(
+  monitoring: MonitoringConfig,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  Object.entries(monitoring.thresholds ?? {}).forEach(([name, value]) => {
+    if (typeof value !== "number" || !(value > 0)) {
+      errors.push({
+        field: `monitoring.thresholds.${name}`,
+        message: `${name} must be a positive number, got: ${value}`,
+      });
+    }
+  });
+
+  const cpu = monitoring.thresholds?.databaseCpuPercent;
+  if (cpu !== undefined && cpu > 100) {
+    errors.push({
+      field: "monitoring.thresholds.databaseCpuPercent",
+      message: `databaseCpuPercent cannot exceed 100, got: ${cpu}`,
+    });
+  }
+
+  (monitoring.subscriptions ?? []).forEach((subscription, index) => {
+    const field = `monitoring.subscriptions[${index}]`;
+    if (!ALARM_SUBSCRIPTION_PROTOCOLS.includes(subscription.protocol)) {
+      errors.push({
+        field: `${field}.protocol`,
+        message: `Invalid protocol: ${subscription.protocol}. Must be one of ${ALARM_SUBSCRIPTION_PROTOCOLS.join(", ")}`,
+      });
+    } else if (
+      !ALARM_SUBSCRIPTION_ENDPOINT_PATTERNS[subscription.protocol].test(
+        subscription.endpoint,
+      )
+    ) {
+      errors.push({
+        field: `${field}.endpoint`,
+        message: `Invalid ${subscription.protocol} endpoint: ${subscription.endpoint}`,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validates a subnet layout against the VPC it is allocated from
+ *
+ * Subnets are allocated the way the CDK does it: tier by tier, one subnet
+ * per AZ, each aligned to its own size. Alignment can leave gaps, so the
+ * layout is checked by allocation rather than by summing subnet sizes.
+ *
+ * @param tiers - Subnet tiers in allocation order
+ * @param vpcCidr - VPC CIDR block the tiers are allocated from
+ * @param maxAzs - Number of AZs each tier is created in
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateSubnetTiers(
+  tiers: SubnetTierConfig[],
+  vpcCidr: string,
+  maxAzs: number,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (tiers.length === 0) {
+    errors.push({
+      field: "subnets",
+      message: "subnets must list at least one tier",
+    });
+    return errors;
+  }
+
+  const isValidMask = (mask: number): boolean =>
+    Number.isInteger(mask) && mask >= 16 && mask <= 28;
+
+  const names = new Set<string>();
+  tiers.forEach((tier, index) => {
+    const field = `subnets[${index}]`;
+
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(tier.name)) {
+      errors.push({
+        field: `${field}.name`,
+        message: `Invalid subnet tier name: '${tier.name}'. Must be alphanumeric and start with a letter`,
+      });
+    } else if (names.has(tier.name)) {
+      errors.push({
+        field: `${field}.name`,
+        message: `Duplicate subnet tier name: ${tier.name}`,
+      });
+    }
+    names.add(tier.name);
+
+    if (!["public", "private", "isolated"].includes(tier.type)) {
+      errors.push({
+        field: `${field}.type`,
+        message: `Invalid subnet tier type: ${tier.type}. Must be 'public', 'private', or 'isolated'`,
+      });
+    }
+
+    // AWS subnets range from /16 to /28
+    if (!isValidMask(tier.cidrMask)) {
+      errors.push({
+        field: `${field}.cidrMask`,
+        message: `cidrMask must be an integer between 16 and 28, got: ${tier.cidrMask}`,
+      });
+    }
+  });
+
+  if (!tiers.some((tier) => tier.type === "private" && !tier.reserved)) {
+    errors.push({
+      field: "subnets",
+      message:
+        "subnets must include a non-reserved 'private' tier for the backend functions",
+    });
+  }
+
+  // The fit can only be checked once the VPC CIDR and every mask are usable
+  const vpc = parseCidr(vpcCidr);
+  if (vpc && tiers.every((tier) => isValidMask(tier.cidrMask))) {
+    const vpcSize = 2 ** (32 - vpc.prefixLength);
+    const next = subnetLayoutSize(tiers, maxAzs);
+    if (next > vpcSize) {
+      errors.push({
+        field: "subnets",
+        message: `Subnet tiers need ${next} addresses across ${maxAzs} AZs but ${vpcCidr} has ${vpcSize}`,
+      });
+    }
+  }
+
   return errors;
 }
+
+/**
+ * Number of addresses a subnet layout spans
+ *
+ * Subnets are allocated the way the CDK does it: tier by tier, one subnet
+ * per AZ, each aligned to its own size.
+ *
+ * @param tiers - Subnet tiers in allocation order
+ * @param maxAzs - Number of AZs each tier is created in
+ * @returns Offset of the first address after the last subnet
+ */
+export function subnetLayoutSize(
+  tiers: SubnetTierConfig[],
+  maxAzs: number,
+): number {
+  let next = 0;
+  tiers.forEach((tier) => {
+    const subnetSize = 2 ** (32 - tier.cidrMask);
+    for (let az = 0; az < maxAzs; az++) {
+      next = Math.ceil(next / subnetSize) * subnetSize + subnetSize;
+    }
+  });
+  return next;
+}
+
+/**
+ * Formats a parsed CIDR block as a string
+ */
+export function formatCidr(cidr: ParsedCidr): string {
+  const octets = [24, 16, 8, 0].map(
+    (shift) => Math.floor(cidr.network / 2 ** shift) % 256,
+  );
+  return `${octets.join(".")}/${cidr.prefixLength}`;
+}
+
+/**
+ * Checks whether a name is one of the base tiers
+ */
+export function isEnvironmentTier(name: string): name is EnvironmentTier {
+  return (ENVIRONMENT_TIERS as string[]).includes(name);
+}
+
+/**
+ * Picks a VPC CIDR for a named environment
+ *
+ * The block is just large enough for the subnet layout and sits in
+ * NAMED_ENVIRONMENT_CIDR_POOL at a slot derived from a hash of the name, so
+ * the same name always gets the same CIDR. Different names can collide;
+ * validateCidrOverlaps catches collisions with known environments, and a
+ * config file can set vpcCidr explicitly.
+ *
+ * @param name - Environment name
+ * @param tiers - Subnet tiers the VPC must hold
+ * @param maxAzs - Number of AZs each tier is created in
+ * @returns CIDR block inside NAMED_ENVIRONMENT_CIDR_POOL
+ */
+export function allocateNamedEnvironmentCidr(
+  name: EnvironmentName,
+  tiers: SubnetTierConfig[],
+  maxAzs: number,
+): string {
+  const pool = parseCidr(NAMED_ENVIRONMENT_CIDR_POOL)!;
+  const size = subnetLayoutSize(tiers, maxAzs);
+  const prefixLength = Math.min(
+    32 - Math.ceil(Math.log2(Math.max(size, 1))),
+    VPC_PREFIX_LENGTH.max,
+  );
+  if (prefixLength < VPC_PREFIX_LENGTH.min) {
+    throw new Error(
+      `Subnet tiers need ${size} addresses, more than a /${VPC_PREFIX_LENGTH.min} VPC holds`,
+    );
+  }
+
+  const slots = 2 ** (prefixLength - pool.prefixLength);
+  const slot =
+    createHash("sha256").update(name).digest().readUInt32BE(0) % slots;
+  return formatCidr({
+    network: pool.network + slot * 2 ** (32 - prefixLength),
+    prefixLength,
+  });
+}
+
+/**
+ * Creates the configuration for a named environment such as a developer
+ * sandbox or a pull request preview
+ *
+ * Settings come from the base tier; the name, Environment tag and VPC CIDR
+ * are the environment's own, so resource names, export names and address
+ * space do not clash with the tier or other named environments. Nothing is
+ * retained or deletion-protected, so the environment can be destroyed.
+ *
+ * @param name - Environment name (e.g. 'dev-alice', 'pr-123')
+ * @param tier - Base tier to derive settings from
+ * @returns Environment configuration for the named environment
+ */
+export function createNamedEnvironmentConfig(
+  name: EnvironmentName,
+  tier: EnvironmentTier = "dev",
+): EnvironmentConfig {
+  const base = DEFAULT_ENVIRONMENT_CONFIGS[tier];
+  return {
+    ...base,
+    name,
+    tier,
+    vpcCidr: allocateNamedEnvironmentCidr(
+      name,
+      base.subnets ?? DEFAULT_SUBNET_TIERS,
+      base.maxAzs,
+    ),
+    tags: { ...base.tags, Environment: name },
+    // Named environments are torn down whole, so nothing is left behind
+    retainStatefulResources: false,
+    ...(base.database && {
+      database: { ...base.database, deletionProtection: false },
+    }),
+  };
+}
@@ -0,0 +1,41 @@
+#!/usr/bin/env bash
+# Saves a deployed stack's template for the replacement guard
+# (--context deployedTemplates=<directory>)
+#
+# Usage: fetch-deployed-template.sh <directory> <stack-name> [<region> <role-arn>]
+#
+# With a role, the template is read with that role's credentials, e.g. the
+# CDK lookup role of the account the stack is deployed to. A stack that does
+# not exist yet is skipped; any other failure fails the build, so the guard
+# is never skipped silently.
+set -euo pipefail
+
+directory=$1
+stack=$2
+region=${3:-}
+role=${4:-}
+
+if [ -n "$role" ]; then
+  credentials=$(aws sts assume-role --role-arn "$role" \
+    --role-session-name replacement-guard \
+    --query "Credentials.[AccessKeyId,SecretAccessKey,SessionToken]" \
+    --output text)
+  read -r AWS_ACCESS_KEY_ID AWS_SECRET_ACCESS_KEY AWS_SESSION_TOKEN <<<"$credentials"
+  export AWS_ACCESS_KEY_ID AWS_SECRET_ACCESS_KEY AWS_SESSION_TOKEN
+fi
+
+mkdir -p "$directory"
+errors=$(mktemp)
+if aws cloudformation get-template --stack-name "$stack" \
+  ${region:+--region "$region"} \
+  --query TemplateBody --output json \
+  >"$directory/$stack.template.json" 2>"$errors"; then
+  echo "Saved the deployed template of $stack"
+elif grep -q "does not exist" "$errors"; then
+  rm -f "$directory/$stack.template.json"
+  echo "$stack is not deployed yet; nothing to compare"
+else
+  rm -f "$directory/$stack.template.json"
+  cat "$errors" >&2
+  exit 1
+fi
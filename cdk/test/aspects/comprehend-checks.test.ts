@@ -0,0 +1,328 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import { NagSuppressions } from "cdk-nag";
+import { ComprehendChecks } from "../../lib/aspects/comprehend-checks";
+import { ComprehendStack } from "../../lib/stacks/comprehend-stack";
+import { DEFAULT_ENVIRONMENT_CONFIGS, EnvironmentTier } from "../../lib/types";
+
+describe("ComprehendChecks", () => {
+  /**
+   * Creates a stack tagged and checked like a ComprehendStack of the tier
+   */
+  const checkedStack = (tier: EnvironmentTier): cdk.Stack => {
+    const environmentConfig = DEFAULT_ENVIRONMENT_CONFIGS[tier];
+    const stack = new cdk.Stack(new cdk.App(), "TestStack");
+    Object.entries(environmentConfig.tags).forEach(([key, value]) =>
+      cdk.Tags.of(stack).add(key, value),
+    );
+    cdk.Aspects.of(stack).add(
+      new ComprehendChecks({ environmentConfig, reports: false }),
+      { priority: cdk.AspectPriority.READONLY },
+    );
+    return stack;
+  };
+
+  const findings = (stack: cdk.Stack, rule: string) => {
+    const annotations = Annotations.fromStack(stack);
+    const message = Match.stringLikeRegexp(`Comprehend-${rule}`);
+    return [
+      ...annotations.findError("*", message),
+      ...annotations.findWarning("*", message),
+    ];
+  };
+
+  describe("ComprehendStack", () => {
+    it.each(["dev", "staging", "prod"])(
+      "passes every check with the %s defaults",
+      (environmentName) => {
+        // Arrange & Act
+        const stack = new ComprehendStack(new cdk.App(), "TestStack", {
+          environmentName,
+        });
+
+        // Assert
+        expect(findings(stack, ".*")).toHaveLength(0);
+      },
+    );
+
+    it("passes every check in prod with the feature flags in cdk.json", () => {
+      // Arrange
+      const { context } = JSON.parse(
+        fs.readFileSync(path.join(__dirname, "../../cdk.json"), "utf-8"),
+      );
+
+      // Act
+      const stack = new ComprehendStack(new cdk.App({ context }), "TestStack", {
+        environmentName: "prod",
+      });
+
+      // Assert
+      expect(findings(stack, ".*")).toHaveLength(0);
+    });
+
+    it("fails prod synthesis when NAT gateways are shared between AZs", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(new cdk.App(), "TestStack", {
+        environmentName: "prod",
+        environmentConfig: {
+          ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+          natGateways: 1,
+        },
+      });
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "/TestStack/VpcConstruct/Vpc/Resource",
+        Match.stringLikeRegexp("Comprehend-NatHighAvailability"),
+      );
+    });
+  });
+
+  describe("RequiredTags", () => {
+    it("reports the missing tags as an error in prod", () => {
+      // Arrange
+      const stack = checkedStack("prod");
+      const group = new logs.LogGroup(stack, "LogGroup", {
+        encryptionKey: new kms.Key(stack, "Key"),
+      });
+
+      // Act
+      cdk.Tags.of(group).remove("ManagedBy");
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "/TestStack/LogGroup/Resource",
+        Match.stringLikeRegexp("Comprehend-RequiredTags\\[ManagedBy\\]"),
+      );
+    });
+
+    it("only warns in dev", () => {
+      // Arrange
+      const stack = checkedStack("dev");
+      const group = new logs.LogGroup(stack, "LogGroup");
+
+      // Act
+      cdk.Tags.of(group).remove("Application");
+
+      // Assert
+      const annotations = Annotations.fromStack(stack);
+      annotations.hasWarning(
+        "/TestStack/LogGroup/Resource",
+        Match.stringLikeRegexp("Comprehend-RequiredTags\\[Application\\]"),
+      );
+      annotations.hasNoError("*", Match.anyValue());
+    });
+  });
+
+  describe("OpenIngress", () => {
+    it("flags security groups open to the internet", () => {
+      // Arrange
+      const stack = checkedStack("prod");
+      const vpc = new ec2.Vpc(stack, "Vpc", { natGateways: 2 });
+      const group = new ec2.SecurityGroup(stack, "SecurityGroup", { vpc });
+
+      // Act
+      group.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(22));
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "/TestStack/SecurityGroup/Resource",
+        Match.stringLikeRegexp("Comprehend-OpenIngress"),
+      );
+    });
+
+    it("flags standalone ingress rules open to the internet", () => {
+      // Arrange
+      const stack = checkedStack("prod");
+      const vpc = new ec2.Vpc(stack, "Vpc", { natGateways: 2 });
+      const group = new ec2.SecurityGroup(stack, "SecurityGroup", { vpc });
+      const other = new ec2.SecurityGroup(stack, "Other", { vpc });
+
+      // Act
+      group.connections.allowFrom(other, ec2.Port.tcp(5432));
+      new ec2.CfnSecurityGroupIngress(stack, "Ingress", {
+        groupId: group.securityGroupId,
+        ipProtocol: "tcp",
+        fromPort: 5432,
+        toPort: 5432,
+        cidrIpv6: "::/0",
+      });
+
+      // Assert
+      expect(findings(stack, "OpenIngress").map((m) => m.id)).toEqual([
+        "/TestStack/Ingress",
+      ]);
+    });
+
+    it("allows internet-facing Application Load Balancers", () => {
+      // Arrange
+      const stack = checkedStack("prod");
+      const vpc = new ec2.Vpc(stack, "Vpc", { natGateways: 2 });
+
+      // Act
+      const loadBalancer = new elbv2.ApplicationLoadBalancer(stack, "Alb", {
+        vpc,
+        internetFacing: true,
+      });
+      loadBalancer
+        .addListener("Http", { port: 80, open: true })
+        .addAction("Default", {
+          action: elbv2.ListenerAction.fixedResponse(404),
+        });
+
+      // Assert
+      expect(findings(stack, "OpenIngress")).toHaveLength(0);
+    });
+
+    it("flags internal load balancers open to the internet", () => {
+      // Arrange
+      const stack = checkedStack("prod");
+      const vpc = new ec2.Vpc(stack, "Vpc", { natGateways: 2 });
+
+      // Act
+      const loadBalancer = new elbv2.ApplicationLoadBalancer(stack, "Alb", {
+        vpc,
+      });
+      loadBalancer.connections.allowFromAnyIpv4(ec2.Port.tcp(80));
+
+      // Assert
+      expect(findings(stack, "OpenIngress")).toHaveLength(1);
+    });
+  });
+
+  describe("NatHighAvailability", () => {
+    it("is not checked outside prod", () => {
+      // Arrange & Act
+      const stack = checkedStack("staging");
+      new ec2.Vpc(stack, "Vpc", { natGateways: 1 });
+
+      // Assert
+      expect(findings(stack, "NatHighAvailability")).toHaveLength(0);
+    });
+
+    it("passes with one NAT gateway per AZ", () => {
+      // Arrange & Act
+      const stack = checkedStack("prod");
+      new ec2.Vpc(stack, "Vpc", { maxAzs: 2, natGateways: 2 });
+
+      // Assert
+      expect(findings(stack, "NatHighAvailability")).toHaveLength(0);
+    });
+  });
+
+  describe("EncryptedLogs", () => {
+    it("flags unencrypted log groups in prod", () => {
+      // Arrange & Act
+      const stack = checkedStack("prod");
+      new logs.LogGroup(stack, "LogGroup");
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "/TestStack/LogGroup/Resource",
+        Match.stringLikeRegexp("Comprehend-EncryptedLogs"),
+      );
+    });
+
+    it("is not checked in dev", () => {
+      // Arrange & Act
+      const stack = checkedStack("dev");
+      new logs.LogGroup(stack, "LogGroup");
+
+      // Assert
+      expect(findings(stack, "EncryptedLogs")).toHaveLength(0);
+    });
+  });
+
+  describe("EncryptedFunctionLogs", () => {
+    const createFunction = (
+      stack: cdk.Stack,
+      logGroup?: logs.ILogGroup,
+    ): cdk.aws_lambda.Function =>
+      new cdk.aws_lambda.Function(stack, "Function", {
+        runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+        handler: "index.handler",
+        code: cdk.aws_lambda.Code.fromInline(
+          "exports.handler = async () => {};",
+        ),
+        logGroup,
+      });
+
+    it("flags functions logging to the group Lambda creates", () => {
+      // Arrange & Act
+      const stack = checkedStack("prod");
+      createFunction(stack);
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "/TestStack/Function/Resource",
+        Match.stringLikeRegexp("Comprehend-EncryptedFunctionLogs"),
+      );
+    });
+
+    it("flags functions logging to an unencrypted group", () => {
+      // Arrange & Act
+      const stack = checkedStack("prod");
+      createFunction(stack, new logs.LogGroup(stack, "LogGroup"));
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "/TestStack/Function/Resource",
+        Match.stringLikeRegexp("Comprehend-EncryptedFunctionLogs"),
+      );
+    });
+
+    it("passes functions logging to an encrypted group", () => {
+      // Arrange & Act
+      const stack = checkedStack("prod");
+      createFunction(
+        stack,
+        new logs.LogGroup(stack, "LogGroup", {
+          encryptionKey: new kms.Key(stack, "Key"),
+        }),
+      );
+
+      // Assert
+      expect(findings(stack, "EncryptedFunctionLogs")).toHaveLength(0);
+    });
+  });
+
+  describe("suppressions", () => {
+    it("silences a finding on one resource and records the reason", () => {
+      // Arrange
+      const stack = checkedStack("prod");
+      const suppressed = new logs.LogGroup(stack, "Suppressed");
+      new logs.LogGroup(stack, "Unsuppressed");
+
+      // Act
+      NagSuppressions.addResourceSuppressions(suppressed, [
+        {
+          id: "Comprehend-EncryptedLogs",
+          reason: "Holds build output only; no user data",
+        },
+      ]);
+
+      // Assert
+      expect(findings(stack, "EncryptedLogs").map((m) => m.id)).toEqual([
+        "/TestStack/Unsuppressed/Resource",
+      ]);
+      Template.fromStack(stack).hasResource("AWS::Logs::LogGroup", {
+        Metadata: {
+          cdk_nag: {
+            rules_to_suppress: [
+              {
+                id: "Comprehend-EncryptedLogs",
+                reason: "Holds build output only; no user data",
+              },
+            ],
+          },
+        },
+      });
+    });
+  });
+});
@@ -20,7 +20,7 @@ describe('CDK App', () => {
     });
     
     // Verify subnets are created
-    template.resourceCountIs('AWS::EC2::Subnet', 4); // 2 public + 2 private for dev
+    template.resourceCountIs('AWS::EC2::Subnet', 6); // 2 public + 2 private + 2 data for dev
   });
 
   test('ComprehendStack creates correct outputs', () => {
@@ -0,0 +1,284 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ConfigFileError,
+  ENVIRONMENT_CONFIG_SCHEMA_PATH,
+  deepMerge,
+  findEnvironmentConfigFile,
+  loadEnvironmentConfigFile,
+} from "../../lib/config/environment-config-loader";
+import { DEFAULT_ENVIRONMENT_CONFIGS } from "../../lib/types";
+
+describe("environment config loader", () => {
+  let configDir: string;
+
+  const writeConfig = (fileName: string, contents: string): string => {
+    const filePath = path.join(configDir, fileName);
+    fs.writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  const loadError = (
+    filePath: string,
+    defaults = DEFAULT_ENVIRONMENT_CONFIGS.dev,
+  ) => {
+    try {
+      loadEnvironmentConfigFile(filePath, defaults);
+    } catch (error) {
+      if (error instanceof ConfigFileError) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error("Expected the config file to be rejected");
+  };
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), "comprehend-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("keeps the packaged schema in step with the spec contract", () => {
+    // Arrange
+    const contractPath = path.join(
+      __dirname,
+      "../../../specs/001-base-cdk-stack/contracts/environment-config.schema.json",
+    );
+
+    // Act
+    const schema = JSON.parse(
+      fs.readFileSync(ENVIRONMENT_CONFIG_SCHEMA_PATH, "utf-8"),
+    );
+
+    // Assert
+    expect(schema).toEqual(JSON.parse(fs.readFileSync(contractPath, "utf-8")));
+  });
+
+  describe("findEnvironmentConfigFile", () => {
+    it("finds JSON and YAML files named after the environment", () => {
+      // Arrange
+      const yamlFile = writeConfig("prod.yml", "maxAzs: 3\n");
+
+      // Act & Assert
+      expect(findEnvironmentConfigFile(configDir, "prod")).toBe(yamlFile);
+      expect(findEnvironmentConfigFile(configDir, "dev")).toBeUndefined();
+    });
+
+    it("prefers JSON over YAML", () => {
+      // Arrange
+      const jsonFile = writeConfig("dev.json", "{}");
+      writeConfig("dev.yaml", "{}\n");
+
+      // Act & Assert
+      expect(findEnvironmentConfigFile(configDir, "dev")).toBe(jsonFile);
+    });
+
+    it("returns undefined when the directory does not exist", () => {
+      expect(
+        findEnvironmentConfigFile(path.join(configDir, "missing"), "dev"),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("loadEnvironmentConfigFile", () => {
+    it("accepts every default configuration against the schema", () => {
+      // Arrange
+      const filePath = writeConfig("empty.json", "{}");
+
+      // Act & Assert
+      Object.values(DEFAULT_ENVIRONMENT_CONFIGS).forEach((defaults) => {
+        expect(loadEnvironmentConfigFile(filePath, defaults)).toEqual(defaults);
+      });
+    });
+
+    it("loads a complete YAML configuration without defaults", () => {
+      // Arrange
+      const filePath = writeConfig(
+        "dev.yaml",
+        [
+          "name: dev",
+          "vpcCidr: 10.20.0.0/16",
+          "maxAzs: 2",
+          "enableNatGateways: false",
+          "tags:",
+          "  Application: Comprehend",
+          "  Environment: dev",
+          "  ManagedBy: CDK",
+          "",
+        ].join("\n"),
+      );
+
+      // Act
+      const config = loadEnvironmentConfigFile(filePath);
+
+      // Assert
+      expect(config.vpcCidr).toBe("10.20.0.0/16");
+      expect(config.database).toBeUndefined();
+    });
+
+    it("deep-merges a partial JSON file over the defaults", () => {
+      // Arrange
+      const filePath = writeConfig(
+        "prod.json",
+        JSON.stringify({
+          database: { maxCapacity: 32 },
+          tags: { Owner: "Ops" },
+        }),
+      );
+
+      // Act
+      const config = loadEnvironmentConfigFile(
+        filePath,
+        DEFAULT_ENVIRONMENT_CONFIGS.prod,
+      );
+
+      // Assert
+      expect(config.database).toEqual({
+        ...DEFAULT_ENVIRONMENT_CONFIGS.prod.database,
+        maxCapacity: 32,
+      });
+      expect(config.tags).toEqual({
+        ...DEFAULT_ENVIRONMENT_CONFIGS.prod.tags,
+        Owner: "Ops",
+      });
+      expect(config.vpcCidr).toBe(DEFAULT_ENVIRONMENT_CONFIGS.prod.vpcCidr);
+    });
+
+    it("reports syntax errors with their line", () => {
+      // Arrange
+      const filePath = writeConfig(
+        "dev.json",
+        '{\n  "maxAzs": 2,\n  "database": {\n}',
+      );
+
+      // Act
+      const error = loadError(filePath);
+
+      // Assert
+      expect(error.issues[0].line).toBeGreaterThanOrEqual(3);
+      expect(error.message).toContain(`${filePath}:`);
+    });
+
+    it("reports schema violations at the offending line and column", () => {
+      // Arrange
+      const filePath = writeConfig(
+        "dev.yaml",
+        ["database:", "  minCapacity: 0.5", "  maxCapacity: lots", ""].join(
+          "\n",
+        ),
+      );
+
+      // Act
+      const error = loadError(filePath);
+
+      // Assert
+      expect(error.issues).toEqual([
+        {
+          field: "database.maxCapacity",
+          message: "must be number",
+          line: 3,
+          column: 16,
+        },
+      ]);
+      expect(error.message).toContain(
+        `${filePath}:3:16 database.maxCapacity: must be number`,
+      );
+    });
+
+    it("points unknown properties at their key", () => {
+      // Arrange
+      const filePath = writeConfig(
+        "dev.yaml",
+        ["maxAzs: 2", "flowLogs:", "  retention: 30", ""].join("\n"),
+      );
+
+      // Act
+      const error = loadError(filePath);
+
+      // Assert
+      expect(error.issues).toEqual([
+        expect.objectContaining({
+          field: "flowLogs.retention",
+          message: "unknown property 'retention'",
+          line: 3,
+        }),
+      ]);
+    });
+
+    it("lists allowed values for enum violations", () => {
+      // Arrange
+      const filePath = writeConfig("dev.yaml", "auth:\n  mfa: sometimes\n");
+
+      // Act
+      const error = loadError(filePath);
+
+      // Assert
+      expect(error.issues[0]).toEqual(
+        expect.objectContaining({ field: "auth.mfa", line: 2 }),
+      );
+      expect(error.issues[0].message).toContain("off, optional, required");
+    });
+
+    it("locates validateEnvironmentConfig errors in the file", () => {
+      // Arrange
+      const filePath = writeConfig(
+        "dev.yaml",
+        [
+          "subnets:",
+          "  - name: Public",
+          "    type: public",
+          "    cidrMask: 24",
+          "  - name: Private",
+          "    type: private",
+          "    cidrMask: 17",
+          "",
+        ].join("\n"),
+      );
+
+      // Act
+      const error = loadError(filePath);
+
+      // Assert
+      expect(error.issues).toEqual([
+        expect.objectContaining({ field: "subnets", line: 2, column: 3 }),
+      ]);
+      expect(error.issues[0].message).toContain("10.0.0.0/16");
+    });
+
+    it("rejects files that do not hold an object", () => {
+      // Arrange
+      const filePath = writeConfig("dev.yaml", "- maxAzs: 2\n");
+
+      // Act
+      const error = loadError(filePath);
+
+      // Assert
+      expect(error.issues[0].message).toBe("File must contain an object");
+    });
+  });
+
+  describe("deepMerge", () => {
+    it("merges nested objects key by key", () => {
+      expect(deepMerge({ a: { b: 1, c: 2 }, d: 3 }, { a: { c: 4 } })).toEqual({
+        a: { b: 1, c: 4 },
+        d: 3,
+      });
+    });
+
+    it("replaces arrays and removes null values", () => {
+      expect(
+        deepMerge(
+          { list: [1, 2], keep: true, drop: { x: 1 } },
+          {
+            list: [3],
+            drop: null,
+          },
+        ),
+      ).toEqual({ list: [3], keep: true });
+    });
+  });
+});
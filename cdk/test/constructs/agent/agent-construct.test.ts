@@ -0,0 +1,139 @@
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { AgentConstruct } from "../../../lib/constructs/agent/agent-construct";
+import { DatabaseConstruct } from "../../../lib/constructs/database/database-construct";
+import { VpcConstruct } from "../../../lib/constructs/networking/vpc-construct";
+import { EnvironmentConfig } from "../../../lib/types";
+
+describe("AgentConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+
+  const devConfig: EnvironmentConfig = {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false,
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+    },
+  };
+
+  const createAgent = (config: EnvironmentConfig): AgentConstruct => {
+    const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+      environmentConfig: config,
+    });
+    const database = new DatabaseConstruct(stack, "TestDatabase", {
+      environmentConfig: config,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+    });
+    return new AgentConstruct(stack, "TestAgent", {
+      environmentConfig: config,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+      cluster: database.cluster,
+      secret: database.secret,
+      databaseName: "comprehend",
+      logsKey: new cdk.aws_kms.Key(stack, "TestLogsKey"),
+    });
+  };
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+  });
+
+  describe("Function", () => {
+    it("runs the agent in the VPC with the default model", () => {
+      // Arrange & Act
+      createAgent(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Timeout: 29,
+        VpcConfig: Match.anyValue(),
+        Environment: {
+          Variables: Match.objectLike({
+            DB_NAME: "comprehend",
+            BEDROCK_MODEL_ID: "anthropic.claude-3-haiku-20240307-v1:0",
+            AGENT_MAX_TOKENS: "2048",
+          }),
+        },
+      });
+    });
+
+    it("applies environment-specific model settings", () => {
+      // Arrange & Act
+      createAgent({
+        ...devConfig,
+        agent: {
+          modelId: "anthropic.claude-3-5-sonnet-20240620-v1:0",
+          maxTokens: 4096,
+        },
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Environment: {
+          Variables: Match.objectLike({
+            BEDROCK_MODEL_ID: "anthropic.claude-3-5-sonnet-20240620-v1:0",
+            AGENT_MAX_TOKENS: "4096",
+          }),
+        },
+      });
+    });
+
+    it("exposes the function ARN", () => {
+      // Arrange & Act
+      const agent = createAgent(devConfig);
+
+      // Assert
+      expect(agent.getFunctionArn()).toBeDefined();
+    });
+  });
+
+  describe("Permissions", () => {
+    it("allows invoking only the configured model", () => {
+      // Arrange & Act
+      createAgent(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: "bedrock:InvokeModel",
+              Resource: {
+                "Fn::Join": [
+                  "",
+                  Match.arrayWith([
+                    Match.stringLikeRegexp(
+                      "foundation-model/anthropic.claude-3-haiku-20240307-v1:0",
+                    ),
+                  ]),
+                ],
+              },
+            }),
+          ]),
+        },
+      });
+    });
+
+    it("allows the function to reach the database port", () => {
+      // Arrange & Act
+      createAgent(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        Description: "ReaderAgent",
+      });
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { ApiConstruct } from "../../../lib/constructs/api/api-construct";
+import { AuthConstruct } from "../../../lib/constructs/auth/auth-construct";
+import { DatabaseConstruct } from "../../../lib/constructs/database/database-construct";
+import { VpcConstruct } from "../../../lib/constructs/networking/vpc-construct";
+import { RDS_CA_BUNDLE_FILE } from "../../../lib/lambda/shared/database-provider";
+import { EnvironmentConfig } from "../../../lib/types";
+
+describe("ApiConstruct", () => {
+  let template: Template;
+  let api: ApiConstruct;
+
+  const devConfig: EnvironmentConfig = {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false,
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+    },
+  };
+
+  /**
+   * Stand-in for the ReaderAgent function the Messages route proxies to
+   */
+  const createAgentFunction = (stack: cdk.Stack): cdk.aws_lambda.Function =>
+    new cdk.aws_lambda.Function(stack, "TestAgent", {
+      runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+      handler: "index.handler",
+      code: cdk.aws_lambda.Code.fromInline("exports.handler = async () => {};"),
+    });
+
+  beforeAll(() => {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, "TestStack");
+    const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+      environmentConfig: devConfig,
+    });
+    const database = new DatabaseConstruct(stack, "TestDatabase", {
+      environmentConfig: devConfig,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+    });
+    const auth = new AuthConstruct(stack, "TestAuth", {
+      environmentConfig: devConfig,
+    });
+    api = new ApiConstruct(stack, "TestApi", {
+      environmentConfig: devConfig,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+      userPool: auth.userPool,
+      cluster: database.cluster,
+      secret: database.secret,
+      databaseName: "comprehend",
+      agentFunction: createAgentFunction(stack),
+      logsKey: new cdk.aws_kms.Key(stack, "TestLogsKey"),
+    });
+    template = Template.fromStack(stack);
+  });
+
+  /**
+   * Finds the path of every method with the given HTTP verb
+   */
+  const methodPaths = (httpMethod: string): string[] => {
+    const resources = template.findResources("AWS::ApiGateway::Resource");
+    const pathOf = (ref: any): string => {
+      if (!ref?.Ref) {
+        return "";
+      }
+      const resource = resources[ref.Ref];
+      if (!resource) {
+        return "";
+      }
+      return `${pathOf(resource.Properties.ParentId)}/${resource.Properties.PathPart}`;
+    };
+    return Object.values(
+      template.findResources("AWS::ApiGateway::Method", {
+        Properties: { HttpMethod: httpMethod },
+      }),
+    ).map((method: any) => pathOf(method.Properties.ResourceId));
+  };
+
+  describe("REST API", () => {
+    it("creates the API with an environment-specific name and stage", () => {
+      template.hasResourceProperties("AWS::ApiGateway::RestApi", {
+        Name: "comprehend-dev-api",
+      });
+      template.hasResourceProperties("AWS::ApiGateway::Stage", {
+        StageName: "v1",
+      });
+    });
+
+    it("creates a Cognito authorizer for the user pool", () => {
+      template.hasResourceProperties("AWS::ApiGateway::Authorizer", {
+        Type: "COGNITO_USER_POOLS",
+        ProviderARNs: Match.anyValue(),
+      });
+    });
+
+    it("exposes the API URL", () => {
+      expect(api.getApiUrl()).toBeDefined();
+    });
+  });
+
+  describe("Routes", () => {
+    it("serves the Exercises endpoints", () => {
+      expect(methodPaths("POST")).toContain("/exercises");
+      expect(methodPaths("GET")).toEqual(
+        expect.arrayContaining(["/exercises", "/exercises/{exerciseId}"]),
+      );
+      expect(methodPaths("PATCH")).toContain("/exercises/{exerciseId}");
+      expect(methodPaths("DELETE")).toContain("/exercises/{exerciseId}");
+    });
+
+    it("serves the Vocab endpoints", () => {
+      expect(methodPaths("POST")).toContain("/exercises/{exerciseId}/vocab");
+      expect(methodPaths("GET")).toContain("/exercises/{exerciseId}/vocab");
+      expect(methodPaths("PATCH")).toContain(
+        "/exercises/{exerciseId}/vocab/{vocabId}",
+      );
+    });
+
+    it("serves the Messages endpoint", () => {
+      expect(methodPaths("POST")).toContain("/exercises/{exerciseId}/messages");
+    });
+
+    it("routes Messages to the agent function", () => {
+      const [agentId] = Object.keys(
+        template.findResources("AWS::Lambda::Function", {
+          Properties: { Handler: "index.handler" },
+        }),
+      );
+      template.hasResourceProperties("AWS::Lambda::Permission", {
+        FunctionName: { "Fn::GetAtt": [agentId, "Arn"] },
+        SourceArn: Match.objectLike({
+          "Fn::Join": Match.arrayWith([
+            Match.arrayWith(["/POST/exercises/*/messages"]),
+          ]),
+        }),
+      });
+    });
+
+    it("requires Cognito authorization on every route except CORS preflight", () => {
+      const methods = template.findResources("AWS::ApiGateway::Method");
+      Object.values(methods).forEach((method: any) => {
+        const expected =
+          method.Properties.HttpMethod === "OPTIONS"
+            ? "NONE"
+            : "COGNITO_USER_POOLS";
+        expect(method.Properties.AuthorizationType).toBe(expected);
+      });
+    });
+  });
+
+  describe("Handlers", () => {
+    it("creates one function per resource group inside the VPC", () => {
+      const functions = template.findResources("AWS::Lambda::Function", {
+        Properties: {
+          Environment: {
+            Variables: Match.objectLike({ DB_NAME: "comprehend" }),
+          },
+          VpcConfig: Match.anyValue(),
+        },
+      });
+      expect(Object.keys(functions)).toHaveLength(2);
+    });
+
+    it("bundles every handler", () => {
+      // Arrange & Act
+      const app = new cdk.App({
+        postCliContext: { "aws:cdk:bundling-stacks": ["**"] },
+      });
+      const stack = new cdk.Stack(app, "BundledStack");
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+      });
+      const database = new DatabaseConstruct(stack, "TestDatabase", {
+        environmentConfig: devConfig,
+        vpc: vpcConstruct.vpc,
+        subnets: vpcConstruct.privateSubnets,
+      });
+      const auth = new AuthConstruct(stack, "TestAuth", {
+        environmentConfig: devConfig,
+      });
+      new ApiConstruct(stack, "TestApi", {
+        environmentConfig: devConfig,
+        vpc: vpcConstruct.vpc,
+        subnets: vpcConstruct.privateSubnets,
+        userPool: auth.userPool,
+        cluster: database.cluster,
+        secret: database.secret,
+        databaseName: "comprehend",
+        agentFunction: createAgentFunction(stack),
+        logsKey: new cdk.aws_kms.Key(stack, "TestLogsKey"),
+      });
+
+      // Assert
+      expect(() => Template.fromStack(stack)).not.toThrow();
+      const { directory } = app.synth();
+      const handlerAssets = fs
+        .readdirSync(directory)
+        .filter((entry) =>
+          fs.existsSync(path.join(directory, entry, "index.js")),
+        );
+      expect(handlerAssets).toHaveLength(2);
+      handlerAssets.forEach((asset) =>
+        expect(
+          fs.existsSync(path.join(directory, asset, RDS_CA_BUNDLE_FILE)),
+        ).toBe(true),
+      );
+    });
+
+    it("lets the exercises function tokenize with the agent model", () => {
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Environment: {
+          Variables: Match.objectLike({
+            BEDROCK_MODEL_ID: "anthropic.claude-3-haiku-20240307-v1:0",
+          }),
+        },
+      });
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: "bedrock:InvokeModel" }),
+          ]),
+        },
+      });
+    });
+
+    it("allows the functions to reach the database port", () => {
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        Description: "API",
+      });
+    });
+  });
+});
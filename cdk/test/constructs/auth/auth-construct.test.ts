@@ -0,0 +1,129 @@
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { AuthConstruct } from "../../../lib/constructs/auth/auth-construct";
+import { EnvironmentConfig } from "../../../lib/types";
+
+describe("AuthConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+
+  const devConfig: EnvironmentConfig = {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false,
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+    },
+  };
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+  });
+
+  describe("User pool", () => {
+    it("allows self sign-up with a verified email", () => {
+      // Arrange & Act
+      new AuthConstruct(stack, "TestAuth", { environmentConfig: devConfig });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        UserPoolName: "comprehend-dev-users",
+        AdminCreateUserConfig: { AllowAdminCreateUserOnly: false },
+        AutoVerifiedAttributes: ["email"],
+        AliasAttributes: ["email"],
+        Schema: Match.arrayWith([
+          Match.objectLike({ Name: "email", Required: true }),
+        ]),
+      });
+    });
+
+    it("recovers accounts by email only", () => {
+      // Arrange & Act
+      new AuthConstruct(stack, "TestAuth", { environmentConfig: devConfig });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        AccountRecoverySetting: {
+          RecoveryMechanisms: [{ Name: "verified_email", Priority: 1 }],
+        },
+      });
+    });
+  });
+
+  describe("MFA", () => {
+    it("disables MFA when the environment omits auth settings", () => {
+      // Arrange & Act
+      new AuthConstruct(stack, "TestAuth", { environmentConfig: devConfig });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        MfaConfiguration: "OFF",
+        EnabledMfas: Match.absent(),
+      });
+    });
+
+    it("offers SMS and authenticator app factors when MFA is optional", () => {
+      // Arrange & Act
+      new AuthConstruct(stack, "TestAuth", {
+        environmentConfig: { ...devConfig, auth: { mfa: "optional" } },
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        MfaConfiguration: "OPTIONAL",
+        EnabledMfas: ["SMS_MFA", "SOFTWARE_TOKEN_MFA"],
+      });
+    });
+
+    it("requires a second factor when MFA is required", () => {
+      // Arrange & Act
+      new AuthConstruct(stack, "TestAuth", {
+        environmentConfig: { ...devConfig, auth: { mfa: "required" } },
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        MfaConfiguration: "ON",
+      });
+    });
+  });
+
+  describe("App client", () => {
+    it("creates a public client with SRP and refresh token flows", () => {
+      // Arrange & Act
+      new AuthConstruct(stack, "TestAuth", { environmentConfig: devConfig });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Cognito::UserPoolClient", {
+        ClientName: "comprehend-dev-app",
+        GenerateSecret: false,
+        ExplicitAuthFlows: Match.arrayWith([
+          "ALLOW_USER_SRP_AUTH",
+          "ALLOW_REFRESH_TOKEN_AUTH",
+        ]),
+        PreventUserExistenceErrors: "ENABLED",
+      });
+    });
+
+    it("exposes the user pool and client IDs", () => {
+      // Arrange & Act
+      const auth = new AuthConstruct(stack, "TestAuth", {
+        environmentConfig: devConfig,
+      });
+
+      // Assert
+      expect(auth.getUserPoolId()).toBeDefined();
+      expect(auth.getUserPoolClientId()).toBeDefined();
+    });
+  });
+});
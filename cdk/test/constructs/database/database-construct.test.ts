@@ -0,0 +1,241 @@
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { DatabaseConstruct } from "../../../lib/constructs/database/database-construct";
+import { VpcConstruct } from "../../../lib/constructs/networking/vpc-construct";
+import { EnvironmentConfig } from "../../../lib/types";
+
+describe("DatabaseConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+
+  const devConfig: EnvironmentConfig = {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false,
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+    },
+  };
+
+  const prodConfig: EnvironmentConfig = {
+    name: "prod",
+    vpcCidr: "10.2.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: true,
+    natGateways: 2,
+    tags: {
+      Application: "Comprehend",
+      Environment: "prod",
+      ManagedBy: "CDK",
+    },
+    database: {
+      minCapacity: 2,
+      maxCapacity: 16,
+      readers: 1,
+      backupRetentionDays: 30,
+      deletionProtection: true,
+    },
+  };
+
+  const createDatabase = (config: EnvironmentConfig): DatabaseConstruct => {
+    const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+      environmentConfig: config,
+    });
+    return new DatabaseConstruct(stack, "TestDatabase", {
+      environmentConfig: config,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+    });
+  };
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+  });
+
+  describe("Cluster creation", () => {
+    it("creates an encrypted Aurora PostgreSQL cluster", () => {
+      // Arrange & Act
+      createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::RDS::DBCluster", {
+        Engine: "aurora-postgresql",
+        StorageEncrypted: true,
+        DatabaseName: "comprehend",
+      });
+    });
+
+    it("places the cluster in the private subnets", () => {
+      // Arrange & Act
+      const database = createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const subnetGroups = template.findResources("AWS::RDS::DBSubnetGroup");
+      const subnetIds = Object.values(subnetGroups)[0].Properties.SubnetIds;
+      expect(subnetIds).toHaveLength(2);
+      expect(database.cluster.node.scope).toBe(database);
+    });
+
+    it("creates a writer instance only when no readers are configured", () => {
+      // Arrange & Act
+      createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::RDS::DBInstance", 1);
+    });
+
+    it("creates reader instances when configured", () => {
+      // Arrange & Act
+      createDatabase(prodConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::RDS::DBInstance", 2);
+    });
+  });
+
+  describe("Environment sizing", () => {
+    it("uses default sizing when the environment omits database settings", () => {
+      // Arrange & Act
+      createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::RDS::DBCluster", {
+        ServerlessV2ScalingConfiguration: {
+          MinCapacity: 0.5,
+          MaxCapacity: 2,
+        },
+        BackupRetentionPeriod: 1,
+        DeletionProtection: false,
+      });
+    });
+
+    it("applies environment-specific sizing and backup retention", () => {
+      // Arrange & Act
+      createDatabase(prodConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::RDS::DBCluster", {
+        ServerlessV2ScalingConfiguration: {
+          MinCapacity: 2,
+          MaxCapacity: 16,
+        },
+        BackupRetentionPeriod: 30,
+        DeletionProtection: true,
+      });
+    });
+  });
+
+  describe("Retention", () => {
+    it("deletes the cluster with the stack by default", () => {
+      // Arrange & Act
+      createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResource("AWS::RDS::DBCluster", {
+        DeletionPolicy: "Snapshot",
+      });
+    });
+
+    it("retains the cluster and its secret and protects it from deletion", () => {
+      // Arrange & Act
+      createDatabase({
+        ...devConfig,
+        retainStatefulResources: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResource("AWS::RDS::DBCluster", {
+        DeletionPolicy: "Retain",
+        UpdateReplacePolicy: "Retain",
+        Properties: Match.objectLike({ DeletionProtection: true }),
+      });
+      template.hasResource("AWS::SecretsManager::Secret", {
+        DeletionPolicy: "Retain",
+      });
+    });
+
+    it("lets the database config override deletion protection", () => {
+      // Arrange & Act
+      createDatabase({
+        ...devConfig,
+        retainStatefulResources: true,
+        database: { ...prodConfig.database!, deletionProtection: false },
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::RDS::DBCluster", {
+        DeletionProtection: false,
+      });
+    });
+  });
+
+  describe("Credentials", () => {
+    it("generates credentials in Secrets Manager", () => {
+      // Arrange & Act
+      createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::SecretsManager::Secret", {
+        Name: "comprehend/dev/database",
+        GenerateSecretString: Match.objectLike({
+          SecretStringTemplate: '{"username":"comprehend_admin"}',
+        }),
+      });
+    });
+
+    it("exposes the secret ARN", () => {
+      // Arrange & Act
+      const database = createDatabase(devConfig);
+
+      // Assert
+      expect(database.secret).toBeDefined();
+      expect(database.getSecretArn()).toBeDefined();
+    });
+  });
+
+  describe("Network access", () => {
+    it("creates a security group without ingress rules", () => {
+      // Arrange & Act
+      createDatabase(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        GroupDescription: "Aurora PostgreSQL cluster for dev environment",
+        SecurityGroupIngress: Match.absent(),
+      });
+    });
+
+    it("allows connections from granted peers on the database port", () => {
+      // Arrange
+      const database = createDatabase(devConfig);
+      const peer = new cdk.aws_ec2.SecurityGroup(stack, "PeerSg", {
+        vpc: database.cluster.vpc,
+      });
+
+      // Act
+      database.allowConnectionsFrom(peer, "Test peer");
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        Description: "Test peer",
+        IpProtocol: "tcp",
+      });
+    });
+  });
+});
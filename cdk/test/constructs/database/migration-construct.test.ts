@@ -0,0 +1,110 @@
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { DatabaseConstruct } from "../../../lib/constructs/database/database-construct";
+import { MigrationConstruct } from "../../../lib/constructs/database/migration-construct";
+import { VpcConstruct } from "../../../lib/constructs/networking/vpc-construct";
+import { LATEST_MIGRATION_VERSION } from "../../../lib/lambda/migrations/migrations";
+import { EnvironmentConfig } from "../../../lib/types";
+
+describe("MigrationConstruct", () => {
+  let template: Template;
+
+  const devConfig: EnvironmentConfig = {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false,
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+    },
+  };
+
+  beforeAll(() => {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, "TestStack");
+    const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+      environmentConfig: devConfig,
+    });
+    const database = new DatabaseConstruct(stack, "TestDatabase", {
+      environmentConfig: devConfig,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+    });
+    new MigrationConstruct(stack, "TestMigrations", {
+      environmentConfig: devConfig,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+      cluster: database.cluster,
+      secret: database.secret,
+      databaseName: "comprehend",
+      logsKey: new cdk.aws_kms.Key(stack, "TestLogsKey"),
+    });
+    template = Template.fromStack(stack);
+  });
+
+  it("creates the migration function inside the VPC", () => {
+    template.hasResourceProperties("AWS::Lambda::Function", {
+      Handler: "index.handler",
+      Environment: {
+        Variables: Match.objectLike({
+          DB_NAME: "comprehend",
+          DB_SECRET_ARN: Match.anyValue(),
+        }),
+      },
+      VpcConfig: Match.objectLike({
+        SubnetIds: Match.anyValue(),
+      }),
+    });
+  });
+
+  it("logs the function and the provider to encrypted log groups", () => {
+    const logGroups = template.findResources("AWS::Logs::LogGroup");
+    expect(Object.keys(logGroups)).toHaveLength(2);
+    Object.values(logGroups).forEach((logGroup) =>
+      expect(logGroup.Properties.KmsKeyId).toBeDefined(),
+    );
+    const functions = template.findResources("AWS::Lambda::Function");
+    expect(Object.keys(functions)).toHaveLength(2);
+    Object.values(functions).forEach((fn) =>
+      expect(Object.keys(logGroups)).toContain(
+        fn.Properties.LoggingConfig.LogGroup.Ref,
+      ),
+    );
+  });
+
+  it("creates the schema custom resource with the latest version", () => {
+    template.hasResourceProperties("Custom::ComprehendSchema", {
+      LatestVersion: LATEST_MIGRATION_VERSION,
+      MigrationsChecksum: Match.stringLikeRegexp("^[a-f0-9]{64}$"),
+    });
+  });
+
+  it("runs migrations after the cluster instances exist", () => {
+    const resources = template.findResources("Custom::ComprehendSchema");
+    const dependsOn: string[] = Object.values(resources)[0].DependsOn;
+    expect(
+      dependsOn.some((id) => id.includes("TestDatabaseClusterWriter")),
+    ).toBe(true);
+  });
+
+  it("allows the function to reach the database port", () => {
+    template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+      Description: "Schema migrations",
+      FromPort: Match.anyValue(),
+    });
+  });
+
+  it("grants the function read access to the credentials secret", () => {
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(["secretsmanager:GetSecretValue"]),
+          }),
+        ]),
+      },
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import * as cdk from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import {
+  LoggingConstruct,
+  createFunctionLogGroup,
+} from "../../../lib/constructs/logging/logging-construct";
+import { EnvironmentConfig } from "../../../lib/types";
+
+describe("LoggingConstruct", () => {
+  let stack: cdk.Stack;
+
+  const prodConfig: EnvironmentConfig = {
+    name: "prod",
+    vpcCidr: "10.2.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: true,
+    tags: {
+      Application: "Comprehend",
+      Environment: "prod",
+      ManagedBy: "CDK",
+    },
+  };
+
+  beforeEach(() => {
+    stack = new cdk.Stack(new cdk.App(), "TestStack", {
+      env: { account: "123456789012", region: "eu-west-1" },
+    });
+  });
+
+  it("creates a rotated key CloudWatch Logs may use", () => {
+    // Arrange & Act
+    new LoggingConstruct(stack, "TestLogging", {
+      environmentConfig: prodConfig,
+    });
+
+    // Assert
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::KMS::Key", {
+      EnableKeyRotation: true,
+      KeyPolicy: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Principal: { Service: "logs.eu-west-1.amazonaws.com" },
+            Action: Match.arrayWith(["kms:Decrypt", "kms:Encrypt"]),
+          }),
+        ]),
+      },
+    });
+    template.hasResourceProperties("AWS::KMS::Alias", {
+      AliasName: "alias/comprehend-prod-logs",
+    });
+  });
+
+  it("gives functions log groups encrypted with the key", () => {
+    // Arrange
+    const logging = new LoggingConstruct(stack, "TestLogging", {
+      environmentConfig: prodConfig,
+    });
+
+    // Act
+    new cdk.aws_lambda.Function(stack, "TestFunction", {
+      runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+      handler: "index.handler",
+      code: cdk.aws_lambda.Code.fromInline("exports.handler = async () => {};"),
+      logGroup: createFunctionLogGroup(stack, "TestLogGroup", logging.logsKey),
+    });
+
+    // Assert
+    const template = Template.fromStack(stack);
+    const [logGroupId] = Object.keys(
+      template.findResources("AWS::Logs::LogGroup", {
+        Properties: {
+          KmsKeyId: {
+            "Fn::GetAtt": [
+              stack.getLogicalId(
+                logging.logsKey.node.defaultChild as cdk.CfnElement,
+              ),
+              "Arn",
+            ],
+          },
+        },
+      }),
+    );
+    template.hasResourceProperties("AWS::Lambda::Function", {
+      LoggingConfig: { LogGroup: { Ref: logGroupId } },
+    });
+  });
+});
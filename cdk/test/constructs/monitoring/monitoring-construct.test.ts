@@ -0,0 +1,279 @@
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import { DatabaseConstruct } from "../../../lib/constructs/database/database-construct";
+import { MonitoringConstruct } from "../../../lib/constructs/monitoring/monitoring-construct";
+import { VpcConstruct } from "../../../lib/constructs/networking/vpc-construct";
+import {
+  DEFAULT_ALARM_THRESHOLDS,
+  EnvironmentConfig,
+  MonitoringConfig,
+} from "../../../lib/types";
+
+describe("MonitoringConstruct", () => {
+  let stack: cdk.Stack;
+
+  const devConfig: EnvironmentConfig = {
+    name: "dev",
+    vpcCidr: "10.0.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: false,
+    tags: {
+      Application: "Comprehend",
+      Environment: "dev",
+      ManagedBy: "CDK",
+    },
+  };
+
+  const prodConfig: EnvironmentConfig = {
+    name: "prod",
+    vpcCidr: "10.2.0.0/16",
+    maxAzs: 2,
+    enableNatGateways: true,
+    natGateways: 2,
+    tags: {
+      Application: "Comprehend",
+      Environment: "prod",
+      ManagedBy: "CDK",
+    },
+  };
+
+  /**
+   * Builds the watched resources and the monitoring construct
+   * Two inline functions and a one-method API stand in for the real ones
+   */
+  const createMonitoring = (
+    config: EnvironmentConfig,
+    monitoring?: MonitoringConfig,
+  ): MonitoringConstruct => {
+    const environmentConfig = { ...config, monitoring };
+    stack = new cdk.Stack(new cdk.App(), "TestStack");
+    const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+      environmentConfig,
+    });
+    const database = new DatabaseConstruct(stack, "TestDatabase", {
+      environmentConfig,
+      vpc: vpcConstruct.vpc,
+      subnets: vpcConstruct.privateSubnets,
+    });
+    const createFunction = (id: string) =>
+      new cdk.aws_lambda.Function(stack, id, {
+        runtime: cdk.aws_lambda.Runtime.NODEJS_22_X,
+        handler: "index.handler",
+        code: cdk.aws_lambda.Code.fromInline(
+          "exports.handler = async () => {};",
+        ),
+      });
+    const restApi = new cdk.aws_apigateway.RestApi(stack, "TestApi");
+    restApi.root.addMethod("GET", new cdk.aws_apigateway.MockIntegration());
+
+    return new MonitoringConstruct(stack, "TestMonitoring", {
+      environmentConfig,
+      natGatewayIds: vpcConstruct.natGatewayIds,
+      functions: {
+        Exercises: createFunction("ExercisesFunction"),
+        Agent: createFunction("AgentFunction"),
+      },
+      restApi,
+      cluster: database.cluster,
+    });
+  };
+
+  const alarmNames = (): string[] =>
+    Object.values(
+      Template.fromStack(stack).findResources("AWS::CloudWatch::Alarm"),
+    ).map((alarm) => alarm.Properties.AlarmName);
+
+  describe("Alarms", () => {
+    it("watches functions, the API and the database", () => {
+      // Arrange & Act
+      createMonitoring(devConfig);
+
+      // Assert
+      expect(alarmNames()).toEqual([
+        "comprehend-dev-exercises-errors",
+        "comprehend-dev-exercises-throttles",
+        "comprehend-dev-agent-errors",
+        "comprehend-dev-agent-throttles",
+        "comprehend-dev-api5xx-errors",
+        "comprehend-dev-api-latency",
+        "comprehend-dev-database-cpu",
+        "comprehend-dev-database-connections",
+      ]);
+    });
+
+    it("watches each NAT gateway when NAT gateways are enabled", () => {
+      // Arrange & Act
+      createMonitoring(prodConfig);
+
+      // Assert
+      expect(alarmNames().filter((name) => name.includes("-nat"))).toEqual([
+        "comprehend-prod-nat1-port-allocation-errors",
+        "comprehend-prod-nat1-bytes-out",
+        "comprehend-prod-nat2-port-allocation-errors",
+        "comprehend-prod-nat2-bytes-out",
+      ]);
+      const template = Template.fromStack(stack);
+      const gatewayIds = Object.keys(
+        template.findResources("AWS::EC2::NatGateway"),
+      );
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        Namespace: "AWS/NATGateway",
+        MetricName: "BytesOutToDestination",
+        Dimensions: [{ Name: "NatGatewayId", Value: { Ref: gatewayIds[0] } }],
+        Threshold: DEFAULT_ALARM_THRESHOLDS.natBytesOutGb * 1024 ** 3,
+      });
+    });
+
+    it("uses default thresholds for anything the environment leaves unset", () => {
+      // Arrange & Act
+      createMonitoring(devConfig, { thresholds: { lambdaErrors: 20 } });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: "comprehend-dev-agent-errors",
+        Threshold: 20,
+        EvaluationPeriods: 1,
+        ComparisonOperator: "GreaterThanOrEqualToThreshold",
+        TreatMissingData: "notBreaching",
+      });
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: "comprehend-dev-database-cpu",
+        Threshold: DEFAULT_ALARM_THRESHOLDS.databaseCpuPercent,
+        EvaluationPeriods: 3,
+      });
+    });
+
+    it("alarms on p99 API latency", () => {
+      // Arrange & Act
+      createMonitoring(devConfig);
+
+      // Assert
+      Template.fromStack(stack).hasResourceProperties(
+        "AWS::CloudWatch::Alarm",
+        {
+          AlarmName: "comprehend-dev-api-latency",
+          MetricName: "Latency",
+          ExtendedStatistic: "p99",
+          Threshold: DEFAULT_ALARM_THRESHOLDS.apiLatencyMs,
+        },
+      );
+    });
+  });
+
+  describe("Notifications", () => {
+    it("notifies the alarm topic when alarms fire and recover", () => {
+      // Arrange & Act
+      const monitoring = createMonitoring(devConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const topicRef = stack.resolve(monitoring.alarmTopic.topicArn);
+      template.hasResourceProperties("AWS::SNS::Topic", {
+        TopicName: "comprehend-dev-alarms",
+      });
+      Object.values(template.findResources("AWS::CloudWatch::Alarm")).forEach(
+        (alarm) => {
+          expect(alarm.Properties.AlarmActions).toEqual([topicRef]);
+          expect(alarm.Properties.OKActions).toEqual([topicRef]);
+        },
+      );
+    });
+
+    it("subscribes the configured recipients", () => {
+      // Arrange & Act
+      createMonitoring(devConfig, {
+        subscriptions: [
+          { protocol: "email", endpoint: "oncall@example.com" },
+          { protocol: "sms", endpoint: "+15555550100" },
+          { protocol: "https", endpoint: "https://hooks.example.com/alarms" },
+        ],
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::SNS::Subscription", 3);
+      template.hasResourceProperties("AWS::SNS::Subscription", {
+        Protocol: "email",
+        Endpoint: "oncall@example.com",
+      });
+      template.hasResourceProperties("AWS::SNS::Subscription", {
+        Protocol: "sms",
+        Endpoint: "+15555550100",
+      });
+      template.hasResourceProperties("AWS::SNS::Subscription", {
+        Protocol: "https",
+        Endpoint: "https://hooks.example.com/alarms",
+      });
+    });
+
+    it("warns when prod alarms have no recipients", () => {
+      // Arrange & Act
+      createMonitoring(prodConfig);
+
+      // Assert
+      Annotations.fromStack(stack).hasWarning(
+        "/TestStack/TestMonitoring",
+        Match.stringLikeRegexp("Alarms for prod notify nobody"),
+      );
+    });
+
+    it("does not warn about environments below prod", () => {
+      // Arrange & Act
+      createMonitoring(devConfig);
+
+      // Assert
+      Annotations.fromStack(stack).hasNoWarning(
+        "/TestStack/TestMonitoring",
+        Match.anyValue(),
+      );
+    });
+  });
+
+  describe("Dashboard", () => {
+    /**
+     * Dashboard body as JSON text, with tokens left in place
+     */
+    const dashboardBody = (): string =>
+      JSON.stringify(
+        Object.values(
+          Template.fromStack(stack).findResources("AWS::CloudWatch::Dashboard"),
+        )[0].Properties.DashboardBody,
+      );
+
+    it("creates a dashboard per environment with the alarm status", () => {
+      // Arrange & Act
+      const monitoring = createMonitoring(prodConfig);
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::CloudWatch::Dashboard", {
+        DashboardName: "comprehend-prod",
+      });
+      expect(monitoring.alarms).toHaveLength(12);
+      const body = dashboardBody();
+      [
+        "Alarms",
+        "NAT gateway port allocation errors",
+        "NAT gateway bytes to destinations",
+        "Lambda errors",
+        "Lambda throttles",
+        "API 5xx errors",
+        "API latency (ms)",
+        "Database CPU utilization",
+        "Database connections",
+      ].forEach((title) =>
+        expect(body).toContain(`\\"title\\":\\"${title}\\"`),
+      );
+    });
+
+    it("leaves out NAT gateway graphs without NAT gateways", () => {
+      // Arrange & Act
+      createMonitoring(devConfig);
+
+      // Assert
+      const body = dashboardBody();
+      expect(body).not.toContain("NAT gateway");
+    });
+  });
+});
@@ -66,6 +66,49 @@ describe("VpcConstruct", () => {
     });
   });
 
+  describe("Retention", () => {
+    it("deletes the VPC and subnets with the stack by default", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const retained = [
+        ...Object.values(template.findResources("AWS::EC2::VPC")),
+        ...Object.values(template.findResources("AWS::EC2::Subnet")),
+      ].filter((resource) => resource.DeletionPolicy === "Retain");
+      expect(retained).toHaveLength(0);
+    });
+
+    it("retains the VPC and every subnet when configured", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: {
+          ...prodConfig,
+          retainStatefulResources: true,
+          subnets: [
+            { name: "Public", type: "public", cidrMask: 24 },
+            { name: "Private", type: "private", cidrMask: 22 },
+            { name: "Data", type: "isolated", cidrMask: 26 },
+          ],
+        },
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const retainPolicy = {
+        DeletionPolicy: "Retain",
+        UpdateReplacePolicy: "Retain",
+      };
+      template.hasResource("AWS::EC2::VPC", retainPolicy);
+      const subnets = Object.values(template.findResources("AWS::EC2::Subnet"));
+      expect(subnets).toHaveLength(6);
+      subnets.forEach((subnet) => expect(subnet).toMatchObject(retainPolicy));
+    });
+  });
+
   describe("Public subnets", () => {
     it("creates public subnets across multiple AZs", () => {
       // Arrange & Act
@@ -280,6 +323,106 @@ describe("VpcConstruct", () => {
     });
   });
 
+  describe("Subnet tiers", () => {
+    const tieredConfig: EnvironmentConfig = {
+      ...devConfig,
+      subnets: [
+        { name: "Public", type: "public", cidrMask: 24 },
+        { name: "Private", type: "private", cidrMask: 23 },
+        { name: "Data", type: "isolated", cidrMask: 26 },
+        { name: "Reserved", type: "isolated", cidrMask: 22, reserved: true },
+      ],
+    };
+
+    it("allocates tiers from the VPC CIDR in order", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: tieredConfig,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const cidrs = Object.values(
+        template.findResources("AWS::EC2::Subnet"),
+      ).map((subnet) => subnet.Properties.CidrBlock);
+      expect(cidrs.sort()).toEqual(
+        [
+          "10.0.0.0/24",
+          "10.0.1.0/24",
+          "10.0.2.0/23",
+          "10.0.4.0/23",
+          "10.0.6.0/26",
+          "10.0.6.64/26",
+        ].sort(),
+      );
+    });
+
+    it("creates no subnets for reserved tiers", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: tieredConfig,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::EC2::Subnet", 6);
+    });
+
+    it("places the database in the isolated tier", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: { ...prodConfig, subnets: tieredConfig.subnets },
+      });
+
+      // Assert
+      expect(construct.databaseSubnets).toHaveLength(2);
+      expect(construct.privateSubnets).toHaveLength(2);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::Subnet", {
+        CidrBlock: "10.2.6.0/26",
+        MapPublicIpOnLaunch: false,
+        Tags: Match.arrayWith([
+          { Key: "Name", Value: "comprehend-prod-data-1" },
+          { Key: "SubnetType", Value: "Data" },
+        ]),
+      });
+      // Data subnets have no default route, unlike the private subnets
+      const routeTables = construct.databaseSubnets.map((subnet) =>
+        stack.resolve(subnet.routeTable.routeTableId),
+      );
+      const routes = Object.values(template.findResources("AWS::EC2::Route"));
+      routes.forEach((route) => {
+        expect(routeTables).not.toContainEqual(route.Properties.RouteTableId);
+      });
+    });
+
+    it("puts the database in the private subnets without an isolated tier", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: prodConfig,
+      });
+
+      // Assert
+      expect(construct.databaseSubnets).toEqual(construct.privateSubnets);
+    });
+
+    it("routes private tiers through NAT gateways only when enabled", () => {
+      // Arrange & Act
+      const devVpc = new VpcConstruct(stack, "DevVpc", {
+        environmentConfig: tieredConfig,
+      });
+      const prodVpc = new VpcConstruct(stack, "ProdVpc", {
+        environmentConfig: { ...prodConfig, subnets: tieredConfig.subnets },
+      });
+
+      // Assert
+      expect(devVpc.vpc.isolatedSubnets).toHaveLength(4);
+      expect(devVpc.vpc.privateSubnets).toHaveLength(0);
+      expect(prodVpc.vpc.isolatedSubnets).toHaveLength(2);
+      expect(prodVpc.vpc.privateSubnets).toHaveLength(2);
+    });
+  });
+
   describe("Resource naming", () => {
     it("applies environment-specific naming to VPC", () => {
       // Arrange & Act
@@ -292,6 +435,299 @@ describe("VpcConstruct", () => {
     });
   });
 
+  describe("Flow logs", () => {
+    it("does not create flow logs unless enabled", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: {
+          ...prodConfig,
+          flowLogs: { destination: "cloudwatch" },
+        },
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::EC2::FlowLog", 0);
+      template.resourceCountIs("AWS::KMS::Key", 0);
+      expect(construct.flowLog).toBeUndefined();
+    });
+
+    it("delivers to a KMS-encrypted log group by default", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+        enableFlowLogs: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::KMS::Key", {
+        EnableKeyRotation: true,
+      });
+      template.hasResourceProperties("AWS::KMS::Alias", {
+        AliasName: "alias/comprehend-dev-flow-logs",
+      });
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/comprehend/dev/vpc-flow-logs",
+        RetentionInDays: 30,
+        KmsKeyId: Match.objectLike({ "Fn::GetAtt": Match.anyValue() }),
+      });
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        ResourceType: "VPC",
+        TrafficType: "ALL",
+        LogDestinationType: "cloud-watch-logs",
+      });
+    });
+
+    it("lets CloudWatch Logs use the key", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+        enableFlowLogs: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::KMS::Key", {
+        KeyPolicy: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Principal: {
+                Service: {
+                  "Fn::Join": [
+                    "",
+                    ["logs.", { Ref: "AWS::Region" }, ".amazonaws.com"],
+                  ],
+                },
+              },
+            }),
+          ]),
+        },
+      });
+    });
+
+    it("applies environment retention, traffic type and log format", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: {
+          ...prodConfig,
+          flowLogs: {
+            retentionDays: 365,
+            trafficType: "REJECT",
+            logFormat: ["srcaddr", "dstaddr", "dstport", "action"],
+          },
+        },
+        enableFlowLogs: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        RetentionInDays: 365,
+      });
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        TrafficType: "REJECT",
+        LogFormat: "${srcaddr} ${dstaddr} ${dstport} ${action}",
+      });
+    });
+
+    it("delivers to a KMS-encrypted S3 bucket when configured", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: {
+          ...prodConfig,
+          flowLogs: { destination: "s3", retentionDays: 400 },
+        },
+        enableFlowLogs: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::Logs::LogGroup", 0);
+      template.hasResourceProperties("AWS::S3::Bucket", {
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [
+            Match.objectLike({
+              ServerSideEncryptionByDefault: Match.objectLike({
+                SSEAlgorithm: "aws:kms",
+              }),
+            }),
+          ],
+        },
+        PublicAccessBlockConfiguration: {
+          BlockPublicAcls: true,
+          BlockPublicPolicy: true,
+          IgnorePublicAcls: true,
+          RestrictPublicBuckets: true,
+        },
+        LifecycleConfiguration: {
+          Rules: [Match.objectLike({ ExpirationInDays: 400 })],
+        },
+      });
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        LogDestinationType: "s3",
+      });
+      template.hasResourceProperties("AWS::KMS::Key", {
+        KeyPolicy: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Principal: { Service: "delivery.logs.amazonaws.com" },
+            }),
+          ]),
+        },
+      });
+      expect(construct.flowLogsBucket).toBeDefined();
+      expect(construct.flowLogGroup).toBeUndefined();
+    });
+  });
+
+  describe("VPC endpoints", () => {
+    it("does not create endpoints unless enabled", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 0);
+    });
+
+    it("creates S3 and DynamoDB gateway endpoints", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: {
+          ...devConfig,
+          vpcEndpoints: { interfaceEndpoints: [] },
+        },
+        enableVpcEndpoints: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 2);
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".s3"])],
+        }),
+      });
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".dynamodb"])],
+        }),
+      });
+      expect(construct.gatewayEndpoints).toHaveLength(2);
+      expect(construct.endpointSecurityGroup).toBeUndefined();
+    });
+
+    it("creates all interface endpoints by default", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+        enableVpcEndpoints: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const interfaceEndpoints = template.findResources(
+        "AWS::EC2::VPCEndpoint",
+        { Properties: { VpcEndpointType: "Interface" } },
+      );
+      expect(Object.keys(interfaceEndpoints)).toHaveLength(4);
+      expect(Object.keys(construct.interfaceEndpoints).sort()).toEqual([
+        "bedrock-runtime",
+        "logs",
+        "secretsmanager",
+        "sts",
+      ]);
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Interface",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".bedrock-runtime"])],
+        }),
+        PrivateDnsEnabled: true,
+      });
+    });
+
+    it("creates only the configured interface endpoints", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: {
+          ...devConfig,
+          vpcEndpoints: { interfaceEndpoints: ["secretsmanager"] },
+        },
+        enableVpcEndpoints: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 3);
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Interface",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".secretsmanager"])],
+        }),
+      });
+    });
+
+    it("places interface endpoints in the private subnets", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+        enableVpcEndpoints: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      const endpoints = Object.values(
+        template.findResources("AWS::EC2::VPCEndpoint", {
+          Properties: { VpcEndpointType: "Interface" },
+        }),
+      );
+      const privateSubnetIds = construct.privateSubnets.map((subnet) =>
+        stack.resolve(subnet.subnetId),
+      );
+      endpoints.forEach((endpoint) => {
+        expect(endpoint.Properties.SubnetIds).toEqual(privateSubnetIds);
+      });
+    });
+
+    it("shares one security group allowing HTTPS from the VPC", () => {
+      // Arrange & Act
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: devConfig,
+        enableVpcEndpoints: true,
+      });
+
+      // Assert
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        GroupDescription: "VPC interface endpoints for dev environment",
+        SecurityGroupIngress: [
+          Match.objectLike({
+            IpProtocol: "tcp",
+            FromPort: 443,
+            ToPort: 443,
+            CidrIp: { "Fn::GetAtt": [Match.anyValue(), "CidrBlock"] },
+          }),
+        ],
+      });
+      const groupId = stack.resolve(
+        construct.endpointSecurityGroup!.securityGroupId,
+      );
+      const endpoints = Object.values(
+        template.findResources("AWS::EC2::VPCEndpoint", {
+          Properties: { VpcEndpointType: "Interface" },
+        }),
+      );
+      endpoints.forEach((endpoint) => {
+        expect(endpoint.Properties.SecurityGroupIds).toEqual([groupId]);
+      });
+    });
+  });
+
   describe("Getters", () => {
     it("exposes VPC through getter", () => {
       // Arrange & Act
@@ -358,10 +794,43 @@ describe("VpcConstruct", () => {
       const result = construct.getNatGatewayIpsString();
       expect(result).toBeDefined();
       expect(result).not.toBe("disabled");
-      // Note: Actual IP values are placeholders in current implementation
       expect(result.split(",").length).toBe(2);
     });
 
+    it("exposes the Elastic IPs of the NAT gateways", () => {
+      // Arrange
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: prodConfig,
+      });
+
+      // Act
+      const ips = construct.natGatewayIps.map((ip) => stack.resolve(ip));
+
+      // Assert
+      const eipIds = Object.keys(
+        Template.fromStack(stack).findResources("AWS::EC2::EIP"),
+      );
+      expect(ips).toEqual(
+        eipIds.map((id) => ({ "Fn::GetAtt": [id, "PublicIp"] })),
+      );
+    });
+
+    it("exposes the IDs of the NAT gateways", () => {
+      // Arrange
+      const construct = new VpcConstruct(stack, "TestVpc", {
+        environmentConfig: prodConfig,
+      });
+
+      // Act
+      const ids = construct.natGatewayIds.map((id) => stack.resolve(id));
+
+      // Assert
+      const gatewayIds = Object.keys(
+        Template.fromStack(stack).findResources("AWS::EC2::NatGateway"),
+      );
+      expect(ids).toEqual(gatewayIds.map((id) => ({ Ref: id })));
+    });
+
     it("returns empty array for NAT gateway IPs when disabled", () => {
       // Arrange & Act
       const construct = new VpcConstruct(stack, "TestVpc", {
@@ -371,6 +840,7 @@ describe("VpcConstruct", () => {
       // Assert
       expect(construct.natGatewayIps).toBeDefined();
       expect(construct.natGatewayIps.length).toBe(0);
+      expect(construct.natGatewayIds).toHaveLength(0);
     });
 
     it("returns 'disabled' string for NAT gateway IPs when disabled", () => {
@@ -383,4 +853,20 @@ describe("VpcConstruct", () => {
       expect(construct.getNatGatewayIpsString()).toBe("disabled");
     });
   });
+
+  describe("Outputs", () => {
+    it("exports the VPC ID only under the retired construct export", () => {
+      // Arrange & Act
+      new VpcConstruct(stack, "TestVpc", { environmentConfig: devConfig });
+      const outputs = Template.fromStack(stack).findOutputs("*");
+
+      // Assert
+      expect(Object.values(outputs)).toEqual([
+        expect.objectContaining({
+          Export: { Name: "dev-VpcId-Construct" },
+          Description: "Deprecated: import dev-VpcId instead",
+        }),
+      ]);
+    });
+  });
 });
@@ -0,0 +1,259 @@
+import * as cdk from "aws-cdk-lib";
+import {
+  CostTemplate,
+  UNTAGGED_COST_CENTER,
+  estimateStackCost,
+  estimateTemplateCost,
+  formatCostReport,
+} from "../../lib/cost/cost-estimator";
+import {
+  DEFAULT_USAGE_ASSUMPTIONS,
+  PRICE_TABLE,
+} from "../../lib/cost/price-table";
+import { ComprehendStack } from "../../lib/stacks/comprehend-stack";
+import { DEFAULT_ENVIRONMENT_CONFIGS } from "../../lib/types";
+
+const hours = PRICE_TABLE.hoursPerMonth;
+const costCenterTag = (value: string) => [{ Key: "CostCenter", Value: value }];
+
+describe("estimateTemplateCost", () => {
+  it("prices NAT gateways and their Elastic IPs by the hour plus data", () => {
+    // Arrange
+    const template: CostTemplate = {
+      Resources: {
+        Eip: {
+          Type: "AWS::EC2::EIP",
+          Properties: { Tags: costCenterTag("A") },
+        },
+        Nat: {
+          Type: "AWS::EC2::NatGateway",
+          Properties: { Tags: costCenterTag("A") },
+        },
+      },
+    };
+
+    // Act
+    const estimate = estimateTemplateCost("staging", template);
+
+    // Assert
+    expect(estimate.lineItems.map((item) => item.monthlyCost)).toEqual([
+      hours * PRICE_TABLE.publicIpv4Hour,
+      hours * PRICE_TABLE.natGatewayHour +
+        DEFAULT_USAGE_ASSUMPTIONS.natGatewayDataGb *
+          PRICE_TABLE.natGatewayDataGb,
+    ]);
+    expect(estimate.priceTableVersion).toBe(PRICE_TABLE.version);
+  });
+
+  it("prices interface endpoints per AZ and skips gateway endpoints", () => {
+    // Arrange
+    const template: CostTemplate = {
+      Resources: {
+        S3: {
+          Type: "AWS::EC2::VPCEndpoint",
+          Properties: { VpcEndpointType: "Gateway" },
+        },
+        Sts: {
+          Type: "AWS::EC2::VPCEndpoint",
+          Properties: {
+            VpcEndpointType: "Interface",
+            ServiceName: {
+              "Fn::Join": [
+                "",
+                ["com.amazonaws.", { Ref: "AWS::Region" }, ".sts"],
+              ],
+            },
+            SubnetIds: [{ Ref: "A" }, { Ref: "B" }, { Ref: "C" }],
+          },
+        },
+      },
+    };
+
+    // Act
+    const estimate = estimateTemplateCost("dev", template);
+
+    // Assert
+    expect(estimate.lineItems).toHaveLength(1);
+    expect(estimate.lineItems[0].description).toContain(
+      "Interface endpoint (sts): 3 AZs",
+    );
+    expect(estimate.lineItems[0].monthlyCost).toBeCloseTo(
+      3 * hours * PRICE_TABLE.interfaceEndpointAzHour +
+        DEFAULT_USAGE_ASSUMPTIONS.interfaceEndpointDataGb *
+          PRICE_TABLE.interfaceEndpointDataGb,
+    );
+  });
+
+  it("prices serverless instances at the cluster's minimum capacity", () => {
+    // Arrange
+    const template: CostTemplate = {
+      Resources: {
+        Cluster: {
+          Type: "AWS::RDS::DBCluster",
+          Properties: { ServerlessV2ScalingConfiguration: { MinCapacity: 2 } },
+        },
+        Writer: {
+          Type: "AWS::RDS::DBInstance",
+          Properties: {
+            DBInstanceClass: "db.serverless",
+            DBClusterIdentifier: { Ref: "Cluster" },
+          },
+        },
+      },
+    };
+
+    // Act
+    const estimate = estimateTemplateCost("prod", template);
+
+    // Assert
+    expect(estimate.lineItems[1]).toMatchObject({
+      logicalId: "Writer",
+      monthlyCost: 2 * hours * PRICE_TABLE.auroraServerlessAcuHour,
+    });
+  });
+
+  it("rejects instance classes missing from the price table", () => {
+    // Arrange
+    const template: CostTemplate = {
+      Resources: {
+        Writer: {
+          Type: "AWS::RDS::DBInstance",
+          Properties: { DBInstanceClass: "db.x2g.16xlarge" },
+        },
+      },
+    };
+
+    // Act & Assert
+    expect(() => estimateTemplateCost("prod", template)).toThrow(
+      `No price for RDS instance class db.x2g.16xlarge in price table ${PRICE_TABLE.version}`,
+    );
+  });
+
+  it("prices flow logs from the traffic type and destination retention", () => {
+    // Arrange
+    const template: CostTemplate = {
+      Resources: {
+        Bucket: {
+          Type: "AWS::S3::Bucket",
+          Properties: {
+            LifecycleConfiguration: { Rules: [{ ExpirationInDays: 90 }] },
+          },
+        },
+        FlowLog: {
+          Type: "AWS::EC2::FlowLog",
+          Properties: {
+            TrafficType: "REJECT",
+            LogDestinationType: "s3",
+            LogDestination: { "Fn::GetAtt": ["Bucket", "Arn"] },
+          },
+        },
+      },
+    };
+    const usage = {
+      ...DEFAULT_USAGE_ASSUMPTIONS,
+      flowLogGb: { ALL: 100, ACCEPT: 90, REJECT: 10 },
+    };
+
+    // Act
+    const estimate = estimateTemplateCost("prod", template, { usage });
+
+    // Assert
+    expect(estimate.lineItems[0].description).toBe(
+      "Flow logs (REJECT to S3): 10 GB/month, 90-day retention",
+    );
+    expect(estimate.lineItems[0].monthlyCost).toBeCloseTo(
+      10 * PRICE_TABLE.s3LogDeliveryGb + 30 * PRICE_TABLE.s3StorageGbMonth,
+    );
+  });
+
+  it("totals line items by CostCenter tag", () => {
+    // Arrange
+    const template: CostTemplate = {
+      Resources: {
+        Shared: {
+          Type: "AWS::EC2::EIP",
+          Properties: { Tags: costCenterTag("Platform") },
+        },
+        Team: {
+          Type: "AWS::EC2::EIP",
+          Properties: { Tags: costCenterTag("Reader") },
+        },
+        Other: { Type: "AWS::EC2::EIP" },
+        Free: { Type: "AWS::EC2::VPC" },
+      },
+    };
+    const eip = hours * PRICE_TABLE.publicIpv4Hour;
+
+    // Act
+    const estimate = estimateTemplateCost("dev", template);
+
+    // Assert
+    expect(estimate.byCostCenter).toEqual({
+      Platform: eip,
+      Reader: eip,
+      [UNTAGGED_COST_CENTER]: eip,
+    });
+    expect(estimate.total).toBeCloseTo(3 * eip);
+  });
+});
+
+describe("estimateStackCost", () => {
+  const estimateFor = (environmentName: string) =>
+    estimateStackCost(
+      new ComprehendStack(new cdk.App(), "TestStack", { environmentName }),
+    );
+
+  it("bills dev for endpoints instead of NAT gateways", () => {
+    // Arrange & Act
+    const estimate = estimateFor("dev");
+    const types = estimate.lineItems.map((item) => item.resourceType);
+
+    // Assert
+    expect(types).not.toContain("AWS::EC2::NatGateway");
+    expect(
+      types.filter((type) => type === "AWS::EC2::VPCEndpoint"),
+    ).toHaveLength(
+      DEFAULT_ENVIRONMENT_CONFIGS.dev.vpcEndpoints!.interfaceEndpoints!.length,
+    );
+    expect(Object.keys(estimate.byCostCenter)).toEqual(["Development"]);
+  });
+
+  it("bills prod for a NAT gateway and Elastic IP per AZ and a reader", () => {
+    // Arrange & Act
+    const estimate = estimateFor("prod");
+    const count = (type: string) =>
+      estimate.lineItems.filter((item) => item.resourceType === type).length;
+
+    // Assert
+    expect(count("AWS::EC2::NatGateway")).toBe(count("AWS::EC2::EIP"));
+    expect(count("AWS::EC2::NatGateway")).toBeGreaterThan(0);
+    expect(count("AWS::RDS::DBInstance")).toBe(2);
+    expect(count("AWS::EC2::FlowLog")).toBe(1);
+    expect(estimate.byCostCenter).toEqual({ Production: estimate.total });
+  });
+});
+
+describe("formatCostReport", () => {
+  it("summarizes each environment and lists its line items", () => {
+    // Arrange
+    const estimate = estimateTemplateCost("dev", {
+      Resources: {
+        Eip: {
+          Type: "AWS::EC2::EIP",
+          Properties: { Tags: costCenterTag("Development") },
+        },
+      },
+    });
+
+    // Act
+    const report = formatCostReport([estimate]);
+
+    // Assert
+    expect(report).toContain(`Prices: table ${PRICE_TABLE.version}`);
+    expect(report).toContain("| dev | 3.65 |");
+    expect(report).toContain("| Development | 3.65 |");
+    expect(report).toContain(
+      "| Eip | Elastic IP: 730 h | Development | 3.65 |",
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import {
+  ALLOW_REPLACEMENT_CONTEXT,
+  DEPLOYED_TEMPLATES_CONTEXT,
+  checkStatefulReplacements,
+  findStatefulReplacements,
+} from "../../lib/diff/replacement-guard";
+import { CloudFormationTemplate } from "../../lib/diff/template-diff";
+
+const baseTemplate = (): CloudFormationTemplate => ({
+  Resources: {
+    Vpc: {
+      Type: "AWS::EC2::VPC",
+      Properties: { CidrBlock: "10.2.0.0/16" },
+    },
+    Subnet: {
+      Type: "AWS::EC2::Subnet",
+      Properties: { CidrBlock: "10.2.0.0/24", VpcId: { Ref: "Vpc" } },
+    },
+    Handler: {
+      Type: "AWS::Lambda::Function",
+      Properties: { MemorySize: 256, Code: { S3Key: "a.zip" } },
+    },
+  },
+});
+
+describe("findStatefulReplacements", () => {
+  it("reports a replaced VPC and the subnets replaced with it", () => {
+    // Arrange
+    const next = baseTemplate();
+    (next.Resources as any).Vpc.Properties.CidrBlock = "10.3.0.0/16";
+
+    // Act
+    const changes = findStatefulReplacements(baseTemplate(), next);
+
+    // Assert
+    expect(changes.map((change) => change.logicalId)).toEqual([
+      "Subnet",
+      "Vpc",
+    ]);
+  });
+
+  it("reports a subnet whose logical ID changed", () => {
+    // Arrange
+    const next = baseTemplate();
+    const resources = next.Resources as Record<string, unknown>;
+    resources.MovedSubnet = resources.Subnet;
+    delete resources.Subnet;
+
+    // Act
+    const changes = findStatefulReplacements(baseTemplate(), next);
+
+    // Assert
+    expect(changes).toEqual([
+      expect.objectContaining({ logicalId: "Subnet", change: "removed" }),
+    ]);
+  });
+
+  it("ignores updates and stateless resources", () => {
+    // Arrange
+    const next = baseTemplate();
+    const resources = next.Resources as any;
+    resources.Vpc.DeletionPolicy = "Retain";
+    delete resources.Handler;
+
+    // Act
+    const changes = findStatefulReplacements(baseTemplate(), next);
+
+    // Assert
+    expect(changes).toHaveLength(0);
+  });
+});
+
+describe("checkStatefulReplacements", () => {
+  let deployedDir: string;
+
+  beforeEach(() => {
+    deployedDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployed-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(deployedDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Saves the stack's template with the VPC's CIDR changed, as though the
+   * deployed stack had used a different one
+   */
+  const saveDeployedWithOtherCidr = (stack: cdk.Stack) => {
+    const template = Template.fromStack(stack).toJSON();
+    const resources = template.Resources as Record<string, any>;
+    Object.values(resources)
+      .filter((resource) => resource.Type === "AWS::EC2::VPC")
+      .forEach((resource) => (resource.Properties.CidrBlock = "10.9.0.0/16"));
+    fs.writeFileSync(
+      path.join(deployedDir, `${stack.stackName}.template.json`),
+      JSON.stringify(template),
+    );
+  };
+
+  const createStack = (context: Record<string, unknown> = {}) => {
+    const app = new cdk.App({
+      context: { [DEPLOYED_TEMPLATES_CONTEXT]: deployedDir, ...context },
+    });
+    const stack = new cdk.Stack(app, "GuardedStack");
+    new ec2.Vpc(stack, "Vpc", {
+      ipAddresses: ec2.IpAddresses.cidr("10.2.0.0/16"),
+      maxAzs: 1,
+      natGateways: 0,
+    });
+    return { app, stack };
+  };
+
+  it("blocks a deploy that replaces the VPC", () => {
+    // Arrange
+    const { app, stack } = createStack();
+    saveDeployedWithOtherCidr(createStack().stack);
+
+    // Act & Assert
+    expect(() => checkStatefulReplacements(app, [stack])).toThrow(
+      /GuardedStack:\n\[-\/\+\] AWS::EC2::VPC Vpc8378EB38 \(replacement: CidrBlock\)\n\[-\/\+\] AWS::EC2::Subnet VpcIsolatedSubnet1\w+ \(replacement: VpcId\)/,
+    );
+    expect(() => checkStatefulReplacements(app, [stack])).toThrow(
+      `--context ${ALLOW_REPLACEMENT_CONTEXT}=true`,
+    );
+  });
+
+  it("warns instead when replacement is allowed", () => {
+    // Arrange
+    const { app, stack } = createStack({ [ALLOW_REPLACEMENT_CONTEXT]: "true" });
+    saveDeployedWithOtherCidr(createStack().stack);
+
+    // Act
+    checkStatefulReplacements(app, [stack]);
+
+    // Assert
+    Annotations.fromStack(stack).hasWarning(
+      "/GuardedStack",
+      Match.stringLikeRegexp(
+        "AWS::EC2::VPC Vpc8378EB38[\\s\\S]*\\[ack: comprehend:stateful-replacement\\]",
+      ),
+    );
+    expect(
+      app
+        .synth()
+        .getStackArtifact(stack.artifactId)
+        .messages.map((message) => message.entry.data),
+    ).toContainEqual(expect.stringContaining("AWS::EC2::VPC Vpc8378EB38"));
+  });
+
+  it("rejects a stack outside any stage", () => {
+    // Arrange
+    const { app, stack } = createStack();
+    saveDeployedWithOtherCidr(createStack().stack);
+    jest.spyOn(cdk.Stage, "of").mockReturnValue(undefined);
+
+    // Act & Assert
+    expect(() => checkStatefulReplacements(app, [stack])).toThrow(
+      "Stack GuardedStack is not in a cdk.App or Stage",
+    );
+  });
+
+  it("skips stacks without a deployed template", () => {
+    // Arrange
+    const { app, stack } = createStack();
+
+    // Act & Assert
+    expect(() => checkStatefulReplacements(app, [stack])).not.toThrow();
+  });
+
+  it("does nothing without the deployedTemplates context", () => {
+    // Arrange
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, "GuardedStack");
+    const synth = jest.spyOn(app, "synth");
+
+    // Act
+    checkStatefulReplacements(app, [stack]);
+
+    // Assert
+    expect(synth).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  ASSET_HASH_PLACEHOLDER,
+  CloudFormationTemplate,
+  diffTemplates,
+  formatTemplateDiff,
+  hasChanges,
+  normalizeAssetHashes,
+} from "../../lib/diff/template-diff";
+
+const baseTemplate = (): CloudFormationTemplate => ({
+  Resources: {
+    Vpc: {
+      Type: "AWS::EC2::VPC",
+      Properties: { CidrBlock: "10.2.0.0/16" },
+    },
+    Subnet: {
+      Type: "AWS::EC2::Subnet",
+      Properties: { CidrBlock: "10.2.0.0/24", VpcId: { Ref: "Vpc" } },
+    },
+    Handler: {
+      Type: "AWS::Lambda::Function",
+      Properties: { MemorySize: 256, Code: { S3Key: "a.zip" } },
+    },
+  },
+  Outputs: {
+    VpcId: { Value: { Ref: "Vpc" } },
+  },
+});
+
+describe("diffTemplates", () => {
+  it("reports nothing for identical templates", () => {
+    // Arrange & Act
+    const changes = diffTemplates(baseTemplate(), baseTemplate());
+
+    // Assert
+    expect(hasChanges(changes)).toBe(false);
+    expect(formatTemplateDiff(changes)).toBe("");
+  });
+
+  it("reports replacements and the resources they cascade to", () => {
+    // Arrange
+    const next = baseTemplate();
+    (next.Resources as any).Vpc.Properties.CidrBlock = "10.3.0.0/16";
+
+    // Act
+    const changes = diffTemplates(baseTemplate(), next);
+
+    // Assert
+    expect(changes.resources).toEqual([
+      expect.objectContaining({
+        logicalId: "Subnet",
+        change: "replaced",
+        replacingProperties: ["VpcId"],
+      }),
+      expect.objectContaining({
+        logicalId: "Vpc",
+        change: "replaced",
+        replacingProperties: ["CidrBlock"],
+        conditional: false,
+      }),
+    ]);
+  });
+
+  it("reports in-place updates with the changed properties", () => {
+    // Arrange
+    const next = baseTemplate();
+    (next.Resources as any).Handler.Properties.MemorySize = 512;
+    (next.Resources as any).Handler.DeletionPolicy = "Retain";
+
+    // Act
+    const changes = diffTemplates(baseTemplate(), next);
+
+    // Assert
+    expect(changes.resources).toEqual([
+      expect.objectContaining({
+        logicalId: "Handler",
+        change: "updated",
+        properties: ["MemorySize", "DeletionPolicy"],
+        replacingProperties: [],
+      }),
+    ]);
+  });
+
+  it("reports a renamed logical ID as a removal and an addition", () => {
+    // Arrange
+    const next = baseTemplate();
+    const resources = next.Resources as Record<string, unknown>;
+    resources.RenamedVpc = resources.Vpc;
+    delete resources.Vpc;
+
+    // Act
+    const changes = diffTemplates(baseTemplate(), next);
+
+    // Assert
+    expect(
+      changes.resources
+        .filter((resource) => resource.resourceType === "AWS::EC2::VPC")
+        .map((resource) => [resource.logicalId, resource.change]),
+    ).toEqual([
+      ["RenamedVpc", "added"],
+      ["Vpc", "removed"],
+    ]);
+  });
+
+  it("reports changed entries of other sections", () => {
+    // Arrange
+    const next = baseTemplate();
+    next.Outputs = { SubnetId: { Value: { Ref: "Subnet" } } };
+
+    // Act
+    const changes = diffTemplates(baseTemplate(), next);
+
+    // Assert
+    expect(changes.resources).toHaveLength(0);
+    expect(changes.other).toEqual(["Outputs.SubnetId", "Outputs.VpcId"]);
+  });
+});
+
+describe("formatTemplateDiff", () => {
+  it("prints one line per change", () => {
+    // Arrange
+    const next = baseTemplate();
+    const resources = next.Resources as any;
+    resources.Vpc.Properties.CidrBlock = "10.3.0.0/16";
+    resources.Handler.Properties.MemorySize = 512;
+    resources.Queue = { Type: "AWS::SQS::Queue" };
+    delete next.Outputs;
+
+    // Act
+    const report = formatTemplateDiff(diffTemplates(baseTemplate(), next));
+
+    // Assert
+    expect(report.split("\n")).toEqual([
+      "[~] AWS::Lambda::Function Handler (MemorySize)",
+      "[+] AWS::SQS::Queue Queue",
+      "[-/+] AWS::EC2::Subnet Subnet (replacement: VpcId)",
+      "[-/+] AWS::EC2::VPC Vpc (replacement: CidrBlock)",
+      "[~] Outputs.VpcId",
+    ]);
+  });
+});
+
+describe("normalizeAssetHashes", () => {
+  const hash = "a".repeat(64);
+
+  it("replaces the hashes in asset keys", () => {
+    // Arrange
+    const template = {
+      Resources: {
+        Handler: {
+          Properties: {
+            Code: { S3Key: `${hash}.zip` },
+            Description: "unchanged 1234abcd",
+          },
+          Metadata: { "aws:asset:path": `asset.${hash}` },
+        },
+      },
+    };
+
+    // Act
+    const normalized = normalizeAssetHashes(template);
+
+    // Assert
+    expect(normalized.Resources.Handler).toEqual({
+      Properties: {
+        Code: { S3Key: `${ASSET_HASH_PLACEHOLDER}.zip` },
+        Description: "unchanged 1234abcd",
+      },
+      Metadata: { "aws:asset:path": `asset.${ASSET_HASH_PLACEHOLDER}` },
+    });
+    expect(template.Resources.Handler.Properties.Code.S3Key).toBe(
+      `${hash}.zip`,
+    );
+  });
+
+  it("replaces the hashes in asset parameters and references to them", () => {
+    // Arrange
+    const parameter = `AssetParameters${hash}S3Bucket`;
+    const template = {
+      Parameters: { [parameter]: { Type: "String" } },
+      Resources: {
+        Handler: { Properties: { Code: { S3Bucket: { Ref: parameter } } } },
+      },
+    };
+
+    // Act
+    const normalized = normalizeAssetHashes(template);
+
+    // Assert
+    const placeholder = `AssetParameters${ASSET_HASH_PLACEHOLDER}S3Bucket`;
+    expect(normalized).toEqual({
+      Parameters: { [placeholder]: { Type: "String" } },
+      Resources: {
+        Handler: { Properties: { Code: { S3Bucket: { Ref: placeholder } } } },
+      },
+    });
+  });
+
+  it("keeps other hashes, such as the migrations checksum", () => {
+    // Arrange
+    const template = {
+      Resources: {
+        Migration: {
+          Type: "Custom::ComprehendSchema",
+          Properties: { MigrationsChecksum: hash },
+        },
+      },
+    };
+
+    // Act
+    const normalized = normalizeAssetHashes(template);
+
+    // Assert
+    expect(normalized).toEqual(template);
+  });
+});
@@ -0,0 +1,179 @@
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import {
+  addExport,
+  registeredExports,
+  retireExport,
+} from "../../lib/exports/export-registry";
+import { ComprehendStack } from "../../lib/stacks/comprehend-stack";
+
+describe("export registry", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+  });
+
+  const exportVpcId = (scope: cdk.Stack) =>
+    addExport(scope, "VpcId", {
+      environmentName: "dev",
+      name: "VpcId",
+      value: "vpc-123",
+      description: "VPC ID",
+    });
+
+  describe("addExport", () => {
+    it("exports under {environment}-{Name}", () => {
+      // Arrange & Act
+      exportVpcId(stack);
+
+      // Assert
+      Template.fromStack(stack).hasOutput("VpcId", {
+        Value: "vpc-123",
+        Export: { Name: "dev-VpcId" },
+      });
+      expect(registeredExports(stack)).toEqual([
+        { exportName: "dev-VpcId", path: "TestStack/VpcId", retired: false },
+      ]);
+    });
+
+    it("rejects names that are not PascalCase", () => {
+      expect(() =>
+        addExport(stack, "VpcId", {
+          environmentName: "dev",
+          name: "vpc-id",
+          value: "vpc-123",
+          description: "VPC ID",
+        }),
+      ).toThrow("Invalid export name suffix: vpc-id");
+    });
+
+    it("rejects an export name used twice in the same account and region", () => {
+      // Arrange
+      const otherStack = new cdk.Stack(app, "OtherStack");
+      exportVpcId(stack);
+
+      // Act & Assert
+      expect(() => exportVpcId(otherStack)).toThrow(
+        "Export name dev-VpcId is already exported by TestStack/VpcId; cannot export it again from OtherStack/VpcId",
+      );
+    });
+
+    it("allows the same export name in another region", () => {
+      // Arrange
+      const east = new cdk.Stack(app, "EastStack", {
+        env: { account: "111111111111", region: "us-east-1" },
+      });
+      const west = new cdk.Stack(app, "WestStack", {
+        env: { account: "111111111111", region: "us-west-2" },
+      });
+
+      // Act & Assert
+      exportVpcId(east);
+      expect(() => exportVpcId(west)).not.toThrow();
+    });
+
+    it("rejects an export name used by an environment-agnostic stack and a stack with an account", () => {
+      // Arrange
+      const agnostic = new cdk.Stack(app, "AgnosticStack");
+      const pinned = new cdk.Stack(app, "PinnedStack", {
+        env: { account: "111111111111", region: "us-east-1" },
+      });
+      exportVpcId(agnostic);
+
+      // Act & Assert
+      expect(() => exportVpcId(pinned)).toThrow(
+        "Export name dev-VpcId is already exported by AgnosticStack/VpcId; cannot export it again from PinnedStack/VpcId",
+      );
+    });
+
+    it("rejects an export name used in the same account by a stack with only a region", () => {
+      // Arrange
+      const pinned = new cdk.Stack(app, "PinnedStack", {
+        env: { account: "111111111111", region: "us-east-1" },
+      });
+      const regional = new cdk.Stack(app, "RegionalStack", {
+        env: { region: "us-east-1" },
+      });
+      exportVpcId(pinned);
+
+      // Act & Assert
+      expect(() => exportVpcId(regional)).toThrow(
+        "Export name dev-VpcId is already exported by PinnedStack/VpcId",
+      );
+    });
+  });
+
+  describe("retireExport", () => {
+    it("keeps the legacy export with a deprecation notice and warning", () => {
+      // Arrange & Act
+      retireExport(stack, "VpcIdOutput", {
+        exportName: "dev-VpcId-Construct",
+        value: "vpc-123",
+        replacement: "dev-VpcId",
+      });
+
+      // Assert
+      Template.fromStack(stack).hasOutput("VpcIdOutput", {
+        Export: { Name: "dev-VpcId-Construct" },
+        Description: "Deprecated: import dev-VpcId instead",
+      });
+      Annotations.fromStack(stack).hasWarning(
+        "*",
+        Match.stringLikeRegexp("Export dev-VpcId-Construct is retired"),
+      );
+      expect(registeredExports(stack)[0].retired).toBe(true);
+    });
+
+    it("rejects a retired name that is still exported", () => {
+      // Arrange
+      exportVpcId(stack);
+
+      // Act & Assert
+      expect(() =>
+        retireExport(stack, "LegacyVpcId", {
+          exportName: "dev-VpcId",
+          value: "vpc-123",
+          replacement: "dev-VpcId",
+        }),
+      ).toThrow("Export name dev-VpcId is already exported");
+    });
+  });
+
+  describe("ComprehendStack", () => {
+    it("registers every export once under the naming scheme", () => {
+      // Arrange & Act
+      const comprehendStack = new ComprehendStack(app, "ComprehendStack", {
+        environmentName: "staging",
+      });
+      const outputs = Template.fromStack(comprehendStack).findOutputs("*");
+      const exportNames = Object.values(outputs)
+        .map((output) => output.Export?.Name)
+        .filter((name) => name !== undefined);
+
+      // Assert
+      const registered = registeredExports(comprehendStack);
+      expect(registered.map((entry) => entry.exportName).sort()).toEqual(
+        [...exportNames].sort(),
+      );
+      registered
+        .filter((entry) => !entry.retired)
+        .forEach((entry) =>
+          expect(entry.exportName).toMatch(/^staging-[A-Z][A-Za-z0-9]*$/),
+        );
+    });
+
+    it("rejects a second stack exporting the same environment", () => {
+      // Arrange
+      new ComprehendStack(app, "FirstStack", { environmentName: "dev" });
+
+      // Act & Assert
+      expect(
+        () =>
+          new ComprehendStack(app, "SecondStack", { environmentName: "dev" }),
+      ).toThrow("Export name dev-VpcId-Construct is already exported");
+    });
+  });
+});
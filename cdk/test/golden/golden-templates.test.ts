@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+import {
+  CloudFormationTemplate,
+  ResourceChange,
+  TemplateChanges,
+  diffTemplates,
+  formatTemplateDiff,
+  normalizeAssetHashes,
+} from "../../lib/diff/template-diff";
+import {
+  ComprehendStack,
+  comprehendStackName,
+} from "../../lib/stacks/comprehend-stack";
+import {
+  AlarmSubscription,
+  DEFAULT_ENVIRONMENT_CONFIGS,
+  ENVIRONMENT_TIERS,
+  EnvironmentTier,
+} from "../../lib/types";
+
+/**
+ * Golden template harness
+ *
+ * Synthesizes ComprehendStack for every tier, for a fixed account, region
+ * and AZs, and compares it with the template committed under
+ * test/golden/templates, asset hashes aside. After
+ * an intended change, regenerate the templates and commit them with it:
+ *
+ *   npm run test:golden:update
+ *
+ * Removing or replacing a protected resource fails even when updating.
+ * Accept one deliberately by listing its logical ID:
+ *
+ *   ACCEPT_REPLACEMENTS=VpcConstructVpc3805DAA4 npm run test:golden:update
+ */
+
+const TEMPLATES_DIR = path.join(__dirname, "templates");
+const UPDATE = process.env.UPDATE_GOLDEN_TEMPLATES === "1";
+const ACCEPTED_REPLACEMENTS = (process.env.ACCEPT_REPLACEMENTS ?? "")
+  .split(",")
+  .filter(Boolean);
+
+/**
+ * Account, region and AZs every golden template is synthesized for, so the
+ * templates are environment-aware like a deployed stack and do not depend
+ * on the credentials of whoever runs the tests
+ */
+const GOLDEN_ACCOUNT = "123456789012";
+const GOLDEN_REGION = "us-east-1";
+const GOLDEN_AVAILABILITY_ZONES = ["us-east-1a", "us-east-1b", "us-east-1c"];
+
+/**
+ * Alarm recipient of every golden environment; prod requires one once it
+ * has an account
+ */
+const GOLDEN_ALARM_SUBSCRIPTIONS: AlarmSubscription[] = [
+  { protocol: "email", endpoint: "oncall@example.com" },
+];
+
+/**
+ * Resource types that must not be removed or replaced, per environment
+ * Replacing the prod VPC replaces every subnet, NAT gateway and database
+ * in it; a subnet, NAT gateway or database cluster can also be replaced on
+ * its own
+ */
+const PROTECTED_RESOURCE_TYPES: Partial<Record<EnvironmentTier, string[]>> = {
+  prod: [
+    "AWS::EC2::VPC",
+    "AWS::EC2::Subnet",
+    "AWS::EC2::NatGateway",
+    "AWS::RDS::DBCluster",
+  ],
+};
+
+describe.each(ENVIRONMENT_TIERS)("%s golden template", (environmentName) => {
+  const goldenPath = path.join(
+    TEMPLATES_DIR,
+    `${environmentName}.template.json`,
+  );
+  let synthesized: CloudFormationTemplate;
+  let golden: CloudFormationTemplate | undefined;
+  let changes: TemplateChanges | undefined;
+
+  beforeAll(() => {
+    const config = DEFAULT_ENVIRONMENT_CONFIGS[environmentName];
+    const stack = new ComprehendStack(
+      new cdk.App(),
+      comprehendStackName(environmentName),
+      {
+        environmentConfig: {
+          ...config,
+          accountId: GOLDEN_ACCOUNT,
+          region: GOLDEN_REGION,
+          availabilityZones: GOLDEN_AVAILABILITY_ZONES.slice(0, config.maxAzs),
+          monitoring: {
+            ...config.monitoring,
+            subscriptions: GOLDEN_ALARM_SUBSCRIPTIONS,
+          },
+        },
+      },
+    );
+    synthesized = normalizeAssetHashes(Template.fromStack(stack).toJSON());
+    golden = fs.existsSync(goldenPath)
+      ? JSON.parse(fs.readFileSync(goldenPath, "utf-8"))
+      : undefined;
+    changes = golden ? diffTemplates(golden, synthesized) : undefined;
+  });
+
+  const protectedChanges = (): ResourceChange[] =>
+    (changes?.resources ?? []).filter(
+      (resource) =>
+        PROTECTED_RESOURCE_TYPES[environmentName]?.includes(
+          resource.resourceType,
+        ) &&
+        (resource.change === "removed" || resource.change === "replaced") &&
+        !ACCEPTED_REPLACEMENTS.includes(resource.logicalId),
+    );
+
+  it("does not remove or replace protected resources", () => {
+    const violations = protectedChanges();
+    if (violations.length > 0) {
+      throw new Error(
+        `${environmentName} would remove or replace protected resources:\n` +
+          formatTemplateDiff({ resources: violations, other: [] }) +
+          "\n\nIf this is intended, set ACCEPT_REPLACEMENTS to their logical IDs.",
+      );
+    }
+  });
+
+  it("matches the committed template", () => {
+    const current = JSON.stringify(synthesized, null, 2) + "\n";
+
+    if (UPDATE) {
+      if (protectedChanges().length === 0) {
+        fs.mkdirSync(TEMPLATES_DIR, { recursive: true });
+        fs.writeFileSync(goldenPath, current);
+      }
+      return;
+    }
+
+    if (!golden) {
+      throw new Error(
+        `No golden template at ${goldenPath}; run npm run test:golden:update`,
+      );
+    }
+    if (JSON.stringify(golden, null, 2) + "\n" !== current) {
+      throw new Error(
+        `${environmentName} template differs from ${path.basename(goldenPath)}:\n` +
+          (formatTemplateDiff(changes!) || "[~] template attributes") +
+          "\n\nIf the change is intended, run npm run test:golden:update and commit the result.",
+      );
+    }
+  });
+});
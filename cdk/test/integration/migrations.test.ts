@@ -0,0 +1,98 @@
+// ==========================================
+// Test Configuration Constants
+// ==========================================
+
+// Runs only against a local Postgres, e.g.:
+//   docker run --rm -p 5432:5432 -e POSTGRES_PASSWORD=postgres postgres:16
+//   TEST_DATABASE_HOST=localhost npm test -- test/integration/migrations
+const TEST_DATABASE_HOST = process.env.TEST_DATABASE_HOST;
+const TEST_DATABASE_PORT = parseInt(
+  process.env.TEST_DATABASE_PORT || "5432",
+  10,
+);
+const TEST_DATABASE_USER = process.env.TEST_DATABASE_USER || "postgres";
+const TEST_DATABASE_PASSWORD = process.env.TEST_DATABASE_PASSWORD || "postgres";
+const TEST_DATABASE_NAME = process.env.TEST_DATABASE_NAME || "postgres";
+
+// ==========================================
+// Tests
+// ==========================================
+
+import { Client } from "pg";
+import { MigrationAgent } from "../../lib/lambda/migrations/migration-agent";
+import { MigrationProvider } from "../../lib/lambda/migrations/migration-provider";
+import { MIGRATIONS } from "../../lib/lambda/migrations/migrations";
+
+const describeWithDatabase = TEST_DATABASE_HOST ? describe : describe.skip;
+
+describeWithDatabase("Schema migrations against Postgres", () => {
+  let client: Client;
+  const schema = `migration_test_${Date.now()}`;
+
+  beforeAll(async () => {
+    client = new Client({
+      host: TEST_DATABASE_HOST,
+      port: TEST_DATABASE_PORT,
+      user: TEST_DATABASE_USER,
+      password: TEST_DATABASE_PASSWORD,
+      database: TEST_DATABASE_NAME,
+    });
+    await client.connect();
+
+    // Isolate each run in its own schema
+    await client.query(`CREATE SCHEMA ${schema}`);
+    await client.query(`SET search_path TO ${schema}`);
+  });
+
+  afterAll(async () => {
+    await client.query(`DROP SCHEMA ${schema} CASCADE`);
+    await client.end();
+  });
+
+  it("creates the schema on an empty database", async () => {
+    const agent = new MigrationAgent(new MigrationProvider(client), MIGRATIONS);
+
+    const result = await agent.execute();
+
+    expect(result.applied).toEqual(MIGRATIONS.map((m) => m.version));
+    const tables = await client.query(
+      "SELECT table_name FROM information_schema.tables WHERE table_schema = $1",
+      [schema],
+    );
+    expect(tables.rows.map((r) => r.table_name).sort()).toEqual(
+      [
+        "chat_message",
+        "exercise",
+        "join_vocab_token",
+        "schema_migrations",
+        "token",
+        "user",
+        "vocab",
+      ].sort(),
+    );
+  });
+
+  it("is a no-op on the second run", async () => {
+    const agent = new MigrationAgent(new MigrationProvider(client), MIGRATIONS);
+
+    const result = await agent.execute();
+
+    expect(result.applied).toEqual([]);
+  });
+
+  it("applies only a newly added migration", async () => {
+    const next = {
+      version: MIGRATIONS.length + 1,
+      name: "add-test-column",
+      sql: "ALTER TABLE exercise ADD COLUMN test_column TEXT",
+    };
+    const agent = new MigrationAgent(new MigrationProvider(client), [
+      ...MIGRATIONS,
+      next,
+    ]);
+
+    const result = await agent.execute();
+
+    expect(result.applied).toEqual([next.version]);
+  });
+});
@@ -0,0 +1,76 @@
+import { ConverseCommand } from "@aws-sdk/client-bedrock-runtime";
+import { BedrockModelProvider } from "../../../lib/lambda/agent/bedrock-model-provider";
+import { ModelProviderError } from "../../../lib/lambda/agent/errors";
+
+describe("BedrockModelProvider", () => {
+  const request = {
+    system: "You are a reading assistant.",
+    messages: [{ role: "user" as const, content: "What does 猫 mean?" }],
+    maxTokens: 4096,
+  };
+
+  let send: jest.Mock;
+  let provider: BedrockModelProvider;
+
+  beforeEach(() => {
+    provider = new BedrockModelProvider({
+      modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+      region: "us-east-1",
+      maxTokens: 1024,
+      clientConfig: {},
+    });
+    send = jest.fn();
+    (provider as any).bedrockClient = { send };
+  });
+
+  it("sends the system prompt and conversation through Converse", async () => {
+    send.mockResolvedValue({
+      output: {
+        message: {
+          content: [
+            { text: '{"type":"message",' },
+            { text: '"message":"cat"}' },
+          ],
+        },
+      },
+    });
+
+    const reply = await provider.complete(request);
+
+    expect(reply).toBe('{"type":"message","message":"cat"}');
+    const command = send.mock.calls[0][0] as ConverseCommand;
+    expect(command.input).toMatchObject({
+      modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+      system: [{ text: "You are a reading assistant." }],
+      messages: [{ role: "user", content: [{ text: "What does 猫 mean?" }] }],
+    });
+  });
+
+  it("caps generated tokens at the configured maximum", async () => {
+    send.mockResolvedValue({
+      output: { message: { content: [{ text: "{}" }] } },
+    });
+
+    await provider.complete(request);
+
+    const command = send.mock.calls[0][0] as ConverseCommand;
+    expect(command.input.inferenceConfig?.maxTokens).toBe(1024);
+  });
+
+  it("wraps client failures in ModelProviderError", async () => {
+    send.mockRejectedValue(new Error("ThrottlingException"));
+
+    await expect(provider.complete(request)).rejects.toThrow(
+      ModelProviderError,
+    );
+  });
+
+  it("rejects empty replies", async () => {
+    send.mockResolvedValue({
+      output: { message: { content: [] } },
+      stopReason: "max_tokens",
+    });
+
+    await expect(provider.complete(request)).rejects.toThrow(/max_tokens/);
+  });
+});
@@ -0,0 +1,117 @@
+// ==========================================
+// Test Configuration Constants
+// ==========================================
+
+process.env.AWS_REGION = "us-east-1";
+process.env.DB_SECRET_ARN =
+  "arn:aws:secretsmanager:us-east-1:123456789012:secret:test-secret";
+process.env.MODEL_PROVIDER = "fake";
+
+// ==========================================
+// Tests
+// ==========================================
+
+import { Context } from "aws-lambda";
+import {
+  AgentResponseError,
+  ModelProviderError,
+} from "../../../lib/lambda/agent/errors";
+import { handler } from "../../../lib/lambda/agent/handler";
+import { ReaderAgent } from "../../../lib/lambda/agent/reader-agent";
+import { ReaderAgentResult } from "../../../lib/lambda/agent/types";
+import { createApiEvent, TEST_USER_ID } from "../../utils/api-event";
+
+describe("agent handler", () => {
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const context = {} as Context;
+  const messagesEvent = (body: unknown, id = exerciseId) =>
+    createApiEvent({
+      httpMethod: "POST",
+      resource: "/exercises/{exerciseId}/messages",
+      pathParameters: { exerciseId: id },
+      body: JSON.stringify(body),
+    });
+  const result: ReaderAgentResult = {
+    userMessage: {
+      chatMessageId: "user-message",
+      role: "user",
+      content: "What does 猫 mean?",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    },
+    assistantMessage: {
+      chatMessageId: "assistant-message",
+      role: "assistant",
+      content: "Cat.",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    },
+    response: { type: "message", message: "Cat." },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("runs a turn and returns 201", async () => {
+    const execute = jest
+      .spyOn(ReaderAgent.prototype, "execute")
+      .mockResolvedValue(result);
+
+    const response = await handler(
+      messagesEvent({ content: "What does 猫 mean?" }),
+      context,
+    );
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body)).toEqual(result);
+    expect(execute).toHaveBeenCalledWith({
+      userId: TEST_USER_ID,
+      exerciseId,
+      message: "What does 猫 mean?",
+    });
+  });
+
+  it("validates the message before calling the agent", async () => {
+    const execute = jest.spyOn(ReaderAgent.prototype, "execute");
+
+    const response = await handler(messagesEvent({ content: "" }), context);
+
+    expect(response.statusCode).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed exercise IDs", async () => {
+    const response = await handler(
+      messagesEvent({ content: "hi" }, "not-a-uuid"),
+      context,
+    );
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it("reports model failures as 502 AGENT_UNAVAILABLE", async () => {
+    jest
+      .spyOn(ReaderAgent.prototype, "execute")
+      .mockRejectedValue(new ModelProviderError("throttled"));
+
+    const response = await handler(messagesEvent({ content: "hi" }), context);
+
+    expect(response.statusCode).toBe(502);
+    expect(JSON.parse(response.body).code).toBe("AGENT_UNAVAILABLE");
+  });
+
+  it("reports invalid model replies as 502 AGENT_INVALID_RESPONSE", async () => {
+    jest
+      .spyOn(ReaderAgent.prototype, "execute")
+      .mockRejectedValue(new AgentResponseError("not json"));
+
+    const response = await handler(messagesEvent({ content: "hi" }), context);
+
+    expect(response.statusCode).toBe(502);
+    expect(JSON.parse(response.body).code).toBe("AGENT_INVALID_RESPONSE");
+  });
+});
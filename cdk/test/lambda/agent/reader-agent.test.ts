@@ -0,0 +1,248 @@
+import { AgentResponseError } from "../../../lib/lambda/agent/errors";
+import { FakeModelProvider } from "../../../lib/lambda/agent/fake-model-provider";
+import {
+  HISTORY_LIMIT,
+  ReaderAgent,
+} from "../../../lib/lambda/agent/reader-agent";
+import { NotFoundError } from "../../../lib/lambda/api/shared/errors";
+import { MockDatabase } from "../../utils/mock-sql-client";
+
+describe("ReaderAgent", () => {
+  const userId = "6f1c2b9e-3a4d-4e5f-8a7b-9c0d1e2f3a4b";
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const newExerciseId = "3e0a9d4b-5f6a-4b7c-8d9e-2f3a4b5c6d7e";
+  const vocabId = "1c8e7b2f-3d4e-4f5a-8b9c-0d1e2f3a4b5c";
+  const exerciseRow = {
+    exercise_id: exerciseId,
+    title: "猫",
+    content: "猫が好きです。",
+    language: "ja",
+    created_at: new Date(),
+    updated_at: new Date(),
+    last_accessed_at: new Date(),
+    is_archived: false,
+  };
+  // 猫 | が | 好き | です | 。
+  const tokenRows = [
+    [0, 1],
+    [1, 2],
+    [2, 4],
+    [4, 6],
+    [6, 7],
+  ].map(([start, end], order) => ({
+    token_id: `token-${order}`,
+    start_index: start,
+    end_index: end,
+    order,
+  }));
+  const messageRow = (role: string, content: string) => ({
+    chat_message_id: `${role}-message`,
+    role,
+    content,
+    created_at: new Date(),
+  });
+  const input = { userId, exerciseId, message: "What does 好き mean?" };
+
+  let database: MockDatabase;
+  let model: FakeModelProvider;
+  let agent: ReaderAgent;
+
+  beforeEach(() => {
+    database = new MockDatabase()
+      .withResponse(/FROM exercise/, [exerciseRow])
+      .withResponse(/FROM token/, tokenRows)
+      .withResponse(/INSERT INTO chat_message/, [
+        messageRow("assistant", "reply"),
+      ]);
+    model = new FakeModelProvider();
+    agent = new ReaderAgent(database, model);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Values passed to every INSERT INTO chat_message
+   */
+  const storedMessages = (): unknown[][] =>
+    database
+      .getCapturedQueries()
+      .filter((q) => /INSERT INTO chat_message/.test(q.text))
+      .map((q) => q.values!.slice(1));
+
+  describe("context", () => {
+    it("rejects exercises the user does not own", async () => {
+      database.withResponse(/FROM exercise/, []);
+
+      await expect(agent.execute(input)).rejects.toThrow(NotFoundError);
+      expect(model.getRequests()).toHaveLength(0);
+    });
+
+    it("sends the exercise and its tokens in the system prompt", async () => {
+      await agent.execute(input);
+
+      const [request] = model.getRequests();
+      expect(request.system).toContain("猫が好きです。");
+      expect(request.system).toContain('2-4: "好き"');
+    });
+
+    it("replays history as JSON and starts the conversation with a user turn", async () => {
+      database.withResponse(/FROM chat_message/, [
+        messageRow("assistant", "Welcome!"),
+        messageRow("user", "Hello"),
+        messageRow("assistant", "Hi there"),
+      ]);
+
+      await agent.execute(input);
+
+      const [request] = model.getRequests();
+      expect(request.messages).toEqual([
+        { role: "user", content: "Hello" },
+        {
+          role: "assistant",
+          content: JSON.stringify({ type: "message", message: "Hi there" }),
+        },
+        { role: "user", content: "What does 好き mean?" },
+      ]);
+    });
+
+    it("limits the history sent to the model", async () => {
+      const history = Array.from({ length: HISTORY_LIMIT + 10 }, (_, i) =>
+        messageRow(i % 2 === 0 ? "user" : "assistant", `turn ${i}`),
+      );
+      database.withResponse(/FROM chat_message/, history);
+
+      await agent.execute(input);
+
+      const [request] = model.getRequests();
+      expect(request.messages.length).toBeLessThanOrEqual(HISTORY_LIMIT + 1);
+      expect(request.messages[0].content).toBe("turn 10");
+    });
+  });
+
+  describe("message replies", () => {
+    it("stores the user and assistant messages in one transaction", async () => {
+      model.withResponse({ type: "message", message: "好き means to like." });
+
+      const result = await agent.execute(input);
+
+      expect(result.response.type).toBe("message");
+      expect(storedMessages()).toEqual([
+        ["user", "What does 好き mean?"],
+        ["assistant", "好き means to like."],
+      ]);
+      const sql = database.getCapturedSql();
+      expect(sql.indexOf("BEGIN")).toBeLessThan(
+        sql.findIndex((text) => /INSERT INTO chat_message/.test(text)),
+      );
+      expect(sql).toContain("COMMIT");
+    });
+
+    it("retries once with the validation error", async () => {
+      model
+        .withReply("I think it means to like.")
+        .withResponse({ type: "message", message: "It means to like." });
+
+      const result = await agent.execute(input);
+
+      expect(result.response.message).toBe("It means to like.");
+      const [, retry] = model.getRequests();
+      const lastTurn = retry.messages[retry.messages.length - 1];
+      expect(lastTurn.role).toBe("user");
+      expect(lastTurn.content).toContain("does not contain a JSON object");
+    });
+
+    it("stores nothing when every attempt is invalid", async () => {
+      model.withReply("not json").withReply("still not json");
+
+      await expect(agent.execute(input)).rejects.toThrow(AgentResponseError);
+      expect(storedMessages()).toHaveLength(0);
+    });
+  });
+
+  describe("message_content replies", () => {
+    it("creates an exercise with the generated tokens", async () => {
+      database.withResponse(/INSERT INTO exercise/, [
+        { ...exerciseRow, exercise_id: newExerciseId, title: "犬" },
+      ]);
+      model.withResponse({
+        type: "message_content",
+        message: "Here is a story about a dog.",
+        content: {
+          title: "犬",
+          tokens: [
+            { text: "犬", startIndex: 0, endIndex: 1 },
+            { text: "が", startIndex: 1, endIndex: 2 },
+            { text: "走る", startIndex: 2, endIndex: 4 },
+          ],
+        },
+      });
+
+      const result = await agent.execute(input);
+
+      expect(result.createdExerciseId).toBe(newExerciseId);
+      const queries = database.getCapturedQueries();
+      const exerciseInsert = queries.find((q) =>
+        /INSERT INTO exercise/.test(q.text),
+      );
+      expect(exerciseInsert?.values).toEqual([userId, "犬", "犬が走る", "ja"]);
+      const tokenInsert = queries.find((q) => /INSERT INTO token/.test(q.text));
+      expect(tokenInsert?.values).toEqual([
+        newExerciseId,
+        [0, 1, 2],
+        [1, 2, 4],
+        [0, 1, 2],
+      ]);
+    });
+  });
+
+  describe("message_vocab replies", () => {
+    it("stores the vocab and links the tokens inside its spans", async () => {
+      database
+        .withResponse(/INSERT INTO vocab/, [{ vocab_id: vocabId }])
+        .withResponse(/FROM vocab v/, [
+          {
+            vocab_id: vocabId,
+            vocab: "好き",
+            reading: "すき",
+            equivalent: "to like",
+            excerpt_start_index: 2,
+            excerpt_end_index: 4,
+            token_ids: ["token-2"],
+          },
+        ]);
+      model.withResponse({
+        type: "message_vocab",
+        message: "好き means to like.",
+        vocab: {
+          vocab: "好き",
+          reading: "すき",
+          equivalent: "to like",
+          tokens: [{ startIndex: 2, endIndex: 4 }],
+        },
+      });
+
+      const result = await agent.execute(input);
+
+      expect(result.vocab?.vocabId).toBe(vocabId);
+      const queries = database.getCapturedQueries();
+      const vocabInsert = queries.find((q) => /INSERT INTO vocab/.test(q.text));
+      expect(vocabInsert?.values).toEqual([
+        exerciseId,
+        "好き",
+        "すき",
+        "to like",
+        2,
+        4,
+      ]);
+      const link = queries.find((q) =>
+        /INSERT INTO join_vocab_token/.test(q.text),
+      );
+      expect(link?.values).toContain(vocabId);
+      expect(JSON.stringify(link?.values)).toContain("token-2");
+      expect(JSON.stringify(link?.values)).not.toContain("token-1");
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { AgentResponseError } from "../../../lib/lambda/agent/errors";
+import {
+  extractJson,
+  parseAgentResponse,
+} from "../../../lib/lambda/agent/response-parser";
+
+describe("response parser", () => {
+  describe("extractJson", () => {
+    it("parses a bare JSON object", () => {
+      expect(extractJson('{"type":"message"}')).toEqual({ type: "message" });
+    });
+
+    it("unwraps a fenced code block with surrounding prose", () => {
+      const raw = 'Here you go:\n```json\n{"type":"message"}\n```\nEnjoy!';
+
+      expect(extractJson(raw)).toEqual({ type: "message" });
+    });
+
+    it("rejects replies without a JSON object", () => {
+      expect(() => extractJson("Sure, happy to help.")).toThrow(
+        AgentResponseError,
+      );
+    });
+
+    it("rejects malformed JSON", () => {
+      expect(() => extractJson('{"type": message}')).toThrow(/not valid JSON/);
+    });
+  });
+
+  describe("parseAgentResponse", () => {
+    const contentLength = 7;
+
+    it("accepts a plain message", () => {
+      const response = parseAgentResponse(
+        JSON.stringify({ type: "message", message: "猫 means cat." }),
+        contentLength,
+      );
+
+      expect(response).toEqual({ type: "message", message: "猫 means cat." });
+    });
+
+    it("rejects unknown response types", () => {
+      expect(() =>
+        parseAgentResponse(
+          JSON.stringify({ type: "essay", message: "..." }),
+          contentLength,
+        ),
+      ).toThrow(/type must be one of/);
+    });
+
+    it("requires a non-empty message", () => {
+      expect(() =>
+        parseAgentResponse(
+          JSON.stringify({ type: "message", message: " " }),
+          contentLength,
+        ),
+      ).toThrow(/message must be a non-empty string/);
+    });
+
+    it("rejects payloads that do not match the response type", () => {
+      expect(() =>
+        parseAgentResponse(
+          JSON.stringify({
+            type: "message",
+            message: "hi",
+            vocab: { vocab: "猫", equivalent: "cat", tokens: [] },
+          }),
+          contentLength,
+        ),
+      ).toThrow(/vocab is only allowed with message_vocab/);
+    });
+
+    describe("message_content", () => {
+      const content = {
+        title: "犬",
+        tokens: [
+          { text: "犬", startIndex: 0, endIndex: 1 },
+          { text: "が", startIndex: 1, endIndex: 2 },
+          { text: "走る", startIndex: 2, endIndex: 4 },
+        ],
+      };
+
+      it("accepts contiguous tokens starting at 0", () => {
+        const response = parseAgentResponse(
+          JSON.stringify({
+            type: "message_content",
+            message: "Try this.",
+            content,
+          }),
+          contentLength,
+        );
+
+        expect(response.content).toEqual(content);
+      });
+
+      it("rejects gaps between tokens", () => {
+        const tokens = [content.tokens[0], content.tokens[2]];
+
+        expect(() =>
+          parseAgentResponse(
+            JSON.stringify({
+              type: "message_content",
+              message: "Try this.",
+              content: { ...content, tokens },
+            }),
+            contentLength,
+          ),
+        ).toThrow(/contiguous from 0/);
+      });
+
+      it("rejects token text that does not match its offsets", () => {
+        const tokens = [{ text: "犬が", startIndex: 0, endIndex: 1 }];
+
+        expect(() =>
+          parseAgentResponse(
+            JSON.stringify({
+              type: "message_content",
+              message: "Try this.",
+              content: { ...content, tokens },
+            }),
+            contentLength,
+          ),
+        ).toThrow(/text length does not match/);
+      });
+    });
+
+    describe("message_vocab", () => {
+      const vocab = {
+        vocab: "好き",
+        reading: "すき",
+        equivalent: "to like",
+        tokens: [{ startIndex: 2, endIndex: 4 }],
+      };
+
+      it("accepts spans inside the exercise content", () => {
+        const response = parseAgentResponse(
+          JSON.stringify({
+            type: "message_vocab",
+            message: "好き means like.",
+            vocab,
+          }),
+          contentLength,
+        );
+
+        expect(response.vocab).toEqual(vocab);
+      });
+
+      it("rejects spans past the end of the content", () => {
+        expect(() =>
+          parseAgentResponse(
+            JSON.stringify({
+              type: "message_vocab",
+              message: "...",
+              vocab: { ...vocab, tokens: [{ startIndex: 5, endIndex: 9 }] },
+            }),
+            contentLength,
+          ),
+        ).toThrow(/ends past the exercise content/);
+      });
+
+      it("rejects overlapping spans", () => {
+        expect(() =>
+          parseAgentResponse(
+            JSON.stringify({
+              type: "message_vocab",
+              message: "...",
+              vocab: {
+                ...vocab,
+                tokens: [
+                  { startIndex: 0, endIndex: 3 },
+                  { startIndex: 2, endIndex: 4 },
+                ],
+              },
+            }),
+            contentLength,
+          ),
+        ).toThrow(/must not overlap/);
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  deriveTitle,
+  ExerciseAgent,
+} from "../../../../lib/lambda/api/exercises/exercise-agent";
+import { NotFoundError } from "../../../../lib/lambda/api/shared/errors";
+import { MockDatabase } from "../../../utils/mock-sql-client";
+
+describe("ExerciseAgent", () => {
+  const userId = "6f1c2b9e-3a4d-4e5f-8a7b-9c0d1e2f3a4b";
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const exerciseRow = {
+    exercise_id: exerciseId,
+    title: "猫",
+    content: "猫が好きです。",
+    language: "ja",
+    created_at: new Date("2024-01-01T00:00:00Z"),
+    updated_at: new Date("2024-01-01T00:00:00Z"),
+    last_accessed_at: new Date("2024-01-01T00:00:00Z"),
+    is_archived: false,
+  };
+
+  let database: MockDatabase;
+  let agent: ExerciseAgent;
+
+  beforeEach(() => {
+    database = new MockDatabase();
+    agent = new ExerciseAgent(database);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("createExercise", () => {
+    it("creates the user row, exercise and tokens in one transaction", async () => {
+      database.withResponse(/INSERT INTO exercise/, [exerciseRow]);
+
+      const exercise = await agent.createExercise(userId, {
+        title: "猫",
+        content: "猫が好きです。",
+        language: "ja",
+      });
+
+      expect(exercise.exerciseId).toBe(exerciseId);
+      const sql = database.getCapturedSql();
+      expect(sql[0]).toBe("BEGIN");
+      expect(sql[1]).toContain('INSERT INTO "user"');
+      expect(sql[2]).toContain("INSERT INTO exercise");
+      expect(sql[3]).toContain("INSERT INTO token");
+      expect(sql[4]).toBe("COMMIT");
+    });
+
+    it("stores spans covering the whole content", async () => {
+      database.withResponse(/INSERT INTO exercise/, [exerciseRow]);
+
+      await agent.createExercise(userId, {
+        content: "猫が好きです。",
+        language: "ja",
+      });
+
+      // 猫 | が | 好 | きです | 。
+      const insert = database
+        .getCapturedQueries()
+        .find((q) => q.text.includes("INSERT INTO token"))!;
+      expect(insert.values).toEqual([
+        exerciseId,
+        [0, 1, 2, 3, 6],
+        [1, 2, 3, 6, 7],
+        [0, 1, 2, 3, 4],
+      ]);
+    });
+
+    it("derives a title from the content when none is given", async () => {
+      database.withResponse(/INSERT INTO exercise/, [exerciseRow]);
+
+      await agent.createExercise(userId, {
+        content: "\n  猫が好きです。\n二行目",
+        language: "ja",
+      });
+
+      const insert = database
+        .getCapturedQueries()
+        .find((q) => q.text.includes("INSERT INTO exercise"))!;
+      expect(insert.values?.[1]).toBe("猫が好きです。");
+    });
+  });
+
+  describe("getExercise", () => {
+    it("loads only the requested related data", async () => {
+      database
+        .withResponse(/UPDATE exercise SET last_accessed_at/, [exerciseRow])
+        .withResponse(/FROM token/, [
+          { token_id: "t1", start_index: 0, end_index: 1, order: 0 },
+        ]);
+
+      const detail = await agent.getExercise(userId, exerciseId, ["tokens"]);
+
+      expect(detail.tokens).toEqual([
+        { tokenId: "t1", startIndex: 0, endIndex: 1, order: 0 },
+      ]);
+      expect(detail.vocab).toBeUndefined();
+      expect(detail.messages).toBeUndefined();
+    });
+
+    it("includes vocab and messages", async () => {
+      database.withResponse(/UPDATE exercise SET last_accessed_at/, [
+        exerciseRow,
+      ]);
+
+      const detail = await agent.getExercise(userId, exerciseId, [
+        "vocab",
+        "messages",
+      ]);
+
+      expect(detail.vocab).toEqual([]);
+      expect(detail.messages).toEqual([]);
+    });
+
+    it("reports exercises of other users as not found", async () => {
+      await expect(agent.getExercise(userId, exerciseId, [])).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  it("reports updates to missing exercises as not found", async () => {
+    await expect(
+      agent.updateExercise(userId, exerciseId, { title: "x" }),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it("reports deletes of missing exercises as not found", async () => {
+    await expect(agent.deleteExercise(userId, exerciseId)).rejects.toThrow(
+      NotFoundError,
+    );
+  });
+});
+
+describe("deriveTitle", () => {
+  it("uses the first non-empty line", () => {
+    expect(deriveTitle("\n\n  Hello world \nSecond")).toBe("Hello world");
+  });
+
+  it("truncates long lines by character, not code unit", () => {
+    const title = deriveTitle("𠮷".repeat(60));
+    expect(Array.from(title)).toHaveLength(51);
+    expect(title.endsWith("…")).toBe(true);
+  });
+});
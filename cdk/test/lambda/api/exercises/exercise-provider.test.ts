@@ -0,0 +1,135 @@
+import { ExerciseProvider } from "../../../../lib/lambda/api/exercises/exercise-provider";
+import { ListExercisesQuery } from "../../../../lib/lambda/api/exercises/types";
+import { MockSqlClient } from "../../../utils/mock-sql-client";
+
+describe("ExerciseProvider", () => {
+  const userId = "6f1c2b9e-3a4d-4e5f-8a7b-9c0d1e2f3a4b";
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const row = {
+    exercise_id: exerciseId,
+    title: "猫",
+    content: "猫が好きです。",
+    language: "ja",
+    created_at: new Date("2024-01-01T00:00:00Z"),
+    updated_at: new Date("2024-01-02T00:00:00Z"),
+    last_accessed_at: new Date("2024-01-03T00:00:00Z"),
+    is_archived: false,
+  };
+  const defaultQuery: ListExercisesQuery = {
+    sort: "createdAt",
+    order: "desc",
+    limit: 20,
+    offset: 0,
+  };
+
+  let client: MockSqlClient;
+  let provider: ExerciseProvider;
+
+  beforeEach(() => {
+    client = new MockSqlClient();
+    provider = new ExerciseProvider(client);
+  });
+
+  it("maps rows to camelCase exercises", async () => {
+    client.withResponse(/INSERT INTO exercise/, [row]);
+
+    const exercise = await provider.create(userId, {
+      title: "猫",
+      content: "猫が好きです。",
+      language: "ja",
+    });
+
+    expect(exercise).toEqual({
+      exerciseId,
+      title: "猫",
+      content: "猫が好きです。",
+      language: "ja",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-02T00:00:00.000Z",
+      lastAccessedAt: "2024-01-03T00:00:00.000Z",
+      isArchived: false,
+    });
+  });
+
+  it("creates users idempotently", async () => {
+    await provider.ensureUser(userId);
+
+    expect(client.getCapturedSql()[0]).toContain("ON CONFLICT");
+    expect(client.getCapturedQueries()[0].values).toEqual([userId]);
+  });
+
+  describe("list", () => {
+    it("scopes to the user and pages with limit and offset", async () => {
+      client
+        .withResponse(/COUNT\(\*\)/, [{ total: "42" }])
+        .withResponse(/SELECT exercise_id/, [row]);
+
+      const result = await provider.list(userId, {
+        ...defaultQuery,
+        limit: 10,
+        offset: 30,
+      });
+
+      expect(result).toMatchObject({ total: 42, limit: 10, offset: 30 });
+      expect(result.items).toHaveLength(1);
+      const page = client.getCapturedQueries()[1];
+      expect(page.text).toContain("ORDER BY created_at DESC");
+      expect(page.values).toEqual([userId, 10, 30]);
+    });
+
+    it.each([
+      ["updatedAt", "asc", "updated_at ASC"],
+      ["lastAccessedAt", "desc", "last_accessed_at DESC"],
+      ["title", "asc", "title ASC"],
+    ] as const)("sorts by %s %s", async (sort, order, expected) => {
+      await provider.list(userId, { ...defaultQuery, sort, order });
+
+      expect(client.getCapturedSql()[1]).toContain(`ORDER BY ${expected}`);
+    });
+
+    it("searches by full text and substring and ranks by relevance", async () => {
+      await provider.list(userId, {
+        ...defaultQuery,
+        sort: "relevance",
+        query: "100%_猫",
+      });
+
+      const page = client.getCapturedQueries()[1];
+      expect(page.text).toContain("plainto_tsquery('simple', $2)");
+      expect(page.text).toContain("ILIKE $3");
+      expect(page.text).toContain("ORDER BY ts_rank(");
+      expect(page.values).toEqual([userId, "100%_猫", "%100\\%\\_猫%", 20, 0]);
+    });
+  });
+
+  it("records access when an exercise is opened", async () => {
+    client.withResponse(/UPDATE exercise SET last_accessed_at/, [row]);
+
+    const exercise = await provider.findAndTouch(userId, exerciseId);
+
+    expect(exercise?.exerciseId).toBe(exerciseId);
+    expect(client.getCapturedQueries()[0].values).toEqual([exerciseId, userId]);
+  });
+
+  it("updates only provided fields", async () => {
+    client.withResponse(/UPDATE exercise SET/, [row]);
+
+    await provider.update(userId, exerciseId, { isArchived: true });
+
+    const query = client.getCapturedQueries()[0];
+    expect(query.text).toContain("updated_at = NOW(), is_archived = $3");
+    expect(query.text).not.toContain("title =");
+    expect(query.values).toEqual([exerciseId, userId, true]);
+  });
+
+  it("returns undefined for exercises of other users", async () => {
+    expect(await provider.find(userId, exerciseId)).toBeUndefined();
+  });
+
+  it("reports whether a delete removed a row", async () => {
+    expect(await provider.delete(userId, exerciseId)).toBe(false);
+
+    client.withResponse(/DELETE FROM exercise/, [{}]);
+    expect(await provider.delete(userId, exerciseId)).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+// ==========================================
+// Test Configuration Constants
+// ==========================================
+
+process.env.AWS_REGION = "us-east-1";
+process.env.DB_SECRET_ARN =
+  "arn:aws:secretsmanager:us-east-1:123456789012:secret:test-secret";
+
+// ==========================================
+// Tests
+// ==========================================
+
+import { Context } from "aws-lambda";
+import { ExerciseAgent } from "../../../../lib/lambda/api/exercises/exercise-agent";
+import { handler } from "../../../../lib/lambda/api/exercises/handler";
+import { NotFoundError } from "../../../../lib/lambda/api/shared/errors";
+import { createApiEvent, TEST_USER_ID } from "../../../utils/api-event";
+
+describe("exercises handler", () => {
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const context = {} as Context;
+  const exercise = {
+    exerciseId,
+    title: "猫",
+    content: "猫が好きです。",
+    language: "ja",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    lastAccessedAt: "2024-01-01T00:00:00.000Z",
+    isArchived: false,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("creates exercises with 201", async () => {
+    const create = jest
+      .spyOn(ExerciseAgent.prototype, "createExercise")
+      .mockResolvedValue(exercise);
+
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "POST",
+        resource: "/exercises",
+        body: JSON.stringify({ content: "猫が好きです。", language: "ja" }),
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(201);
+    expect(JSON.parse(result.body)).toEqual(exercise);
+    expect(create).toHaveBeenCalledWith(TEST_USER_ID, {
+      title: undefined,
+      content: "猫が好きです。",
+      language: "ja",
+    });
+  });
+
+  it("rejects invalid bodies before touching the database", async () => {
+    const create = jest.spyOn(ExerciseAgent.prototype, "createExercise");
+
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "POST",
+        resource: "/exercises",
+        body: JSON.stringify({ language: "ja" }),
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(400);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("lists exercises with parsed query parameters", async () => {
+    const list = jest
+      .spyOn(ExerciseAgent.prototype, "listExercises")
+      .mockResolvedValue({ items: [exercise], total: 1, limit: 5, offset: 0 });
+
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises",
+        queryStringParameters: { sort: "title", limit: "5" },
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(list).toHaveBeenCalledWith(TEST_USER_ID, {
+      sort: "title",
+      order: "asc",
+      limit: 5,
+      offset: 0,
+      query: undefined,
+    });
+  });
+
+  it("gets an exercise with includes", async () => {
+    const get = jest
+      .spyOn(ExerciseAgent.prototype, "getExercise")
+      .mockResolvedValue({ ...exercise, tokens: [] });
+
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises/{exerciseId}",
+        pathParameters: { exerciseId },
+        queryStringParameters: { include: "tokens" },
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(get).toHaveBeenCalledWith(TEST_USER_ID, exerciseId, ["tokens"]);
+  });
+
+  it("rejects malformed exercise IDs", async () => {
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises/{exerciseId}",
+        pathParameters: { exerciseId: "not-a-uuid" },
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("returns 404 for missing exercises", async () => {
+    jest
+      .spyOn(ExerciseAgent.prototype, "updateExercise")
+      .mockRejectedValue(new NotFoundError(`Exercise ${exerciseId} not found`));
+
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "PATCH",
+        resource: "/exercises/{exerciseId}",
+        pathParameters: { exerciseId },
+        body: JSON.stringify({ title: "New" }),
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("deletes exercises with 204", async () => {
+    jest
+      .spyOn(ExerciseAgent.prototype, "deleteExercise")
+      .mockResolvedValue(undefined);
+
+    const result = await handler(
+      createApiEvent({
+        httpMethod: "DELETE",
+        resource: "/exercises/{exerciseId}",
+        pathParameters: { exerciseId },
+      }),
+      context,
+    );
+
+    expect(result.statusCode).toBe(204);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  DEFAULT_LIST_LIMIT,
+  parseIncludes,
+  parseListExercisesQuery,
+  validateCreateExercise,
+  validateUpdateExercise,
+} from "../../../../lib/lambda/api/exercises/validator";
+import { BadRequestError } from "../../../../lib/lambda/api/shared/errors";
+import { createApiEvent } from "../../../utils/api-event";
+
+describe("exercise validator", () => {
+  describe("validateCreateExercise", () => {
+    it("accepts content and language with an optional title", () => {
+      expect(
+        validateCreateExercise({ content: "今日は", language: "ja" }),
+      ).toEqual({ title: undefined, content: "今日は", language: "ja" });
+    });
+
+    it("accepts language codes with a script or region", () => {
+      expect(
+        validateCreateExercise({ content: "你好", language: "zh-Hant" })
+          .language,
+      ).toBe("zh-Hant");
+      expect(
+        validateCreateExercise({ content: "olá", language: "pt-BR" }).language,
+      ).toBe("pt-BR");
+    });
+
+    it.each([
+      [{ language: "ja" }, "content"],
+      [{ content: "   ", language: "ja" }, "content"],
+      [{ content: "x" }, "language"],
+      [{ content: "x", language: "Japanese" }, "language"],
+      [{ content: "x", language: "ja", title: 5 }, "title"],
+    ])("rejects %p", (body, field) => {
+      expect(() => validateCreateExercise(body)).toThrow(
+        expect.objectContaining({ details: { field } }),
+      );
+    });
+
+    it("rejects unknown fields", () => {
+      expect(() =>
+        validateCreateExercise({ content: "x", language: "ja", owner: "me" }),
+      ).toThrow("Unknown fields: owner");
+    });
+  });
+
+  describe("validateUpdateExercise", () => {
+    it("accepts title, language and archive changes", () => {
+      expect(
+        validateUpdateExercise({ title: "New", isArchived: true }),
+      ).toEqual({ title: "New", language: undefined, isArchived: true });
+    });
+
+    it("rejects content changes", () => {
+      expect(() => validateUpdateExercise({ content: "new" })).toThrow(
+        "content cannot be changed",
+      );
+    });
+
+    it("rejects empty updates", () => {
+      expect(() => validateUpdateExercise({})).toThrow(BadRequestError);
+    });
+  });
+
+  describe("parseListExercisesQuery", () => {
+    const listEvent = (params: Record<string, string> | null) =>
+      createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises",
+        queryStringParameters: params,
+      });
+
+    it("defaults to newest first", () => {
+      expect(parseListExercisesQuery(listEvent(null))).toEqual({
+        sort: "createdAt",
+        order: "desc",
+        limit: DEFAULT_LIST_LIMIT,
+        offset: 0,
+        query: undefined,
+      });
+    });
+
+    it("sorts searches by relevance by default", () => {
+      const query = parseListExercisesQuery(listEvent({ query: "cat" }));
+      expect(query.sort).toBe("relevance");
+      expect(query.query).toBe("cat");
+    });
+
+    it("sorts titles ascending by default", () => {
+      expect(parseListExercisesQuery(listEvent({ sort: "title" })).order).toBe(
+        "asc",
+      );
+    });
+
+    it("parses limit and offset", () => {
+      const query = parseListExercisesQuery(
+        listEvent({ limit: "50", offset: "100", order: "asc" }),
+      );
+      expect(query).toMatchObject({ limit: 50, offset: 100, order: "asc" });
+    });
+
+    it.each([
+      [{ sort: "content" }, "sort"],
+      [{ sort: "relevance" }, "sort"],
+      [{ order: "up" }, "order"],
+      [{ limit: "0" }, "limit"],
+      [{ limit: "101" }, "limit"],
+      [{ limit: "ten" }, "limit"],
+      [{ offset: "-1" }, "offset"],
+    ])("rejects %p", (params, field) => {
+      expect(() => parseListExercisesQuery(listEvent(params))).toThrow(
+        expect.objectContaining({ details: { field } }),
+      );
+    });
+  });
+
+  describe("parseIncludes", () => {
+    it("accepts tokens, vocab and messages", () => {
+      const event = createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises/{exerciseId}",
+        queryStringParameters: { include: "tokens,vocab,messages,tokens" },
+      });
+      expect(parseIncludes(event)).toEqual(["tokens", "vocab", "messages"]);
+    });
+
+    it("rejects unknown includes", () => {
+      const event = createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises/{exerciseId}",
+        queryStringParameters: { include: "tokens,owner" },
+      });
+      expect(() => parseIncludes(event)).toThrow(BadRequestError);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { VocabProvider } from "../../../../lib/lambda/api/exercises/vocab-provider";
+import { MockSqlClient } from "../../../utils/mock-sql-client";
+
+describe("VocabProvider", () => {
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const vocabId = "1c8e7b2f-3d4e-4f5a-8b9c-0d1e2f3a4b5c";
+  const tokenId = "2d9f8c3a-4e5f-4a6b-9c0d-1e2f3a4b5c6d";
+
+  let client: MockSqlClient;
+  let provider: VocabProvider;
+
+  beforeEach(() => {
+    client = new MockSqlClient();
+    provider = new VocabProvider(client);
+  });
+
+  it("maps rows with aggregated token IDs", async () => {
+    client.withResponse(/FROM vocab v/, [
+      {
+        vocab_id: vocabId,
+        vocab: "猫",
+        reading: "ねこ",
+        equivalent: "cat",
+        excerpt_start_index: 0,
+        excerpt_end_index: 7,
+        token_ids: [tokenId],
+      },
+    ]);
+
+    const vocab = await provider.listForExercise(exerciseId);
+
+    expect(vocab).toEqual([
+      {
+        vocabId,
+        vocab: "猫",
+        reading: "ねこ",
+        equivalent: "cat",
+        excerptStartIndex: 0,
+        excerptEndIndex: 7,
+        tokenIds: [tokenId],
+      },
+    ]);
+  });
+
+  it("links only tokens of the same exercise", async () => {
+    client.withResponse(/INSERT INTO join_vocab_token/, [{}]);
+
+    const linked = await provider.setTokens(exerciseId, vocabId, [tokenId]);
+
+    expect(linked).toBe(1);
+    const [clear, insert] = client.getCapturedQueries();
+    expect(clear.text).toContain("DELETE FROM join_vocab_token");
+    expect(insert.text).toContain("WHERE token_exercise_id = $2");
+    expect(insert.values).toEqual([vocabId, exerciseId, [tokenId]]);
+  });
+
+  it("clears links without inserting when given no tokens", async () => {
+    const linked = await provider.setTokens(exerciseId, vocabId, []);
+
+    expect(linked).toBe(0);
+    expect(client.getCapturedSql()).toHaveLength(1);
+  });
+
+  it("updates only provided fields and allows clearing the reading", async () => {
+    client.withResponse(/UPDATE vocab/, [{}]);
+
+    const exists = await provider.update(exerciseId, vocabId, {
+      reading: null,
+    });
+
+    expect(exists).toBe(true);
+    const query = client.getCapturedQueries()[0];
+    expect(query.text).toContain("SET reading = $3");
+    expect(query.values).toEqual([exerciseId, vocabId, null]);
+  });
+});
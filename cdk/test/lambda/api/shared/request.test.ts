@@ -0,0 +1,93 @@
+import {
+  BadRequestError,
+  UnauthorizedError,
+} from "../../../../lib/lambda/api/shared/errors";
+import {
+  getPathParameter,
+  getQueryValues,
+  getUserId,
+  parseJsonBody,
+} from "../../../../lib/lambda/api/shared/request";
+import { createApiEvent, TEST_USER_ID } from "../../../utils/api-event";
+
+describe("request helpers", () => {
+  const baseEvent = { httpMethod: "GET", resource: "/exercises" };
+
+  describe("getUserId", () => {
+    it("returns the sub claim from the authorizer", () => {
+      expect(getUserId(createApiEvent(baseEvent))).toBe(TEST_USER_ID);
+    });
+
+    it("rejects requests without claims", () => {
+      const event = createApiEvent({
+        ...baseEvent,
+        requestContext: {} as any,
+      });
+      expect(() => getUserId(event)).toThrow(UnauthorizedError);
+    });
+  });
+
+  describe("getPathParameter", () => {
+    it("returns the parameter value", () => {
+      const event = createApiEvent({
+        ...baseEvent,
+        pathParameters: { exerciseId: "abc" },
+      });
+      expect(getPathParameter(event, "exerciseId")).toBe("abc");
+    });
+
+    it("rejects missing parameters", () => {
+      expect(() =>
+        getPathParameter(createApiEvent(baseEvent), "exerciseId"),
+      ).toThrow(BadRequestError);
+    });
+  });
+
+  describe("parseJsonBody", () => {
+    it("parses a JSON object", () => {
+      const event = createApiEvent({ ...baseEvent, body: '{"a":1}' });
+      expect(parseJsonBody(event)).toEqual({ a: 1 });
+    });
+
+    it("decodes base64 bodies", () => {
+      const event = createApiEvent({
+        ...baseEvent,
+        body: Buffer.from('{"a":1}').toString("base64"),
+        isBase64Encoded: true,
+      });
+      expect(parseJsonBody(event)).toEqual({ a: 1 });
+    });
+
+    it.each([
+      [null, "Request body is required"],
+      ["not json", "Request body must be valid JSON"],
+      ["[1,2]", "Request body must be a JSON object"],
+    ])("rejects body %p", (body, message) => {
+      const event = createApiEvent({ ...baseEvent, body });
+      expect(() => parseJsonBody(event)).toThrow(message);
+    });
+  });
+
+  describe("getQueryValues", () => {
+    it("splits comma-separated values", () => {
+      const event = createApiEvent({
+        ...baseEvent,
+        queryStringParameters: { include: "tokens, vocab" },
+      });
+      expect(getQueryValues(event, "include")).toEqual(["tokens", "vocab"]);
+    });
+
+    it("combines repeated parameters", () => {
+      const event = createApiEvent({
+        ...baseEvent,
+        queryStringParameters: { include: "vocab" },
+        multiValueQueryStringParameters: { include: ["tokens", "vocab"] },
+      });
+      expect(getQueryValues(event, "include")).toEqual(["tokens", "vocab"]);
+    });
+
+    it("returns an empty list when absent", () => {
+      expect(getQueryValues(createApiEvent(baseEvent), "include")).toEqual([]);
+    });
+  });
+});
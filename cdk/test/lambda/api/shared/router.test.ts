@@ -0,0 +1,92 @@
+import {
+  BadRequestError,
+  NotFoundError,
+} from "../../../../lib/lambda/api/shared/errors";
+import { ok } from "../../../../lib/lambda/api/shared/responses";
+import { routeRequest } from "../../../../lib/lambda/api/shared/router";
+import { createApiEvent } from "../../../utils/api-event";
+
+describe("routeRequest", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("dispatches on method and resource", async () => {
+    const route = jest.fn().mockResolvedValue(ok({ id: 1 }));
+
+    const result = await routeRequest(
+      createApiEvent({
+        httpMethod: "GET",
+        resource: "/exercises/{exerciseId}",
+      }),
+      { "GET /exercises/{exerciseId}": route },
+    );
+
+    expect(route).toHaveBeenCalled();
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({ id: 1 });
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    const result = await routeRequest(
+      createApiEvent({ httpMethod: "PUT", resource: "/exercises" }),
+      {},
+    );
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("returns API errors with their status, message and details", async () => {
+    const result = await routeRequest(
+      createApiEvent({ httpMethod: "POST", resource: "/exercises" }),
+      {
+        "POST /exercises": async () => {
+          throw new BadRequestError("content is required", {
+            field: "content",
+          });
+        },
+      },
+    );
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body)).toEqual({
+      message: "content is required",
+      code: "BAD_REQUEST",
+      details: { field: "content" },
+    });
+  });
+
+  it("hides unexpected errors behind a 500", async () => {
+    const result = await routeRequest(
+      createApiEvent({ httpMethod: "GET", resource: "/exercises" }),
+      {
+        "GET /exercises": async () => {
+          throw new Error("connection refused to 10.0.3.12");
+        },
+      },
+    );
+
+    expect(result.statusCode).toBe(500);
+    expect(result.body).not.toContain("10.0.3.12");
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("passes not found errors through", async () => {
+    const result = await routeRequest(
+      createApiEvent({ httpMethod: "GET", resource: "/exercises" }),
+      {
+        "GET /exercises": async () => {
+          throw new NotFoundError("Exercise x not found");
+        },
+      },
+    );
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).code).toBe("NOT_FOUND");
+  });
+});
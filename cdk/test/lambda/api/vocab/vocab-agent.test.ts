@@ -0,0 +1,136 @@
+import {
+  BadRequestError,
+  NotFoundError,
+} from "../../../../lib/lambda/api/shared/errors";
+import { VocabAgent } from "../../../../lib/lambda/api/vocab/vocab-agent";
+import { MockDatabase } from "../../../utils/mock-sql-client";
+
+describe("VocabAgent", () => {
+  const userId = "6f1c2b9e-3a4d-4e5f-8a7b-9c0d1e2f3a4b";
+  const exerciseId = "0b7f6a1e-2c3d-4e5f-9a8b-7c6d5e4f3a2b";
+  const vocabId = "1c8e7b2f-3d4e-4f5a-8b9c-0d1e2f3a4b5c";
+  const tokenId = "2d9f8c3a-4e5f-4a6b-9c0d-1e2f3a4b5c6d";
+  const exerciseRow = {
+    exercise_id: exerciseId,
+    title: "猫",
+    content: "猫が好きです。",
+    language: "ja",
+    created_at: new Date(),
+    updated_at: new Date(),
+    last_accessed_at: new Date(),
+    is_archived: false,
+  };
+  const vocabRow = {
+    vocab_id: vocabId,
+    vocab: "猫",
+    reading: "ねこ",
+    equivalent: "cat",
+    excerpt_start_index: 0,
+    excerpt_end_index: 7,
+    token_ids: [tokenId],
+  };
+  const input = {
+    vocab: "猫",
+    reading: "ねこ",
+    equivalent: "cat",
+    excerptStartIndex: 0,
+    excerptEndIndex: 7,
+    tokenIds: [tokenId],
+  };
+
+  let database: MockDatabase;
+  let agent: VocabAgent;
+
+  beforeEach(() => {
+    database = new MockDatabase();
+    agent = new VocabAgent(database);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("createVocab", () => {
+    it("stores the vocab and links its tokens", async () => {
+      database
+        .withResponse(/FROM exercise/, [exerciseRow])
+        .withResponse(/INSERT INTO vocab/, [{ vocab_id: vocabId }])
+        .withResponse(/INSERT INTO join_vocab_token/, [{}])
+        .withResponse(/FROM vocab v/, [vocabRow]);
+
+      const vocab = await agent.createVocab(userId, exerciseId, input);
+
+      expect(vocab.tokenIds).toEqual([tokenId]);
+      expect(database.getCapturedSql()).toContain("COMMIT");
+    });
+
+    it("rejects excerpts beyond the exercise content", async () => {
+      database.withResponse(/FROM exercise/, [exerciseRow]);
+
+      await expect(
+        agent.createVocab(userId, exerciseId, {
+          ...input,
+          excerptEndIndex: 100,
+        }),
+      ).rejects.toThrow(BadRequestError);
+      expect(database.getCapturedSql()).toContain("ROLLBACK");
+    });
+
+    it("rolls back when a token belongs to another exercise", async () => {
+      database
+        .withResponse(/FROM exercise/, [exerciseRow])
+        .withResponse(/INSERT INTO vocab/, [{ vocab_id: vocabId }]);
+
+      await expect(
+        agent.createVocab(userId, exerciseId, input),
+      ).rejects.toThrow("tokenIds must reference tokens of this exercise");
+      expect(database.getCapturedSql()).toContain("ROLLBACK");
+    });
+
+    it("reports exercises of other users as not found", async () => {
+      await expect(
+        agent.createVocab(userId, exerciseId, input),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("updateVocab", () => {
+    it("reports missing vocab as not found", async () => {
+      database.withResponse(/FROM exercise/, [exerciseRow]);
+
+      await expect(
+        agent.updateVocab(userId, exerciseId, vocabId, { equivalent: "dog" }),
+      ).rejects.toThrow(`Vocab ${vocabId} not found`);
+    });
+
+    it("leaves token links alone when tokenIds is omitted", async () => {
+      database
+        .withResponse(/FROM exercise/, [exerciseRow])
+        .withResponse(/UPDATE vocab/, [{}])
+        .withResponse(/FROM vocab v/, [vocabRow]);
+
+      await agent.updateVocab(userId, exerciseId, vocabId, {
+        equivalent: "kitty",
+      });
+
+      expect(
+        database
+          .getCapturedSql()
+          .some((sql) =>
+            /(INSERT INTO|DELETE FROM) join_vocab_token/.test(sql),
+          ),
+      ).toBe(false);
+    });
+  });
+
+  it("lists vocab of the caller's exercise", async () => {
+    database
+      .withResponse(/FROM exercise/, [exerciseRow])
+      .withResponse(/FROM vocab v/, [vocabRow]);
+
+    const vocab = await agent.listVocab(userId, exerciseId);
+
+    expect(vocab).toHaveLength(1);
+  });
+});
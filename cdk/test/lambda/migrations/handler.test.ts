@@ -0,0 +1,134 @@
+// ==========================================
+// Test Configuration Constants
+// ==========================================
+
+const DB_SECRET_ARN =
+  "arn:aws:secretsmanager:us-east-1:123456789012:secret:test-secret";
+const DB_NAME = "comprehend";
+
+process.env.AWS_REGION = "us-east-1";
+process.env.DB_SECRET_ARN = DB_SECRET_ARN;
+process.env.DB_NAME = DB_NAME;
+
+// ==========================================
+// Tests
+// ==========================================
+
+import { Context } from "aws-lambda";
+import {
+  handler,
+  PHYSICAL_RESOURCE_ID,
+} from "../../../lib/lambda/migrations/handler";
+import { MigrationAgent } from "../../../lib/lambda/migrations/migration-agent";
+import { DatabaseProvider } from "../../../lib/lambda/shared/database-provider";
+
+describe("handler", () => {
+  let mockExecute: jest.SpyInstance;
+  let mockConnect: jest.SpyInstance;
+  let mockClose: jest.SpyInstance;
+  let mockRelease: jest.Mock;
+
+  const baseEvent = {
+    ServiceToken: "token",
+    ResponseURL: "https://example.com",
+    StackId: "stack",
+    RequestId: "request",
+    LogicalResourceId: "Schema",
+    ResourceType: "Custom::ComprehendSchema",
+    ResourceProperties: { ServiceToken: "token" },
+  };
+  const context = {} as Context;
+
+  beforeEach(() => {
+    mockRelease = jest.fn();
+    mockConnect = jest
+      .spyOn(DatabaseProvider.prototype, "connect")
+      .mockResolvedValue({ release: mockRelease } as any);
+    mockClose = jest
+      .spyOn(DatabaseProvider.prototype, "close")
+      .mockResolvedValue(undefined);
+    mockExecute = jest
+      .spyOn(MigrationAgent.prototype, "execute")
+      .mockResolvedValue({
+        applied: [1],
+        currentVersion: 1,
+        message: "Applied migrations 1",
+      });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("applies migrations on Create", async () => {
+    const result = await handler(
+      { ...baseEvent, RequestType: "Create" },
+      context,
+    );
+
+    expect(mockExecute).toHaveBeenCalled();
+    expect(result).toEqual({
+      PhysicalResourceId: PHYSICAL_RESOURCE_ID,
+      Data: { CurrentVersion: 1, Applied: "1" },
+    });
+  });
+
+  it("applies migrations on Update with the same physical ID", async () => {
+    const result = await handler(
+      {
+        ...baseEvent,
+        RequestType: "Update",
+        PhysicalResourceId: PHYSICAL_RESOURCE_ID,
+        OldResourceProperties: { ServiceToken: "token" },
+      },
+      context,
+    );
+
+    expect(mockExecute).toHaveBeenCalled();
+    expect(result.PhysicalResourceId).toBe(PHYSICAL_RESOURCE_ID);
+  });
+
+  it("does not touch the database on Delete", async () => {
+    const result = await handler(
+      {
+        ...baseEvent,
+        RequestType: "Delete",
+        PhysicalResourceId: PHYSICAL_RESOURCE_ID,
+      },
+      context,
+    );
+
+    expect(mockConnect).not.toHaveBeenCalled();
+    expect(mockExecute).not.toHaveBeenCalled();
+    expect(result.PhysicalResourceId).toBe(PHYSICAL_RESOURCE_ID);
+  });
+
+  it("releases the connection and closes the pool after running", async () => {
+    await handler({ ...baseEvent, RequestType: "Create" }, context);
+
+    expect(mockRelease).toHaveBeenCalled();
+    expect(mockClose).toHaveBeenCalled();
+  });
+
+  it("rethrows agent errors so the deployment fails", async () => {
+    mockExecute.mockRejectedValue(new Error("Migration 1 failed"));
+
+    await expect(
+      handler({ ...baseEvent, RequestType: "Create" }, context),
+    ).rejects.toThrow("Migration 1 failed");
+    expect(mockRelease).toHaveBeenCalled();
+    expect(mockClose).toHaveBeenCalled();
+  });
+
+  it("fails when no database is configured", async () => {
+    delete process.env.DB_SECRET_ARN;
+
+    await expect(
+      handler({ ...baseEvent, RequestType: "Create" }, context),
+    ).rejects.toThrow("DB_SECRET_ARN or DB_HOST is required");
+
+    process.env.DB_SECRET_ARN = DB_SECRET_ARN;
+  });
+});
@@ -0,0 +1,186 @@
+import { MigrationError } from "../../../lib/lambda/migrations/errors";
+import { MigrationAgent } from "../../../lib/lambda/migrations/migration-agent";
+import {
+  checksumMigration,
+  MigrationProvider,
+} from "../../../lib/lambda/migrations/migration-provider";
+import {
+  AppliedMigration,
+  Migration,
+} from "../../../lib/lambda/migrations/types";
+
+describe("MigrationAgent", () => {
+  let mockProvider: jest.Mocked<MigrationProvider>;
+
+  const migrations: Migration[] = [
+    { version: 1, name: "first", sql: "CREATE TABLE a (id INT)" },
+    { version: 2, name: "second", sql: "CREATE TABLE b (id INT)" },
+    { version: 3, name: "third", sql: "CREATE TABLE c (id INT)" },
+  ];
+
+  const applied = (migration: Migration): AppliedMigration => ({
+    version: migration.version,
+    name: migration.name,
+    checksum: checksumMigration(migration),
+    appliedAt: new Date("2024-01-01T00:00:00Z"),
+  });
+
+  beforeEach(() => {
+    mockProvider = {
+      ensureMigrationsTable: jest.fn().mockResolvedValue(undefined),
+      acquireLock: jest.fn().mockResolvedValue(undefined),
+      releaseLock: jest.fn().mockResolvedValue(undefined),
+      getAppliedMigrations: jest.fn().mockResolvedValue([]),
+      applyMigration: jest.fn().mockResolvedValue(undefined),
+    } as any;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("applies every migration to an empty database in order", async () => {
+    const agent = new MigrationAgent(mockProvider, [
+      migrations[2],
+      migrations[0],
+      migrations[1],
+    ]);
+
+    const result = await agent.execute();
+
+    expect(result.applied).toEqual([1, 2, 3]);
+    expect(result.currentVersion).toBe(3);
+    expect(
+      mockProvider.applyMigration.mock.calls.map(([m]) => m.version),
+    ).toEqual([1, 2, 3]);
+  });
+
+  it("applies only missing migrations", async () => {
+    mockProvider.getAppliedMigrations.mockResolvedValue([
+      applied(migrations[0]),
+      applied(migrations[1]),
+    ]);
+    const agent = new MigrationAgent(mockProvider, migrations);
+
+    const result = await agent.execute();
+
+    expect(result.applied).toEqual([3]);
+    expect(mockProvider.applyMigration).toHaveBeenCalledTimes(1);
+    expect(mockProvider.applyMigration).toHaveBeenCalledWith(migrations[2]);
+  });
+
+  it("does nothing when the schema is up to date", async () => {
+    mockProvider.getAppliedMigrations.mockResolvedValue(
+      migrations.map(applied),
+    );
+    const agent = new MigrationAgent(mockProvider, migrations);
+
+    const result = await agent.execute();
+
+    expect(result.applied).toEqual([]);
+    expect(result.currentVersion).toBe(3);
+    expect(result.message).toContain("up to date");
+    expect(mockProvider.applyMigration).not.toHaveBeenCalled();
+  });
+
+  it("holds the lock while reading and applying migrations", async () => {
+    const callOrder: string[] = [];
+    mockProvider.acquireLock.mockImplementation(async () => {
+      callOrder.push("lock");
+    });
+    mockProvider.getAppliedMigrations.mockImplementation(async () => {
+      callOrder.push("read");
+      return [];
+    });
+    mockProvider.applyMigration.mockImplementation(async () => {
+      callOrder.push("apply");
+    });
+    mockProvider.releaseLock.mockImplementation(async () => {
+      callOrder.push("unlock");
+    });
+    const agent = new MigrationAgent(mockProvider, [migrations[0]]);
+
+    await agent.execute();
+
+    expect(callOrder).toEqual(["lock", "read", "apply", "unlock"]);
+  });
+
+  it("releases the lock when a migration fails", async () => {
+    mockProvider.applyMigration.mockRejectedValue(new Error("boom"));
+    const agent = new MigrationAgent(mockProvider, migrations);
+
+    await expect(agent.execute()).rejects.toThrow(MigrationError);
+    await expect(agent.execute()).rejects.toThrow(
+      "Migration 1 (first) failed: boom",
+    );
+    expect(mockProvider.releaseLock).toHaveBeenCalled();
+  });
+
+  it("stops at the first failing migration", async () => {
+    mockProvider.applyMigration
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("boom"));
+    const agent = new MigrationAgent(mockProvider, migrations);
+
+    await expect(agent.execute()).rejects.toThrow("Migration 2 (second)");
+    expect(mockProvider.applyMigration).toHaveBeenCalledTimes(2);
+  });
+
+  describe("forward-only safeguards", () => {
+    it("rejects a database that is ahead of the bundled migrations", async () => {
+      mockProvider.getAppliedMigrations.mockResolvedValue([
+        ...migrations.map(applied),
+        { ...applied(migrations[0]), version: 4, name: "future" },
+      ]);
+      const agent = new MigrationAgent(mockProvider, migrations);
+
+      await expect(agent.execute()).rejects.toThrow(
+        "Database has migration 4 (future)",
+      );
+      expect(mockProvider.applyMigration).not.toHaveBeenCalled();
+    });
+
+    it("rejects an applied migration whose SQL was edited", async () => {
+      mockProvider.getAppliedMigrations.mockResolvedValue([
+        { ...applied(migrations[0]), checksum: "0".repeat(64) },
+      ]);
+      const agent = new MigrationAgent(mockProvider, migrations);
+
+      await expect(agent.execute()).rejects.toThrow(
+        "was modified after it was applied",
+      );
+    });
+
+    it("rejects a new migration numbered below the applied version", async () => {
+      mockProvider.getAppliedMigrations.mockResolvedValue([
+        applied(migrations[0]),
+        applied(migrations[2]),
+      ]);
+      const agent = new MigrationAgent(mockProvider, migrations);
+
+      await expect(agent.execute()).rejects.toThrow(
+        "is older than applied version 3",
+      );
+    });
+
+    it("rejects duplicate versions", async () => {
+      const agent = new MigrationAgent(mockProvider, [
+        migrations[0],
+        { ...migrations[1], version: 1 },
+      ]);
+
+      await expect(agent.execute()).rejects.toThrow(
+        "Duplicate migration version: 1",
+      );
+    });
+
+    it("rejects non-positive versions", async () => {
+      const agent = new MigrationAgent(mockProvider, [
+        { ...migrations[0], version: 0 },
+      ]);
+
+      await expect(agent.execute()).rejects.toThrow("positive integer");
+    });
+  });
+});
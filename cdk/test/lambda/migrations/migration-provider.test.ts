@@ -0,0 +1,102 @@
+import {
+  checksumMigration,
+  MIGRATION_LOCK_KEY,
+  MigrationProvider,
+} from "../../../lib/lambda/migrations/migration-provider";
+import { Migration } from "../../../lib/lambda/migrations/types";
+import { MockSqlClient } from "../../utils/mock-sql-client";
+
+describe("MigrationProvider", () => {
+  let client: MockSqlClient;
+  let provider: MigrationProvider;
+
+  const migration: Migration = {
+    version: 1,
+    name: "create-widgets",
+    sql: "CREATE TABLE widget (id INTEGER)",
+  };
+
+  beforeEach(() => {
+    client = new MockSqlClient();
+    provider = new MigrationProvider(client);
+  });
+
+  describe("checksumMigration", () => {
+    it("returns a stable SHA-256 hex digest of the SQL", () => {
+      expect(checksumMigration(migration)).toMatch(/^[a-f0-9]{64}$/);
+      expect(checksumMigration(migration)).toBe(
+        checksumMigration({ ...migration, name: "renamed" }),
+      );
+      expect(checksumMigration(migration)).not.toBe(
+        checksumMigration({ ...migration, sql: "CREATE TABLE other (id INT)" }),
+      );
+    });
+  });
+
+  describe("ensureMigrationsTable", () => {
+    it("creates the migrations table if missing", async () => {
+      await provider.ensureMigrationsTable();
+
+      expect(client.getCapturedSql()[0]).toContain(
+        "CREATE TABLE IF NOT EXISTS schema_migrations",
+      );
+    });
+  });
+
+  describe("locking", () => {
+    it("acquires and releases the advisory lock", async () => {
+      await provider.acquireLock();
+      await provider.releaseLock();
+
+      const queries = client.getCapturedQueries();
+      expect(queries[0].text).toContain("pg_advisory_lock");
+      expect(queries[0].values).toEqual([MIGRATION_LOCK_KEY]);
+      expect(queries[1].text).toContain("pg_advisory_unlock");
+    });
+  });
+
+  describe("getAppliedMigrations", () => {
+    it("maps rows to applied migrations", async () => {
+      const appliedAt = new Date("2024-01-01T00:00:00Z");
+      client.withResponse(/SELECT version/, [
+        { version: 1, name: "first", checksum: "abc", applied_at: appliedAt },
+      ]);
+
+      const applied = await provider.getAppliedMigrations();
+
+      expect(applied).toEqual([
+        { version: 1, name: "first", checksum: "abc", appliedAt },
+      ]);
+    });
+  });
+
+  describe("applyMigration", () => {
+    it("applies the SQL and records it in one transaction", async () => {
+      await provider.applyMigration(migration);
+
+      const sql = client.getCapturedSql();
+      expect(sql[0]).toBe("BEGIN");
+      expect(sql[1]).toBe(migration.sql);
+      expect(sql[2]).toContain("INSERT INTO schema_migrations");
+      expect(sql[3]).toBe("COMMIT");
+      expect(client.getCapturedQueries()[2].values).toEqual([
+        1,
+        "create-widgets",
+        checksumMigration(migration),
+      ]);
+    });
+
+    it("rolls back when the SQL fails", async () => {
+      client.withFailure(/CREATE TABLE widget/, new Error("syntax error"));
+
+      await expect(provider.applyMigration(migration)).rejects.toThrow(
+        "syntax error",
+      );
+
+      const sql = client.getCapturedSql();
+      expect(sql).toContain("ROLLBACK");
+      expect(sql).not.toContain("COMMIT");
+      expect(sql.some((s) => s.includes("INSERT INTO"))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  LATEST_MIGRATION_VERSION,
+  MIGRATIONS,
+} from "../../../lib/lambda/migrations/migrations";
+
+describe("MIGRATIONS", () => {
+  it("numbers migrations sequentially from 1", () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual(versions.map((_, index) => index + 1));
+    expect(LATEST_MIGRATION_VERSION).toBe(versions.length);
+  });
+
+  it("gives every migration a kebab-case name", () => {
+    MIGRATIONS.forEach((migration) => {
+      expect(migration.name).toMatch(/^[a-z0-9]+(-[a-z0-9]+)*$/);
+    });
+  });
+
+  it("creates every table in the development plan schema", () => {
+    const sql = MIGRATIONS.map((m) => m.sql).join("\n");
+    [
+      '"user"',
+      "exercise",
+      "token",
+      "vocab",
+      "join_vocab_token",
+      "chat_message",
+    ].forEach((table) => {
+      expect(sql).toContain(`CREATE TABLE ${table} (`);
+    });
+  });
+});
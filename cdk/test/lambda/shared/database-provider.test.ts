@@ -0,0 +1,76 @@
+import { Pool } from "pg";
+import { DatabaseProvider } from "../../../lib/lambda/shared/database-provider";
+import { DatabaseConnectionConfig } from "../../../lib/lambda/shared/types";
+
+jest.mock("pg", () => ({
+  Pool: jest.fn().mockImplementation(() => ({
+    query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+    end: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+describe("DatabaseProvider", () => {
+  const config: DatabaseConnectionConfig = {
+    databaseName: "comprehend",
+    region: "us-east-1",
+    ssl: true,
+    credentials: {
+      host: "cluster.example.com",
+      port: 5432,
+      username: "comprehend_admin",
+      password: "secret",
+    },
+    clientConfig: {},
+  };
+
+  const poolOptions = () => (Pool as unknown as jest.Mock).mock.calls[0][0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("verifies the server certificate against the RDS CA bundle", async () => {
+    // Arrange
+    const provider = new DatabaseProvider(config);
+
+    // Act
+    await provider.query("SELECT 1");
+
+    // Assert
+    expect(poolOptions()).toEqual(
+      expect.objectContaining({
+        host: "cluster.example.com",
+        port: 5432,
+        user: "comprehend_admin",
+        database: "comprehend",
+        ssl: {
+          ca: expect.stringContaining("-----BEGIN CERTIFICATE-----"),
+          rejectUnauthorized: true,
+        },
+      }),
+    );
+  });
+
+  it("connects without TLS when ssl is off", async () => {
+    // Arrange
+    const provider = new DatabaseProvider({ ...config, ssl: false });
+
+    // Act
+    await provider.query("SELECT 1");
+
+    // Assert
+    expect(poolOptions().ssl).toBeUndefined();
+  });
+
+  it("creates the pool once", async () => {
+    // Arrange
+    const provider = new DatabaseProvider(config);
+
+    // Act
+    await provider.query("SELECT 1");
+    await provider.query("SELECT 2");
+
+    // Assert
+    expect(Pool).toHaveBeenCalledTimes(1);
+  });
+});
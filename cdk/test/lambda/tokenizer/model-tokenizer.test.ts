@@ -0,0 +1,124 @@
+import { ModelProviderError } from "../../../lib/lambda/agent/errors";
+import { FakeModelProvider } from "../../../lib/lambda/agent/fake-model-provider";
+import { TokenizationError } from "../../../lib/lambda/tokenizer/errors";
+import { FallbackTokenizer } from "../../../lib/lambda/tokenizer/fallback-tokenizer";
+import {
+  MAX_MODEL_TEXT_LENGTH,
+  ModelTokenizer,
+} from "../../../lib/lambda/tokenizer/model-tokenizer";
+import { RuleBasedTokenizer } from "../../../lib/lambda/tokenizer/rule-based-tokenizer";
+
+describe("ModelTokenizer", () => {
+  let model: FakeModelProvider;
+  let tokenizer: ModelTokenizer;
+
+  beforeEach(() => {
+    model = new FakeModelProvider();
+    tokenizer = new ModelTokenizer(model);
+  });
+
+  it("derives spans from the model's token strings", async () => {
+    model.withReply('{"tokens": ["猫", "が", "好き", "です", "。"]}');
+
+    const tokens = await tokenizer.tokenize("猫が好きです。", "ja");
+
+    expect(tokens.map((token) => token.text)).toEqual([
+      "猫",
+      "が",
+      "好き",
+      "です",
+      "。",
+    ]);
+    expect(tokens[2]).toEqual({
+      text: "好き",
+      startIndex: 2,
+      endIndex: 4,
+      order: 2,
+    });
+    expect(model.getRequests()[0].system).toContain('"ja"');
+  });
+
+  it("rejects replies that do not reproduce the text", async () => {
+    model.withReply('{"tokens": ["猫", "は", "好き"]}');
+
+    await expect(tokenizer.tokenize("猫が好き", "ja")).rejects.toThrow(
+      TokenizationError,
+    );
+  });
+
+  it("rejects replies without a tokens array", async () => {
+    model.withReply('{"type": "message", "message": "Sure"}');
+
+    await expect(tokenizer.tokenize("猫", "ja")).rejects.toThrow(
+      /tokens array/,
+    );
+  });
+
+  it("does not send texts longer than the model limit", async () => {
+    await expect(
+      tokenizer.tokenize("a".repeat(MAX_MODEL_TEXT_LENGTH + 1), "en"),
+    ).rejects.toThrow(TokenizationError);
+    expect(model.getRequests()).toHaveLength(0);
+  });
+});
+
+describe("FallbackTokenizer", () => {
+  const text = "猫が好き";
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uses the primary tokenizer when it succeeds", async () => {
+    const model = new FakeModelProvider().withReply(
+      '{"tokens": ["猫", "が", "好き"]}',
+    );
+    const tokenizer = new FallbackTokenizer(
+      new ModelTokenizer(model),
+      new RuleBasedTokenizer(),
+    );
+
+    const tokens = await tokenizer.tokenize(text, "ja");
+
+    expect(tokens.map((token) => token.text)).toEqual(["猫", "が", "好き"]);
+  });
+
+  it("falls back when the model is unavailable", async () => {
+    const primary = {
+      tokenize: jest.fn().mockRejectedValue(new ModelProviderError("down")),
+    };
+    const tokenizer = new FallbackTokenizer(primary, new RuleBasedTokenizer());
+
+    const tokens = await tokenizer.tokenize(text, "ja");
+
+    expect(tokens.map((token) => token.text)).toEqual(["猫", "が", "好", "き"]);
+  });
+
+  it("falls back when the primary returns invalid spans", async () => {
+    const primary = {
+      tokenize: jest
+        .fn()
+        .mockResolvedValue([
+          { text: "猫が", startIndex: 0, endIndex: 2, order: 0 },
+        ]),
+    };
+    const tokenizer = new FallbackTokenizer(primary, new RuleBasedTokenizer());
+
+    const tokens = await tokenizer.tokenize(text, "ja");
+
+    expect(tokens).toHaveLength(4);
+  });
+
+  it("does not hide unexpected errors", async () => {
+    const primary = {
+      tokenize: jest.fn().mockRejectedValue(new TypeError("bug")),
+    };
+    const tokenizer = new FallbackTokenizer(primary, new RuleBasedTokenizer());
+
+    await expect(tokenizer.tokenize(text, "ja")).rejects.toThrow(TypeError);
+  });
+});
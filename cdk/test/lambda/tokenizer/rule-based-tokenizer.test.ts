@@ -0,0 +1,102 @@
+import { RuleBasedTokenizer } from "../../../lib/lambda/tokenizer/rule-based-tokenizer";
+import { validateSpans } from "../../../lib/lambda/tokenizer/spans";
+
+describe("RuleBasedTokenizer", () => {
+  const tokenizer = new RuleBasedTokenizer();
+
+  describe("whitespace languages", () => {
+    it("splits words, whitespace and punctuation", () => {
+      expect(tokenizer.split("Hello,  world!", "en")).toEqual([
+        "Hello",
+        ",",
+        "  ",
+        "world",
+        "!",
+      ]);
+    });
+
+    it("keeps contractions, hyphenated words and numbers together", () => {
+      expect(
+        tokenizer.split("I don't know 3.14 well-known things.", "en"),
+      ).toEqual([
+        "I",
+        " ",
+        "don't",
+        " ",
+        "know",
+        " ",
+        "3.14",
+        " ",
+        "well-known",
+        " ",
+        "things",
+        ".",
+      ]);
+    });
+
+    it("keeps accented letters written with combining marks", () => {
+      expect(tokenizer.split("café ok", "fr")).toEqual(["café", " ", "ok"]);
+    });
+
+    it("splits Korean on spaces", () => {
+      expect(tokenizer.split("고양이를 좋아해요.", "ko")).toEqual([
+        "고양이를",
+        " ",
+        "좋아해요",
+        ".",
+      ]);
+    });
+  });
+
+  describe("CJK", () => {
+    it("splits Japanese where the script changes", () => {
+      expect(tokenizer.split("猫がコーヒーを飲む。", "ja")).toEqual([
+        "猫",
+        "が",
+        "コーヒー",
+        "を",
+        "飲",
+        "む",
+        "。",
+      ]);
+    });
+
+    it("keeps kanji compounds together in Japanese", () => {
+      expect(tokenizer.split("日本語", "ja")).toEqual(["日本語"]);
+    });
+
+    it("splits every Han character in Chinese", () => {
+      expect(tokenizer.split("我喜欢猫。", "zh-Hans")).toEqual([
+        "我",
+        "喜",
+        "欢",
+        "猫",
+        "。",
+      ]);
+    });
+  });
+
+  describe("spans", () => {
+    it("returns ordered spans that cover the text", async () => {
+      // Arrange
+      const text = "猫が好き。\n\nI like cats 🐈‍⬛!";
+
+      // Act
+      const tokens = await tokenizer.tokenize(text, "ja");
+
+      // Assert
+      expect(() => validateSpans(text, tokens)).not.toThrow();
+      expect(tokens.map((token) => token.text).join("")).toBe(text);
+    });
+
+    it("never splits surrogate pairs or emoji sequences", async () => {
+      const tokens = await tokenizer.tokenize("a🐈‍⬛b", "en");
+
+      expect(tokens.map((token) => token.text)).toEqual(["a", "🐈‍⬛", "b"]);
+    });
+
+    it("returns no tokens for empty text", async () => {
+      expect(await tokenizer.tokenize("", "en")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { TokenizationError } from "../../../lib/lambda/tokenizer/errors";
+import {
+  spansFromPieces,
+  validateSpans,
+} from "../../../lib/lambda/tokenizer/spans";
+
+describe("spans", () => {
+  describe("spansFromPieces", () => {
+    it("assigns offsets and order from consecutive pieces", () => {
+      expect(spansFromPieces("猫が", ["猫", "が"])).toEqual([
+        { text: "猫", startIndex: 0, endIndex: 1, order: 0 },
+        { text: "が", startIndex: 1, endIndex: 2, order: 1 },
+      ]);
+    });
+
+    it("measures offsets in UTF-16 code units", () => {
+      const tokens = spansFromPieces("🐈 cat", ["🐈", " ", "cat"]);
+
+      expect(tokens[0]).toMatchObject({ startIndex: 0, endIndex: 2 });
+      expect(tokens[2]).toMatchObject({ startIndex: 3, endIndex: 6 });
+    });
+
+    it("rejects pieces that change the text", () => {
+      expect(() => spansFromPieces("猫が", ["猫", "は"])).toThrow(
+        TokenizationError,
+      );
+    });
+
+    it("rejects pieces that leave text uncovered", () => {
+      expect(() => spansFromPieces("I like cats", ["I", " ", "like"])).toThrow(
+        /cover 6 of 11/,
+      );
+    });
+  });
+
+  describe("validateSpans", () => {
+    const text = "猫が好き";
+    const token = (startIndex: number, endIndex: number, order: number) => ({
+      text: text.slice(startIndex, endIndex),
+      startIndex,
+      endIndex,
+      order,
+    });
+
+    it("accepts contiguous spans covering the text", () => {
+      expect(() =>
+        validateSpans(text, [token(0, 1, 0), token(1, 2, 1), token(2, 4, 2)]),
+      ).not.toThrow();
+    });
+
+    it("rejects overlapping spans", () => {
+      expect(() =>
+        validateSpans(text, [token(0, 2, 0), token(1, 4, 1)]),
+      ).toThrow(/overlaps/);
+    });
+
+    it("rejects gaps", () => {
+      expect(() =>
+        validateSpans(text, [token(0, 1, 0), token(2, 4, 1)]),
+      ).toThrow(/not covered/);
+    });
+
+    it("rejects spans that stop before the end of the text", () => {
+      expect(() => validateSpans(text, [token(0, 2, 0)])).toThrow(
+        /cover 2 of 4/,
+      );
+    });
+
+    it("rejects out-of-order tokens", () => {
+      expect(() =>
+        validateSpans(text, [token(0, 2, 1), token(2, 4, 0)]),
+      ).toThrow(/order/);
+    });
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Jest setup for CDK tests
+ *
+ * Skips esbuild bundling of Lambda assets when tests synthesize stacks.
+ * Templates are identical apart from asset hashes, and every stack test no
+ * longer spends seconds bundling the same handlers. Tests that need real
+ * bundles override this with `postCliContext`.
+ */
+process.env.CDK_CONTEXT_JSON = JSON.stringify({
+  "aws:cdk:bundling-stacks": [],
+});
@@ -0,0 +1,186 @@
+import * as cdk from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { ComprehendStack } from "../../lib/stacks/comprehend-stack";
+import { importComprehendStack } from "../../lib/stacks/comprehend-stack-imports";
+import {
+  ComprehendStackOutputs,
+  DEFAULT_ENVIRONMENT_CONFIGS,
+  STACK_OUTPUT_EXPORT_SUFFIXES,
+  stackOutputExportName,
+} from "../../lib/types";
+
+const outputFields = Object.keys(
+  STACK_OUTPUT_EXPORT_SUFFIXES,
+) as (keyof ComprehendStackOutputs)[];
+
+describe("ComprehendStackOutputs", () => {
+  it.each(["dev", "dev-alice"])(
+    "has a CfnOutput exported under the documented name for every field (%s)",
+    (environmentName) => {
+      // Arrange
+      const stack = new ComprehendStack(new cdk.App(), "TestStack", {
+        environmentName,
+      });
+
+      // Act
+      const outputs = Template.fromStack(stack).findOutputs("*");
+      const exportNames = Object.values(outputs).map(
+        (output) => output.Export?.Name,
+      );
+
+      // Assert
+      outputFields.forEach((field) => {
+        expect(exportNames).toContain(
+          stackOutputExportName(environmentName, field),
+        );
+        expect(stack.outputs[field].exportName).toBe(
+          stackOutputExportName(environmentName, field),
+        );
+      });
+    },
+  );
+});
+
+describe("importComprehendStack", () => {
+  let app: cdk.App;
+  let consumer: cdk.Stack;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    consumer = new cdk.Stack(app, "ConsumerStack");
+  });
+
+  const importsOf = (template: Template): string[] =>
+    JSON.stringify(template.toJSON())
+      .match(/"Fn::ImportValue":"[^"]+"/g)!
+      .map((match) => match.split(":").pop()!.replace(/"/g, ""));
+
+  it("rebuilds the VPC and subnets from the environment's exports", () => {
+    // Arrange
+    const base = importComprehendStack(consumer, "Base", "prod");
+
+    // Act
+    new ec2.SecurityGroup(consumer, "SecurityGroup", { vpc: base.vpc });
+    new ec2.CfnInstance(consumer, "Instance", {
+      subnetId: base.privateSubnets[1].subnetId,
+      availabilityZone: base.availabilityZones[1],
+    });
+    const template = Template.fromStack(consumer);
+
+    // Assert
+    expect(base.publicSubnets).toHaveLength(2);
+    expect(base.privateSubnets).toHaveLength(2);
+    expect(
+      base.vpc.selectSubnets({
+        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+      }).subnets,
+    ).toHaveLength(2);
+    template.hasResourceProperties("AWS::EC2::Instance", {
+      SubnetId: {
+        "Fn::Select": [
+          1,
+          {
+            "Fn::Split": [",", { "Fn::ImportValue": "prod-PrivateSubnetIds" }],
+          },
+        ],
+      },
+    });
+    expect(importsOf(template)).toEqual(
+      expect.arrayContaining([
+        "prod-VpcId",
+        "prod-PrivateSubnetIds",
+        "prod-AvailabilityZones",
+      ]),
+    );
+  });
+
+  it("imports private subnets as isolated when the environment has no NAT", () => {
+    // Arrange & Act
+    const base = importComprehendStack(consumer, "Base", "dev");
+
+    // Assert
+    expect(base.privateSubnets).toHaveLength(
+      DEFAULT_ENVIRONMENT_CONFIGS.dev.maxAzs,
+    );
+    expect(base.vpc.isolatedSubnets).toEqual(base.privateSubnets);
+    expect(base.vpc.privateSubnets).toHaveLength(0);
+  });
+
+  it("sizes the subnet lists for the deployed AZ count", () => {
+    // Arrange & Act
+    const base = importComprehendStack(consumer, "Base", "prod", {
+      availabilityZoneCount: 3,
+    });
+
+    // Assert
+    expect(base.availabilityZones).toHaveLength(3);
+    expect(base.privateSubnets).toHaveLength(3);
+  });
+
+  it("takes the AZ count from the configured AZs", () => {
+    // Arrange & Act
+    const base = importComprehendStack(consumer, "Base", "prod", {
+      environmentConfig: {
+        ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+        maxAzs: 3,
+        accountId: "222222222222",
+        region: "eu-west-1",
+        availabilityZones: ["eu-west-1a", "eu-west-1b", "eu-west-1c"],
+      },
+    });
+
+    // Assert
+    expect(base.availabilityZones).toHaveLength(3);
+    expect(base.privateSubnets).toHaveLength(3);
+  });
+
+  it("expects two AZs from an environment-agnostic base stack", () => {
+    // Arrange
+    const environmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+      maxAzs: 3,
+    };
+    const baseStack = new ComprehendStack(app, "BaseStack", {
+      environmentConfig,
+    });
+
+    // Act
+    const base = importComprehendStack(consumer, "Base", "prod", {
+      environmentConfig,
+    });
+
+    // Assert
+    expect(baseStack.vpcConstruct.availabilityZones).toHaveLength(2);
+    expect(base.availabilityZones).toHaveLength(2);
+    expect(base.privateSubnets).toHaveLength(2);
+  });
+
+  it("imports the database, auth and API exports of named environments", () => {
+    // Arrange
+    const base = importComprehendStack(consumer, "Base", "dev-alice");
+
+    // Act
+    new cdk.CfnOutput(consumer, "Api", { value: base.apiUrl });
+    new cdk.CfnOutput(consumer, "Database", { value: base.databaseEndpoint });
+    new cdk.CfnOutput(consumer, "Secret", {
+      value: base.databaseSecret.secretArn,
+    });
+    new cdk.CfnOutput(consumer, "UserPool", {
+      value: base.userPool.userPoolId,
+    });
+    new cdk.CfnOutput(consumer, "Client", {
+      value: base.userPoolClient.userPoolClientId,
+    });
+    const template = Template.fromStack(consumer);
+
+    // Assert
+    expect(importsOf(template).sort()).toEqual([
+      "dev-alice-ApiUrl",
+      "dev-alice-DatabaseEndpoint",
+      "dev-alice-DatabaseSecretArn",
+      "dev-alice-UserPoolClientId",
+      "dev-alice-UserPoolId",
+    ]);
+  });
+});
@@ -1,7 +1,13 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as cdk from "aws-cdk-lib";
-import { Template, Match } from "aws-cdk-lib/assertions";
+import { Annotations, Template, Match } from "aws-cdk-lib/assertions";
 import { ComprehendStack } from "../../lib/stacks/comprehend-stack";
-import { EnvironmentConfig } from "../../lib/types";
+import {
+  DEFAULT_ENVIRONMENT_CONFIGS,
+  EnvironmentConfig,
+} from "../../lib/types";
 
 describe("ComprehendStack", () => {
   let app: cdk.App;
@@ -76,6 +82,301 @@ describe("ComprehendStack", () => {
     });
   });
 
+  describe("Named environments", () => {
+    it("derives a named environment from the dev tier by default", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev-alice",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      expect(stack.environmentConfig.tier).toBe("dev");
+      expect(stack.environmentConfig.enableNatGateways).toBe(false);
+      expect(stack.environmentConfig.vpcCidr).not.toBe(
+        DEFAULT_ENVIRONMENT_CONFIGS.dev.vpcCidr,
+      );
+      template.hasResourceProperties("AWS::EC2::VPC", {
+        CidrBlock: stack.environmentConfig.vpcCidr,
+      });
+      template.hasOutput("VpcId", { Export: { Name: "dev-alice-VpcId" } });
+    });
+
+    it("derives a named environment from the tier in context", () => {
+      // Arrange
+      const contextApp = new cdk.App({
+        context: { environment: "pr-123", tier: "staging" },
+      });
+
+      // Act
+      const stack = new ComprehendStack(contextApp, "TestStack");
+
+      // Assert
+      expect(stack.environmentConfig.name).toBe("pr-123");
+      expect(stack.environmentConfig.tier).toBe("staging");
+      expect(stack.environmentConfig.enableNatGateways).toBe(true);
+    });
+
+    it("throws on an unknown tier", () => {
+      expect(
+        () =>
+          new ComprehendStack(app, "TestStack", {
+            environmentName: "dev-alice",
+            tier: "qa" as any,
+          }),
+      ).toThrow("Invalid tier for environment dev-alice: qa");
+    });
+  });
+
+  describe("Deployment account and region", () => {
+    const originalAccount = process.env.CDK_DEFAULT_ACCOUNT;
+    const originalRegion = process.env.CDK_DEFAULT_REGION;
+
+    afterEach(() => {
+      if (originalAccount === undefined) {
+        delete process.env.CDK_DEFAULT_ACCOUNT;
+      } else {
+        process.env.CDK_DEFAULT_ACCOUNT = originalAccount;
+      }
+      if (originalRegion === undefined) {
+        delete process.env.CDK_DEFAULT_REGION;
+      } else {
+        process.env.CDK_DEFAULT_REGION = originalRegion;
+      }
+    });
+
+    const prodConfig: EnvironmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+      accountId: "222222222222",
+      region: "eu-west-1",
+      availabilityZones: ["eu-west-1a", "eu-west-1b", "eu-west-1c"],
+      monitoring: {
+        subscriptions: [{ protocol: "email", endpoint: "oncall@example.com" }],
+      },
+    };
+
+    it("deploys to the configured account and region", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentConfig: prodConfig,
+      });
+
+      // Assert
+      expect(stack.account).toBe("222222222222");
+      expect(stack.region).toBe("eu-west-1");
+    });
+
+    it("stays environment-agnostic without an account or region", () => {
+      // Arrange
+      delete process.env.CDK_DEFAULT_ACCOUNT;
+
+      // Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+
+      // Assert
+      expect(cdk.Token.isUnresolved(stack.account)).toBe(true);
+    });
+
+    it("ignores the CLI defaults for the current credentials", () => {
+      // Arrange
+      process.env.CDK_DEFAULT_ACCOUNT = "111111111111";
+      process.env.CDK_DEFAULT_REGION = "us-east-1";
+
+      // Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+
+      // Assert
+      expect(cdk.Token.isUnresolved(stack.account)).toBe(true);
+      expect(cdk.Token.isUnresolved(stack.region)).toBe(true);
+      Template.fromStack(stack).resourceCountIs("AWS::EC2::NatGateway", 2);
+    });
+
+    it("places subnets in the configured AZs without looking them up", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentConfig: prodConfig,
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const azs = Object.values(template.findResources("AWS::EC2::Subnet")).map(
+        (subnet) => subnet.Properties.AvailabilityZone,
+      );
+      expect(new Set(azs)).toEqual(
+        new Set(["eu-west-1a", "eu-west-1b", "eu-west-1c"]),
+      );
+      template.hasResourceProperties("AWS::EC2::Subnet", {
+        AvailabilityZone: "eu-west-1b",
+        CidrBlock: "10.2.6.0/23",
+      });
+      expect(app.synth().manifest.missing).toBeUndefined();
+    });
+
+    it("warns when an environment-agnostic VPC gets fewer AZs than maxAzs", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+
+      // Assert
+      Annotations.fromStack(stack).hasWarning(
+        "/TestStack",
+        Match.stringLikeRegexp("spans 2 AZs instead of maxAzs \\(3\\)"),
+      );
+    });
+
+    it("does not warn when the AZs are pinned", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentConfig: prodConfig,
+      });
+
+      // Assert
+      Annotations.fromStack(stack).hasNoWarning(
+        "/TestStack",
+        Match.stringLikeRegexp("instead of maxAzs"),
+      );
+    });
+
+    it("reports an error when the credentials belong to another account", () => {
+      // Arrange
+      process.env.CDK_DEFAULT_ACCOUNT = "111111111111";
+
+      // Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentConfig: prodConfig,
+      });
+
+      // Assert
+      Annotations.fromStack(stack).hasError(
+        "*",
+        Match.stringLikeRegexp("configured for account 222222222222"),
+      );
+    });
+
+    it("accepts credentials for the configured account", () => {
+      // Arrange
+      process.env.CDK_DEFAULT_ACCOUNT = "222222222222";
+
+      // Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentConfig: prodConfig,
+      });
+
+      // Assert
+      Annotations.fromStack(stack).hasNoError("*", Match.anyValue());
+    });
+  });
+
+  describe("Config files", () => {
+    let configDir: string;
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), "comprehend-config-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    it("merges the environment's config file over its defaults", () => {
+      // Arrange
+      fs.writeFileSync(
+        path.join(configDir, "staging.yaml"),
+        "database:\n  maxCapacity: 8\n",
+      );
+
+      // Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "staging",
+        configDir,
+      });
+
+      // Assert
+      expect(stack.environmentConfig.database?.maxCapacity).toBe(8);
+      expect(stack.environmentConfig.database?.minCapacity).toBe(0.5);
+      Template.fromStack(stack).hasResourceProperties("AWS::RDS::DBCluster", {
+        ServerlessV2ScalingConfiguration: { MinCapacity: 0.5, MaxCapacity: 8 },
+      });
+    });
+
+    it("uses the defaults when the environment has no config file", () => {
+      // Arrange
+      fs.writeFileSync(path.join(configDir, "prod.json"), '{"maxAzs": 2}');
+
+      // Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+        configDir,
+      });
+
+      // Assert
+      expect(stack.environmentConfig).toEqual(DEFAULT_ENVIRONMENT_CONFIGS.dev);
+    });
+
+    it("loads the file named by the configFile context", () => {
+      // Arrange
+      const configFile = path.join(configDir, "custom.json");
+      fs.writeFileSync(configFile, '{"vpcCidr": "10.50.0.0/16"}');
+      const contextApp = new cdk.App({
+        context: { environment: "dev", configFile },
+      });
+
+      // Act
+      const stack = new ComprehendStack(contextApp, "TestStack", {
+        environmentName: "dev",
+        configDir,
+      });
+
+      // Assert
+      expect(stack.environmentConfig.vpcCidr).toBe("10.50.0.0/16");
+    });
+
+    it("applies the configFile context only to the selected environment", () => {
+      // Arrange
+      const configFile = path.join(configDir, "custom.json");
+      fs.writeFileSync(configFile, '{"vpcCidr": "10.50.0.0/16"}');
+      fs.writeFileSync(path.join(configDir, "staging.json"), '{"maxAzs": 3}');
+      const contextApp = new cdk.App({
+        context: { environment: "dev", configFile },
+      });
+
+      // Act
+      const staging = new ComprehendStack(contextApp, "StagingStack", {
+        environmentName: "staging",
+        configDir,
+      });
+      const prod = new ComprehendStack(contextApp, "ProdStack", {
+        environmentName: "prod",
+        configDir,
+      });
+
+      // Assert
+      expect(staging.environmentConfig).toEqual({
+        ...DEFAULT_ENVIRONMENT_CONFIGS.staging,
+        maxAzs: 3,
+      });
+      expect(prod.environmentConfig).toEqual(DEFAULT_ENVIRONMENT_CONFIGS.prod);
+    });
+
+    it("rejects an invalid config file", () => {
+      // Arrange
+      fs.writeFileSync(path.join(configDir, "dev.yaml"), "maxAzs: many\n");
+
+      // Act & Assert
+      expect(() => {
+        new ComprehendStack(app, "TestStack", {
+          environmentName: "dev",
+          configDir,
+        });
+      }).toThrow(/dev\.yaml:1:9 maxAzs: must be integer/);
+    });
+  });
+
   describe("Resource naming", () => {
     it("applies environment-specific resource naming", () => {
       // Arrange & Act
@@ -171,17 +472,255 @@ describe("ComprehendStack", () => {
     });
   });
 
+  describe("VPC Flow Logs", () => {
+    it("dev environment has no flow logs", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.resourceCountIs("AWS::EC2::FlowLog", 0);
+    });
+
+    it("prod environment records all traffic for a year", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        TrafficType: "ALL",
+        LogDestinationType: "cloud-watch-logs",
+      });
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/comprehend/prod/vpc-flow-logs",
+        RetentionInDays: 365,
+      });
+    });
+  });
+
+  describe("VPC endpoints", () => {
+    it("dev environment reaches AWS APIs through interface endpoints", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const endpoints = Object.values(
+        template.findResources("AWS::EC2::VPCEndpoint"),
+      );
+      const types = endpoints.map((e) => e.Properties.VpcEndpointType);
+      expect(types.filter((t) => t === "Gateway")).toHaveLength(2);
+      expect(types.filter((t) => t === "Interface")).toHaveLength(4);
+    });
+
+    it("prod environment creates gateway endpoints only", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 2);
+    });
+  });
+
+  describe("Subnet tiers", () => {
+    it("places the database in the isolated data tier", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const dataSubnetIds = stack.vpcConstruct.databaseSubnets.map((subnet) =>
+        stack.resolve(subnet.subnetId),
+      );
+      template.hasResourceProperties("AWS::RDS::DBSubnetGroup", {
+        SubnetIds: dataSubnetIds,
+      });
+    });
+
+    it("keeps the backend functions in the private tier", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+
+      // Assert
+      expect(stack.vpcConstruct.privateSubnets).not.toEqual(
+        stack.vpcConstruct.databaseSubnets,
+      );
+      expect(stack.vpcConstruct.privateSubnets).toHaveLength(2);
+    });
+  });
+
+  describe("Database", () => {
+    it("creates an Aurora PostgreSQL cluster sized for the environment", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.hasResourceProperties("AWS::RDS::DBCluster", {
+        Engine: "aurora-postgresql",
+        BackupRetentionPeriod: 30,
+        DeletionProtection: true,
+      });
+    });
+
+    it("stores database credentials in Secrets Manager", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "staging",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.hasResourceProperties("AWS::SecretsManager::Secret", {
+        Name: "comprehend/staging/database",
+      });
+    });
+
+    it("applies schema migrations through a custom resource", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.resourceCountIs("Custom::ComprehendSchema", 1);
+    });
+  });
+
+  describe("Authentication", () => {
+    it("creates a user pool without MFA in dev", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        UserPoolName: "comprehend-dev-users",
+        MfaConfiguration: "OFF",
+      });
+    });
+
+    it("allows optional MFA in prod", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.hasResourceProperties("AWS::Cognito::UserPool", {
+        MfaConfiguration: "OPTIONAL",
+      });
+    });
+  });
+
+  describe("API", () => {
+    it("creates a REST API behind a Cognito authorizer", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.hasResourceProperties("AWS::ApiGateway::RestApi", {
+        Name: "comprehend-dev-api",
+      });
+      template.resourceCountIs("AWS::ApiGateway::Authorizer", 1);
+    });
+
+    it("routes chat messages to the ReaderAgent function", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const agentFunctionId = stack.getLogicalId(
+        stack.agentConstruct.agentFunction.node.defaultChild as cdk.CfnElement,
+      );
+      template.hasResourceProperties("AWS::Lambda::Permission", {
+        FunctionName: { "Fn::GetAtt": [agentFunctionId, "Arn"] },
+        SourceArn: Match.objectLike({
+          "Fn::Join": Match.arrayWith([
+            Match.arrayWith(["/POST/exercises/*/messages"]),
+          ]),
+        }),
+      });
+    });
+  });
+
+  describe("Monitoring", () => {
+    it("alarms on every API function and the agent", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      ["exercises", "vocab", "agent"].forEach((name) =>
+        template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+          AlarmName: `comprehend-dev-${name}-errors`,
+        }),
+      );
+      template.hasResourceProperties("AWS::CloudWatch::Dashboard", {
+        DashboardName: "comprehend-dev",
+      });
+    });
+
+    it("uses the prod thresholds and watches each prod NAT gateway", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      template.resourceCountIs(
+        "AWS::CloudWatch::Alarm",
+        10 + 2 * stack.vpcConstruct.natGatewayIds.length,
+      );
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: "comprehend-prod-database-connections",
+        Threshold:
+          DEFAULT_ENVIRONMENT_CONFIGS.prod.monitoring!.thresholds!
+            .databaseConnections,
+      });
+    });
+  });
+
   describe("Configuration validation", () => {
     it("validates invalid environment names are rejected", () => {
       // Arrange
       const invalidConfig: EnvironmentConfig = {
-        name: "invalid" as any,
+        name: "Dev_Alice",
         vpcCidr: "10.0.0.0/16",
         maxAzs: 2,
         enableNatGateways: false,
         tags: {
           Application: "Comprehend",
-          Environment: "invalid",
+          Environment: "Dev_Alice",
           ManagedBy: "CDK",
         },
       };
@@ -349,6 +888,50 @@ describe("ComprehendStack", () => {
       expect(outputs.VpcCidr.Export?.Name).toBe("dev-VpcCidr");
     });
 
+    it("exports database endpoint and secret ARN", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const outputs = template.findOutputs("*");
+      expect(outputs.DatabaseEndpoint.Export?.Name).toBe(
+        "dev-DatabaseEndpoint",
+      );
+      expect(outputs.DatabaseSecretArn.Export?.Name).toBe(
+        "dev-DatabaseSecretArn",
+      );
+    });
+
+    it("exports user pool and app client IDs", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "dev",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const outputs = template.findOutputs("*");
+      expect(outputs.UserPoolId.Export?.Name).toBe("dev-UserPoolId");
+      expect(outputs.UserPoolClientId.Export?.Name).toBe(
+        "dev-UserPoolClientId",
+      );
+    });
+
+    it("exports API URL", () => {
+      // Arrange & Act
+      const stack = new ComprehendStack(app, "TestStack", {
+        environmentName: "prod",
+      });
+      const template = Template.fromStack(stack);
+
+      // Assert
+      const outputs = template.findOutputs("*");
+      expect(outputs.ApiUrl.Export?.Name).toBe("prod-ApiUrl");
+    });
+
     it("export names follow naming convention {env}-{OutputName}", () => {
       // Arrange & Act
       const stack = new ComprehendStack(app, "TestStack", {
@@ -381,7 +964,7 @@ describe("ComprehendStack", () => {
       // Arrange & Act
       // In test environment, CDK will limit to available AZs even if maxAzs is higher
       const stack = new ComprehendStack(app, "TestStack", {
-        environmentName: "prod", // prod config has maxAzs: 3
+        environmentConfig: { ...DEFAULT_ENVIRONMENT_CONFIGS.prod, maxAzs: 3 },
       });
       const template = Template.fromStack(stack);
 
@@ -0,0 +1,233 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { ComprehendPipelineStack } from "../../lib/stacks/pipeline-stack";
+
+describe("ComprehendPipelineStack", () => {
+  let stack: ComprehendPipelineStack;
+  let template: Template;
+
+  // Stages synthesize a ComprehendStack each, so build the pipeline once
+  beforeAll(() => {
+    const app = new cdk.App();
+    stack = new ComprehendPipelineStack(app, "PipelineStack", {
+      repository: "example/comprehend",
+      connectionArn:
+        "arn:aws:codeconnections:us-east-1:123456789012:connection/abc",
+      env: { account: "123456789012", region: "us-east-1" },
+    });
+    template = Template.fromStack(stack);
+  });
+
+  interface PipelineStage {
+    Name: string;
+    Actions: { Name: string; ActionTypeId: { Category: string } }[];
+  }
+
+  const pipelineStages = (): PipelineStage[] => {
+    const [pipeline] = Object.values(
+      template.findResources("AWS::CodePipeline::Pipeline"),
+    );
+    return pipeline.Properties.Stages;
+  };
+
+  it("deploys the environments in promotion order after self-mutation", () => {
+    // Assert
+    expect(pipelineStages().map((stage) => stage.Name)).toEqual([
+      "Source",
+      "Build",
+      "UpdatePipeline",
+      "Assets",
+      "Dev",
+      "Staging",
+      "Prod",
+    ]);
+    expect(
+      stack.stages.map((stage) => stage.comprehendStack.stackName),
+    ).toEqual([
+      "ComprehendDevStack",
+      "ComprehendStagingStack",
+      "ComprehendProdStack",
+    ]);
+  });
+
+  it("runs the tests before synthesizing the app", () => {
+    // Assert
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Source: {
+        BuildSpec: Match.serializedJson(
+          Match.objectLike({
+            phases: {
+              build: {
+                commands: Match.arrayWith([
+                  "npm test",
+                  Match.stringLikeRegexp(
+                    "^npx cdk synth --context pipelineRepository=example/comprehend",
+                  ),
+                ]),
+              },
+            },
+          }),
+        ),
+      },
+    });
+  });
+
+  it("checks the synthesized stacks against the deployed templates", () => {
+    // Assert
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Source: {
+        BuildSpec: Match.serializedJson(
+          Match.objectLike({
+            phases: {
+              build: {
+                commands: Match.arrayWith([
+                  "npm test",
+                  "bash scripts/fetch-deployed-template.sh deployed-templates ComprehendDevStack",
+                  "bash scripts/fetch-deployed-template.sh deployed-templates ComprehendStagingStack",
+                  "bash scripts/fetch-deployed-template.sh deployed-templates ComprehendProdStack",
+                  Match.stringLikeRegexp(
+                    "^npx cdk synth .* --context deployedTemplates=deployed-templates$",
+                  ),
+                ]),
+              },
+            },
+          }),
+        ),
+      },
+    });
+  });
+
+  it("requires a manual approval before prod only", () => {
+    // Arrange
+    const approvals = pipelineStages()
+      .filter((stage) =>
+        stage.Actions.some(
+          (action) => action.ActionTypeId.Category === "Approval",
+        ),
+      )
+      .map((stage) => stage.Name);
+
+    // Assert
+    expect(approvals).toEqual(["Prod"]);
+  });
+
+  it("smoke tests every environment after it is deployed", () => {
+    // Arrange
+    const smokeTests = pipelineStages()
+      .filter((stage) =>
+        stage.Actions.some((action) => action.Name === "SmokeTest"),
+      )
+      .map((stage) => stage.Name);
+
+    // Assert
+    expect(smokeTests).toEqual(["Dev", "Staging", "Prod"]);
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Source: {
+        BuildSpec: Match.serializedJson(
+          Match.objectLike({
+            phases: {
+              build: {
+                commands: Match.arrayWith([
+                  Match.stringLikeRegexp('test "\\$status" = "401"'),
+                ]),
+              },
+            },
+          }),
+        ),
+      },
+    });
+  });
+
+  it("lets the synth step assume the lookup roles of the target accounts", () => {
+    // Assert
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          {
+            Action: "sts:AssumeRole",
+            Effect: "Allow",
+            Resource: "*",
+            Condition: {
+              StringEquals: {
+                "iam:ResourceTag/aws-cdk:bootstrap-role": "lookup",
+              },
+            },
+          },
+        ]),
+      },
+    });
+  });
+
+  describe("Environment-aware stages", () => {
+    let configDir: string;
+    const originalAccount = process.env.CDK_DEFAULT_ACCOUNT;
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), "comprehend-config-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(configDir, { recursive: true, force: true });
+      process.env.CDK_DEFAULT_ACCOUNT = originalAccount;
+    });
+
+    it("synthesizes a stage in another account without lookups", () => {
+      // Arrange
+      const configFile = path.join(configDir, "staging.json");
+      fs.writeFileSync(
+        configFile,
+        JSON.stringify({
+          accountId: "222222222222",
+          region: "eu-west-1",
+          availabilityZones: ["eu-west-1a", "eu-west-1b"],
+        }),
+      );
+      // The synth step runs with the pipeline account's credentials
+      process.env.CDK_DEFAULT_ACCOUNT = "123456789012";
+      const app = new cdk.App({
+        context: { environment: "staging", configFile },
+      });
+
+      // Act
+      const pipelineStack = new ComprehendPipelineStack(app, "PipelineStack", {
+        repository: "example/comprehend",
+        connectionArn:
+          "arn:aws:codeconnections:us-east-1:123456789012:connection/abc",
+        environments: ["staging"],
+        env: { account: "123456789012", region: "us-east-1" },
+      });
+      const assembly = app.synth();
+
+      // Assert
+      const [stage] = pipelineStack.stages;
+      expect(stage.comprehendStack.account).toBe("222222222222");
+      expect(assembly.manifest.missing).toBeUndefined();
+      const errors = stage
+        .synth()
+        .stacks.flatMap((artifact) => artifact.messages)
+        .filter((message) => message.level === "error");
+      expect(errors).toEqual([]);
+      Template.fromStack(pipelineStack).hasResourceProperties(
+        "AWS::CodeBuild::Project",
+        {
+          Source: {
+            BuildSpec: Match.serializedJson(
+              Match.objectLike({
+                phases: {
+                  build: {
+                    commands: Match.arrayWith([
+                      "bash scripts/fetch-deployed-template.sh deployed-templates ComprehendStagingStack eu-west-1 arn:aws:iam::222222222222:role/cdk-hnb659fds-lookup-role-222222222222-eu-west-1",
+                    ]),
+                  },
+                },
+              }),
+            ),
+          },
+        },
+      );
+    });
+  });
+});
@@ -1,7 +1,23 @@
 import {
   validateCidr,
   validateEnvironmentConfig,
+  validateDatabaseConfig,
+  validateAuthConfig,
+  validateAgentConfig,
+  validateFlowLogsConfig,
+  validateVpcEndpointsConfig,
+  validateMonitoringConfig,
+  validateSubnetTiers,
+  validateCidrOverlaps,
+  parseCidr,
+  cidrsOverlap,
+  cidrContains,
+  createNamedEnvironmentConfig,
+  subnetLayoutSize,
   EnvironmentConfig,
+  DatabaseConfig,
+  SubnetTierConfig,
+  DEFAULT_ENVIRONMENT_CONFIGS,
 } from "../../lib/types";
 
 describe("validateCidr", () => {
@@ -9,19 +25,21 @@ describe("validateCidr", () => {
     it("should accept 10.0.0.0/8 range", () => {
       expect(validateCidr("10.0.0.0/16")).toBe(true);
       expect(validateCidr("10.1.0.0/16")).toBe(true);
-      expect(validateCidr("10.255.255.255/8")).toBe(true);
+      expect(validateCidr("10.0.0.0/8")).toBe(true);
     });
 
     it("should accept 172.16.0.0/12 range", () => {
       expect(validateCidr("172.16.0.0/16")).toBe(true);
       expect(validateCidr("172.20.0.0/16")).toBe(true);
-      expect(validateCidr("172.31.255.255/12")).toBe(true);
+      expect(validateCidr("172.16.0.0/12")).toBe(true);
+      expect(validateCidr("172.31.255.240/28")).toBe(true);
     });
 
     it("should accept 192.168.0.0/16 range", () => {
       expect(validateCidr("192.168.0.0/24")).toBe(true);
       expect(validateCidr("192.168.1.0/24")).toBe(true);
-      expect(validateCidr("192.168.255.255/16")).toBe(true);
+      expect(validateCidr("192.168.0.0/16")).toBe(true);
+      expect(validateCidr("192.168.255.255/32")).toBe(true);
     });
   });
 
@@ -44,6 +62,26 @@ describe("validateCidr", () => {
       expect(validateCidr("172.32.0.0/16")).toBe(false); // Above 172.31
       expect(validateCidr("11.0.0.0/16")).toBe(false); // Not in 10.0.0.0/8
     });
+
+    it("should reject blocks with host bits set", () => {
+      expect(validateCidr("10.0.0.5/16")).toBe(false);
+      expect(validateCidr("10.255.255.255/8")).toBe(false);
+      expect(validateCidr("192.168.1.0/16")).toBe(false);
+    });
+
+    it("should reject prefixes wider than the private range", () => {
+      expect(validateCidr("0.0.0.0/4")).toBe(false);
+      expect(validateCidr("10.0.0.0/7")).toBe(false);
+      expect(validateCidr("172.16.0.0/11")).toBe(false);
+      expect(validateCidr("192.168.0.0/15")).toBe(false);
+    });
+
+    it("should reject out-of-range octets and prefix lengths", () => {
+      expect(validateCidr("10.0.0.256/32")).toBe(false);
+      expect(validateCidr("10.0.0.0/33")).toBe(false);
+      expect(validateCidr("10.00.0.0/16")).toBe(false);
+      expect(validateCidr("10.0.0.0/16 ")).toBe(false);
+    });
   });
 });
 
@@ -105,6 +143,7 @@ describe("validateEnvironmentConfig", () => {
         ...validConfig,
         accountId: "123456789012",
         region: "us-east-1",
+        availabilityZones: ["us-east-1a", "us-east-1b"],
       };
       const errors = validateEnvironmentConfig(config);
       expect(errors).toHaveLength(0);
@@ -115,10 +154,10 @@ describe("validateEnvironmentConfig", () => {
     it("should reject invalid environment names", () => {
       const config: EnvironmentConfig = {
         ...validConfig,
-        name: "invalid" as any,
+        name: "Dev_Alice",
         tags: {
           Application: "Comprehend",
-          Environment: "invalid", // Match the invalid name to avoid tag mismatch error
+          Environment: "Dev_Alice", // Match the invalid name to avoid tag mismatch error
           ManagedBy: "CDK",
         },
       };
@@ -127,6 +166,37 @@ describe("validateEnvironmentConfig", () => {
       expect(errors[0].field).toBe("name");
       expect(errors[0].message).toContain("Invalid environment name");
     });
+
+    it("should accept named environments", () => {
+      ["dev-alice", "pr-123", "qa2"].forEach((name) => {
+        const errors = validateEnvironmentConfig({
+          ...validConfig,
+          name,
+          tags: { ...validConfig.tags, Environment: name },
+        });
+        expect(errors).toHaveLength(0);
+      });
+    });
+
+    it("should reject names that cannot be used in resource names", () => {
+      ["1dev", "dev-", "dev.alice", "a".repeat(25)].forEach((name) => {
+        const errors = validateEnvironmentConfig({
+          ...validConfig,
+          name,
+          tags: { ...validConfig.tags, Environment: name },
+        });
+        expect(errors.map((e) => e.field)).toEqual(["name"]);
+      });
+    });
+
+    it("should reject unknown tiers", () => {
+      const errors = validateEnvironmentConfig({
+        ...validConfig,
+        tier: "qa" as any,
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("tier");
+    });
   });
 
   describe("invalid VPC CIDR", () => {
@@ -152,6 +222,101 @@ describe("validateEnvironmentConfig", () => {
     });
   });
 
+  describe("account and region", () => {
+    it("should reject account IDs that are not 12 digits", () => {
+      ["12345678901", "1234567890123", "12345678901a"].forEach((accountId) => {
+        const errors = validateEnvironmentConfig({ ...validConfig, accountId });
+        expect(errors.map((e) => e.field)).toEqual(["accountId"]);
+      });
+    });
+
+    it("should accept region identifiers", () => {
+      ["us-east-1", "ap-southeast-2", "us-gov-west-1"].forEach((region) => {
+        expect(
+          validateEnvironmentConfig({ ...validConfig, region }),
+        ).toHaveLength(0);
+      });
+    });
+
+    it("should reject malformed regions", () => {
+      ["us-east", "US-EAST-1", "useast1", "us-east-12"].forEach((region) => {
+        const errors = validateEnvironmentConfig({ ...validConfig, region });
+        expect(errors.map((e) => e.field)).toEqual(["region"]);
+      });
+    });
+  });
+
+  describe("availability zones", () => {
+    it("should require AZs when the account and region are set", () => {
+      const errors = validateEnvironmentConfig({
+        ...validConfig,
+        accountId: "123456789012",
+        region: "us-east-1",
+      });
+      expect(errors.map((e) => e.field)).toEqual(["availabilityZones"]);
+      expect(errors[0].message).toContain("does not depend on an AZ lookup");
+    });
+
+    it("should reject a list that does not match maxAzs", () => {
+      const errors = validateEnvironmentConfig({
+        ...validConfig,
+        availabilityZones: ["us-east-1a", "us-east-1b", "us-east-1c"],
+      });
+      expect(errors.map((e) => e.field)).toEqual(["availabilityZones"]);
+      expect(errors[0].message).toContain("one AZ per maxAzs (2), got: 3");
+    });
+
+    it("should reject AZs outside the region", () => {
+      const errors = validateEnvironmentConfig({
+        ...validConfig,
+        region: "eu-west-1",
+        availabilityZones: ["eu-west-1a", "us-east-1b"],
+      });
+      expect(errors.map((e) => e.message)).toEqual([
+        "AZ us-east-1b is not in region eu-west-1",
+      ]);
+    });
+  });
+
+  describe("alarm subscriptions", () => {
+    const prodConfig: EnvironmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+      accountId: "123456789012",
+    };
+
+    it("should require recipients for prod once it has an account", () => {
+      const errors = validateEnvironmentConfig(prodConfig);
+      expect(errors.map((e) => e.field)).toEqual(["monitoring.subscriptions"]);
+    });
+
+    it("should require recipients for named environments derived from prod", () => {
+      const errors = validateEnvironmentConfig({
+        ...createNamedEnvironmentConfig("pr-123", "prod"),
+        accountId: "123456789012",
+      });
+      expect(errors.map((e) => e.field)).toEqual(["monitoring.subscriptions"]);
+    });
+
+    it("should accept prod with recipients", () => {
+      expect(
+        validateEnvironmentConfig({
+          ...prodConfig,
+          monitoring: {
+            subscriptions: [
+              { protocol: "email", endpoint: "oncall@example.com" },
+            ],
+          },
+        }),
+      ).toHaveLength(0);
+    });
+
+    it("should not require recipients for an environment-agnostic prod", () => {
+      expect(
+        validateEnvironmentConfig(DEFAULT_ENVIRONMENT_CONFIGS.prod),
+      ).toHaveLength(0);
+    });
+  });
+
   describe("invalid maxAzs", () => {
     it("should reject maxAzs < 2", () => {
       const config: EnvironmentConfig = {
@@ -263,7 +428,7 @@ describe("validateEnvironmentConfig", () => {
   describe("multiple validation errors", () => {
     it("should return all validation errors", () => {
       const config: EnvironmentConfig = {
-        name: "invalid" as any,
+        name: "Invalid",
         vpcCidr: "not-a-cidr",
         maxAzs: 1,
         enableNatGateways: false,
@@ -275,22 +440,34 @@ describe("validateEnvironmentConfig", () => {
   });
 
   describe("edge cases", () => {
-    it("should accept CIDR with /8 netmask (largest private range)", () => {
+    it("should reject VPC CIDRs wider than /16", () => {
       const config: EnvironmentConfig = {
         ...validConfig,
         vpcCidr: "10.0.0.0/8",
       };
       const errors = validateEnvironmentConfig(config);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("vpcCidr");
+      expect(errors[0].message).toContain("/16 and /28");
     });
 
-    it("should accept CIDR with /32 netmask (single IP)", () => {
+    it("should reject VPC CIDRs narrower than /28", () => {
       const config: EnvironmentConfig = {
         ...validConfig,
         vpcCidr: "10.0.0.1/32",
       };
       const errors = validateEnvironmentConfig(config);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("vpcCidr");
+    });
+
+    it("should accept VPC CIDRs at the /16 and /28 bounds", () => {
+      const vpcCidrErrors = (vpcCidr: string) =>
+        validateEnvironmentConfig({ ...validConfig, vpcCidr }).filter(
+          (e) => e.field === "vpcCidr",
+        );
+      expect(vpcCidrErrors("10.0.0.0/16")).toHaveLength(0);
+      expect(vpcCidrErrors("10.0.0.0/28")).toHaveLength(0);
     });
 
     it("should accept CIDR at 172.16.0.0/12 boundary (start)", () => {
@@ -358,3 +535,577 @@ describe("validateEnvironmentConfig", () => {
     });
   });
 });
+
+describe("validateDatabaseConfig", () => {
+  const validDatabase: DatabaseConfig = {
+    minCapacity: 0.5,
+    maxCapacity: 4,
+    readers: 1,
+    backupRetentionDays: 7,
+  };
+
+  it("should accept valid database configuration", () => {
+    expect(validateDatabaseConfig(validDatabase)).toHaveLength(0);
+  });
+
+  it("should accept every default environment database configuration", () => {
+    Object.values(DEFAULT_ENVIRONMENT_CONFIGS).forEach((config) => {
+      expect(validateEnvironmentConfig(config)).toHaveLength(0);
+    });
+  });
+
+  it("should reject minCapacity below 0.5 ACUs", () => {
+    const errors = validateDatabaseConfig({
+      ...validDatabase,
+      minCapacity: 0.25,
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("database.minCapacity");
+  });
+
+  it("should reject maxCapacity above 256 ACUs", () => {
+    const errors = validateDatabaseConfig({
+      ...validDatabase,
+      maxCapacity: 512,
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("database.maxCapacity");
+  });
+
+  it("should reject minCapacity greater than maxCapacity", () => {
+    const errors = validateDatabaseConfig({
+      ...validDatabase,
+      minCapacity: 8,
+      maxCapacity: 4,
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain("cannot exceed maxCapacity");
+  });
+
+  it("should reject reader counts out of range", () => {
+    const errors = validateDatabaseConfig({ ...validDatabase, readers: 16 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("database.readers");
+  });
+
+  it("should reject backup retention out of range", () => {
+    expect(
+      validateDatabaseConfig({ ...validDatabase, backupRetentionDays: 0 }),
+    ).toHaveLength(1);
+    expect(
+      validateDatabaseConfig({ ...validDatabase, backupRetentionDays: 36 }),
+    ).toHaveLength(1);
+  });
+
+  it("should surface database errors through validateEnvironmentConfig", () => {
+    const config: EnvironmentConfig = {
+      name: "dev",
+      vpcCidr: "10.0.0.0/16",
+      maxAzs: 2,
+      enableNatGateways: false,
+      tags: {
+        Application: "Comprehend",
+        Environment: "dev",
+        ManagedBy: "CDK",
+      },
+      database: { ...validDatabase, backupRetentionDays: 0 },
+    };
+    const errors = validateEnvironmentConfig(config);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("database.backupRetentionDays");
+  });
+});
+
+describe("validateAuthConfig", () => {
+  it("should accept every MFA mode", () => {
+    expect(validateAuthConfig({ mfa: "off" })).toHaveLength(0);
+    expect(validateAuthConfig({ mfa: "optional" })).toHaveLength(0);
+    expect(validateAuthConfig({ mfa: "required" })).toHaveLength(0);
+  });
+
+  it("should accept configuration without an MFA mode", () => {
+    expect(validateAuthConfig({})).toHaveLength(0);
+  });
+
+  it("should reject an unknown MFA mode", () => {
+    const errors = validateAuthConfig({ mfa: "sometimes" as any });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("auth.mfa");
+  });
+
+  it("should surface auth errors from validateEnvironmentConfig", () => {
+    const config: EnvironmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.dev,
+      auth: { mfa: "always" as any },
+    };
+    const errors = validateEnvironmentConfig(config);
+    expect(errors.map((e) => e.field)).toContain("auth.mfa");
+  });
+});
+
+describe("validateAgentConfig", () => {
+  it("should accept a model ID with the default token limit", () => {
+    expect(
+      validateAgentConfig({
+        modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+      }),
+    ).toHaveLength(0);
+  });
+
+  it("should reject an empty model ID", () => {
+    const errors = validateAgentConfig({ modelId: " " });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("agent.modelId");
+  });
+
+  it("should reject maxTokens outside 1-8192", () => {
+    const modelId = "anthropic.claude-3-haiku-20240307-v1:0";
+    expect(validateAgentConfig({ modelId, maxTokens: 0 })[0].field).toBe(
+      "agent.maxTokens",
+    );
+    expect(validateAgentConfig({ modelId, maxTokens: 10000 })).toHaveLength(1);
+    expect(validateAgentConfig({ modelId, maxTokens: 1.5 })).toHaveLength(1);
+  });
+
+  it("should surface agent errors from validateEnvironmentConfig", () => {
+    const config: EnvironmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.dev,
+      agent: { modelId: "" },
+    };
+    const errors = validateEnvironmentConfig(config);
+    expect(errors.map((e) => e.field)).toContain("agent.modelId");
+  });
+});
+
+describe("validateFlowLogsConfig", () => {
+  it("should accept an empty config (all defaults)", () => {
+    expect(validateFlowLogsConfig({})).toHaveLength(0);
+  });
+
+  it("should accept the default staging and prod flow log settings", () => {
+    expect(
+      validateFlowLogsConfig(DEFAULT_ENVIRONMENT_CONFIGS.staging.flowLogs!),
+    ).toHaveLength(0);
+    expect(
+      validateFlowLogsConfig(DEFAULT_ENVIRONMENT_CONFIGS.prod.flowLogs!),
+    ).toHaveLength(0);
+  });
+
+  it("should reject an unknown destination or traffic type", () => {
+    const errors = validateFlowLogsConfig({
+      destination: "kinesis" as any,
+      trafficType: "DROPPED" as any,
+    });
+    expect(errors.map((e) => e.field)).toEqual([
+      "flowLogs.destination",
+      "flowLogs.trafficType",
+    ]);
+  });
+
+  it("should only accept CloudWatch retention periods for CloudWatch Logs", () => {
+    expect(validateFlowLogsConfig({ retentionDays: 90 })).toHaveLength(0);
+    const errors = validateFlowLogsConfig({ retentionDays: 45 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("flowLogs.retentionDays");
+  });
+
+  it("should accept any positive whole number of days for S3", () => {
+    expect(
+      validateFlowLogsConfig({ destination: "s3", retentionDays: 45 }),
+    ).toHaveLength(0);
+    expect(
+      validateFlowLogsConfig({ destination: "s3", retentionDays: 0 }),
+    ).toHaveLength(1);
+    expect(
+      validateFlowLogsConfig({ destination: "s3", retentionDays: 1.5 }),
+    ).toHaveLength(1);
+  });
+
+  it("should reject empty, malformed or repeated log format fields", () => {
+    expect(
+      validateFlowLogsConfig({ logFormat: ["srcaddr", "pkt-dstaddr"] }),
+    ).toHaveLength(0);
+    expect(validateFlowLogsConfig({ logFormat: [] })).toHaveLength(1);
+    expect(validateFlowLogsConfig({ logFormat: ["${srcaddr}"] })).toHaveLength(
+      1,
+    );
+    expect(
+      validateFlowLogsConfig({ logFormat: ["srcaddr", "srcaddr"] }),
+    ).toHaveLength(1);
+  });
+
+  it("should surface flow log errors from validateEnvironmentConfig", () => {
+    const config: EnvironmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+      flowLogs: { retentionDays: 2 },
+    };
+    const errors = validateEnvironmentConfig(config);
+    expect(errors.map((e) => e.field)).toContain("flowLogs.retentionDays");
+  });
+});
+
+describe("validateVpcEndpointsConfig", () => {
+  it("should accept the default endpoint settings for every environment", () => {
+    Object.values(DEFAULT_ENVIRONMENT_CONFIGS).forEach((config) => {
+      expect(validateVpcEndpointsConfig(config.vpcEndpoints!)).toHaveLength(0);
+    });
+  });
+
+  it("should accept gateway endpoints only", () => {
+    expect(validateVpcEndpointsConfig({ interfaceEndpoints: [] })).toHaveLength(
+      0,
+    );
+  });
+
+  it("should reject unsupported interface endpoint services", () => {
+    const errors = validateVpcEndpointsConfig({
+      interfaceEndpoints: ["secretsmanager", "ec2" as any],
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("vpcEndpoints.interfaceEndpoints");
+    expect(errors[0].message).toContain("ec2");
+  });
+
+  it("should reject repeated services", () => {
+    expect(
+      validateVpcEndpointsConfig({ interfaceEndpoints: ["sts", "sts"] }),
+    ).toHaveLength(1);
+  });
+});
+
+describe("validateMonitoringConfig", () => {
+  it("should accept the default monitoring settings for every environment", () => {
+    Object.values(DEFAULT_ENVIRONMENT_CONFIGS).forEach((config) => {
+      expect(validateMonitoringConfig(config.monitoring!)).toHaveLength(0);
+    });
+  });
+
+  it("should accept a subscription for each protocol", () => {
+    expect(
+      validateMonitoringConfig({
+        subscriptions: [
+          { protocol: "email", endpoint: "oncall@example.com" },
+          { protocol: "sms", endpoint: "+15555550100" },
+          { protocol: "https", endpoint: "https://hooks.example.com/alarms" },
+        ],
+      }),
+    ).toHaveLength(0);
+  });
+
+  it("should reject thresholds that are not positive", () => {
+    const errors = validateMonitoringConfig({
+      thresholds: { lambdaErrors: 0, apiLatencyMs: -1 },
+    });
+    expect(errors.map((e) => e.field)).toEqual([
+      "monitoring.thresholds.lambdaErrors",
+      "monitoring.thresholds.apiLatencyMs",
+    ]);
+  });
+
+  it("should reject CPU thresholds above 100 percent", () => {
+    const errors = validateMonitoringConfig({
+      thresholds: { databaseCpuPercent: 120 },
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("monitoring.thresholds.databaseCpuPercent");
+  });
+
+  it("should reject unknown protocols", () => {
+    const errors = validateMonitoringConfig({
+      subscriptions: [{ protocol: "slack" as any, endpoint: "#alerts" }],
+    });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("monitoring.subscriptions[0].protocol");
+  });
+
+  it("should reject endpoints that do not match the protocol", () => {
+    const errors = validateMonitoringConfig({
+      subscriptions: [
+        { protocol: "email", endpoint: "oncall@example.com" },
+        { protocol: "sms", endpoint: "555-0100" },
+        { protocol: "https", endpoint: "http://hooks.example.com" },
+      ],
+    });
+    expect(errors.map((e) => e.field)).toEqual([
+      "monitoring.subscriptions[1].endpoint",
+      "monitoring.subscriptions[2].endpoint",
+    ]);
+  });
+});
+
+describe("validateSubnetTiers", () => {
+  const tiers: SubnetTierConfig[] = [
+    { name: "Public", type: "public", cidrMask: 24 },
+    { name: "Private", type: "private", cidrMask: 23 },
+    { name: "Data", type: "isolated", cidrMask: 26 },
+    { name: "Reserved", type: "isolated", cidrMask: 22, reserved: true },
+  ];
+
+  it("should accept the default subnet tiers for every environment", () => {
+    Object.values(DEFAULT_ENVIRONMENT_CONFIGS).forEach((config) => {
+      expect(
+        validateSubnetTiers(config.subnets!, config.vpcCidr, config.maxAzs),
+      ).toHaveLength(0);
+    });
+  });
+
+  it("should accept tiers that fill the VPC exactly", () => {
+    expect(
+      validateSubnetTiers(
+        [
+          { name: "Public", type: "public", cidrMask: 26 },
+          { name: "Private", type: "private", cidrMask: 26 },
+        ],
+        "10.0.0.0/24",
+        2,
+      ),
+    ).toHaveLength(0);
+  });
+
+  it("should reject tiers that do not fit in the VPC for maxAzs", () => {
+    // 3 x /24 public, aligned to /22, then 3 x /22 private needs a /20
+    const errors = validateSubnetTiers(
+      [
+        { name: "Public", type: "public", cidrMask: 24 },
+        { name: "Private", type: "private", cidrMask: 22 },
+      ],
+      "10.0.0.0/21",
+      3,
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("subnets");
+    expect(errors[0].message).toContain("10.0.0.0/21");
+  });
+
+  it("should count alignment gaps when checking the fit", () => {
+    // 2 x /26 + 2 x /25 is 384 addresses, but the /25s start at .128
+    const layout: SubnetTierConfig[] = [
+      { name: "Public", type: "public", cidrMask: 26 },
+      { name: "Data", type: "isolated", cidrMask: 28 },
+      { name: "Private", type: "private", cidrMask: 25 },
+    ];
+    expect(validateSubnetTiers(layout, "10.0.0.0/23", 2)).toHaveLength(0);
+    expect(validateSubnetTiers(layout, "10.0.0.0/24", 2)).toHaveLength(1);
+  });
+
+  it("should count reserved tiers against the VPC", () => {
+    // 1664 addresses without the reserved tier, 4096 with it
+    expect(
+      validateSubnetTiers(
+        tiers.filter((tier) => !tier.reserved),
+        "10.0.0.0/21",
+        2,
+      ),
+    ).toHaveLength(0);
+    const errors = validateSubnetTiers(tiers, "10.0.0.0/21", 2);
+    expect(errors.map((e) => e.field)).toEqual(["subnets"]);
+  });
+
+  it("should reject masks outside /16 to /28", () => {
+    const errors = validateSubnetTiers(
+      [
+        { name: "Public", type: "public", cidrMask: 15 },
+        { name: "Private", type: "private", cidrMask: 29 },
+      ],
+      "10.0.0.0/16",
+      2,
+    );
+    expect(errors.map((e) => e.field)).toEqual([
+      "subnets[0].cidrMask",
+      "subnets[1].cidrMask",
+    ]);
+  });
+
+  it("should reject duplicate or malformed tier names", () => {
+    const errors = validateSubnetTiers(
+      [
+        { name: "Private", type: "private", cidrMask: 24 },
+        { name: "Private", type: "isolated", cidrMask: 24 },
+        { name: "data-tier", type: "isolated", cidrMask: 24 },
+      ],
+      "10.0.0.0/16",
+      2,
+    );
+    expect(errors.map((e) => e.field)).toEqual([
+      "subnets[1].name",
+      "subnets[2].name",
+    ]);
+  });
+
+  it("should reject unknown tier types", () => {
+    const errors = validateSubnetTiers(
+      [
+        { name: "Private", type: "private", cidrMask: 24 },
+        { name: "Edge", type: "edge" as any, cidrMask: 24 },
+      ],
+      "10.0.0.0/16",
+      2,
+    );
+    expect(errors.map((e) => e.field)).toEqual(["subnets[1].type"]);
+  });
+
+  it("should require a private tier for the backend functions", () => {
+    const errors = validateSubnetTiers(
+      [
+        { name: "Public", type: "public", cidrMask: 24 },
+        { name: "Private", type: "private", cidrMask: 24, reserved: true },
+      ],
+      "10.0.0.0/16",
+      2,
+    );
+    expect(errors.map((e) => e.field)).toEqual(["subnets"]);
+  });
+
+  it("should require a public tier when NAT gateways are enabled", () => {
+    const config: EnvironmentConfig = {
+      ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+      subnets: [{ name: "Private", type: "private", cidrMask: 24 }],
+    };
+    const errors = validateEnvironmentConfig(config);
+    expect(errors).toContainEqual({
+      field: "subnets",
+      message: "NAT gateways require a public subnet tier",
+    });
+  });
+});
+
+describe("parseCidr", () => {
+  it("should return the network address and prefix length", () => {
+    expect(parseCidr("10.1.0.0/16")).toEqual({
+      network: 10 * 2 ** 24 + 1 * 2 ** 16,
+      prefixLength: 16,
+    });
+    expect(parseCidr("0.0.0.0/0")).toEqual({ network: 0, prefixLength: 0 });
+    expect(parseCidr("255.255.255.255/32")?.network).toBe(2 ** 32 - 1);
+  });
+
+  it("should reject malformed blocks and host bits", () => {
+    expect(parseCidr("10.0.0/16")).toBeUndefined();
+    expect(parseCidr("10.0.0.0")).toBeUndefined();
+    expect(parseCidr("10.0.0.5/16")).toBeUndefined();
+  });
+});
+
+describe("cidrsOverlap", () => {
+  const cidr = (value: string) => parseCidr(value)!;
+
+  it("should detect nested and identical blocks", () => {
+    expect(cidrsOverlap(cidr("10.0.0.0/16"), cidr("10.0.0.0/16"))).toBe(true);
+    expect(cidrsOverlap(cidr("10.0.0.0/8"), cidr("10.2.0.0/16"))).toBe(true);
+    expect(cidrsOverlap(cidr("10.2.4.0/24"), cidr("10.2.0.0/16"))).toBe(true);
+  });
+
+  it("should not report adjacent blocks", () => {
+    expect(cidrsOverlap(cidr("10.0.0.0/16"), cidr("10.1.0.0/16"))).toBe(false);
+    expect(cidrsOverlap(cidr("10.0.0.0/17"), cidr("10.0.128.0/17"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("validateCidrOverlaps", () => {
+  it("should accept the default environment configurations", () => {
+    expect(
+      validateCidrOverlaps(Object.values(DEFAULT_ENVIRONMENT_CONFIGS)),
+    ).toHaveLength(0);
+  });
+
+  it("should reject overlapping CIDRs in the same account", () => {
+    const errors = validateCidrOverlaps([
+      DEFAULT_ENVIRONMENT_CONFIGS.dev,
+      { ...DEFAULT_ENVIRONMENT_CONFIGS.staging, vpcCidr: "10.0.128.0/17" },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("staging.vpcCidr");
+    expect(errors[0].message).toContain("10.0.0.0/16 (dev)");
+  });
+
+  it("should allow overlapping CIDRs in different accounts", () => {
+    expect(
+      validateCidrOverlaps([
+        { ...DEFAULT_ENVIRONMENT_CONFIGS.dev, accountId: "111111111111" },
+        {
+          ...DEFAULT_ENVIRONMENT_CONFIGS.prod,
+          vpcCidr: "10.0.0.0/16",
+          accountId: "222222222222",
+        },
+      ]),
+    ).toHaveLength(0);
+  });
+
+  it("should treat configs without an account ID as sharing one", () => {
+    expect(
+      validateCidrOverlaps([
+        DEFAULT_ENVIRONMENT_CONFIGS.dev,
+        { ...DEFAULT_ENVIRONMENT_CONFIGS.prod, vpcCidr: "10.0.0.0/16" },
+      ]),
+    ).toHaveLength(1);
+  });
+});
+
+describe("createNamedEnvironmentConfig", () => {
+  it("should derive settings from the base tier", () => {
+    const config = createNamedEnvironmentConfig("pr-123", "staging");
+    expect(config).toEqual(
+      expect.objectContaining({
+        name: "pr-123",
+        tier: "staging",
+        maxAzs: DEFAULT_ENVIRONMENT_CONFIGS.staging.maxAzs,
+        database: {
+          ...DEFAULT_ENVIRONMENT_CONFIGS.staging.database,
+          deletionProtection: false,
+        },
+      }),
+    );
+    expect(config.tags.Environment).toBe("pr-123");
+    expect(validateEnvironmentConfig(config)).toHaveLength(0);
+  });
+
+  it("should default to the dev tier", () => {
+    expect(createNamedEnvironmentConfig("dev-alice").tier).toBe("dev");
+  });
+
+  it("should allocate a stable CIDR sized for the subnet layout", () => {
+    const config = createNamedEnvironmentConfig("dev-alice");
+    const cidr = parseCidr(config.vpcCidr)!;
+    const layoutSize = subnetLayoutSize(config.subnets!, config.maxAzs);
+
+    expect(createNamedEnvironmentConfig("dev-alice").vpcCidr).toBe(
+      config.vpcCidr,
+    );
+    expect(2 ** (32 - cidr.prefixLength)).toBeGreaterThanOrEqual(layoutSize);
+    expect(2 ** (31 - cidr.prefixLength)).toBeLessThan(layoutSize);
+    expect(cidrContains(parseCidr("10.128.0.0/9")!, cidr)).toBe(true);
+  });
+
+  it("should not overlap the base tiers or each other", () => {
+    const configs = [
+      ...Object.values(DEFAULT_ENVIRONMENT_CONFIGS),
+      createNamedEnvironmentConfig("dev-alice"),
+      createNamedEnvironmentConfig("dev-bob"),
+      createNamedEnvironmentConfig("pr-123", "prod"),
+    ];
+    expect(validateCidrOverlaps(configs)).toHaveLength(0);
+  });
+
+  it("should report named environments whose hashed CIDRs collide", () => {
+    const errors = validateCidrOverlaps([
+      createNamedEnvironmentConfig("pr-20"),
+      createNamedEnvironmentConfig("pr-46"),
+    ]);
+    expect(errors.map((e) => e.message)).toEqual([
+      "VPC CIDR 10.227.0.0/20 (pr-46) overlaps 10.227.0.0/20 (pr-20) in the same account",
+    ]);
+  });
+
+  it("should turn off deletion protection inherited from the tier", () => {
+    const config = createNamedEnvironmentConfig("pr-123", "prod");
+    expect(DEFAULT_ENVIRONMENT_CONFIGS.prod.database?.deletionProtection).toBe(
+      true,
+    );
+    expect(config.database).toEqual({
+      ...DEFAULT_ENVIRONMENT_CONFIGS.prod.database,
+      deletionProtection: false,
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+
+/**
+ * Cognito user ID used by test events
+ */
+export const TEST_USER_ID = "6f1c2b9e-3a4d-4e5f-8a7b-9c0d1e2f3a4b";
+
+/**
+ * Builds an API Gateway proxy event as delivered through the Cognito authorizer
+ */
+export function createApiEvent(
+  overrides: Partial<APIGatewayProxyEvent> & {
+    httpMethod: string;
+    resource: string;
+  },
+): APIGatewayProxyEvent {
+  return {
+    path: overrides.resource,
+    body: null,
+    headers: {},
+    multiValueHeaders: {},
+    isBase64Encoded: false,
+    pathParameters: null,
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    stageVariables: null,
+    requestContext: {
+      authorizer: { claims: { sub: TEST_USER_ID } },
+    } as any,
+    ...overrides,
+  };
+}
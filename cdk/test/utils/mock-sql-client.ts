@@ -0,0 +1,100 @@
+import {
+  SqlClient,
+  TransactionalSqlClient,
+} from "../../lib/lambda/shared/types";
+
+interface CapturedQuery {
+  text: string;
+  values?: unknown[];
+}
+
+type QueryResponse = { rows: Record<string, any>[]; rowCount?: number };
+
+/**
+ * Mock SQL client for testing providers
+ * Captures every query and returns configured rows for matching SQL
+ */
+export class MockSqlClient implements SqlClient {
+  private capturedQueries: CapturedQuery[] = [];
+  private responses: Array<{ pattern: RegExp; response: QueryResponse }> = [];
+  private failures: Array<{ pattern: RegExp; error: Error }> = [];
+
+  /**
+   * Returns the given rows for queries matching the pattern
+   * Later registrations take precedence over earlier ones
+   */
+  withResponse(pattern: RegExp, rows: Record<string, any>[]): this {
+    this.responses.unshift({
+      pattern,
+      response: { rows, rowCount: rows.length },
+    });
+    return this;
+  }
+
+  /**
+   * Throws the given error for queries matching the pattern
+   */
+  withFailure(pattern: RegExp, error: Error): this {
+    this.failures.push({ pattern, error });
+    return this;
+  }
+
+  /**
+   * Gets all captured queries
+   */
+  getCapturedQueries(): CapturedQuery[] {
+    return this.capturedQueries;
+  }
+
+  /**
+   * Gets the SQL text of all captured queries
+   */
+  getCapturedSql(): string[] {
+    return this.capturedQueries.map((q) => q.text);
+  }
+
+  async query<R extends Record<string, any> = Record<string, any>>(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: R[]; rowCount: number | null }> {
+    this.capturedQueries.push({ text, values });
+
+    const failure = this.failures.find((f) => f.pattern.test(text));
+    if (failure) {
+      throw failure.error;
+    }
+
+    const match = this.responses.find((r) => r.pattern.test(text));
+    if (match) {
+      return {
+        rows: match.response.rows as R[],
+        rowCount: match.response.rowCount ?? match.response.rows.length,
+      };
+    }
+
+    return { rows: [], rowCount: 0 };
+  }
+}
+
+/**
+ * Mock database for testing agents
+ * Runs transactions on the same mock client and records BEGIN/COMMIT/ROLLBACK
+ */
+export class MockDatabase
+  extends MockSqlClient
+  implements TransactionalSqlClient
+{
+  async transaction<T>(
+    callback: (client: SqlClient) => Promise<T>,
+  ): Promise<T> {
+    await this.query("BEGIN");
+    try {
+      const result = await callback(this);
+      await this.query("COMMIT");
+      return result;
+    } catch (error) {
+      await this.query("ROLLBACK");
+      throw error;
+    }
+  }
+}
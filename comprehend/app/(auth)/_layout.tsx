@@ -0,0 +1,15 @@
+import { Stack } from "expo-router";
+
+/**
+ * Auth screens, shown to signed-out users
+ */
+export default function AuthLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false, animation: "fade" }}>
+      <Stack.Screen name="sign-in" />
+      <Stack.Screen name="sign-up" />
+      <Stack.Screen name="forgot-password" />
+      <Stack.Screen name="verify-email" />
+    </Stack>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { AuthScreen } from "@/components/auth/AuthScreen";
+import { FORGOT_PASSWORD_IDS } from "@/components/components.ids";
+import { Button } from "@/components/ui/Button";
+import { TextField } from "@/components/ui/TextField";
+import { ROUTES } from "@/constants/app";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { withReturnTo } from "@/utils/navigation";
+
+/**
+ * Forgot-password screen
+ * Requests a reset code, then sets the new password with it
+ */
+export default function ForgotPasswordScreen() {
+  const { state, actions } = useAuthContext();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ returnTo?: string }>();
+  const [username, setUsername] = useState("");
+  const [code, setCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+
+  const handleSendCode = async () => {
+    try {
+      const delivery = await actions.forgotPassword(username);
+      setCodeSentTo(delivery?.destination ?? "your email address");
+    } catch {
+      // The error is shown from state
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await actions.confirmPassword(username, code.trim(), newPassword);
+      router.replace({
+        pathname: ROUTES.SIGN_IN,
+        params: withReturnTo(params.returnTo, { username: username.trim() }),
+      });
+    } catch {
+      // The error is shown from state
+    }
+  };
+
+  const handleBack = () => {
+    actions.clearError();
+    router.back();
+  };
+
+  if (codeSentTo) {
+    return (
+      <AuthScreen
+        title="Reset password"
+        message={`Enter the code we sent to ${codeSentTo} and choose a new password.`}
+        error={state.error}
+      >
+        <TextField
+          label="Reset code"
+          value={code}
+          onChangeText={setCode}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          testID={FORGOT_PASSWORD_IDS.CODE_INPUT}
+        />
+        <TextField
+          label="New password"
+          value={newPassword}
+          onChangeText={setNewPassword}
+          secureTextEntry
+          autoComplete="new-password"
+          textContentType="newPassword"
+          testID={FORGOT_PASSWORD_IDS.NEW_PASSWORD_INPUT}
+        />
+        <Button
+          title="Reset password"
+          onPress={handleReset}
+          disabled={code.trim() === "" || newPassword === ""}
+          loading={state.isLoading}
+          testID={FORGOT_PASSWORD_IDS.RESET_BUTTON}
+        />
+        <Button
+          title="Send a new code"
+          variant="link"
+          onPress={handleSendCode}
+          disabled={state.isLoading}
+          testID={FORGOT_PASSWORD_IDS.SUBMIT_BUTTON}
+        />
+      </AuthScreen>
+    );
+  }
+
+  return (
+    <AuthScreen title="Reset password" error={state.error}>
+      <TextField
+        label="Username or email"
+        value={username}
+        onChangeText={setUsername}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="username"
+        textContentType="username"
+        testID={FORGOT_PASSWORD_IDS.USERNAME_INPUT}
+      />
+      <Button
+        title="Send reset code"
+        onPress={handleSendCode}
+        disabled={username.trim() === ""}
+        loading={state.isLoading}
+        testID={FORGOT_PASSWORD_IDS.SUBMIT_BUTTON}
+      />
+      <Button
+        title="Back to sign in"
+        variant="link"
+        onPress={handleBack}
+        testID={FORGOT_PASSWORD_IDS.SIGN_IN_LINK}
+      />
+    </AuthScreen>
+  );
+}
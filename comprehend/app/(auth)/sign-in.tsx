@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { AuthScreen } from "@/components/auth/AuthScreen";
+import { MFA_IDS, SIGN_IN_IDS } from "@/components/components.ids";
+import { Button } from "@/components/ui/Button";
+import { TextField } from "@/components/ui/TextField";
+import { ROUTES } from "@/constants/app";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { AUTH_ERROR_CODES, AuthError } from "@/utils/auth/errors";
+import { withReturnTo } from "@/utils/navigation";
+
+/**
+ * Sign-in screen
+ * Asks for an MFA code when the account requires one. The auth gate opens
+ * the requested deep link once the session is set.
+ */
+export default function SignInScreen() {
+  const { state, actions } = useAuthContext();
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    returnTo?: string;
+    username?: string;
+  }>();
+  const [username, setUsername] = useState(params.username ?? "");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+
+  const canSubmit = username.trim() !== "" && password !== "";
+
+  const handleSignIn = async () => {
+    try {
+      await actions.signIn(username, password);
+    } catch (error) {
+      if (
+        error instanceof AuthError &&
+        error.code === AUTH_ERROR_CODES.USER_NOT_CONFIRMED
+      ) {
+        router.push({
+          pathname: ROUTES.VERIFY_EMAIL,
+          params: withReturnTo(params.returnTo, { username: username.trim() }),
+        });
+      }
+    }
+  };
+
+  const handleConfirmMfa = async () => {
+    try {
+      await actions.confirmMfa(code);
+    } catch {
+      // The error is shown from state
+    }
+  };
+
+  const handleCancelMfa = () => {
+    setCode("");
+    actions.cancelMfa();
+  };
+
+  // Keep the deep link when moving between auth screens
+  const goTo = (
+    pathname: typeof ROUTES.SIGN_UP | typeof ROUTES.FORGOT_PASSWORD,
+  ) => {
+    actions.clearError();
+    router.push({ pathname, params: withReturnTo(params.returnTo) });
+  };
+
+  if (state.pendingMfa) {
+    const message =
+      state.pendingMfa.type === "SMS_MFA"
+        ? `Enter the code sent to ${state.pendingMfa.destination ?? "your phone"}.`
+        : "Enter the code from your authenticator app.";
+
+    return (
+      <AuthScreen
+        title="Verification code"
+        message={message}
+        error={state.error}
+      >
+        <TextField
+          label="Code"
+          value={code}
+          onChangeText={setCode}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          testID={MFA_IDS.CODE_INPUT}
+        />
+        <Button
+          title="Verify"
+          onPress={handleConfirmMfa}
+          disabled={code.trim() === ""}
+          loading={state.isLoading}
+          testID={MFA_IDS.SUBMIT_BUTTON}
+        />
+        <Button
+          title="Cancel"
+          variant="link"
+          onPress={handleCancelMfa}
+          testID={MFA_IDS.CANCEL_BUTTON}
+        />
+      </AuthScreen>
+    );
+  }
+
+  return (
+    <AuthScreen title="Sign in" error={state.error}>
+      <TextField
+        label="Username or email"
+        value={username}
+        onChangeText={setUsername}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="username"
+        textContentType="username"
+        testID={SIGN_IN_IDS.USERNAME_INPUT}
+      />
+      <TextField
+        label="Password"
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        autoComplete="current-password"
+        textContentType="password"
+        onSubmitEditing={canSubmit ? handleSignIn : undefined}
+        testID={SIGN_IN_IDS.PASSWORD_INPUT}
+      />
+      <Button
+        title="Sign in"
+        onPress={handleSignIn}
+        disabled={!canSubmit}
+        loading={state.isLoading}
+        testID={SIGN_IN_IDS.SUBMIT_BUTTON}
+      />
+      <Button
+        title="Forgot password?"
+        variant="link"
+        onPress={() => goTo(ROUTES.FORGOT_PASSWORD)}
+        testID={SIGN_IN_IDS.FORGOT_PASSWORD_LINK}
+      />
+      <Button
+        title="Create an account"
+        variant="outline"
+        onPress={() => goTo(ROUTES.SIGN_UP)}
+        testID={SIGN_IN_IDS.SIGN_UP_LINK}
+      />
+    </AuthScreen>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { AuthScreen } from "@/components/auth/AuthScreen";
+import { SIGN_UP_IDS } from "@/components/components.ids";
+import { Button } from "@/components/ui/Button";
+import { TextField } from "@/components/ui/TextField";
+import { ROUTES } from "@/constants/app";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { withReturnTo } from "@/utils/navigation";
+
+/**
+ * Sign-up screen
+ * Continues to email verification with the emailed code
+ */
+export default function SignUpScreen() {
+  const { state, actions } = useAuthContext();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ returnTo?: string }>();
+  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const canSubmit =
+    username.trim() !== "" && email.trim() !== "" && password !== "";
+
+  const handleSignUp = async () => {
+    try {
+      const result = await actions.signUp({
+        username: username.trim(),
+        email: email.trim(),
+        password,
+      });
+      const nextParams = withReturnTo(params.returnTo, {
+        username: username.trim(),
+      });
+
+      if (result.userConfirmed) {
+        router.replace({ pathname: ROUTES.SIGN_IN, params: nextParams });
+        return;
+      }
+      router.replace({
+        pathname: ROUTES.VERIFY_EMAIL,
+        params: result.codeDelivery
+          ? { ...nextParams, destination: result.codeDelivery.destination }
+          : nextParams,
+      });
+    } catch {
+      // The error is shown from state
+    }
+  };
+
+  const handleBack = () => {
+    actions.clearError();
+    router.back();
+  };
+
+  return (
+    <AuthScreen title="Create account" error={state.error}>
+      <TextField
+        label="Username"
+        value={username}
+        onChangeText={setUsername}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="username-new"
+        textContentType="username"
+        testID={SIGN_UP_IDS.USERNAME_INPUT}
+      />
+      <TextField
+        label="Email"
+        value={email}
+        onChangeText={setEmail}
+        autoCapitalize="none"
+        autoComplete="email"
+        keyboardType="email-address"
+        textContentType="emailAddress"
+        testID={SIGN_UP_IDS.EMAIL_INPUT}
+      />
+      <TextField
+        label="Password"
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        autoComplete="new-password"
+        textContentType="newPassword"
+        testID={SIGN_UP_IDS.PASSWORD_INPUT}
+      />
+      <Button
+        title="Sign up"
+        onPress={handleSignUp}
+        disabled={!canSubmit}
+        loading={state.isLoading}
+        testID={SIGN_UP_IDS.SUBMIT_BUTTON}
+      />
+      <Button
+        title="Already have an account? Sign in"
+        variant="link"
+        onPress={handleBack}
+        testID={SIGN_UP_IDS.SIGN_IN_LINK}
+      />
+    </AuthScreen>
+  );
+}
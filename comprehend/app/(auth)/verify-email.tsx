@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { AuthScreen } from "@/components/auth/AuthScreen";
+import { VERIFY_EMAIL_IDS } from "@/components/components.ids";
+import { Button } from "@/components/ui/Button";
+import { TextField } from "@/components/ui/TextField";
+import { ROUTES } from "@/constants/app";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { withReturnTo } from "@/utils/navigation";
+
+/**
+ * Email verification screen
+ * Reached after sign-up, or when an unverified account signs in
+ */
+export default function VerifyEmailScreen() {
+  const { state, actions } = useAuthContext();
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    username: string;
+    destination?: string;
+    returnTo?: string;
+  }>();
+  const [code, setCode] = useState("");
+  const [destination, setDestination] = useState(params.destination);
+
+  const username = params.username ?? "";
+
+  const handleVerify = async () => {
+    try {
+      await actions.confirmSignUp(username, code.trim());
+      router.replace({
+        pathname: ROUTES.SIGN_IN,
+        params: withReturnTo(params.returnTo, { username }),
+      });
+    } catch {
+      // The error is shown from state
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      const delivery = await actions.resendConfirmationCode(username);
+      setDestination(delivery?.destination);
+    } catch {
+      // The error is shown from state
+    }
+  };
+
+  const message = `Enter the code we sent to ${destination ?? "your email address"}.`;
+
+  return (
+    <AuthScreen title="Verify your email" message={message} error={state.error}>
+      <TextField
+        label="Verification code"
+        value={code}
+        onChangeText={setCode}
+        keyboardType="number-pad"
+        autoComplete="one-time-code"
+        textContentType="oneTimeCode"
+        testID={VERIFY_EMAIL_IDS.CODE_INPUT}
+      />
+      <Button
+        title="Verify"
+        onPress={handleVerify}
+        disabled={code.trim() === "" || username === ""}
+        loading={state.isLoading}
+        testID={VERIFY_EMAIL_IDS.SUBMIT_BUTTON}
+      />
+      <Button
+        title="Send a new code"
+        variant="link"
+        onPress={handleResend}
+        disabled={username === "" || state.isLoading}
+        testID={VERIFY_EMAIL_IDS.RESEND_BUTTON}
+      />
+    </AuthScreen>
+  );
+}
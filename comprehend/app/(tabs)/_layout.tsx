@@ -0,0 +1,52 @@
+import { ComponentProps } from "react";
+import { Ionicons } from "@expo/vector-icons";
+import { Tabs } from "expo-router";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+
+type IconName = ComponentProps<typeof Ionicons>["name"];
+
+/**
+ * Renders a tab bar icon
+ */
+function tabIcon(name: IconName) {
+  function TabIcon({ color, size }: { color: string; size: number }) {
+    return <Ionicons name={name} color={color} size={size} />;
+  }
+  return TabIcon;
+}
+
+/**
+ * Main tabs, shown to signed-in users
+ */
+export default function TabsLayout() {
+  const colors = useThemeColors();
+
+  return (
+    <Tabs
+      screenOptions={{
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textSecondary,
+      }}
+    >
+      <Tabs.Screen
+        name="index"
+        options={{ title: "Reader", tabBarIcon: tabIcon("book-outline") }}
+      />
+      <Tabs.Screen
+        name="vocab"
+        options={{ title: "Vocab", tabBarIcon: tabIcon("list-outline") }}
+      />
+      <Tabs.Screen
+        name="history"
+        options={{ title: "History", tabBarIcon: tabIcon("time-outline") }}
+      />
+      <Tabs.Screen
+        name="profile"
+        options={{
+          title: "Profile",
+          tabBarIcon: tabIcon("person-circle-outline"),
+        }}
+      />
+    </Tabs>
+  );
+}
@@ -0,0 +1,13 @@
+import { EmptyState } from "@/components/ui/EmptyState";
+
+/**
+ * History tab
+ */
+export default function HistoryScreen() {
+  return (
+    <EmptyState
+      title="No exercises yet"
+      message="Exercises you have read will show up here."
+    />
+  );
+}
@@ -0,0 +1,18 @@
+import { ExerciseReader } from "@/components/reader/ExerciseReader";
+import { useExercise } from "@/hooks/use-exercise";
+
+/**
+ * Reader tab
+ * Shows the most recently read exercise
+ */
+export default function ReaderScreen() {
+  const result = useExercise();
+
+  return (
+    <ExerciseReader
+      {...result}
+      emptyTitle="No exercises yet"
+      emptyMessage="Exercises you add will show up here to read."
+    />
+  );
+}
@@ -0,0 +1,64 @@
+import { StyleSheet, Text, View } from "react-native";
+import { PROFILE_SCREEN_IDS } from "@/components/components.ids";
+import { Button } from "@/components/ui/Button";
+import { Spacing, Typography } from "@/constants/theme";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+
+/**
+ * Profile tab
+ * Signing out sends the user back to sign-in through the auth gate
+ */
+export default function ProfileScreen() {
+  const { state, actions } = useAuthContext();
+  const colors = useThemeColors();
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.background }]}
+      testID={PROFILE_SCREEN_IDS.CONTAINER}
+    >
+      <Text
+        style={[styles.username, { color: colors.text }]}
+        accessibilityRole="header"
+        testID={PROFILE_SCREEN_IDS.USERNAME}
+      >
+        {state.user?.username}
+      </Text>
+      {state.user?.email ? (
+        <Text
+          style={[styles.email, { color: colors.textSecondary }]}
+          testID={PROFILE_SCREEN_IDS.EMAIL}
+        >
+          {state.user.email}
+        </Text>
+      ) : null}
+      <Button
+        title="Sign out"
+        variant="outline"
+        onPress={actions.signOut}
+        loading={state.isLoading}
+        style={styles.signOut}
+        testID={PROFILE_SCREEN_IDS.SIGN_OUT_BUTTON}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: Spacing.lg,
+  },
+  username: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+  },
+  email: {
+    fontSize: Typography.fontSize.md,
+    marginTop: Spacing.xs,
+  },
+  signOut: {
+    marginTop: Spacing.xl,
+  },
+});
@@ -0,0 +1,13 @@
+import { EmptyState } from "@/components/ui/EmptyState";
+
+/**
+ * Vocab tab
+ */
+export default function VocabScreen() {
+  return (
+    <EmptyState
+      title="No vocab yet"
+      message="Words you save while reading will show up here."
+    />
+  );
+}
@@ -1,5 +1,37 @@
-import { Stack } from "expo-router";
+import { useEffect } from "react";
+import { SplashScreen, Stack } from "expo-router";
+import { AuthProvider, useAuthContext } from "@/contexts/AuthContext";
+import { useProtectedRoute } from "@/hooks/use-protected-route";
+
+SplashScreen.preventAutoHideAsync();
+
+/**
+ * Navigator behind the auth gate
+ * The splash screen stays up until the session has been restored
+ */
+function RootNavigator() {
+  const { state } = useAuthContext();
+  useProtectedRoute();
+
+  useEffect(() => {
+    if (!state.isLoading) {
+      SplashScreen.hideAsync();
+    }
+  }, [state.isLoading]);
+
+  return (
+    <Stack>
+      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+      <Stack.Screen name="exercises/[exerciseId]" />
+    </Stack>
+  );
+}
 
 export default function RootLayout() {
-  return <Stack />;
+  return (
+    <AuthProvider>
+      <RootNavigator />
+    </AuthProvider>
+  );
 }
@@ -0,0 +1,22 @@
+import { Stack, useLocalSearchParams } from "expo-router";
+import { ExerciseReader } from "@/components/reader/ExerciseReader";
+import { useExercise } from "@/hooks/use-exercise";
+
+/**
+ * Exercise screen, the target of exercise deep links
+ */
+export default function ExerciseScreen() {
+  const { exerciseId } = useLocalSearchParams<{ exerciseId: string }>();
+  const result = useExercise(exerciseId);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: result.exercise?.title ?? "Exercise" }} />
+      <ExerciseReader
+        {...result}
+        emptyTitle="Exercise not found"
+        emptyMessage="This exercise may have been deleted."
+      />
+    </>
+  );
+}
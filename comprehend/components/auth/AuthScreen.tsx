@@ -0,0 +1,100 @@
+import { ReactNode } from "react";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+} from "react-native";
+import { AUTH_SCREEN_IDS } from "@/components/components.ids";
+import { Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+
+interface AuthScreenProps {
+  /** Screen heading */
+  title: string;
+  /** Guidance shown under the heading, e.g. where a code was sent */
+  message?: string | null;
+  /** Error of the last failed action */
+  error?: string | null;
+  /** Form fields and buttons */
+  children: ReactNode;
+}
+
+/**
+ * AuthScreen lays out the forms of the auth screens
+ * Keeps the fields above the keyboard and announces errors
+ */
+export function AuthScreen({
+  title,
+  message,
+  error,
+  children,
+}: AuthScreenProps) {
+  const colors = useThemeColors();
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.flex, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      <ScrollView
+        contentContainerStyle={styles.container}
+        keyboardShouldPersistTaps="handled"
+        testID={AUTH_SCREEN_IDS.CONTAINER}
+      >
+        <Text
+          style={[styles.title, { color: colors.text }]}
+          accessibilityRole="header"
+          testID={AUTH_SCREEN_IDS.TITLE}
+        >
+          {title}
+        </Text>
+        {message ? (
+          <Text
+            style={[styles.message, { color: colors.textSecondary }]}
+            testID={AUTH_SCREEN_IDS.MESSAGE}
+          >
+            {message}
+          </Text>
+        ) : null}
+        {error ? (
+          <Text
+            style={[styles.error, { color: colors.error }]}
+            accessibilityLiveRegion="assertive"
+            accessibilityRole="alert"
+            testID={AUTH_SCREEN_IDS.ERROR}
+          >
+            {error}
+          </Text>
+        ) : null}
+        {children}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flexGrow: 1,
+    justifyContent: "center",
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  title: {
+    fontSize: Typography.fontSize.xxl,
+    fontWeight: Typography.fontWeight.bold,
+    marginBottom: Spacing.lg,
+  },
+  message: {
+    fontSize: Typography.fontSize.md,
+    marginBottom: Spacing.md,
+  },
+  error: {
+    fontSize: Typography.fontSize.sm,
+    marginBottom: Spacing.md,
+  },
+});
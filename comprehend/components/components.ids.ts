@@ -0,0 +1,109 @@
+/**
+ * Test IDs for components
+ */
+
+export const READER_SCREEN_IDS = {
+  CONTAINER: "reader-screen-container",
+  TITLE: "reader-screen-title",
+  CONTENT: "reader-screen-content",
+  EMPTY: "reader-screen-empty",
+} as const;
+
+Object.freeze(READER_SCREEN_IDS);
+
+export const EXERCISE_READER_IDS = {
+  LOADING: "exercise-reader-loading",
+  RETRY_BUTTON: "exercise-reader-retry-button",
+} as const;
+
+Object.freeze(EXERCISE_READER_IDS);
+
+export const TOKEN_SPAN_IDS = {
+  token: (tokenId: string) => `token-span-${tokenId}`,
+} as const;
+
+export const LOOKUP_SHEET_IDS = {
+  CONTAINER: "lookup-sheet-container",
+  BACKDROP: "lookup-sheet-backdrop",
+  TOKEN_TEXT: "lookup-sheet-token-text",
+  VOCAB: "lookup-sheet-vocab",
+  READING: "lookup-sheet-reading",
+  EQUIVALENT: "lookup-sheet-equivalent",
+  NOT_SAVED: "lookup-sheet-not-saved",
+  CLOSE_BUTTON: "lookup-sheet-close-button",
+} as const;
+
+Object.freeze(LOOKUP_SHEET_IDS);
+
+export const AUTH_SCREEN_IDS = {
+  CONTAINER: "auth-screen-container",
+  TITLE: "auth-screen-title",
+  MESSAGE: "auth-screen-message",
+  ERROR: "auth-screen-error",
+} as const;
+
+Object.freeze(AUTH_SCREEN_IDS);
+
+export const SIGN_IN_IDS = {
+  USERNAME_INPUT: "sign-in-username-input",
+  PASSWORD_INPUT: "sign-in-password-input",
+  SUBMIT_BUTTON: "sign-in-submit-button",
+  SIGN_UP_LINK: "sign-in-sign-up-link",
+  FORGOT_PASSWORD_LINK: "sign-in-forgot-password-link",
+} as const;
+
+Object.freeze(SIGN_IN_IDS);
+
+export const SIGN_UP_IDS = {
+  USERNAME_INPUT: "sign-up-username-input",
+  EMAIL_INPUT: "sign-up-email-input",
+  PASSWORD_INPUT: "sign-up-password-input",
+  SUBMIT_BUTTON: "sign-up-submit-button",
+  SIGN_IN_LINK: "sign-up-sign-in-link",
+} as const;
+
+Object.freeze(SIGN_UP_IDS);
+
+export const FORGOT_PASSWORD_IDS = {
+  USERNAME_INPUT: "forgot-password-username-input",
+  SUBMIT_BUTTON: "forgot-password-submit-button",
+  CODE_INPUT: "forgot-password-code-input",
+  NEW_PASSWORD_INPUT: "forgot-password-new-password-input",
+  RESET_BUTTON: "forgot-password-reset-button",
+  SIGN_IN_LINK: "forgot-password-sign-in-link",
+} as const;
+
+Object.freeze(FORGOT_PASSWORD_IDS);
+
+export const EMPTY_STATE_IDS = {
+  CONTAINER: "empty-state-container",
+  TITLE: "empty-state-title",
+  MESSAGE: "empty-state-message",
+} as const;
+
+Object.freeze(EMPTY_STATE_IDS);
+
+export const PROFILE_SCREEN_IDS = {
+  CONTAINER: "profile-screen-container",
+  USERNAME: "profile-screen-username",
+  EMAIL: "profile-screen-email",
+  SIGN_OUT_BUTTON: "profile-screen-sign-out-button",
+} as const;
+
+Object.freeze(PROFILE_SCREEN_IDS);
+
+export const MFA_IDS = {
+  CODE_INPUT: "mfa-code-input",
+  SUBMIT_BUTTON: "mfa-submit-button",
+  CANCEL_BUTTON: "mfa-cancel-button",
+} as const;
+
+Object.freeze(MFA_IDS);
+
+export const VERIFY_EMAIL_IDS = {
+  CODE_INPUT: "verify-email-code-input",
+  SUBMIT_BUTTON: "verify-email-submit-button",
+  RESEND_BUTTON: "verify-email-resend-button",
+} as const;
+
+Object.freeze(VERIFY_EMAIL_IDS);
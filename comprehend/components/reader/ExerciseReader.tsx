@@ -0,0 +1,72 @@
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import { EXERCISE_READER_IDS } from "@/components/components.ids";
+import { Button } from "@/components/ui/Button";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { Spacing } from "@/constants/theme";
+import { UseExerciseResult } from "@/hooks/use-exercise";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { Reader } from "./Reader";
+
+interface ExerciseReaderProps extends UseExerciseResult {
+  /** Heading shown when there is no exercise */
+  emptyTitle: string;
+  /** Explanation shown when there is no exercise */
+  emptyMessage: string;
+}
+
+/**
+ * Shows an exercise loaded with useExercise in the Reader
+ * A spinner while it loads, and a retry button when loading failed
+ */
+export function ExerciseReader({
+  exercise,
+  isLoading,
+  error,
+  reload,
+  emptyTitle,
+  emptyMessage,
+}: ExerciseReaderProps) {
+  const colors = useThemeColors();
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.loading, { backgroundColor: colors.background }]}
+        testID={EXERCISE_READER_IDS.LOADING}
+      >
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <EmptyState title="Could not load the exercise" message={error}>
+        <Button
+          title="Try again"
+          variant="outline"
+          onPress={reload}
+          style={styles.retry}
+          testID={EXERCISE_READER_IDS.RETRY_BUTTON}
+        />
+      </EmptyState>
+    );
+  }
+
+  if (!exercise) {
+    return <EmptyState title={emptyTitle} message={emptyMessage} />;
+  }
+
+  return <Reader exercise={exercise} />;
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  retry: {
+    marginTop: Spacing.lg,
+  },
+});
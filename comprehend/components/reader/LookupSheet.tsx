@@ -0,0 +1,137 @@
+import { Modal, Pressable, StyleSheet, Text, View } from "react-native";
+import { LOOKUP_SHEET_IDS } from "@/components/components.ids";
+import { TOUCH_TARGET } from "@/constants/accessibility";
+import { BorderRadius, Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { ReaderToken } from "@/utils/reader";
+
+interface LookupSheetProps {
+  /** Token being looked up; the sheet is hidden when null */
+  token: ReaderToken | null;
+  /** Called when the sheet is dismissed */
+  onClose: () => void;
+}
+
+/**
+ * LookupSheet shows the reading and meaning of a tapped token
+ *
+ * Slides up from the bottom of the screen over a dimmed backdrop. Tokens
+ * without saved vocab show the token text with a note that it has not been
+ * saved yet.
+ */
+export function LookupSheet({ token, onClose }: LookupSheetProps) {
+  const colors = useThemeColors();
+  const vocab = token?.vocab;
+
+  return (
+    <Modal
+      visible={token !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.backdrop, { backgroundColor: colors.overlay }]}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close lookup"
+        testID={LOOKUP_SHEET_IDS.BACKDROP}
+      />
+      <View
+        style={[styles.sheet, { backgroundColor: colors.surface }]}
+        accessibilityViewIsModal
+        testID={LOOKUP_SHEET_IDS.CONTAINER}
+      >
+        <Text
+          style={[styles.tokenText, { color: colors.text }]}
+          accessibilityRole="header"
+          testID={LOOKUP_SHEET_IDS.TOKEN_TEXT}
+        >
+          {vocab?.vocab ?? token?.text}
+        </Text>
+
+        {vocab ? (
+          <View style={styles.details} testID={LOOKUP_SHEET_IDS.VOCAB}>
+            {vocab.reading ? (
+              <Text
+                style={[styles.reading, { color: colors.textSecondary }]}
+                accessibilityLabel={`Reading: ${vocab.reading}`}
+                testID={LOOKUP_SHEET_IDS.READING}
+              >
+                {vocab.reading}
+              </Text>
+            ) : null}
+            <Text
+              style={[styles.equivalent, { color: colors.text }]}
+              accessibilityLabel={`Meaning: ${vocab.equivalent}`}
+              testID={LOOKUP_SHEET_IDS.EQUIVALENT}
+            >
+              {vocab.equivalent}
+            </Text>
+          </View>
+        ) : (
+          <Text
+            style={[styles.notSaved, { color: colors.textSecondary }]}
+            testID={LOOKUP_SHEET_IDS.NOT_SAVED}
+          >
+            This word is not in your vocab yet.
+          </Text>
+        )}
+
+        <Pressable
+          style={[styles.closeButton, { borderColor: colors.border }]}
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close"
+          testID={LOOKUP_SHEET_IDS.CLOSE_BUTTON}
+        >
+          <Text style={[styles.closeText, { color: colors.primary }]}>
+            Close
+          </Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xl,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+  },
+  tokenText: {
+    fontSize: Typography.fontSize.xxl,
+    fontWeight: Typography.fontWeight.bold,
+  },
+  details: {
+    marginTop: Spacing.sm,
+  },
+  reading: {
+    fontSize: Typography.fontSize.lg,
+  },
+  equivalent: {
+    fontSize: Typography.fontSize.md,
+    marginTop: Spacing.sm,
+  },
+  notSaved: {
+    fontSize: Typography.fontSize.md,
+    marginTop: Spacing.sm,
+  },
+  closeButton: {
+    minHeight: TOUCH_TARGET.RECOMMENDED_SIZE,
+    marginTop: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeText: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+});
@@ -0,0 +1,88 @@
+import { useMemo, useState } from "react";
+import { ScrollView, StyleSheet, Text } from "react-native";
+import { READER_SCREEN_IDS } from "@/components/components.ids";
+import { Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { ExerciseDetail } from "@/types/exercise";
+import { buildReaderTokens, ReaderToken } from "@/utils/reader";
+import { LookupSheet } from "./LookupSheet";
+import { TokenizedText } from "./TokenizedText";
+
+interface ReaderProps {
+  /** Exercise to read, with its tokens and vocab */
+  exercise: ExerciseDetail;
+}
+
+/**
+ * Reader displays an exercise for reading with tap-to-lookup
+ *
+ * Tapping a token opens a lookup sheet with the reading and meaning of the
+ * vocab it is linked to. Content that has not been tokenized yet is shown
+ * as plain text.
+ */
+export function Reader({ exercise }: ReaderProps) {
+  const colors = useThemeColors();
+  const [selectedToken, setSelectedToken] = useState<ReaderToken | null>(null);
+
+  const tokens = useMemo(
+    () =>
+      buildReaderTokens(
+        exercise.content,
+        exercise.tokens ?? [],
+        exercise.vocab ?? [],
+      ),
+    [exercise],
+  );
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: colors.background }}
+      contentContainerStyle={styles.container}
+      testID={READER_SCREEN_IDS.CONTAINER}
+    >
+      <Text
+        style={[styles.title, { color: colors.text }]}
+        accessibilityRole="header"
+        testID={READER_SCREEN_IDS.TITLE}
+      >
+        {exercise.title}
+      </Text>
+
+      {tokens.length > 0 ? (
+        <TokenizedText
+          tokens={tokens}
+          selectedTokenId={selectedToken?.token.tokenId}
+          onTokenPress={setSelectedToken}
+          testID={READER_SCREEN_IDS.CONTENT}
+        />
+      ) : (
+        <Text
+          style={[styles.plainContent, { color: colors.text }]}
+          testID={READER_SCREEN_IDS.EMPTY}
+        >
+          {exercise.content}
+        </Text>
+      )}
+
+      <LookupSheet
+        token={selectedToken}
+        onClose={() => setSelectedToken(null)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+  },
+  title: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.bold,
+    marginBottom: Spacing.md,
+  },
+  plainContent: {
+    fontSize: Typography.fontSize.lg,
+    lineHeight: Typography.fontSize.lg * Typography.lineHeight.loose,
+  },
+});
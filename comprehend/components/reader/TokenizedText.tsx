@@ -0,0 +1,74 @@
+import { StyleSheet, Text } from "react-native";
+import { TOKEN_SPAN_IDS } from "@/components/components.ids";
+import { Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { ReaderToken } from "@/utils/reader";
+
+interface TokenizedTextProps {
+  /** Tokens to render, in reading order */
+  tokens: ReaderToken[];
+  /** ID of the token currently being looked up */
+  selectedTokenId?: string;
+  /** Called when a token is tapped */
+  onTokenPress: (token: ReaderToken) => void;
+  /** Test ID */
+  testID?: string;
+}
+
+/**
+ * TokenizedText renders exercise content as tappable token spans
+ *
+ * Tokens are nested Text elements so the content wraps like ordinary text.
+ * Tokens linked to saved vocab are highlighted and underlined, so they are
+ * distinguishable without relying on color.
+ */
+export function TokenizedText({
+  tokens,
+  selectedTokenId,
+  onTokenPress,
+  testID,
+}: TokenizedTextProps) {
+  const colors = useThemeColors();
+
+  return (
+    <Text style={[styles.content, { color: colors.text }]} testID={testID}>
+      {tokens.map((readerToken) => {
+        const { token, text, vocab, isWhitespace } = readerToken;
+        if (isWhitespace) {
+          return <Text key={token.tokenId}>{text}</Text>;
+        }
+
+        const isSelected = token.tokenId === selectedTokenId;
+        return (
+          <Text
+            key={token.tokenId}
+            onPress={() => onTokenPress(readerToken)}
+            style={[
+              vocab && {
+                backgroundColor: colors.vocabHighlight,
+                textDecorationLine: "underline",
+                textDecorationColor: colors.vocabUnderline,
+              },
+              isSelected && { backgroundColor: colors.selectedHighlight },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={vocab ? `${text}, saved vocab` : text}
+            accessibilityHint="Shows the reading and meaning"
+            accessibilityState={{ selected: isSelected }}
+            testID={TOKEN_SPAN_IDS.token(token.tokenId)}
+          >
+            {text}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    fontSize: Typography.fontSize.lg,
+    lineHeight: Typography.fontSize.lg * Typography.lineHeight.loose,
+    paddingVertical: Spacing.sm,
+  },
+});
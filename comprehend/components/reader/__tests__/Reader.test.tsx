@@ -0,0 +1,143 @@
+import { fireEvent, render, screen } from "@testing-library/react-native";
+import {
+  LOOKUP_SHEET_IDS,
+  READER_SCREEN_IDS,
+  TOKEN_SPAN_IDS,
+} from "@/components/components.ids";
+import {
+  createMockExercise,
+  MOCK_CONTENT,
+} from "@/utils/__tests__/fixtures/exercise.fixtures";
+import { Reader } from "../Reader";
+
+describe("Reader", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("Rendering", () => {
+    it("Should render the title and the tokenized content", () => {
+      // Arrange & Act
+      render(<Reader exercise={createMockExercise()} />);
+
+      // Assert
+      expect(screen.getByTestId(READER_SCREEN_IDS.TITLE)).toHaveTextContent(
+        "Beim Frühstück",
+      );
+      expect(screen.getByTestId(READER_SCREEN_IDS.CONTENT)).toHaveTextContent(
+        MOCK_CONTENT,
+      );
+      expect(screen.queryByTestId(LOOKUP_SHEET_IDS.CONTAINER)).toBeNull();
+    });
+
+    it("Should show content that is not tokenized yet as plain text", () => {
+      // Arrange & Act
+      render(
+        <Reader exercise={createMockExercise({ tokens: [], vocab: [] })} />,
+      );
+
+      // Assert
+      expect(screen.getByTestId(READER_SCREEN_IDS.EMPTY)).toHaveTextContent(
+        MOCK_CONTENT,
+      );
+      expect(screen.queryByTestId(READER_SCREEN_IDS.CONTENT)).toBeNull();
+    });
+  });
+
+  describe("Lookup", () => {
+    it("Should show the reading and meaning of a tapped vocab token", () => {
+      // Arrange
+      render(<Reader exercise={createMockExercise()} />);
+
+      // Act
+      fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t3")));
+
+      // Assert
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.TOKEN_TEXT)).toHaveTextContent(
+        "trinken",
+      );
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.READING)).toHaveTextContent(
+        "trin·ken",
+      );
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.EQUIVALENT)).toHaveTextContent(
+        "to drink",
+      );
+      expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t3"))).toHaveProp(
+        "accessibilityState",
+        { selected: true },
+      );
+    });
+
+    it("Should show the vocab of a phrase from any of its tokens", () => {
+      // Arrange
+      render(<Reader exercise={createMockExercise()} />);
+
+      // Act
+      fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t7")));
+
+      // Assert
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.TOKEN_TEXT)).toHaveTextContent(
+        "grüner Tee",
+      );
+      expect(screen.queryByTestId(LOOKUP_SHEET_IDS.READING)).toBeNull();
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.EQUIVALENT)).toHaveTextContent(
+        "green tea",
+      );
+    });
+
+    it("Should note when a tapped token is not saved vocab", () => {
+      // Arrange
+      render(<Reader exercise={createMockExercise()} />);
+
+      // Act
+      fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t1")));
+
+      // Assert
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.TOKEN_TEXT)).toHaveTextContent(
+        "Ich",
+      );
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.NOT_SAVED)).toBeTruthy();
+      expect(screen.queryByTestId(LOOKUP_SHEET_IDS.VOCAB)).toBeNull();
+    });
+
+    it("Should move the selection to the next tapped token", () => {
+      // Arrange
+      render(<Reader exercise={createMockExercise()} />);
+
+      // Act
+      fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t3")));
+      fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t1")));
+
+      // Assert
+      expect(screen.getByTestId(LOOKUP_SHEET_IDS.TOKEN_TEXT)).toHaveTextContent(
+        "Ich",
+      );
+      expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t3"))).toHaveProp(
+        "accessibilityState",
+        { selected: false },
+      );
+    });
+
+    it.each([LOOKUP_SHEET_IDS.CLOSE_BUTTON, LOOKUP_SHEET_IDS.BACKDROP])(
+      "Should close the lookup and clear the selection from %s",
+      (closeTestId) => {
+        // Arrange
+        render(<Reader exercise={createMockExercise()} />);
+        fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t3")));
+
+        // Act
+        // The backdrop is hidden from screen readers behind the modal sheet
+        fireEvent.press(
+          screen.getByTestId(closeTestId, { includeHiddenElements: true }),
+        );
+
+        // Assert
+        expect(screen.queryByTestId(LOOKUP_SHEET_IDS.CONTAINER)).toBeNull();
+        expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t3"))).toHaveProp(
+          "accessibilityState",
+          { selected: false },
+        );
+      },
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { fireEvent, render, screen } from "@testing-library/react-native";
+import { TOKEN_SPAN_IDS } from "@/components/components.ids";
+import {
+  createMockExercise,
+  MOCK_CONTENT,
+} from "@/utils/__tests__/fixtures/exercise.fixtures";
+import { buildReaderTokens } from "@/utils/reader";
+import { TokenizedText } from "../TokenizedText";
+
+describe("TokenizedText", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const createReaderTokens = () => {
+    const mockExercise = createMockExercise();
+    return buildReaderTokens(
+      mockExercise.content,
+      mockExercise.tokens!,
+      mockExercise.vocab!,
+    );
+  };
+
+  describe("Rendering", () => {
+    it("Should render the content as one run of text", () => {
+      // Arrange & Act
+      render(
+        <TokenizedText
+          tokens={createReaderTokens()}
+          onTokenPress={jest.fn()}
+          testID="content"
+        />,
+      );
+
+      // Assert
+      expect(screen.getByTestId("content")).toHaveTextContent(MOCK_CONTENT);
+    });
+
+    it("Should make every token but whitespace tappable", () => {
+      // Arrange & Act
+      render(
+        <TokenizedText
+          tokens={createReaderTokens()}
+          onTokenPress={jest.fn()}
+        />,
+      );
+
+      // Assert
+      ["t1", "t3", "t5", "t7", "t8"].forEach((tokenId) =>
+        expect(screen.getByTestId(TOKEN_SPAN_IDS.token(tokenId))).toBeTruthy(),
+      );
+      ["t2", "t4", "t6"].forEach((tokenId) =>
+        expect(screen.queryByTestId(TOKEN_SPAN_IDS.token(tokenId))).toBeNull(),
+      );
+    });
+
+    it("Should label tokens linked to saved vocab", () => {
+      // Arrange & Act
+      render(
+        <TokenizedText
+          tokens={createReaderTokens()}
+          onTokenPress={jest.fn()}
+        />,
+      );
+
+      // Assert
+      expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t3"))).toHaveProp(
+        "accessibilityLabel",
+        "trinke, saved vocab",
+      );
+      expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t1"))).toHaveProp(
+        "accessibilityLabel",
+        "Ich",
+      );
+    });
+  });
+
+  describe("Selection", () => {
+    it("Should pass the tapped token to onTokenPress", () => {
+      // Arrange
+      const mockOnTokenPress = jest.fn();
+      const tokens = createReaderTokens();
+      render(<TokenizedText tokens={tokens} onTokenPress={mockOnTokenPress} />);
+
+      // Act
+      fireEvent.press(screen.getByTestId(TOKEN_SPAN_IDS.token("t5")));
+
+      // Assert
+      expect(mockOnTokenPress).toHaveBeenCalledTimes(1);
+      expect(mockOnTokenPress).toHaveBeenCalledWith(
+        tokens.find((token) => token.token.tokenId === "t5"),
+      );
+    });
+
+    it("Should mark only the selected token as selected", () => {
+      // Arrange & Act
+      render(
+        <TokenizedText
+          tokens={createReaderTokens()}
+          selectedTokenId="t7"
+          onTokenPress={jest.fn()}
+        />,
+      );
+
+      // Assert
+      expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t7"))).toHaveProp(
+        "accessibilityState",
+        { selected: true },
+      );
+      expect(screen.getByTestId(TOKEN_SPAN_IDS.token("t3"))).toHaveProp(
+        "accessibilityState",
+        { selected: false },
+      );
+    });
+  });
+});
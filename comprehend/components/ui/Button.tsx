@@ -0,0 +1,92 @@
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Text,
+  ViewStyle,
+} from "react-native";
+import { TOUCH_TARGET } from "@/constants/accessibility";
+import { BorderRadius, Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+
+export type ButtonVariant = "primary" | "outline" | "link";
+
+interface ButtonProps {
+  /** Button text */
+  title: string;
+  /** Press handler */
+  onPress: () => void;
+  /** Visual variant */
+  variant?: ButtonVariant;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Shows a spinner and disables the button */
+  loading?: boolean;
+  /** Additional container style */
+  style?: ViewStyle;
+  /** Test ID */
+  testID?: string;
+}
+
+/**
+ * Reusable button with primary, outline and link variants
+ */
+export function Button({
+  title,
+  onPress,
+  variant = "primary",
+  disabled = false,
+  loading = false,
+  style,
+  testID,
+}: ButtonProps) {
+  const colors = useThemeColors();
+  const isDisabled = disabled || loading;
+
+  const containerStyle = [
+    styles.button,
+    variant === "primary" && { backgroundColor: colors.primary },
+    variant === "outline" && {
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    isDisabled && styles.disabled,
+    style,
+  ];
+  const textColor = variant === "primary" ? "#FFFFFF" : colors.primary;
+
+  return (
+    <Pressable
+      style={containerStyle}
+      onPress={onPress}
+      disabled={isDisabled}
+      accessibilityRole={variant === "link" ? "link" : "button"}
+      accessibilityLabel={title}
+      accessibilityState={{ disabled: isDisabled, busy: loading }}
+      testID={testID}
+    >
+      {loading ? (
+        <ActivityIndicator color={textColor} />
+      ) : (
+        <Text style={[styles.text, { color: textColor }]}>{title}</Text>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    minHeight: TOUCH_TARGET.RECOMMENDED_SIZE,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  text: {
+    fontSize: Typography.fontSize.md,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+});
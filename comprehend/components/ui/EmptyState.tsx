@@ -0,0 +1,62 @@
+import { ReactNode } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { EMPTY_STATE_IDS } from "@/components/components.ids";
+import { Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+
+interface EmptyStateProps {
+  /** Short heading */
+  title: string;
+  /** Explanation shown under the heading */
+  message: string;
+  /** Shown under the message, e.g. a retry button */
+  children?: ReactNode;
+}
+
+/**
+ * Centered placeholder for screens with nothing to show
+ */
+export function EmptyState({ title, message, children }: EmptyStateProps) {
+  const colors = useThemeColors();
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.background }]}
+      testID={EMPTY_STATE_IDS.CONTAINER}
+    >
+      <Text
+        style={[styles.title, { color: colors.text }]}
+        accessibilityRole="header"
+        testID={EMPTY_STATE_IDS.TITLE}
+      >
+        {title}
+      </Text>
+      <Text
+        style={[styles.message, { color: colors.textSecondary }]}
+        testID={EMPTY_STATE_IDS.MESSAGE}
+      >
+        {message}
+      </Text>
+      {children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  title: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+    marginBottom: Spacing.sm,
+    textAlign: "center",
+  },
+  message: {
+    fontSize: Typography.fontSize.md,
+    textAlign: "center",
+  },
+});
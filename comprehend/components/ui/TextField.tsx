@@ -0,0 +1,82 @@
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TextInputProps,
+  View,
+} from "react-native";
+import { TOUCH_TARGET } from "@/constants/accessibility";
+import { BorderRadius, Spacing, Typography } from "@/constants/theme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+
+interface TextFieldProps extends Omit<TextInputProps, "style"> {
+  /** Visible label, also used as the accessibility label */
+  label: string;
+  /** Validation message shown under the field */
+  error?: string;
+  /** Test ID of the input */
+  testID?: string;
+}
+
+/**
+ * Labelled text input with an optional error message
+ */
+export function TextField({
+  label,
+  error,
+  testID,
+  ...inputProps
+}: TextFieldProps) {
+  const colors = useThemeColors();
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            color: colors.text,
+            backgroundColor: colors.background,
+            borderColor: error ? colors.error : colors.border,
+          },
+        ]}
+        placeholderTextColor={colors.textSecondary}
+        accessibilityLabel={label}
+        accessibilityHint={error}
+        testID={testID}
+        {...inputProps}
+      />
+      {error ? (
+        <Text
+          style={[styles.error, { color: colors.error }]}
+          accessibilityLiveRegion="polite"
+        >
+          {error}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  label: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.medium,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    minHeight: TOUCH_TARGET.RECOMMENDED_SIZE,
+    paddingHorizontal: Spacing.md,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    fontSize: Typography.fontSize.md,
+  },
+  error: {
+    fontSize: Typography.fontSize.sm,
+    marginTop: Spacing.xs,
+  },
+});
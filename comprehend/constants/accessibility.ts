@@ -0,0 +1,8 @@
+/**
+ * Touch target sizes in points (WCAG 2.5.5, platform guidelines)
+ */
+export const TOUCH_TARGET = {
+  MIN_SIZE: 44,
+  RECOMMENDED_SIZE: 48,
+  MIN_SPACING: 8, // Minimum spacing between touch targets
+} as const;
@@ -0,0 +1,37 @@
+/**
+ * App routes
+ * Use these instead of hardcoding paths
+ */
+export const ROUTES = {
+  SIGN_IN: "/sign-in",
+  SIGN_UP: "/sign-up",
+  FORGOT_PASSWORD: "/forgot-password",
+  VERIFY_EMAIL: "/verify-email",
+  READER: "/",
+  VOCAB: "/vocab",
+  HISTORY: "/history",
+  PROFILE: "/profile",
+  EXERCISE: (exerciseId: string) =>
+    `/exercises/${encodeURIComponent(exerciseId)}` as const,
+} as const;
+
+/**
+ * Paths of the screens in the auth group
+ */
+export const AUTH_ROUTES: readonly string[] = [
+  ROUTES.SIGN_IN,
+  ROUTES.SIGN_UP,
+  ROUTES.FORGOT_PASSWORD,
+  ROUTES.VERIFY_EMAIL,
+];
+
+/**
+ * Route group holding the sign-in, sign-up, verification and
+ * forgot-password screens
+ */
+export const AUTH_GROUP = "(auth)";
+
+/**
+ * Query parameter carrying the path to open after signing in
+ */
+export const RETURN_TO_PARAM = "returnTo";
@@ -0,0 +1,18 @@
+/**
+ * App configuration from EXPO_PUBLIC_* environment variables
+ * Values come from the stack outputs of the target environment
+ */
+export const COGNITO_CONFIG = {
+  userPoolId: process.env.EXPO_PUBLIC_USER_POOL_ID ?? "",
+  clientId: process.env.EXPO_PUBLIC_USER_POOL_CLIENT_ID ?? "",
+} as const;
+
+/**
+ * How long before expiry the session is refreshed
+ */
+export const SESSION_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Comprehend API base URL, including the stage
+ */
+export const API_URL = process.env.EXPO_PUBLIC_API_URL ?? "";
@@ -0,0 +1,84 @@
+import { ExerciseDetail, Token } from "@/types/exercise";
+
+/**
+ * Token texts of the sample content, in order
+ */
+const SAMPLE_PIECES = [
+  "私",
+  "は",
+  "猫",
+  "が",
+  "大好き",
+  "です",
+  "。",
+  "毎日",
+  "、",
+  "猫",
+  "と",
+  "公園",
+  "で",
+  "遊び",
+  "ます",
+  "。",
+];
+
+const sampleTokens: Token[] = SAMPLE_PIECES.reduce<Token[]>(
+  (tokens, piece, order) => {
+    const startIndex =
+      tokens.length > 0 ? tokens[tokens.length - 1].endIndex : 0;
+    tokens.push({
+      tokenId: `sample-token-${order}`,
+      startIndex,
+      endIndex: startIndex + piece.length,
+      order,
+    });
+    return tokens;
+  },
+  [],
+);
+
+/**
+ * Development fixture: in development builds, the exercise screen shows it
+ * for /exercises/sample-exercise without calling the API
+ */
+export const SAMPLE_EXERCISE: ExerciseDetail = {
+  exerciseId: "sample-exercise",
+  title: "猫と公園",
+  content: SAMPLE_PIECES.join(""),
+  language: "ja",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  lastAccessedAt: "2024-01-01T00:00:00.000Z",
+  isArchived: false,
+  tokens: sampleTokens,
+  vocab: [
+    {
+      vocabId: "sample-vocab-cat",
+      vocab: "猫",
+      reading: "ねこ",
+      equivalent: "cat",
+      excerptStartIndex: 2,
+      excerptEndIndex: 3,
+      tokenIds: ["sample-token-2", "sample-token-9"],
+    },
+    {
+      vocabId: "sample-vocab-love",
+      vocab: "大好き",
+      reading: "だいすき",
+      equivalent: "to love, to like very much",
+      excerptStartIndex: 4,
+      excerptEndIndex: 7,
+      tokenIds: ["sample-token-4"],
+    },
+    {
+      vocabId: "sample-vocab-play",
+      vocab: "遊ぶ",
+      reading: "あそぶ",
+      equivalent: "to play",
+      excerptStartIndex: 18,
+      excerptEndIndex: 22,
+      tokenIds: ["sample-token-13", "sample-token-14"],
+    },
+  ],
+  messages: [],
+};
@@ -0,0 +1,88 @@
+/**
+ * Color palettes for light and dark mode
+ * Text colors meet 4.5:1 contrast against background and surface
+ */
+export const Colors = {
+  light: {
+    primary: "#007AFF",
+    background: "#FFFFFF",
+    surface: "#F2F2F7",
+    text: "#000000",
+    textSecondary: "#3C3C43",
+    border: "#C7C7CC",
+    error: "#D70015",
+    overlay: "rgba(0, 0, 0, 0.4)",
+    /** Background of tokens linked to saved vocab */
+    vocabHighlight: "#FFE8A3",
+    /** Underline of tokens linked to saved vocab */
+    vocabUnderline: "#8A6100",
+    /** Background of the token being looked up */
+    selectedHighlight: "#CCE4FF",
+  },
+  dark: {
+    primary: "#0A84FF",
+    background: "#000000",
+    surface: "#1C1C1E",
+    text: "#FFFFFF",
+    textSecondary: "#EBEBF5",
+    border: "#38383A",
+    error: "#FF6961",
+    overlay: "rgba(0, 0, 0, 0.6)",
+    vocabHighlight: "#5C4A12",
+    vocabUnderline: "#FFD45C",
+    selectedHighlight: "#0B3D73",
+  },
+} as const;
+
+/**
+ * Colors available in either mode
+ */
+export type ThemeColors = { [K in keyof typeof Colors.light]: string };
+
+/**
+ * Spacing scale
+ */
+export const Spacing = {
+  xs: 4,
+  sm: 8,
+  md: 16,
+  lg: 24,
+  xl: 32,
+  xxl: 48,
+} as const;
+
+/**
+ * Type scale
+ */
+export const Typography = {
+  fontSize: {
+    xs: 12,
+    sm: 14,
+    md: 16,
+    lg: 20,
+    xl: 24,
+    xxl: 32,
+  },
+  fontWeight: {
+    regular: "400" as const,
+    medium: "500" as const,
+    semibold: "600" as const,
+    bold: "700" as const,
+  },
+  lineHeight: {
+    tight: 1.2,
+    normal: 1.5,
+    loose: 1.8,
+  },
+} as const;
+
+/**
+ * Corner radius scale
+ */
+export const BorderRadius = {
+  sm: 4,
+  md: 8,
+  lg: 12,
+  xl: 16,
+  full: 9999,
+} as const;
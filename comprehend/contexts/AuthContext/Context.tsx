@@ -0,0 +1,91 @@
+import { createContext } from "react";
+import {
+  AuthSession,
+  AuthUser,
+  CodeDelivery,
+  MfaChallenge,
+  SignUpParams,
+  SignUpResult,
+} from "@/types/auth";
+
+/**
+ * State shape for AuthContext
+ */
+export interface AuthState {
+  /** True while a session is held */
+  isAuthenticated: boolean;
+  /** True while the stored session is restored or an action runs */
+  isLoading: boolean;
+  /** The signed-in user */
+  user: AuthUser | null;
+  /** Tokens of the current session */
+  session: AuthSession | null;
+  /** Error message of the last failed action */
+  error: string | null;
+  /** MFA challenge waiting for a code after signIn */
+  pendingMfa: MfaChallenge | null;
+}
+
+/**
+ * Actions available in AuthContext
+ * Failed actions set `error` and reject with an AuthError
+ */
+export interface AuthActions {
+  /** Register a new account; a verification code is emailed */
+  signUp: (params: SignUpParams) => Promise<SignUpResult>;
+  /** Verify the account's email with the emailed code */
+  confirmSignUp: (username: string, code: string) => Promise<void>;
+  /** Email a new verification code */
+  resendConfirmationCode: (
+    username: string,
+  ) => Promise<CodeDelivery | undefined>;
+  /** Sign in; sets `pendingMfa` when a second factor is needed */
+  signIn: (username: string, password: string) => Promise<void>;
+  /** Answer the pending MFA challenge */
+  confirmMfa: (code: string) => Promise<void>;
+  /** Abandon the pending MFA challenge */
+  cancelMfa: () => void;
+  /** Email a password reset code */
+  forgotPassword: (username: string) => Promise<CodeDelivery | undefined>;
+  /** Set a new password with the emailed reset code */
+  confirmPassword: (
+    username: string,
+    code: string,
+    newPassword: string,
+  ) => Promise<void>;
+  /** End the session and remove the stored tokens */
+  signOut: () => Promise<void>;
+  /** Renew the session tokens; resolves null when the session has ended */
+  refreshSession: () => Promise<AuthSession | null>;
+  /** ID token for API calls, refreshed first when it is about to expire */
+  getIdToken: () => Promise<string | null>;
+  /** Clear the last error */
+  clearError: () => void;
+}
+
+/**
+ * Complete context value combining state and actions
+ */
+export interface AuthContextValue {
+  state: AuthState;
+  actions: AuthActions;
+}
+
+/**
+ * State before the stored session has been restored
+ */
+export const initialAuthState: AuthState = {
+  isAuthenticated: false,
+  isLoading: true,
+  user: null,
+  session: null,
+  error: null,
+  pendingMfa: null,
+};
+
+/**
+ * AuthContext provides the session and authentication operations
+ */
+export const AuthContext = createContext<AuthContextValue | undefined>(
+  undefined,
+);
@@ -0,0 +1,374 @@
+import {
+  ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { COGNITO_CONFIG, SESSION_REFRESH_MARGIN_MS } from "@/constants/config";
+import { AuthSession, SignUpParams } from "@/types/auth";
+import { AmazonCognitoClient } from "@/utils/auth/amazon-cognito-client";
+import { CognitoClient } from "@/utils/auth/cognito-client";
+import { AUTH_ERROR_CODES, toAuthError } from "@/utils/auth/errors";
+import { SecureTokenStorage, TokenStorage } from "@/utils/auth/token-storage";
+import {
+  AuthContext,
+  AuthContextValue,
+  AuthState,
+  initialAuthState,
+} from "./Context";
+
+/**
+ * Delay before retrying a refresh that failed for a transient reason,
+ * e.g. while offline
+ */
+const REFRESH_RETRY_MS = 30 * 1000;
+
+const defaultStorage = new SecureTokenStorage();
+
+/**
+ * True when the session should be refreshed before it is used
+ */
+function isRefreshDue(session: AuthSession): boolean {
+  return Date.now() >= session.expiresAt - SESSION_REFRESH_MARGIN_MS;
+}
+
+interface AuthProviderProps {
+  children: ReactNode;
+  /** Cognito client; defaults to the user pool from COGNITO_CONFIG */
+  client?: CognitoClient;
+  /** Session storage; defaults to SecureStore */
+  storage?: TokenStorage;
+}
+
+/**
+ * AuthProvider holds the session for the app
+ *
+ * Restores the stored session on launch, persists new sessions to storage
+ * and refreshes the tokens shortly before they expire. A refresh rejected by
+ * Cognito (the refresh token expired or was revoked) ends the session, which
+ * sends the user back to sign-in.
+ */
+export function AuthProvider({
+  children,
+  client,
+  storage = defaultStorage,
+}: AuthProviderProps) {
+  // State
+  const [state, setState] = useState<AuthState>(initialAuthState);
+
+  // Latest session, readable without waiting for a render
+  const sessionRef = useRef<AuthSession | null>(null);
+  // Refresh in flight, shared by concurrent callers
+  const refreshRef = useRef<Promise<AuthSession | null> | null>(null);
+  const clientRef = useRef<CognitoClient | null>(null);
+
+  // The default client is created on first use so a missing configuration
+  // surfaces as an action error instead of a crash on launch
+  const getClient = useCallback((): CognitoClient => {
+    if (client) {
+      return client;
+    }
+    if (!clientRef.current) {
+      clientRef.current = new AmazonCognitoClient(COGNITO_CONFIG);
+    }
+    return clientRef.current;
+  }, [client]);
+
+  const startSession = useCallback(
+    async (session: AuthSession) => {
+      sessionRef.current = session;
+      await storage.save(session);
+      setState({
+        isAuthenticated: true,
+        isLoading: false,
+        user: session.user,
+        session,
+        error: null,
+        pendingMfa: null,
+      });
+    },
+    [storage],
+  );
+
+  const endSession = useCallback(
+    async (error: string | null = null) => {
+      sessionRef.current = null;
+      await storage.clear();
+      setState({ ...initialAuthState, isLoading: false, error });
+    },
+    [storage],
+  );
+
+  /**
+   * Runs an action with loading and error state
+   * Rejects with an AuthError after recording its message
+   */
+  const run = useCallback(
+    async <T,>(fallback: string, action: () => Promise<T>): Promise<T> => {
+      setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+      try {
+        const result = await action();
+        setState((prev) => ({ ...prev, isLoading: false }));
+        return result;
+      } catch (error) {
+        const authError = toAuthError(error, fallback);
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: authError.message,
+        }));
+        throw authError;
+      }
+    },
+    [],
+  );
+
+  // Actions
+  const signUp = useCallback(
+    (params: SignUpParams) =>
+      run("Sign up failed", () => getClient().signUp(params)),
+    [run, getClient],
+  );
+
+  const confirmSignUp = useCallback(
+    (username: string, code: string) =>
+      run("Verification failed", () =>
+        getClient().confirmSignUp(username, code),
+      ),
+    [run, getClient],
+  );
+
+  const resendConfirmationCode = useCallback(
+    (username: string) =>
+      run("Could not resend the code", () =>
+        getClient().resendConfirmationCode(username),
+      ),
+    [run, getClient],
+  );
+
+  const signIn = useCallback(
+    (username: string, password: string) =>
+      run("Sign in failed", async () => {
+        const result = await getClient().signIn(username.trim(), password);
+
+        if (result.status === "MFA_REQUIRED") {
+          setState((prev) => ({ ...prev, pendingMfa: result.challenge }));
+          return;
+        }
+
+        await startSession(result.session);
+      }),
+    [run, getClient, startSession],
+  );
+
+  const confirmMfa = useCallback(
+    (code: string) =>
+      run("Verification failed", async () => {
+        const challenge = state.pendingMfa;
+        if (!challenge) {
+          throw new Error("Sign in again to get a new code");
+        }
+
+        const session = await getClient().confirmMfa(code, challenge.type);
+        await startSession(session);
+      }),
+    [run, getClient, startSession, state.pendingMfa],
+  );
+
+  const cancelMfa = useCallback(() => {
+    setState((prev) => ({ ...prev, pendingMfa: null, error: null }));
+  }, []);
+
+  const forgotPassword = useCallback(
+    (username: string) =>
+      run("Password reset failed", () =>
+        getClient().forgotPassword(username.trim()),
+      ),
+    [run, getClient],
+  );
+
+  const confirmPassword = useCallback(
+    (username: string, code: string, newPassword: string) =>
+      run("Password reset failed", () =>
+        getClient().confirmPassword(username.trim(), code, newPassword),
+      ),
+    [run, getClient],
+  );
+
+  const signOut = useCallback(async () => {
+    const session = sessionRef.current;
+    setState((prev) => ({ ...prev, isLoading: true }));
+
+    if (session) {
+      try {
+        await getClient().signOut(session);
+      } catch {
+        // Signing out locally must work offline; the tokens expire anyway
+      }
+    }
+
+    await endSession();
+  }, [getClient, endSession]);
+
+  const refreshSession = useCallback((): Promise<AuthSession | null> => {
+    const current = sessionRef.current;
+    if (!current) {
+      return Promise.resolve(null);
+    }
+
+    if (!refreshRef.current) {
+      refreshRef.current = getClient()
+        .refreshSession(current)
+        .then(async (refreshed) => {
+          // Signed out (or in again) while the refresh was in flight
+          if (sessionRef.current !== current) {
+            return null;
+          }
+          await startSession(refreshed);
+          return refreshed;
+        })
+        .catch(async (error) => {
+          if (sessionRef.current !== current) {
+            return null;
+          }
+          const authError = toAuthError(error, "Session refresh failed");
+          if (authError.code === AUTH_ERROR_CODES.NOT_AUTHORIZED) {
+            await endSession("Your session has expired. Sign in again.");
+            return null;
+          }
+          throw authError;
+        })
+        .finally(() => {
+          refreshRef.current = null;
+        });
+    }
+
+    return refreshRef.current;
+  }, [getClient, startSession, endSession]);
+
+  const getIdToken = useCallback(async (): Promise<string | null> => {
+    const current = sessionRef.current;
+    if (!current) {
+      return null;
+    }
+    if (!isRefreshDue(current)) {
+      return current.idToken;
+    }
+
+    try {
+      const refreshed = await refreshSession();
+      return refreshed?.idToken ?? null;
+    } catch (error) {
+      // A token inside the refresh margin is still usable
+      if (Date.now() < current.expiresAt) {
+        return current.idToken;
+      }
+      throw error;
+    }
+  }, [refreshSession]);
+
+  const clearError = useCallback(() => {
+    setState((prev) => ({ ...prev, error: null }));
+  }, []);
+
+  // Restore the stored session on launch
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      const stored = await storage.load().catch(() => null);
+      if (cancelled) {
+        return;
+      }
+      if (!stored) {
+        setState((prev) => ({ ...prev, isLoading: false }));
+        return;
+      }
+
+      sessionRef.current = stored;
+      if (isRefreshDue(stored)) {
+        try {
+          // Starts or ends the session
+          await refreshSession();
+          return;
+        } catch {
+          // Offline: keep the stored session; the refresh is retried
+        }
+      }
+
+      setState({
+        ...initialAuthState,
+        isAuthenticated: true,
+        isLoading: false,
+        user: stored.user,
+        session: stored,
+      });
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, refreshSession]);
+
+  // Refresh silently shortly before the tokens expire
+  const expiresAt = state.session?.expiresAt;
+  useEffect(() => {
+    if (expiresAt === undefined) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const refresh = () => {
+      refreshSession().catch(() => {
+        timer = setTimeout(refresh, REFRESH_RETRY_MS);
+      });
+    };
+
+    const delay = expiresAt - SESSION_REFRESH_MARGIN_MS - Date.now();
+    timer = setTimeout(refresh, Math.max(0, delay));
+    return () => clearTimeout(timer);
+  }, [expiresAt, refreshSession]);
+
+  // Memoize actions to prevent unnecessary re-renders
+  const actions = useMemo(
+    () => ({
+      signUp,
+      confirmSignUp,
+      resendConfirmationCode,
+      signIn,
+      confirmMfa,
+      cancelMfa,
+      forgotPassword,
+      confirmPassword,
+      signOut,
+      refreshSession,
+      getIdToken,
+      clearError,
+    }),
+    [
+      signUp,
+      confirmSignUp,
+      resendConfirmationCode,
+      signIn,
+      confirmMfa,
+      cancelMfa,
+      forgotPassword,
+      confirmPassword,
+      signOut,
+      refreshSession,
+      getIdToken,
+      clearError,
+    ],
+  );
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ state, actions }),
+    [state, actions],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,55 @@
+import { ReactNode } from "react";
+import { AuthContext, AuthContextValue, initialAuthState } from "../Context";
+import { createMockSession } from "@/utils/auth/__tests__/fixtures/auth.fixtures";
+
+/**
+ * Create an auth context value with every action mocked
+ * The session starts restored and signed out
+ */
+export function createMockAuthValue(): AuthContextValue {
+  return {
+    state: { ...initialAuthState, isLoading: false },
+    actions: {
+      signUp: jest.fn(),
+      confirmSignUp: jest.fn(),
+      resendConfirmationCode: jest.fn(),
+      signIn: jest.fn(),
+      confirmMfa: jest.fn(),
+      cancelMfa: jest.fn(),
+      forgotPassword: jest.fn(),
+      confirmPassword: jest.fn(),
+      signOut: jest.fn(),
+      refreshSession: jest.fn(),
+      getIdToken: jest.fn(),
+      clearError: jest.fn(),
+    },
+  };
+}
+
+/**
+ * Create an auth context value for a signed-in user
+ */
+export function createMockSignedInAuthValue(): AuthContextValue {
+  const session = createMockSession();
+  const value = createMockAuthValue();
+  value.state = {
+    ...value.state,
+    isAuthenticated: true,
+    user: session.user,
+    session,
+  };
+  return value;
+}
+
+/**
+ * Provides a fixed auth context value instead of AuthProvider
+ */
+export function MockAuthProvider({
+  value,
+  children,
+}: {
+  value: AuthContextValue;
+  children: ReactNode;
+}) {
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,379 @@
+import { ReactNode } from "react";
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+import { SESSION_REFRESH_MARGIN_MS } from "@/constants/config";
+import { MockCognitoClient } from "@/utils/auth/__tests__/cognito-client.mock";
+import { createMockSession } from "@/utils/auth/__tests__/fixtures/auth.fixtures";
+import { MockTokenStorage } from "@/utils/auth/__tests__/token-storage.mock";
+import { AuthError } from "@/utils/auth/errors";
+import { AuthProvider } from "../Provider";
+import { useAuthContext } from "../use-auth-context";
+
+describe("AuthProvider", () => {
+  let mockClient: MockCognitoClient;
+  let mockStorage: MockTokenStorage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = new MockCognitoClient();
+    mockStorage = new MockTokenStorage();
+  });
+
+  /**
+   * Render useAuthContext inside an AuthProvider and wait for the stored
+   * session to be restored
+   */
+  const renderAuth = async () => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <AuthProvider client={mockClient} storage={mockStorage}>
+        {children}
+      </AuthProvider>
+    );
+    const rendered = renderHook(() => useAuthContext(), { wrapper });
+    await waitFor(() =>
+      expect(rendered.result.current.state.isLoading).toBe(false),
+    );
+    return rendered;
+  };
+
+  describe("Session restore", () => {
+    it("Should restore a stored session", async () => {
+      // Arrange
+      const mockSession = createMockSession();
+      mockStorage.withSession(mockSession);
+
+      // Act
+      const { result } = await renderAuth();
+
+      // Assert
+      expect(result.current.state.isAuthenticated).toBe(true);
+      expect(result.current.state.user).toEqual(mockSession.user);
+      expect(mockClient.getCalls()).toHaveLength(0);
+    });
+
+    it("Should start signed out without a stored session", async () => {
+      // Arrange & Act
+      const { result } = await renderAuth();
+
+      // Assert
+      expect(result.current.state.isAuthenticated).toBe(false);
+      expect(result.current.state.session).toBeNull();
+    });
+
+    it("Should start signed out when storage cannot be read", async () => {
+      // Arrange
+      mockStorage.withLoadError(new Error("Keychain unavailable"));
+
+      // Act
+      const { result } = await renderAuth();
+
+      // Assert
+      expect(result.current.state.isAuthenticated).toBe(false);
+    });
+
+    it("Should refresh a stored session that is about to expire", async () => {
+      // Arrange
+      mockStorage.withSession(
+        createMockSession({ expiresAt: Date.now() + 60 * 1000 }),
+      );
+
+      // Act
+      const { result } = await renderAuth();
+
+      // Assert
+      expect(mockClient.getCalls("refreshSession")).toHaveLength(1);
+      expect(result.current.state.session?.idToken).toBe("refreshed-id-token");
+      expect(mockStorage.getSession()?.idToken).toBe("refreshed-id-token");
+    });
+
+    it("Should keep the stored session when the refresh fails offline", async () => {
+      // Arrange
+      mockStorage.withSession(
+        createMockSession({ expiresAt: Date.now() + 60 * 1000 }),
+      );
+      mockClient.withError("refreshSession", "NetworkError");
+
+      // Act
+      const { result } = await renderAuth();
+
+      // Assert
+      expect(result.current.state.isAuthenticated).toBe(true);
+      expect(result.current.state.session?.idToken).toBe("id-token");
+    });
+
+    it("Should end a stored session whose refresh token was revoked", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession({ expiresAt: Date.now() }));
+      mockClient.withError("refreshSession", "NotAuthorizedException");
+
+      // Act
+      const { result } = await renderAuth();
+
+      // Assert
+      expect(result.current.state.isAuthenticated).toBe(false);
+      expect(result.current.state.error).toBe(
+        "Your session has expired. Sign in again.",
+      );
+      expect(mockStorage.getSession()).toBeNull();
+    });
+  });
+
+  describe("Sign in", () => {
+    it("Should start and store a session", async () => {
+      // Arrange
+      const mockSession = createMockSession({ idToken: "new-id-token" });
+      mockClient.withSession(mockSession);
+      const { result } = await renderAuth();
+
+      // Act
+      await act(() => result.current.actions.signIn(" alice ", "Passw0rd!"));
+
+      // Assert
+      expect(mockClient.getCalls("signIn")[0].args).toEqual([
+        "alice",
+        "Passw0rd!",
+      ]);
+      expect(result.current.state.isAuthenticated).toBe(true);
+      expect(result.current.state.session).toEqual(mockSession);
+      expect(mockStorage.getSession()).toEqual(mockSession);
+    });
+
+    it("Should reject with a readable error when sign in fails", async () => {
+      // Arrange
+      mockClient.withError("signIn", "NotAuthorizedException");
+      const { result } = await renderAuth();
+
+      // Act
+      let error: unknown;
+      await act(async () => {
+        error = await result.current.actions
+          .signIn("alice", "wrong")
+          .catch((e) => e);
+      });
+
+      // Assert
+      expect(error).toBeInstanceOf(AuthError);
+      expect((error as AuthError).code).toBe("NotAuthorizedException");
+      expect(result.current.state.error).toBe(
+        "Incorrect username or password.",
+      );
+      expect(result.current.state.isAuthenticated).toBe(false);
+      expect(result.current.state.isLoading).toBe(false);
+    });
+
+    it("Should wait for the MFA code before starting the session", async () => {
+      // Arrange
+      mockClient.withMfa({ type: "SMS_MFA", destination: "+*******0100" });
+      const { result } = await renderAuth();
+
+      // Act
+      await act(() => result.current.actions.signIn("alice", "Passw0rd!"));
+
+      // Assert
+      expect(result.current.state.pendingMfa).toEqual({
+        type: "SMS_MFA",
+        destination: "+*******0100",
+      });
+      expect(result.current.state.isAuthenticated).toBe(false);
+
+      // Act
+      await act(() => result.current.actions.confirmMfa("123456"));
+
+      // Assert
+      expect(mockClient.getCalls("confirmMfa")[0].args).toEqual([
+        "123456",
+        "SMS_MFA",
+      ]);
+      expect(result.current.state.isAuthenticated).toBe(true);
+      expect(result.current.state.pendingMfa).toBeNull();
+    });
+  });
+
+  describe("Sign up", () => {
+    it("Should sign up, verify the email and then sign in", async () => {
+      // Arrange
+      const { result } = await renderAuth();
+
+      // Act
+      let signUpResult: unknown;
+      await act(async () => {
+        signUpResult = await result.current.actions.signUp({
+          username: "alice",
+          email: "alice@example.com",
+          password: "Passw0rd!",
+        });
+      });
+      await act(() => result.current.actions.confirmSignUp("alice", "654321"));
+      await act(() => result.current.actions.signIn("alice", "Passw0rd!"));
+
+      // Assert
+      expect(signUpResult).toEqual({
+        userConfirmed: false,
+        codeDelivery: { medium: "EMAIL", destination: "a***@e***.com" },
+      });
+      expect(mockClient.getCalls().map((call) => call.operation)).toEqual([
+        "signUp",
+        "confirmSignUp",
+        "signIn",
+      ]);
+      expect(mockClient.getCalls("confirmSignUp")[0].args).toEqual([
+        "alice",
+        "654321",
+      ]);
+      expect(result.current.state.isAuthenticated).toBe(true);
+    });
+
+    it("Should show an error for a wrong verification code", async () => {
+      // Arrange
+      mockClient.withError("confirmSignUp", "CodeMismatchException");
+      const { result } = await renderAuth();
+
+      // Act
+      await act(async () => {
+        await result.current.actions
+          .confirmSignUp("alice", "000000")
+          .catch(() => undefined);
+      });
+
+      // Assert
+      expect(result.current.state.error).toBe("That code is not correct.");
+      expect(result.current.state.isAuthenticated).toBe(false);
+    });
+  });
+
+  describe("Refresh", () => {
+    it("Should replace and store the session", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession());
+      const { result } = await renderAuth();
+
+      // Act
+      await act(() => result.current.actions.refreshSession());
+
+      // Assert
+      expect(result.current.state.session?.idToken).toBe("refreshed-id-token");
+      expect(mockStorage.getSession()?.idToken).toBe("refreshed-id-token");
+    });
+
+    it("Should share one refresh between concurrent callers", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession());
+      const { result } = await renderAuth();
+      const release = mockClient.withPending("refreshSession");
+
+      // Act
+      let sessions: unknown[] = [];
+      await act(async () => {
+        const refreshes = Promise.all([
+          result.current.actions.refreshSession(),
+          result.current.actions.refreshSession(),
+        ]);
+        release();
+        sessions = await refreshes;
+      });
+
+      // Assert
+      expect(mockClient.getCalls("refreshSession")).toHaveLength(1);
+      expect(sessions[0]).toBe(sessions[1]);
+    });
+
+    it("Should drop a refresh that finishes after sign out", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession());
+      const { result } = await renderAuth();
+      const release = mockClient.withPending("refreshSession");
+
+      // Act
+      let refreshed: unknown;
+      await act(async () => {
+        const refresh = result.current.actions.refreshSession();
+        await result.current.actions.signOut();
+        release();
+        refreshed = await refresh;
+      });
+
+      // Assert
+      expect(refreshed).toBeNull();
+      expect(result.current.state.isAuthenticated).toBe(false);
+      expect(result.current.state.session).toBeNull();
+      expect(mockStorage.getSession()).toBeNull();
+    });
+
+    it("Should refresh before handing out a token that is about to expire", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession());
+      const { result } = await renderAuth();
+      jest.setSystemTime(
+        result.current.state.session!.expiresAt - SESSION_REFRESH_MARGIN_MS,
+      );
+
+      // Act
+      let token: string | null = null;
+      await act(async () => {
+        token = await result.current.actions.getIdToken();
+      });
+
+      // Assert
+      expect(token).toBe("refreshed-id-token");
+    });
+
+    it("Should refresh silently shortly before the tokens expire", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession());
+      await renderAuth();
+
+      // Act
+      await act(async () => {
+        jest.advanceTimersByTime(60 * 60 * 1000 - SESSION_REFRESH_MARGIN_MS);
+      });
+
+      // Assert
+      await waitFor(() =>
+        expect(mockClient.getCalls("refreshSession")).toHaveLength(1),
+      );
+    });
+  });
+
+  describe("Sign out", () => {
+    it("Should revoke the tokens and remove the stored session", async () => {
+      // Arrange
+      const mockSession = createMockSession();
+      mockStorage.withSession(mockSession);
+      const { result } = await renderAuth();
+
+      // Act
+      await act(() => result.current.actions.signOut());
+
+      // Assert
+      expect(mockClient.getCalls("signOut")[0].args).toEqual([mockSession]);
+      expect(result.current.state.isAuthenticated).toBe(false);
+      expect(result.current.state.session).toBeNull();
+      expect(mockStorage.getSession()).toBeNull();
+    });
+
+    it("Should sign out locally when the tokens cannot be revoked", async () => {
+      // Arrange
+      mockStorage.withSession(createMockSession());
+      mockClient.withError("signOut", "NetworkError");
+      const { result } = await renderAuth();
+
+      // Act
+      await act(() => result.current.actions.signOut());
+
+      // Assert
+      expect(result.current.state.isAuthenticated).toBe(false);
+      expect(mockStorage.getSession()).toBeNull();
+    });
+  });
+
+  describe("useAuthContext", () => {
+    it("Should throw outside an AuthProvider", () => {
+      // Arrange
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      // Act & Assert
+      expect(() => renderHook(() => useAuthContext())).toThrow(
+        "useAuthContext must be used within an AuthProvider",
+      );
+    });
+  });
+});
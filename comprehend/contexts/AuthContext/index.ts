@@ -0,0 +1,3 @@
+export type { AuthActions, AuthContextValue, AuthState } from "./Context";
+export { AuthProvider } from "./Provider";
+export { useAuthContext } from "./use-auth-context";
@@ -7,4 +7,11 @@ module.exports = defineConfig([
   {
     ignores: ['dist/*'],
   },
+  {
+    // Jest globals used by the plain JS setup file
+    files: ['jest.setup.js'],
+    languageOptions: {
+      globals: { jest: 'readonly', beforeAll: 'readonly', afterAll: 'readonly' },
+    },
+  },
 ]);
@@ -0,0 +1,144 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+import { SAMPLE_EXERCISE } from "@/constants/sample-exercise";
+import { ExerciseDetail } from "@/types/exercise";
+import { NotFoundError, ServerError } from "@/utils/api/ApiError";
+import { useApi } from "../use-api";
+import { useExercise } from "../use-exercise";
+
+jest.mock("../use-api", () => ({ useApi: jest.fn() }));
+
+describe("useExercise", () => {
+  const mockApi = {
+    getExercise: jest.fn(),
+    listExercises: jest.fn(),
+  };
+
+  const exercise: ExerciseDetail = {
+    ...SAMPLE_EXERCISE,
+    exerciseId: "ex-42",
+    title: "駅まで",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useApi as jest.Mock).mockReturnValue(mockApi);
+  });
+
+  /**
+   * Render the hook and wait for the load to finish
+   */
+  const renderExercise = async (exerciseId?: string) => {
+    const rendered = renderHook(() => useExercise(exerciseId));
+    await waitFor(() => expect(rendered.result.current.isLoading).toBe(false));
+    return rendered;
+  };
+
+  it("Should load a deep-linked exercise with its tokens and vocab", async () => {
+    // Arrange
+    mockApi.getExercise.mockResolvedValue(exercise);
+
+    // Act
+    const { result } = await renderExercise("ex-42");
+
+    // Assert
+    expect(mockApi.getExercise).toHaveBeenCalledWith(
+      "ex-42",
+      ["tokens", "vocab"],
+      expect.any(AbortSignal),
+    );
+    expect(result.current.exercise).toEqual(exercise);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("Should load the most recently read exercise without an ID", async () => {
+    // Arrange
+    mockApi.listExercises.mockResolvedValue({
+      items: [exercise],
+      total: 1,
+      limit: 1,
+      offset: 0,
+    });
+    mockApi.getExercise.mockResolvedValue(exercise);
+
+    // Act
+    const { result } = await renderExercise();
+
+    // Assert
+    expect(mockApi.listExercises).toHaveBeenCalledWith(
+      { sort: "lastAccessedAt", order: "desc", limit: 1 },
+      expect.any(AbortSignal),
+    );
+    expect(result.current.exercise).toEqual(exercise);
+  });
+
+  it("Should have no exercise when there are none", async () => {
+    // Arrange
+    mockApi.listExercises.mockResolvedValue({
+      items: [],
+      total: 0,
+      limit: 1,
+      offset: 0,
+    });
+
+    // Act
+    const { result } = await renderExercise();
+
+    // Assert
+    expect(mockApi.getExercise).not.toHaveBeenCalled();
+    expect(result.current.exercise).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  it("Should have no exercise and no error when it does not exist", async () => {
+    // Arrange
+    mockApi.getExercise.mockRejectedValue(new NotFoundError());
+
+    // Act
+    const { result } = await renderExercise("ex-404");
+
+    // Assert
+    expect(result.current.exercise).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  it("Should report a failed load and load again on reload", async () => {
+    // Arrange
+    mockApi.getExercise
+      .mockRejectedValueOnce(new ServerError(500))
+      .mockResolvedValueOnce(exercise);
+    const { result } = await renderExercise("ex-42");
+
+    // Assert
+    expect(result.current.error).toBe(new ServerError(500).message);
+
+    // Act
+    act(() => result.current.reload());
+    await waitFor(() => expect(result.current.exercise).toEqual(exercise));
+
+    // Assert
+    expect(mockApi.getExercise).toHaveBeenCalledTimes(2);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("Should cancel the request on unmount", async () => {
+    // Arrange
+    mockApi.getExercise.mockReturnValue(new Promise(() => {}));
+    const { unmount } = renderHook(() => useExercise("ex-42"));
+    const signal: AbortSignal = mockApi.getExercise.mock.calls[0][2];
+
+    // Act
+    unmount();
+
+    // Assert
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("Should resolve the sample exercise without the API in development", async () => {
+    // Arrange & Act
+    const { result } = await renderExercise(SAMPLE_EXERCISE.exerciseId);
+
+    // Assert
+    expect(result.current.exercise).toBe(SAMPLE_EXERCISE);
+    expect(mockApi.getExercise).not.toHaveBeenCalled();
+  });
+});
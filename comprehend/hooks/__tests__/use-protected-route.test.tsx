@@ -0,0 +1,160 @@
+import { ReactNode } from "react";
+import { renderHook } from "@testing-library/react-native";
+import {
+  useGlobalSearchParams,
+  usePathname,
+  useRouter,
+  useSegments,
+} from "expo-router";
+import { AUTH_ROUTES } from "@/constants/app";
+import { AuthContextValue } from "@/contexts/AuthContext";
+import {
+  MockAuthProvider,
+  createMockAuthValue,
+  createMockSignedInAuthValue,
+} from "@/contexts/AuthContext/__tests__/Context.mock";
+import { useProtectedRoute } from "../use-protected-route";
+
+describe("useProtectedRoute", () => {
+  const mockRouter = { replace: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useRouter as jest.Mock).mockReturnValue(mockRouter);
+  });
+
+  /**
+   * Point the mocked router at a path
+   * Auth screens live in the (auth) group
+   */
+  const navigateTo = (
+    pathname: string,
+    params: Record<string, string> = {},
+  ) => {
+    const screen = pathname.slice(1).split("/");
+    const inAuthGroup = AUTH_ROUTES.includes(`/${screen[0]}`);
+    (usePathname as jest.Mock).mockReturnValue(pathname);
+    (useSegments as jest.Mock).mockReturnValue(
+      inAuthGroup ? ["(auth)", ...screen] : screen,
+    );
+    (useGlobalSearchParams as jest.Mock).mockReturnValue(params);
+  };
+
+  /**
+   * Render the guard with a fixed auth state
+   */
+  const renderGuard = (value: AuthContextValue) => {
+    let current = value;
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <MockAuthProvider value={current}>{children}</MockAuthProvider>
+    );
+    const rendered = renderHook(() => useProtectedRoute(), { wrapper });
+    return {
+      rerenderWith: (next: AuthContextValue) => {
+        current = next;
+        rendered.rerender(undefined);
+      },
+    };
+  };
+
+  it("Should wait while the session is restored", () => {
+    // Arrange
+    const mockValue = createMockAuthValue();
+    mockValue.state.isLoading = true;
+    navigateTo("/exercises/ex-42");
+
+    // Act
+    renderGuard(mockValue);
+
+    // Assert
+    expect(mockRouter.replace).not.toHaveBeenCalled();
+  });
+
+  it("Should send a signed-out user to sign in with the path they opened", () => {
+    // Arrange
+    navigateTo("/exercises/ex-42");
+
+    // Act
+    renderGuard(createMockAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).toHaveBeenCalledWith({
+      pathname: "/sign-in",
+      params: { returnTo: "/exercises/ex-42" },
+    });
+  });
+
+  it("Should not carry the home path to sign in", () => {
+    // Arrange
+    navigateTo("/");
+
+    // Act
+    renderGuard(createMockAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).toHaveBeenCalledWith({
+      pathname: "/sign-in",
+      params: {},
+    });
+  });
+
+  it("Should leave a signed-out user on the auth screens", () => {
+    // Arrange
+    navigateTo("/sign-up");
+
+    // Act
+    renderGuard(createMockAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).not.toHaveBeenCalled();
+  });
+
+  it("Should leave a signed-in user on a protected path", () => {
+    // Arrange
+    navigateTo("/exercises/ex-42");
+
+    // Act
+    renderGuard(createMockSignedInAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).not.toHaveBeenCalled();
+  });
+
+  it("Should send a signed-in user on an auth screen to the return path", () => {
+    // Arrange
+    navigateTo("/sign-in", { returnTo: "/exercises/ex-7" });
+
+    // Act
+    renderGuard(createMockSignedInAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).toHaveBeenCalledWith("/exercises/ex-7");
+  });
+
+  it("Should send a signed-in user to the Reader for an unsafe return path", () => {
+    // Arrange
+    navigateTo("/sign-in", { returnTo: "//evil.example.com" });
+
+    // Act
+    renderGuard(createMockSignedInAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).toHaveBeenCalledWith("/");
+  });
+
+  it("Should open a deep link to an exercise after signing in", () => {
+    // Arrange
+    navigateTo("/exercises/ex-42");
+    const { rerenderWith } = renderGuard(createMockAuthValue());
+    const { params } = mockRouter.replace.mock.calls[0][0];
+    mockRouter.replace.mockClear();
+
+    // Act
+    navigateTo("/sign-in", params);
+    rerenderWith(createMockSignedInAuthValue());
+
+    // Assert
+    expect(mockRouter.replace).toHaveBeenCalledTimes(1);
+    expect(mockRouter.replace).toHaveBeenCalledWith("/exercises/ex-42");
+  });
+});
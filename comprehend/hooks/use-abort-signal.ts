@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Returns a function giving an AbortSignal that aborts when the component
+ * unmounts
+ *
+ * Pass the signal to API calls so requests still in flight (and their
+ * pending retries) are cancelled when the user leaves the screen.
+ */
+export function useAbortSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = (controllerRef.current ??= new AbortController());
+    return () => {
+      controller.abort();
+      controllerRef.current = null;
+    };
+  }, []);
+
+  return useCallback(() => {
+    controllerRef.current ??= new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+}
@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { API_URL } from "@/constants/config";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { ApiClient } from "@/utils/api/ApiClient";
+import { ComprehendApi } from "@/utils/api/ComprehendApi";
+
+/**
+ * Returns the Comprehend API client for the signed-in user
+ * Requests carry the session's ID token, refreshed first when it is about
+ * to expire or when the API rejects it
+ */
+export function useApi(): ComprehendApi {
+  const { actions } = useAuthContext();
+  const { getIdToken, refreshSession } = actions;
+
+  return useMemo(
+    () =>
+      new ComprehendApi(
+        new ApiClient({ baseUrl: API_URL }, getIdToken, async () => {
+          const session = await refreshSession();
+          return session?.idToken ?? null;
+        }),
+      ),
+    [getIdToken, refreshSession],
+  );
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react";
+import { SAMPLE_EXERCISE } from "@/constants/sample-exercise";
+import { ExerciseInclude } from "@/types/api";
+import { ExerciseDetail } from "@/types/exercise";
+import { NotFoundError } from "@/utils/api/ApiError";
+import { getErrorMessage, isCancelled } from "@/utils/api/errorHandling";
+import { useApi } from "./use-api";
+
+/**
+ * Related data the Reader shows
+ */
+const READER_INCLUDE: ExerciseInclude[] = ["tokens", "vocab"];
+
+export interface UseExerciseResult {
+  /** The exercise with its tokens and vocab; null until loaded or when it does not exist */
+  exercise: ExerciseDetail | null;
+  /** True while the exercise is loading */
+  isLoading: boolean;
+  /** Message for a load that failed; null when it is loading, loaded or not found */
+  error: string | null;
+  /** Load the exercise again, e.g. after an error */
+  reload: () => void;
+}
+
+/**
+ * Loads an exercise with its tokens and vocab from the API
+ *
+ * Without an ID, the most recently read exercise is loaded. The request is
+ * cancelled when the screen unmounts or the ID changes. In development the
+ * sample exercise's ID resolves without the API.
+ */
+export function useExercise(exerciseId?: string): UseExerciseResult {
+  const api = useApi();
+  const [attempt, setAttempt] = useState(0);
+  const [state, setState] = useState<Omit<UseExerciseResult, "reload">>({
+    exercise: null,
+    isLoading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (__DEV__ && exerciseId === SAMPLE_EXERCISE.exerciseId) {
+      setState({ exercise: SAMPLE_EXERCISE, isLoading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    setState({ exercise: null, isLoading: true, error: null });
+
+    const load = async (): Promise<ExerciseDetail | null> => {
+      const id =
+        exerciseId ??
+        (
+          await api.listExercises(
+            { sort: "lastAccessedAt", order: "desc", limit: 1 },
+            signal,
+          )
+        ).items[0]?.exerciseId;
+      return id ? api.getExercise(id, READER_INCLUDE, signal) : null;
+    };
+
+    load()
+      .then((exercise) => {
+        if (!signal.aborted) {
+          setState({ exercise, isLoading: false, error: null });
+        }
+      })
+      .catch((error) => {
+        if (signal.aborted || isCancelled(error)) {
+          return;
+        }
+        setState({
+          exercise: null,
+          isLoading: false,
+          error: error instanceof NotFoundError ? null : getErrorMessage(error),
+        });
+      });
+
+    return () => controller.abort();
+  }, [api, exerciseId, attempt]);
+
+  const reload = useCallback(() => setAttempt((count) => count + 1), []);
+
+  return { ...state, reload };
+}
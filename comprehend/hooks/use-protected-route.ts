@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import {
+  Href,
+  useGlobalSearchParams,
+  usePathname,
+  useRouter,
+  useSegments,
+} from "expo-router";
+import { AUTH_GROUP, RETURN_TO_PARAM, ROUTES } from "@/constants/app";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { resolveReturnTo } from "@/utils/navigation";
+
+/**
+ * Keeps navigation in step with the session
+ *
+ * Signed-out users are sent to sign-in, carrying the path they tried to open
+ * so deep links (e.g. to an exercise) resolve once they sign in. Signed-in
+ * users are sent out of the auth screens. Nothing happens while the session
+ * is loading.
+ */
+export function useProtectedRoute() {
+  const { state } = useAuthContext();
+  const segments = useSegments();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
+  const router = useRouter();
+
+  const inAuthGroup = segments[0] === AUTH_GROUP;
+  const returnTo = params[RETURN_TO_PARAM];
+
+  useEffect(() => {
+    if (state.isLoading) {
+      return;
+    }
+
+    if (!state.isAuthenticated && !inAuthGroup) {
+      const isHome = pathname === ROUTES.READER;
+      router.replace({
+        pathname: ROUTES.SIGN_IN,
+        params: isHome ? {} : { [RETURN_TO_PARAM]: pathname },
+      });
+    } else if (state.isAuthenticated && inAuthGroup) {
+      router.replace(resolveReturnTo(returnTo) as Href);
+    }
+  }, [
+    state.isAuthenticated,
+    state.isLoading,
+    inAuthGroup,
+    pathname,
+    returnTo,
+    router,
+  ]);
+}
@@ -0,0 +1,10 @@
+import { useColorScheme } from "react-native";
+import { Colors, ThemeColors } from "@/constants/theme";
+
+/**
+ * Returns the color palette for the system color scheme
+ */
+export function useThemeColors(): ThemeColors {
+  const colorScheme = useColorScheme();
+  return colorScheme === "dark" ? Colors.dark : Colors.light;
+}
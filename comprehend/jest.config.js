@@ -1,9 +1,6 @@
 const config = {
   verbose: true,
   testEnvironment: "node",
-  transform: {
-    "^.+\\.(ts|tsx)$": "ts-jest",
-  },
   maxWorkers: 1,
   preset: "jest-expo",
   setupFilesAfterEnv: ["<rootDir>/jest.setup.js"],
@@ -30,13 +27,6 @@ const config = {
   moduleNameMapper: {
     "^@/(.*)$": "<rootDir>/$1",
   },
-  globals: {
-    "ts-jest": {
-      tsconfig: {
-        jsx: "react",
-      },
-    },
-  },
 };
 
 export default config;
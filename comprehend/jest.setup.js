@@ -2,7 +2,21 @@
 import "@testing-library/jest-native/extend-expect";
 
 // Mock React Native modules that don't work well in Jest
-jest.mock("react-native/Libraries/Animated/NativeAnimatedHelper");
+jest.mock("react-native/src/private/animated/NativeAnimatedHelper");
+
+// Expo's runtime installs lazy globals that require modules on first use,
+// which Jest 30 rejects once the test file's module scope has been left
+jest.mock("expo/src/winter/ImportMetaRegistry", () => ({
+  ImportMetaRegistry: {
+    get url() {
+      return null;
+    },
+  },
+}));
+jest.mock("@ungap/structured-clone", () => ({
+  __esModule: true,
+  default: (value) => structuredClone(value),
+}));
 
 // Mock expo-router
 jest.mock("expo-router", () => ({
@@ -13,6 +27,7 @@ jest.mock("expo-router", () => ({
     canGoBack: jest.fn(() => true),
   })),
   useLocalSearchParams: jest.fn(() => ({})),
+  useGlobalSearchParams: jest.fn(() => ({})),
   useSegments: jest.fn(() => []),
   usePathname: jest.fn(() => "/"),
   router: {
@@ -106,7 +121,7 @@ jest.mock("react-native-reanimated", () => {
 });
 
 // Silence the warning: Animated: `useNativeDriver` is not supported
-jest.mock("react-native/Libraries/Animated/NativeAnimatedHelper");
+jest.mock("react-native/src/private/animated/NativeAnimatedHelper");
 
 // Mock timers
 jest.useFakeTimers();
@@ -0,0 +1,152 @@
+/**
+ * Request and response types of the Comprehend API
+ * See the API table in cdk/README.md
+ */
+import { ChatMessage, Exercise, Vocab } from "./exercise";
+
+/**
+ * Error body returned by the API
+ * API Gateway's own errors (authorizer, throttling, timeouts) carry only
+ * `message`
+ */
+export interface ApiErrorBody {
+  message?: string;
+  code?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Fields GET /exercises can sort by
+ */
+export type ExerciseSortField =
+  | "createdAt"
+  | "updatedAt"
+  | "lastAccessedAt"
+  | "relevance"
+  | "title";
+
+/**
+ * Sort direction
+ */
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Query parameters of GET /exercises
+ */
+export interface ListExercisesParams {
+  /** Sort field; defaults to createdAt, or relevance with a query */
+  sort?: ExerciseSortField;
+  /** Sort direction; defaults to asc for title and desc otherwise */
+  order?: SortOrder;
+  /** Page size, 1-100; defaults to 20 */
+  limit?: number;
+  /** Number of exercises to skip */
+  offset?: number;
+  /** Full-text search query */
+  query?: string;
+}
+
+/**
+ * One page of exercises
+ */
+export interface ExerciseList {
+  items: Exercise[];
+  /** Number of exercises matching the query across all pages */
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Related data GET /exercises/{id} can include
+ */
+export type ExerciseInclude = "tokens" | "vocab" | "messages";
+
+/**
+ * Body of POST /exercises
+ */
+export interface CreateExerciseRequest {
+  /** Derived from the content when omitted */
+  title?: string;
+  content: string;
+  /** Language code such as 'ja' or 'zh-Hant' */
+  language: string;
+}
+
+/**
+ * Body of PATCH /exercises/{id}
+ * Content cannot change because tokens and vocab reference it by offset
+ */
+export interface UpdateExerciseRequest {
+  title?: string;
+  language?: string;
+  isArchived?: boolean;
+}
+
+/**
+ * Body of POST /exercises/{id}/vocab
+ */
+export interface CreateVocabRequest {
+  vocab: string;
+  reading?: string | null;
+  equivalent: string;
+  excerptStartIndex: number;
+  excerptEndIndex: number;
+  tokenIds?: string[];
+}
+
+/**
+ * Body of PATCH /exercises/{id}/vocab/{vocabId}
+ */
+export interface UpdateVocabRequest {
+  vocab?: string;
+  reading?: string | null;
+  equivalent?: string;
+  tokenIds?: string[];
+}
+
+/**
+ * Response of GET /exercises/{id}/vocab
+ */
+export interface VocabList {
+  items: Vocab[];
+  total: number;
+}
+
+/**
+ * Kind of reply from the ReaderAgent
+ */
+export type AgentResponseType = "message" | "message_content" | "message_vocab";
+
+/**
+ * Reply of the ReaderAgent
+ */
+export interface AgentResponse {
+  type: AgentResponseType;
+  message: string;
+  /** Generated reading content, for message_content replies */
+  content?: {
+    title: string;
+    tokens: { text: string; startIndex: number; endIndex: number }[];
+  };
+  /** Vocab found in the exercise, for message_vocab replies */
+  vocab?: {
+    vocab: string;
+    reading?: string;
+    equivalent: string;
+    tokens: { startIndex: number; endIndex: number }[];
+  };
+}
+
+/**
+ * Response of POST /exercises/{id}/messages
+ */
+export interface SendMessageResponse {
+  userMessage: ChatMessage;
+  assistantMessage: ChatMessage;
+  response: AgentResponse;
+  /** Exercise created from generated content */
+  createdExerciseId?: string;
+  /** Vocab saved to the current exercise */
+  vocab?: Vocab;
+}
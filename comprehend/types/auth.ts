@@ -0,0 +1,83 @@
+/**
+ * Authentication types shared by the auth context, the Cognito client and
+ * the auth screens
+ */
+
+/**
+ * The signed-in user, read from the ID token
+ */
+export interface AuthUser {
+  /** Cognito username */
+  username: string;
+  /** Cognito user ID (the `sub` claim); the API's user ID */
+  sub: string;
+  /** Email address, when known */
+  email?: string;
+}
+
+/**
+ * Tokens of an authenticated session
+ */
+export interface AuthSession {
+  /** ID token; sent to the API as the bearer token */
+  idToken: string;
+  /** Access token */
+  accessToken: string;
+  /** Long-lived token used to renew the ID and access tokens */
+  refreshToken: string;
+  /** Epoch milliseconds when the ID and access tokens expire */
+  expiresAt: number;
+  /** User the tokens belong to */
+  user: AuthUser;
+}
+
+/**
+ * Where Cognito sent a verification or reset code
+ */
+export interface CodeDelivery {
+  /** Delivery medium, e.g. 'EMAIL' or 'SMS' */
+  medium: string;
+  /** Masked destination, e.g. 'a***@e***.com' */
+  destination: string;
+}
+
+/**
+ * Second factor requested during sign-in
+ */
+export type MfaType = "SMS_MFA" | "SOFTWARE_TOKEN_MFA";
+
+/**
+ * MFA challenge awaiting a code
+ */
+export interface MfaChallenge {
+  /** Factor the code comes from */
+  type: MfaType;
+  /** Masked phone number for SMS codes */
+  destination?: string;
+}
+
+/**
+ * Details for registering a new account
+ */
+export interface SignUpParams {
+  username: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * Result of registering a new account
+ */
+export interface SignUpResult {
+  /** True when the account needs no email verification */
+  userConfirmed: boolean;
+  /** Where the verification code was sent */
+  codeDelivery?: CodeDelivery;
+}
+
+/**
+ * Result of signing in: a session, or a challenge to complete first
+ */
+export type SignInResult =
+  | { status: "SIGNED_IN"; session: AuthSession }
+  | { status: "MFA_REQUIRED"; challenge: MfaChallenge };
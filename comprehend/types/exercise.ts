@@ -0,0 +1,90 @@
+/**
+ * Exercise types returned by the Comprehend API
+ * Offsets are UTF-16 code unit indexes into the exercise content, so they
+ * can be used directly with String.prototype.slice
+ */
+
+/**
+ * A reading exercise
+ */
+export interface Exercise {
+  /** Unique exercise identifier */
+  exerciseId: string;
+  /** Display title */
+  title: string;
+  /** Text the learner reads */
+  content: string;
+  /** Language code of the content, e.g. 'ja' */
+  language: string;
+  /** ISO timestamp when the exercise was created */
+  createdAt: string;
+  /** ISO timestamp when the exercise was last changed */
+  updatedAt: string;
+  /** ISO timestamp when the exercise was last opened */
+  lastAccessedAt: string;
+  /** Whether the exercise is hidden from the default list */
+  isArchived: boolean;
+}
+
+/**
+ * A span of exercise content
+ * Tokens never overlap and together cover the whole content
+ */
+export interface Token {
+  /** Unique token identifier */
+  tokenId: string;
+  /** Inclusive start offset */
+  startIndex: number;
+  /** Exclusive end offset */
+  endIndex: number;
+  /** Position of the token in the content, from 0 */
+  order: number;
+}
+
+/**
+ * A word or phrase the learner saved from an exercise
+ */
+export interface Vocab {
+  /** Unique vocab identifier */
+  vocabId: string;
+  /** Dictionary form of the word or phrase */
+  vocab: string;
+  /** Pronunciation, e.g. kana for Japanese */
+  reading: string | null;
+  /** Meaning in the learner's language */
+  equivalent: string;
+  /** Inclusive start offset of the excerpt the vocab was saved from */
+  excerptStartIndex: number;
+  /** Exclusive end offset of the excerpt the vocab was saved from */
+  excerptEndIndex: number;
+  /** Tokens the vocab is linked to */
+  tokenIds: string[];
+}
+
+/**
+ * Sender of a chat message
+ */
+export type ChatRole = "user" | "assistant";
+
+/**
+ * A message in an exercise's chat with the reading assistant
+ */
+export interface ChatMessage {
+  /** Unique message identifier */
+  chatMessageId: string;
+  /** Who sent the message */
+  role: ChatRole;
+  /** Message text */
+  content: string;
+  /** ISO timestamp when the message was sent */
+  createdAt: string;
+}
+
+/**
+ * An exercise with the related data requested through `include`
+ */
+export interface ExerciseDetail extends Exercise {
+  tokens?: Token[];
+  vocab?: Vocab[];
+  messages?: ChatMessage[];
+}
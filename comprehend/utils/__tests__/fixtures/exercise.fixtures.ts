@@ -0,0 +1,70 @@
+import { ExerciseDetail, Token, Vocab } from "@/types/exercise";
+
+/**
+ * Content of the mock exercise
+ */
+export const MOCK_CONTENT = "Ich trinke grünen Tee.";
+
+/**
+ * Tokens of MOCK_CONTENT, deliberately out of reading order
+ */
+export function createMockTokens(): Token[] {
+  return [
+    { tokenId: "t7", startIndex: 18, endIndex: 21, order: 6 },
+    { tokenId: "t1", startIndex: 0, endIndex: 3, order: 0 },
+    { tokenId: "t2", startIndex: 3, endIndex: 4, order: 1 },
+    { tokenId: "t3", startIndex: 4, endIndex: 10, order: 2 },
+    { tokenId: "t4", startIndex: 10, endIndex: 11, order: 3 },
+    { tokenId: "t5", startIndex: 11, endIndex: 17, order: 4 },
+    { tokenId: "t6", startIndex: 17, endIndex: 18, order: 5 },
+    { tokenId: "t8", startIndex: 21, endIndex: 22, order: 7 },
+  ];
+}
+
+/**
+ * Create a vocab entry saved from MOCK_CONTENT
+ */
+export function createMockVocab(overrides: Partial<Vocab> = {}): Vocab {
+  return {
+    vocabId: "v1",
+    vocab: "trinken",
+    reading: "trin·ken",
+    equivalent: "to drink",
+    excerptStartIndex: 4,
+    excerptEndIndex: 10,
+    tokenIds: ["t3"],
+    ...overrides,
+  };
+}
+
+/**
+ * Create a tokenized exercise with two saved vocab entries
+ */
+export function createMockExercise(
+  overrides: Partial<ExerciseDetail> = {},
+): ExerciseDetail {
+  return {
+    exerciseId: "ex-1",
+    title: "Beim Frühstück",
+    content: MOCK_CONTENT,
+    language: "de",
+    createdAt: "2026-01-05T08:00:00.000Z",
+    updatedAt: "2026-01-05T08:00:00.000Z",
+    lastAccessedAt: "2026-01-06T08:00:00.000Z",
+    isArchived: false,
+    tokens: createMockTokens(),
+    vocab: [
+      createMockVocab(),
+      createMockVocab({
+        vocabId: "v2",
+        vocab: "grüner Tee",
+        reading: null,
+        equivalent: "green tea",
+        excerptStartIndex: 11,
+        excerptEndIndex: 21,
+        tokenIds: ["t5", "t6", "t7"],
+      }),
+    ],
+    ...overrides,
+  };
+}
@@ -0,0 +1,66 @@
+import { AUTH_ROUTES, ROUTES } from "@/constants/app";
+import { resolveReturnTo, withReturnTo } from "../navigation";
+
+describe("resolveReturnTo", () => {
+  it("Should return an in-app path", () => {
+    // Arrange & Act & Assert
+    expect(resolveReturnTo("/exercises/ex-42")).toBe("/exercises/ex-42");
+    expect(resolveReturnTo("/exercises/ex-42?token=t3")).toBe(
+      "/exercises/ex-42?token=t3",
+    );
+  });
+
+  it("Should use the first value of a repeated param", () => {
+    // Arrange & Act & Assert
+    expect(resolveReturnTo(["/exercises/ex-1", "/exercises/ex-2"])).toBe(
+      "/exercises/ex-1",
+    );
+  });
+
+  it.each([
+    ["a missing path", undefined],
+    ["an empty path", ""],
+    ["a relative path", "exercises/ex-42"],
+    ["an external URL", "https://evil.example.com"],
+    ["a protocol-relative URL", "//evil.example.com"],
+    ["a backslash URL", "/\\evil.example.com"],
+  ])("Should fall back to the Reader for %s", (_, returnTo) => {
+    // Act & Assert
+    expect(resolveReturnTo(returnTo)).toBe(ROUTES.READER);
+  });
+
+  it.each(AUTH_ROUTES)("Should not return into %s", (route) => {
+    // Act & Assert
+    expect(resolveReturnTo(route)).toBe(ROUTES.READER);
+    expect(resolveReturnTo(`${route}?returnTo=/exercises/ex-42`)).toBe(
+      ROUTES.READER,
+    );
+    expect(resolveReturnTo(`${route}/`)).toBe(ROUTES.READER);
+  });
+
+  it("Should not return into the auth group", () => {
+    // Act & Assert
+    expect(resolveReturnTo("/(auth)/sign-in")).toBe(ROUTES.READER);
+  });
+});
+
+describe("withReturnTo", () => {
+  it("Should add the return path to the params", () => {
+    // Arrange & Act
+    const params = withReturnTo("/exercises/ex-42", { username: "alice" });
+
+    // Assert
+    expect(params).toEqual({
+      username: "alice",
+      returnTo: "/exercises/ex-42",
+    });
+  });
+
+  it("Should leave the params alone without a return path", () => {
+    // Arrange
+    const mockParams = { username: "alice" };
+
+    // Act & Assert
+    expect(withReturnTo(undefined, mockParams)).toBe(mockParams);
+  });
+});
@@ -0,0 +1,88 @@
+import { buildReaderTokens, buildTokenVocabIndex } from "../reader";
+import {
+  createMockTokens,
+  createMockVocab,
+  MOCK_CONTENT,
+} from "./fixtures/exercise.fixtures";
+
+describe("buildTokenVocabIndex", () => {
+  it("Should map every linked token to its vocab", () => {
+    // Arrange
+    const mockVocab = createMockVocab({ tokenIds: ["t5", "t6", "t7"] });
+
+    // Act
+    const index = buildTokenVocabIndex([mockVocab]);
+
+    // Assert
+    expect([...index.keys()]).toEqual(["t5", "t6", "t7"]);
+    expect(index.get("t6")).toBe(mockVocab);
+  });
+
+  it("Should keep the first vocab when a token is linked twice", () => {
+    // Arrange
+    const first = createMockVocab({ vocabId: "v1", tokenIds: ["t3"] });
+    const second = createMockVocab({ vocabId: "v2", tokenIds: ["t3", "t5"] });
+
+    // Act
+    const index = buildTokenVocabIndex([first, second]);
+
+    // Assert
+    expect(index.get("t3")).toBe(first);
+    expect(index.get("t5")).toBe(second);
+  });
+});
+
+describe("buildReaderTokens", () => {
+  it("Should return the tokens in reading order with their text", () => {
+    // Arrange & Act
+    const tokens = buildReaderTokens(MOCK_CONTENT, createMockTokens(), []);
+
+    // Assert
+    expect(tokens.map((token) => token.text)).toEqual([
+      "Ich",
+      " ",
+      "trinke",
+      " ",
+      "grünen",
+      " ",
+      "Tee",
+      ".",
+    ]);
+    expect(tokens.map((token) => token.text).join("")).toBe(MOCK_CONTENT);
+  });
+
+  it("Should mark whitespace tokens", () => {
+    // Arrange & Act
+    const tokens = buildReaderTokens(MOCK_CONTENT, createMockTokens(), []);
+
+    // Assert
+    expect(
+      tokens.filter((token) => token.isWhitespace).map((t) => t.token.tokenId),
+    ).toEqual(["t2", "t4", "t6"]);
+  });
+
+  it("Should link tokens to their saved vocab", () => {
+    // Arrange
+    const mockVocab = createMockVocab();
+
+    // Act
+    const tokens = buildReaderTokens(MOCK_CONTENT, createMockTokens(), [
+      mockVocab,
+    ]);
+
+    // Assert
+    expect(tokens.find((t) => t.token.tokenId === "t3")?.vocab).toBe(mockVocab);
+    expect(tokens.filter((t) => t.vocab)).toHaveLength(1);
+  });
+
+  it("Should not reorder the tokens it was given", () => {
+    // Arrange
+    const mockTokens = createMockTokens();
+
+    // Act
+    buildReaderTokens(MOCK_CONTENT, mockTokens, []);
+
+    // Assert
+    expect(mockTokens[0].tokenId).toBe("t7");
+  });
+});
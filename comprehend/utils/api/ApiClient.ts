@@ -0,0 +1,207 @@
+import { ApiErrorBody } from "@/types/api";
+import {
+  createApiError,
+  NetworkError,
+  RequestCancelledError,
+  UnauthorizedError,
+} from "./ApiError";
+import { isIdempotent, retryWithBackoff, RetryOptions } from "./retry";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+/**
+ * Query parameter values; arrays are sent comma-separated and undefined
+ * values are left out
+ */
+export type QueryParams = Record<
+  string,
+  string | number | boolean | string[] | undefined
+>;
+
+export interface ApiConfig {
+  /** API Gateway endpoint URL, including the stage */
+  baseUrl: string;
+  /** fetch implementation; defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** Retry settings for idempotent requests */
+  retry?: RetryOptions;
+}
+
+export interface RequestOptions {
+  method?: HttpMethod;
+  body?: unknown;
+  params?: QueryParams;
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+}
+
+/**
+ * Returns the ID token to send, or null when signed out
+ */
+export type IdTokenProvider = () => Promise<string | null>;
+
+/**
+ * Renews the session and returns its new ID token, or null when the
+ * session has ended
+ */
+export type IdTokenRefresher = () => Promise<string | null>;
+
+/**
+ * API Client for making authenticated requests to AWS API Gateway
+ *
+ * Sends the Cognito ID token as a bearer token and turns error responses
+ * into ApiError subclasses. A request rejected with 401 is sent once more
+ * with a refreshed token. Idempotent requests are retried with exponential
+ * backoff on transient failures.
+ */
+export class ApiClient {
+  private readonly fetchFn: typeof fetch;
+
+  constructor(
+    private readonly config: ApiConfig,
+    private readonly getIdToken: IdTokenProvider,
+    private readonly refreshIdToken?: IdTokenRefresher,
+  ) {
+    // Bound so the global fetch is not called with the client as `this`
+    this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Make an authenticated request to the API
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method ?? "GET";
+    const send = () => this.send<T>(method, path, options);
+
+    if (!isIdempotent(method)) {
+      return send();
+    }
+    return retryWithBackoff(send, this.config.retry, options.signal);
+  }
+
+  /**
+   * GET request
+   */
+  get<T>(path: string, params?: QueryParams, signal?: AbortSignal) {
+    return this.request<T>(path, { method: "GET", params, signal });
+  }
+
+  /**
+   * POST request
+   */
+  post<T>(path: string, body: unknown, signal?: AbortSignal) {
+    return this.request<T>(path, { method: "POST", body, signal });
+  }
+
+  /**
+   * PATCH request
+   */
+  patch<T>(path: string, body: unknown, signal?: AbortSignal) {
+    return this.request<T>(path, { method: "PATCH", body, signal });
+  }
+
+  /**
+   * DELETE request
+   */
+  delete<T = void>(path: string, signal?: AbortSignal) {
+    return this.request<T>(path, { method: "DELETE", signal });
+  }
+
+  /**
+   * Send one attempt of a request
+   * `refreshedToken` is set when resending after a 401
+   */
+  private async send<T>(
+    method: HttpMethod,
+    path: string,
+    options: RequestOptions,
+    refreshedToken?: string,
+  ): Promise<T> {
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    // Fetched per attempt so a retry picks up a refreshed token
+    const idToken = refreshedToken ?? (await this.getIdToken());
+    if (!idToken) {
+      throw new UnauthorizedError();
+    }
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      Authorization: `Bearer ${idToken}`,
+    };
+    if (options.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(this.buildUrl(path, options.params), {
+        method,
+        headers,
+        body:
+          options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      throw new NetworkError(error);
+    }
+
+    // The authorizer rejected the token, e.g. revoked before its expiry.
+    // The request never reached the API, so even a POST can be resent.
+    if (
+      response.status === 401 &&
+      refreshedToken === undefined &&
+      this.refreshIdToken
+    ) {
+      // A failed refresh leaves the 401 to the caller
+      const token = await this.refreshIdToken().catch(() => null);
+      if (token) {
+        return this.send<T>(method, path, options, token);
+      }
+    }
+
+    return this.handleResponse<T>(response);
+  }
+
+  /**
+   * Build URL with query parameters
+   */
+  private buildUrl(path: string, params?: QueryParams): string {
+    const base = this.config.baseUrl.replace(/\/+$/, "");
+    const query = Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        const text = Array.isArray(value) ? value.join(",") : String(value);
+        return `${encodeURIComponent(key)}=${encodeURIComponent(text)}`;
+      })
+      .join("&");
+
+    return query ? `${base}${path}?${query}` : `${base}${path}`;
+  }
+
+  /**
+   * Parse the body, throwing an ApiError for error statuses
+   */
+  private async handleResponse<T>(response: Response): Promise<T> {
+    const text = await response.text();
+    let body: unknown = undefined;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = { message: text };
+      }
+    }
+
+    if (!response.ok) {
+      throw createApiError(response.status, (body ?? {}) as ApiErrorBody);
+    }
+
+    return body as T;
+  }
+}
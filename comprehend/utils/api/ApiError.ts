@@ -0,0 +1,214 @@
+import { ApiErrorBody } from "@/types/api";
+
+/**
+ * Error returned by the API, or raised while calling it
+ * `message` is safe to show to the user; `serverMessage` keeps the raw
+ * message for logs
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status; 0 when no response was received */
+    public readonly status: number,
+    /** Error code from the API, e.g. 'NOT_FOUND' */
+    public readonly code?: string,
+    /** Raw message from the response body */
+    public readonly serverMessage?: string,
+    /** Extra details from the API, e.g. the invalid field */
+    public readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  /**
+   * Check if error is a specific HTTP status
+   */
+  isStatus(status: number): boolean {
+    return this.status === status;
+  }
+
+  /**
+   * Check if error is a 4xx client error
+   */
+  isClientError(): boolean {
+    return this.status >= 400 && this.status < 500;
+  }
+
+  /**
+   * Check if error is a 5xx server error
+   */
+  isServerError(): boolean {
+    return this.status >= 500 && this.status < 600;
+  }
+}
+
+/**
+ * The request was invalid (400); the API's message names the problem
+ */
+export class BadRequestError extends ApiError {
+  constructor(body: ApiErrorBody) {
+    super(
+      body.message ?? "The request was not valid.",
+      400,
+      body.code,
+      body.message,
+      body.details,
+    );
+    this.name = "BadRequestError";
+  }
+}
+
+/**
+ * The ID token was missing, expired or rejected (401)
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(body: ApiErrorBody = {}) {
+    super(
+      "Your session has expired. Sign in again.",
+      401,
+      body.code,
+      body.message,
+    );
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * The request was refused (403)
+ * API Gateway also answers unknown routes with 403
+ */
+export class ForbiddenError extends ApiError {
+  constructor(body: ApiErrorBody = {}) {
+    super(
+      "You do not have permission to do that.",
+      403,
+      body.code,
+      body.message,
+    );
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * The resource does not exist or belongs to another user (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(body: ApiErrorBody = {}) {
+    super(
+      "That item could not be found. It may have been deleted.",
+      404,
+      body.code,
+      body.message,
+    );
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitError extends ApiError {
+  constructor(body: ApiErrorBody = {}) {
+    super(
+      "Too many requests. Wait a moment and try again.",
+      429,
+      body.code,
+      body.message,
+    );
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The reading assistant could not answer (502 from the ReaderAgent)
+ */
+export class AgentUnavailableError extends ApiError {
+  constructor(body: ApiErrorBody) {
+    super(
+      "The reading assistant could not answer right now. Try again.",
+      502,
+      body.code,
+      body.message,
+    );
+    this.name = "AgentUnavailableError";
+  }
+}
+
+/**
+ * The server failed or timed out (5xx)
+ */
+export class ServerError extends ApiError {
+  constructor(status: number, body: ApiErrorBody = {}) {
+    super(
+      "Something went wrong on our side. Try again.",
+      status,
+      body.code,
+      body.message,
+    );
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * No response was received, e.g. while offline
+ */
+export class NetworkError extends ApiError {
+  constructor(cause?: unknown) {
+    super(
+      "Could not reach the server. Check your connection.",
+      0,
+      "NETWORK_ERROR",
+      cause instanceof Error ? cause.message : undefined,
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super("The request was cancelled.", 0, "CANCELLED");
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Error codes the ReaderAgent returns with a 502
+ */
+const AGENT_ERROR_CODES = ["AGENT_UNAVAILABLE", "AGENT_INVALID_RESPONSE"];
+
+/**
+ * Maps an error response onto the matching error class
+ */
+export function createApiError(status: number, body: ApiErrorBody): ApiError {
+  switch (status) {
+    case 400:
+      return new BadRequestError(body);
+    case 401:
+      return new UnauthorizedError(body);
+    case 403:
+      return new ForbiddenError(body);
+    case 404:
+      return new NotFoundError(body);
+    case 429:
+      return new RateLimitError(body);
+  }
+
+  if (status === 502 && body.code && AGENT_ERROR_CODES.includes(body.code)) {
+    return new AgentUnavailableError(body);
+  }
+  if (status >= 500) {
+    return new ServerError(status, body);
+  }
+
+  return new ApiError(
+    body.message ?? `Request failed with status ${status}.`,
+    status,
+    body.code,
+    body.message,
+    body.details,
+  );
+}
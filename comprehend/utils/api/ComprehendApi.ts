@@ -0,0 +1,140 @@
+import {
+  CreateExerciseRequest,
+  CreateVocabRequest,
+  ExerciseInclude,
+  ExerciseList,
+  ListExercisesParams,
+  SendMessageResponse,
+  UpdateExerciseRequest,
+  UpdateVocabRequest,
+  VocabList,
+} from "@/types/api";
+import { Exercise, ExerciseDetail, Vocab } from "@/types/exercise";
+import { ApiClient } from "./ApiClient";
+
+/**
+ * Encodes an ID for use as a path segment
+ */
+const id = (value: string) => encodeURIComponent(value);
+
+/**
+ * Type-safe methods for every Comprehend API endpoint
+ * Every method takes an optional AbortSignal to cancel the request
+ */
+export class ComprehendApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * List exercises, newest first unless sorted otherwise
+   */
+  listExercises(
+    params: ListExercisesParams = {},
+    signal?: AbortSignal,
+  ): Promise<ExerciseList> {
+    return this.client.get<ExerciseList>("/exercises", { ...params }, signal);
+  }
+
+  /**
+   * Get an exercise with the requested related data
+   */
+  getExercise(
+    exerciseId: string,
+    include: ExerciseInclude[] = [],
+    signal?: AbortSignal,
+  ): Promise<ExerciseDetail> {
+    return this.client.get<ExerciseDetail>(
+      `/exercises/${id(exerciseId)}`,
+      { include: include.length > 0 ? include : undefined },
+      signal,
+    );
+  }
+
+  /**
+   * Create an exercise; the response includes its tokens
+   */
+  createExercise(
+    request: CreateExerciseRequest,
+    signal?: AbortSignal,
+  ): Promise<ExerciseDetail> {
+    return this.client.post<ExerciseDetail>("/exercises", request, signal);
+  }
+
+  /**
+   * Update an exercise's title, language or archived flag
+   */
+  updateExercise(
+    exerciseId: string,
+    request: UpdateExerciseRequest,
+    signal?: AbortSignal,
+  ): Promise<Exercise> {
+    return this.client.patch<Exercise>(
+      `/exercises/${id(exerciseId)}`,
+      request,
+      signal,
+    );
+  }
+
+  /**
+   * Delete an exercise and its related data
+   */
+  deleteExercise(exerciseId: string, signal?: AbortSignal): Promise<void> {
+    return this.client.delete(`/exercises/${id(exerciseId)}`, signal);
+  }
+
+  /**
+   * List the vocab saved from an exercise
+   */
+  listVocab(exerciseId: string, signal?: AbortSignal): Promise<VocabList> {
+    return this.client.get<VocabList>(
+      `/exercises/${id(exerciseId)}/vocab`,
+      undefined,
+      signal,
+    );
+  }
+
+  /**
+   * Save vocab from an exercise
+   */
+  createVocab(
+    exerciseId: string,
+    request: CreateVocabRequest,
+    signal?: AbortSignal,
+  ): Promise<Vocab> {
+    return this.client.post<Vocab>(
+      `/exercises/${id(exerciseId)}/vocab`,
+      request,
+      signal,
+    );
+  }
+
+  /**
+   * Update a vocab entry
+   */
+  updateVocab(
+    exerciseId: string,
+    vocabId: string,
+    request: UpdateVocabRequest,
+    signal?: AbortSignal,
+  ): Promise<Vocab> {
+    return this.client.patch<Vocab>(
+      `/exercises/${id(exerciseId)}/vocab/${id(vocabId)}`,
+      request,
+      signal,
+    );
+  }
+
+  /**
+   * Send a chat message about an exercise to the ReaderAgent
+   */
+  sendMessage(
+    exerciseId: string,
+    content: string,
+    signal?: AbortSignal,
+  ): Promise<SendMessageResponse> {
+    return this.client.post<SendMessageResponse>(
+      `/exercises/${id(exerciseId)}/messages`,
+      { content },
+      signal,
+    );
+  }
+}
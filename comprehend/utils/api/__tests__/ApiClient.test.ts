@@ -0,0 +1,320 @@
+import { ApiClient } from "../ApiClient";
+import {
+  NetworkError,
+  NotFoundError,
+  RequestCancelledError,
+  ServerError,
+  UnauthorizedError,
+} from "../ApiError";
+import { MockFetch } from "./fetch.mock";
+
+const BASE_URL = "https://api.example.com/dev/";
+
+describe("ApiClient", () => {
+  let mockFetch: MockFetch;
+  let mockGetIdToken: jest.Mock<Promise<string | null>, []>;
+  let mockRefreshIdToken: jest.Mock<Promise<string | null>, []>;
+  let client: ApiClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch = new MockFetch();
+    mockGetIdToken = jest.fn(async () => "id-token");
+    mockRefreshIdToken = jest.fn(async () => "refreshed-id-token");
+    client = new ApiClient(
+      { baseUrl: BASE_URL, fetch: mockFetch.fetch },
+      mockGetIdToken,
+      mockRefreshIdToken,
+    );
+  });
+
+  const requestCount = () => mockFetch.getCapturedRequests().length;
+
+  describe("Requests", () => {
+    it("Should send the ID token as a bearer token", async () => {
+      // Arrange
+      mockFetch.withResponse(200, { exercises: [] });
+
+      // Act
+      const result = await client.get("/exercises");
+
+      // Assert
+      expect(result).toEqual({ exercises: [] });
+      expect(mockFetch.getCapturedRequests()[0]).toMatchObject({
+        url: "https://api.example.com/dev/exercises",
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+          Authorization: "Bearer id-token",
+        },
+      });
+    });
+
+    it("Should send a JSON body and query parameters", async () => {
+      // Arrange
+      mockFetch.withResponse(201, { id: "ex-1" });
+
+      // Act
+      await client.post("/exercises", { topic: "café" });
+      await client.get("/vocab", {
+        tags: ["n5", "verbs"],
+        limit: 20,
+        cursor: undefined,
+      });
+
+      // Assert
+      const [post, get] = mockFetch.getCapturedRequests();
+      expect(post.headers["Content-Type"]).toBe("application/json");
+      expect(post.body).toBe('{"topic":"café"}');
+      expect(get.url).toBe(
+        "https://api.example.com/dev/vocab?tags=n5%2Cverbs&limit=20",
+      );
+      expect(get.headers["Content-Type"]).toBeUndefined();
+    });
+
+    it("Should not send a request when signed out", async () => {
+      // Arrange
+      mockGetIdToken.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(client.get("/exercises")).rejects.toBeInstanceOf(
+        UnauthorizedError,
+      );
+      expect(requestCount()).toBe(0);
+    });
+
+    it("Should turn error responses into ApiErrors", async () => {
+      // Arrange
+      mockFetch.withResponse(404, {
+        code: "NOT_FOUND",
+        message: "Exercise not found",
+      });
+
+      // Act & Assert
+      await expect(client.get("/exercises/ex-9")).rejects.toMatchObject({
+        constructor: NotFoundError,
+        status: 404,
+        code: "NOT_FOUND",
+      });
+    });
+
+    it("Should report fetch failures as network errors", async () => {
+      // Arrange
+      mockFetch.withNetworkError();
+      client = new ApiClient(
+        {
+          baseUrl: BASE_URL,
+          fetch: mockFetch.fetch,
+          retry: { maxAttempts: 1 },
+        },
+        mockGetIdToken,
+      );
+
+      // Act & Assert
+      await expect(client.get("/exercises")).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+    });
+  });
+
+  describe("Retries", () => {
+    it.each([500, 502, 503, 504, 429])(
+      "Should retry a GET that failed with %i",
+      async (status) => {
+        // Arrange
+        mockFetch.withResponse(status).withResponse(200, { ok: true });
+
+        // Act
+        const result = client.get("/exercises");
+        await jest.advanceTimersByTimeAsync(499);
+        const countBeforeBackoff = requestCount();
+        await jest.advanceTimersByTimeAsync(1);
+
+        // Assert
+        await expect(result).resolves.toEqual({ ok: true });
+        expect(countBeforeBackoff).toBe(1);
+        expect(requestCount()).toBe(2);
+      },
+    );
+
+    it("Should back off exponentially and give up after three attempts", async () => {
+      // Arrange
+      mockFetch.withResponse(503);
+
+      // Act
+      const result = client.get("/exercises");
+      const assertion = expect(result).rejects.toBeInstanceOf(ServerError);
+      await jest.advanceTimersByTimeAsync(500);
+      const countAfterFirstDelay = requestCount();
+      await jest.advanceTimersByTimeAsync(999);
+      const countBeforeSecondDelay = requestCount();
+      await jest.advanceTimersByTimeAsync(1);
+
+      // Assert
+      await assertion;
+      expect(countAfterFirstDelay).toBe(2);
+      expect(countBeforeSecondDelay).toBe(2);
+      expect(requestCount()).toBe(3);
+    });
+
+    it("Should retry when the server cannot be reached", async () => {
+      // Arrange
+      mockFetch.withNetworkError().withResponse(200, { ok: true });
+
+      // Act
+      const result = client.get("/exercises");
+      await jest.runAllTimersAsync();
+
+      // Assert
+      await expect(result).resolves.toEqual({ ok: true });
+    });
+
+    it.each([400, 403, 404])(
+      "Should not retry a GET that failed with %i",
+      async (status) => {
+        // Arrange
+        mockFetch.withResponse(status).withResponse(200, { ok: true });
+
+        // Act
+        const result = client.get("/exercises");
+        const assertion = expect(result).rejects.toMatchObject({ status });
+        await jest.runAllTimersAsync();
+
+        // Assert
+        await assertion;
+        expect(requestCount()).toBe(1);
+      },
+    );
+
+    it("Should not retry a POST", async () => {
+      // Arrange
+      mockFetch.withResponse(503).withResponse(201, { id: "ex-1" });
+
+      // Act
+      const result = client.post("/exercises", { topic: "travel" });
+      const assertion = expect(result).rejects.toBeInstanceOf(ServerError);
+      await jest.runAllTimersAsync();
+
+      // Assert
+      await assertion;
+      expect(requestCount()).toBe(1);
+    });
+  });
+
+  describe("Cancellation", () => {
+    it("Should reject an aborted request as cancelled", async () => {
+      // Arrange
+      mockFetch.withHangingRequests();
+      const controller = new AbortController();
+
+      // Act
+      const result = client.get("/exercises", undefined, controller.signal);
+      const assertion = expect(result).rejects.toBeInstanceOf(
+        RequestCancelledError,
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      // Assert
+      await assertion;
+      expect(mockFetch.getCapturedRequests()[0].signal).toBe(controller.signal);
+    });
+
+    it("Should cancel pending retries", async () => {
+      // Arrange
+      mockFetch.withNetworkError();
+      const controller = new AbortController();
+
+      // Act
+      const result = client.get("/exercises", undefined, controller.signal);
+      const assertion = expect(result).rejects.toBeInstanceOf(
+        RequestCancelledError,
+      );
+      await jest.advanceTimersByTimeAsync(100);
+      controller.abort();
+      await jest.runAllTimersAsync();
+
+      // Assert
+      await assertion;
+      expect(requestCount()).toBe(1);
+    });
+
+    it("Should not send a request that was already cancelled", async () => {
+      // Arrange
+      const controller = new AbortController();
+      controller.abort();
+
+      // Act & Assert
+      await expect(
+        client.get("/exercises", undefined, controller.signal),
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(requestCount()).toBe(0);
+    });
+  });
+
+  describe("Token refresh", () => {
+    it("Should resend with a refreshed token after a 401", async () => {
+      // Arrange
+      mockFetch.withResponse(401).withResponse(200, { ok: true });
+
+      // Act
+      const result = await client.get("/exercises");
+
+      // Assert
+      expect(result).toEqual({ ok: true });
+      expect(mockRefreshIdToken).toHaveBeenCalledTimes(1);
+      expect(
+        mockFetch
+          .getCapturedRequests()
+          .map((request) => request.headers.Authorization),
+      ).toEqual(["Bearer id-token", "Bearer refreshed-id-token"]);
+    });
+
+    it("Should resend a POST rejected by the authorizer", async () => {
+      // Arrange
+      mockFetch.withResponse(401).withResponse(201, { id: "ex-1" });
+
+      // Act
+      const result = await client.post("/exercises", { topic: "travel" });
+
+      // Assert
+      expect(result).toEqual({ id: "ex-1" });
+      expect(requestCount()).toBe(2);
+    });
+
+    it("Should refresh only once when the new token is rejected too", async () => {
+      // Arrange
+      mockFetch.withResponse(401);
+
+      // Act & Assert
+      await expect(client.get("/exercises")).rejects.toBeInstanceOf(
+        UnauthorizedError,
+      );
+      expect(mockRefreshIdToken).toHaveBeenCalledTimes(1);
+      expect(requestCount()).toBe(2);
+    });
+
+    it("Should report a 401 when the session has ended", async () => {
+      // Arrange
+      mockFetch.withResponse(401);
+      mockRefreshIdToken.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(client.get("/exercises")).rejects.toBeInstanceOf(
+        UnauthorizedError,
+      );
+      expect(requestCount()).toBe(1);
+    });
+
+    it("Should report a 401 when the refresh fails", async () => {
+      // Arrange
+      mockFetch.withResponse(401);
+      mockRefreshIdToken.mockRejectedValue(new Error("offline"));
+
+      // Act & Assert
+      await expect(client.get("/exercises")).rejects.toBeInstanceOf(
+        UnauthorizedError,
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+interface CapturedRequest {
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+type MockResult = { status: number; body?: unknown } | { error: Error };
+
+/**
+ * Fake fetch for driving ApiClient without a network
+ *
+ * Answers requests with the configured results in order; the last one
+ * repeats. A request whose signal aborts rejects like the real fetch.
+ */
+export class MockFetch {
+  private results: MockResult[] = [];
+  private capturedRequests: CapturedRequest[] = [];
+  private hang = false;
+
+  /**
+   * Queue a response
+   */
+  withResponse(status: number, body?: unknown): this {
+    this.results.push({ status, body });
+    return this;
+  }
+
+  /**
+   * Queue a failure to reach the server
+   */
+  withNetworkError(message = "Network request failed"): this {
+    this.results.push({ error: new TypeError(message) });
+    return this;
+  }
+
+  /**
+   * Never answer, until the request is aborted
+   */
+  withHangingRequests(): this {
+    this.hang = true;
+    return this;
+  }
+
+  /**
+   * Get all captured requests
+   */
+  getCapturedRequests(): CapturedRequest[] {
+    return this.capturedRequests;
+  }
+
+  /**
+   * Clear all captured state and configurations
+   */
+  clear(): void {
+    this.results = [];
+    this.capturedRequests = [];
+    this.hang = false;
+  }
+
+  /**
+   * The fetch implementation to inject
+   */
+  readonly fetch = (
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+  ): Promise<Response> => {
+    const signal = init.signal ?? undefined;
+    this.capturedRequests.push({
+      url: String(input),
+      method: init.method,
+      headers: { ...(init.headers as Record<string, string>) },
+      body: init.body as string | undefined,
+      signal,
+    });
+
+    return new Promise((resolve, reject) => {
+      signal?.addEventListener("abort", () =>
+        reject(new DOMException("Aborted", "AbortError")),
+      );
+      if (this.hang) {
+        return;
+      }
+
+      const index = Math.min(
+        this.capturedRequests.length - 1,
+        this.results.length - 1,
+      );
+      const result = this.results[index];
+      if (!result) {
+        reject(new Error("No response configured"));
+      } else if ("error" in result) {
+        reject(result.error);
+      } else {
+        resolve(
+          new Response(
+            result.body === undefined ? null : JSON.stringify(result.body),
+            { status: result.status },
+          ),
+        );
+      }
+    });
+  };
+}
@@ -0,0 +1,138 @@
+import {
+  ApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RequestCancelledError,
+  ServerError,
+} from "../ApiError";
+import { isIdempotent, isRetryable, retryWithBackoff } from "../retry";
+
+describe("isIdempotent", () => {
+  it("Should allow retrying reads, replacements and deletes", () => {
+    // Arrange & Act & Assert
+    ["GET", "put", "DELETE", "HEAD", "OPTIONS"].forEach((method) =>
+      expect(isIdempotent(method)).toBe(true),
+    );
+  });
+
+  it("Should never retry POST or PATCH", () => {
+    // Arrange & Act & Assert
+    expect(isIdempotent("POST")).toBe(false);
+    expect(isIdempotent("PATCH")).toBe(false);
+  });
+});
+
+describe("isRetryable", () => {
+  it("Should retry network failures, rate limiting and gateway errors", () => {
+    // Arrange & Act & Assert
+    expect(isRetryable(new NetworkError())).toBe(true);
+    expect(isRetryable(new RateLimitError())).toBe(true);
+    [500, 502, 503, 504].forEach((status) =>
+      expect(isRetryable(new ServerError(status))).toBe(true),
+    );
+  });
+
+  it("Should not retry client errors, cancellations or other errors", () => {
+    // Arrange & Act & Assert
+    expect(isRetryable(new NotFoundError())).toBe(false);
+    expect(isRetryable(new ApiError("Bad request", 400))).toBe(false);
+    expect(isRetryable(new RequestCancelledError())).toBe(false);
+    expect(isRetryable(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("retryWithBackoff", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("Should back off exponentially between attempts", async () => {
+    // Arrange
+    const mockFn = jest
+      .fn()
+      .mockRejectedValueOnce(new ServerError(503))
+      .mockRejectedValueOnce(new ServerError(503))
+      .mockResolvedValue("done");
+
+    // Act
+    const result = retryWithBackoff(mockFn, {
+      initialDelay: 100,
+      backoffMultiplier: 3,
+    });
+
+    // Assert
+    await jest.advanceTimersByTimeAsync(99);
+    expect(mockFn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockFn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(299);
+    expect(mockFn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("done");
+    expect(mockFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("Should cap the delay at maxDelay", async () => {
+    // Arrange
+    const mockFn = jest
+      .fn()
+      .mockRejectedValueOnce(new ServerError(503))
+      .mockRejectedValueOnce(new ServerError(503))
+      .mockResolvedValue("done");
+
+    // Act
+    const result = retryWithBackoff(mockFn, {
+      initialDelay: 400,
+      maxDelay: 500,
+    });
+    await jest.advanceTimersByTimeAsync(400 + 500);
+
+    // Assert
+    await expect(result).resolves.toBe("done");
+  });
+
+  it("Should give up after maxAttempts", async () => {
+    // Arrange
+    const mockFn = jest.fn().mockRejectedValue(new ServerError(502));
+
+    // Act
+    const result = retryWithBackoff(mockFn, { maxAttempts: 2 });
+    const assertion = expect(result).rejects.toBeInstanceOf(ServerError);
+    await jest.runAllTimersAsync();
+
+    // Assert
+    await assertion;
+    expect(mockFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("Should not retry an error that is not retryable", async () => {
+    // Arrange
+    const mockFn = jest.fn().mockRejectedValue(new NotFoundError());
+
+    // Act & Assert
+    await expect(retryWithBackoff(mockFn)).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("Should stop waiting when the signal aborts", async () => {
+    // Arrange
+    const mockFn = jest.fn().mockRejectedValue(new NetworkError());
+    const controller = new AbortController();
+
+    // Act
+    const result = retryWithBackoff(mockFn, {}, controller.signal);
+    const assertion = expect(result).rejects.toBeInstanceOf(
+      RequestCancelledError,
+    );
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    // Assert
+    await assertion;
+    await jest.runAllTimersAsync();
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,25 @@
+import { ApiError, RequestCancelledError, UnauthorizedError } from "./ApiError";
+
+/**
+ * Message to show the user for an error from the API client
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    return error.message;
+  }
+  return "An unexpected error occurred.";
+}
+
+/**
+ * Check if error should trigger sign-out
+ */
+export function shouldSignOut(error: unknown): boolean {
+  return error instanceof UnauthorizedError;
+}
+
+/**
+ * Check if error comes from a cancelled request and can be ignored
+ */
+export function isCancelled(error: unknown): boolean {
+  return error instanceof RequestCancelledError;
+}
@@ -0,0 +1,105 @@
+import { ApiError, NetworkError, RequestCancelledError } from "./ApiError";
+
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds */
+  initialDelay?: number;
+  /** Maximum delay in milliseconds */
+  maxDelay?: number;
+  /** Backoff multiplier */
+  backoffMultiplier?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 5000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * HTTP methods that can be repeated without changing the result
+ * POST and PATCH are never retried, so a lost response cannot create a
+ * second exercise or send a message twice
+ */
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE", "OPTIONS"];
+
+/**
+ * Check if a request with this method may be retried
+ */
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Check if error is retryable
+ * Network failures, rate limiting and gateway errors are transient
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof RequestCancelledError) {
+    return false;
+  }
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  return [429, 500, 502, 503, 504].includes(error.status);
+}
+
+/**
+ * Wait for a delay, ending early when the signal aborts
+ */
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry a function with exponential backoff
+ * Stops at the first non-retryable error or when the signal aborts
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const { maxAttempts, initialDelay, maxDelay, backoffMultiplier } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+
+  let attempt = 0;
+  let delay = initialDelay;
+
+  while (true) {
+    try {
+      return await fn();
+    } catch (error) {
+      attempt++;
+
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      await sleep(delay, signal);
+      delay = Math.min(delay * backoffMultiplier, maxDelay);
+    }
+  }
+}
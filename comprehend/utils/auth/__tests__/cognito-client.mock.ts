@@ -0,0 +1,188 @@
+import {
+  AuthSession,
+  CodeDelivery,
+  MfaChallenge,
+  MfaType,
+  SignInResult,
+  SignUpParams,
+  SignUpResult,
+} from "@/types/auth";
+import { CognitoClient } from "../cognito-client";
+import { createMockSession } from "./fixtures/auth.fixtures";
+
+type Operation = keyof CognitoClient;
+
+interface CapturedCall {
+  operation: Operation;
+  args: unknown[];
+}
+
+const EMAIL_DELIVERY: CodeDelivery = {
+  medium: "EMAIL",
+  destination: "a***@e***.com",
+};
+
+/**
+ * Fake CognitoClient for driving AuthProvider without a user pool
+ *
+ * Signs in to a fresh session, and refreshes to a new one, unless configured
+ * otherwise. Errors are shaped like the SDK's, with a Cognito `code`.
+ */
+export class MockCognitoClient implements CognitoClient {
+  private session: AuthSession = createMockSession();
+  private refreshedSession?: AuthSession;
+  private mfaChallenge?: MfaChallenge;
+  private signUpResult: SignUpResult = {
+    userConfirmed: false,
+    codeDelivery: EMAIL_DELIVERY,
+  };
+  private errors = new Map<Operation, Error>();
+  private pending = new Map<Operation, Promise<void>>();
+  private calls: CapturedCall[] = [];
+
+  /**
+   * Configure the session signIn and confirmMfa resolve with
+   */
+  withSession(session: AuthSession): this {
+    this.session = session;
+    return this;
+  }
+
+  /**
+   * Configure the session refreshSession resolves with
+   */
+  withRefreshedSession(session: AuthSession): this {
+    this.refreshedSession = session;
+    return this;
+  }
+
+  /**
+   * Make signIn ask for a second factor
+   */
+  withMfa(challenge: MfaChallenge): this {
+    this.mfaChallenge = challenge;
+    return this;
+  }
+
+  /**
+   * Configure the result of signUp
+   */
+  withSignUpResult(result: SignUpResult): this {
+    this.signUpResult = result;
+    return this;
+  }
+
+  /**
+   * Make an operation reject with a Cognito error code
+   */
+  withError(operation: Operation, code: string, message = code): this {
+    this.errors.set(operation, Object.assign(new Error(message), { code }));
+    return this;
+  }
+
+  /**
+   * Hold an operation until the returned function is called
+   */
+  withPending(operation: Operation): () => void {
+    let release!: () => void;
+    this.pending.set(
+      operation,
+      new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    );
+    return release;
+  }
+
+  /**
+   * Get captured calls, optionally for one operation
+   */
+  getCalls(operation?: Operation): CapturedCall[] {
+    return operation
+      ? this.calls.filter((call) => call.operation === operation)
+      : this.calls;
+  }
+
+  /**
+   * Clear all captured state and configurations
+   */
+  clear(): void {
+    this.session = createMockSession();
+    this.refreshedSession = undefined;
+    this.mfaChallenge = undefined;
+    this.signUpResult = { userConfirmed: false, codeDelivery: EMAIL_DELIVERY };
+    this.errors.clear();
+    this.pending.clear();
+    this.calls = [];
+  }
+
+  async signUp(params: SignUpParams): Promise<SignUpResult> {
+    await this.record("signUp", params);
+    return this.signUpResult;
+  }
+
+  async confirmSignUp(username: string, code: string): Promise<void> {
+    await this.record("confirmSignUp", username, code);
+  }
+
+  async resendConfirmationCode(
+    username: string,
+  ): Promise<CodeDelivery | undefined> {
+    await this.record("resendConfirmationCode", username);
+    return EMAIL_DELIVERY;
+  }
+
+  async signIn(username: string, password: string): Promise<SignInResult> {
+    await this.record("signIn", username, password);
+    return this.mfaChallenge
+      ? { status: "MFA_REQUIRED", challenge: this.mfaChallenge }
+      : { status: "SIGNED_IN", session: this.session };
+  }
+
+  async confirmMfa(code: string, type: MfaType): Promise<AuthSession> {
+    await this.record("confirmMfa", code, type);
+    return this.session;
+  }
+
+  async forgotPassword(username: string): Promise<CodeDelivery | undefined> {
+    await this.record("forgotPassword", username);
+    return EMAIL_DELIVERY;
+  }
+
+  async confirmPassword(
+    username: string,
+    code: string,
+    newPassword: string,
+  ): Promise<void> {
+    await this.record("confirmPassword", username, code, newPassword);
+  }
+
+  async refreshSession(session: AuthSession): Promise<AuthSession> {
+    await this.record("refreshSession", session);
+    return (
+      this.refreshedSession ??
+      createMockSession({
+        idToken: "refreshed-id-token",
+        accessToken: "refreshed-access-token",
+        refreshToken: session.refreshToken,
+        user: session.user,
+      })
+    );
+  }
+
+  async signOut(session: AuthSession): Promise<void> {
+    await this.record("signOut", session);
+  }
+
+  /**
+   * Capture a call, then wait for it to be released and fail if configured
+   */
+  private async record(operation: Operation, ...args: unknown[]) {
+    this.calls.push({ operation, args });
+    await this.pending.get(operation);
+    const error = this.errors.get(operation);
+    if (error) {
+      throw error;
+    }
+  }
+}
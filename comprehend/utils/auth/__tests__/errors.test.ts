@@ -0,0 +1,49 @@
+import { AuthError, toAuthError } from "../errors";
+
+describe("toAuthError", () => {
+  it("Should show a readable message for known Cognito codes", () => {
+    // Arrange
+    const error = Object.assign(new Error("Incorrect username or password."), {
+      code: "UserNotFoundException",
+    });
+
+    // Act
+    const authError = toAuthError(error, "Sign in failed");
+
+    // Assert
+    expect(authError).toBeInstanceOf(AuthError);
+    expect(authError.code).toBe("UserNotFoundException");
+    expect(authError.message).toBe("Incorrect username or password.");
+  });
+
+  it("Should keep Cognito's message for unknown codes", () => {
+    // Arrange
+    const error = Object.assign(new Error("Password reset required"), {
+      code: "PasswordResetRequiredException",
+    });
+
+    // Act
+    const authError = toAuthError(error, "Sign in failed");
+
+    // Assert
+    expect(authError.code).toBe("PasswordResetRequiredException");
+    expect(authError.message).toBe("Password reset required");
+  });
+
+  it("Should fall back to the given message without one", () => {
+    // Arrange & Act
+    const authError = toAuthError("boom", "Sign up failed");
+
+    // Assert
+    expect(authError.code).toBe("AuthError");
+    expect(authError.message).toBe("Sign up failed");
+  });
+
+  it("Should return an AuthError unchanged", () => {
+    // Arrange
+    const error = new AuthError("Already converted", "CodeMismatchException");
+
+    // Act & Assert
+    expect(toAuthError(error, "Verification failed")).toBe(error);
+  });
+});
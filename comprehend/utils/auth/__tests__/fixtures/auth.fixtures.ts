@@ -0,0 +1,26 @@
+import { AuthSession } from "@/types/auth";
+
+/**
+ * Lifetime of a Cognito ID token
+ */
+export const TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+/**
+ * Create a session that expires an hour from now
+ */
+export function createMockSession(
+  overrides: Partial<AuthSession> = {},
+): AuthSession {
+  return {
+    idToken: "id-token",
+    accessToken: "access-token",
+    refreshToken: "refresh-token",
+    expiresAt: Date.now() + TOKEN_LIFETIME_MS,
+    user: {
+      username: "alice",
+      sub: "11111111-2222-3333-4444-555555555555",
+      email: "alice@example.com",
+    },
+    ...overrides,
+  };
+}
@@ -0,0 +1,49 @@
+import { AuthSession } from "@/types/auth";
+import { TokenStorage } from "../token-storage";
+
+/**
+ * In-memory TokenStorage
+ * Create one per test; a fresh instance holds no session
+ */
+export class MockTokenStorage implements TokenStorage {
+  private session: AuthSession | null = null;
+  private loadError?: Error;
+
+  /**
+   * Configure the stored session, as left by a previous launch
+   */
+  withSession(session: AuthSession): this {
+    this.session = session;
+    return this;
+  }
+
+  /**
+   * Make load reject, as with unreadable storage
+   */
+  withLoadError(error: Error): this {
+    this.loadError = error;
+    return this;
+  }
+
+  /**
+   * Get the stored session
+   */
+  getSession(): AuthSession | null {
+    return this.session;
+  }
+
+  async load(): Promise<AuthSession | null> {
+    if (this.loadError) {
+      throw this.loadError;
+    }
+    return this.session;
+  }
+
+  async save(session: AuthSession): Promise<void> {
+    this.session = session;
+  }
+
+  async clear(): Promise<void> {
+    this.session = null;
+  }
+}
@@ -0,0 +1,84 @@
+import * as SecureStore from "expo-secure-store";
+import { SecureTokenStorage } from "../token-storage";
+import { createMockSession } from "./fixtures/auth.fixtures";
+
+jest.mock("expo-secure-store", () => {
+  const mockItems = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => mockItems.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      mockItems.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      mockItems.delete(key);
+    }),
+  };
+});
+
+describe("SecureTokenStorage", () => {
+  let storage: SecureTokenStorage;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    storage = new SecureTokenStorage();
+    await storage.clear();
+  });
+
+  it("Should load the session it saved", async () => {
+    // Arrange
+    const mockSession = createMockSession();
+
+    // Act
+    await storage.save(mockSession);
+    const loaded = await storage.load();
+
+    // Assert
+    expect(loaded).toEqual(mockSession);
+  });
+
+  it("Should store each token under its own key", async () => {
+    // Arrange
+    const mockSession = createMockSession({ refreshToken: "r".repeat(1800) });
+
+    // Act
+    await storage.save(mockSession);
+
+    // Assert
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith(
+      "auth.refreshToken",
+      mockSession.refreshToken,
+    );
+    (SecureStore.setItemAsync as jest.Mock).mock.calls.forEach(
+      ([, value]: [string, string]) => expect(value.length).toBeLessThan(2048),
+    );
+  });
+
+  it("Should load nothing when a token is missing", async () => {
+    // Arrange
+    await storage.save(createMockSession());
+    await SecureStore.deleteItemAsync("auth.accessToken");
+
+    // Act & Assert
+    expect(await storage.load()).toBeNull();
+  });
+
+  it("Should load nothing when the session info is unreadable", async () => {
+    // Arrange
+    await storage.save(createMockSession());
+    await SecureStore.setItemAsync("auth.session", "{not json");
+
+    // Act & Assert
+    expect(await storage.load()).toBeNull();
+  });
+
+  it("Should remove the session when cleared", async () => {
+    // Arrange
+    await storage.save(createMockSession());
+
+    // Act
+    await storage.clear();
+
+    // Assert
+    expect(await storage.load()).toBeNull();
+  });
+});
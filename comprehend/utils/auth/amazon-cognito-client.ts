@@ -0,0 +1,280 @@
+// SRP needs crypto.getRandomValues, which Hermes lacks; the polyfill must
+// load before the SDK
+import "react-native-get-random-values";
+import {
+  AuthenticationDetails,
+  CognitoAccessToken,
+  CognitoIdToken,
+  CognitoRefreshToken,
+  CognitoUser,
+  CognitoUserAttribute,
+  CognitoUserPool,
+  CognitoUserSession,
+} from "amazon-cognito-identity-js";
+import {
+  AuthSession,
+  CodeDelivery,
+  MfaType,
+  SignInResult,
+  SignUpParams,
+  SignUpResult,
+} from "@/types/auth";
+import { CognitoClient } from "./cognito-client";
+import { AuthError, toAuthError } from "./errors";
+
+/**
+ * User pool the app signs users into
+ */
+export interface CognitoPoolConfig {
+  userPoolId: string;
+  clientId: string;
+}
+
+/**
+ * Converts a Cognito session into the app's session shape
+ */
+function toAuthSession(session: CognitoUserSession): AuthSession {
+  const idToken = session.getIdToken();
+  const claims = idToken.decodePayload();
+
+  return {
+    idToken: idToken.getJwtToken(),
+    accessToken: session.getAccessToken().getJwtToken(),
+    refreshToken: session.getRefreshToken().getToken(),
+    // Both tokens are issued together with the same lifetime
+    expiresAt: idToken.getExpiration() * 1000,
+    user: {
+      username: claims["cognito:username"],
+      sub: claims.sub,
+      email: claims.email,
+    },
+  };
+}
+
+/**
+ * Reads the code delivery details Cognito returns with a sent code
+ */
+function toCodeDelivery(data: unknown): CodeDelivery | undefined {
+  const details = (data as { CodeDeliveryDetails?: Record<string, string> })
+    ?.CodeDeliveryDetails;
+  if (!details) {
+    return undefined;
+  }
+  return { medium: details.DeliveryMedium, destination: details.Destination };
+}
+
+/**
+ * CognitoClient backed by amazon-cognito-identity-js
+ *
+ * Signs in with SRP against the public app client (see AuthConstruct in the
+ * CDK app). The SDK's own session storage is not used: AuthProvider persists
+ * sessions, and this client rebuilds a CognitoUser from a stored session when
+ * refreshing or signing out.
+ */
+export class AmazonCognitoClient implements CognitoClient {
+  private readonly userPool: CognitoUserPool;
+
+  /** User with an unanswered MFA challenge */
+  private pendingMfaUser: CognitoUser | null = null;
+
+  constructor(config: CognitoPoolConfig) {
+    if (!config.userPoolId || !config.clientId) {
+      throw new AuthError(
+        "Cognito is not configured; set EXPO_PUBLIC_USER_POOL_ID and EXPO_PUBLIC_USER_POOL_CLIENT_ID",
+        "ConfigurationError",
+      );
+    }
+
+    this.userPool = new CognitoUserPool({
+      UserPoolId: config.userPoolId,
+      ClientId: config.clientId,
+    });
+  }
+
+  signUp({ username, email, password }: SignUpParams): Promise<SignUpResult> {
+    return new Promise((resolve, reject) => {
+      const attributes = [
+        new CognitoUserAttribute({ Name: "email", Value: email }),
+      ];
+
+      this.userPool.signUp(
+        username,
+        password,
+        attributes,
+        [],
+        (err, result) => {
+          if (err || !result) {
+            reject(toAuthError(err, "Sign up failed"));
+            return;
+          }
+          resolve({
+            userConfirmed: result.userConfirmed,
+            codeDelivery: toCodeDelivery({
+              CodeDeliveryDetails: result.codeDeliveryDetails,
+            }),
+          });
+        },
+      );
+    });
+  }
+
+  confirmSignUp(username: string, code: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.getUser(username).confirmRegistration(code, true, (err) => {
+        if (err) {
+          reject(toAuthError(err, "Verification failed"));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  resendConfirmationCode(username: string): Promise<CodeDelivery | undefined> {
+    return new Promise((resolve, reject) => {
+      this.getUser(username).resendConfirmationCode((err, result) => {
+        if (err) {
+          reject(toAuthError(err, "Could not resend the code"));
+          return;
+        }
+        resolve(toCodeDelivery(result));
+      });
+    });
+  }
+
+  signIn(username: string, password: string): Promise<SignInResult> {
+    return new Promise((resolve, reject) => {
+      const user = this.getUser(username);
+      const details = new AuthenticationDetails({
+        Username: username,
+        Password: password,
+      });
+      this.pendingMfaUser = null;
+
+      const challenge = (
+        type: MfaType,
+        parameters?: Record<string, string>,
+      ) => {
+        this.pendingMfaUser = user;
+        resolve({
+          status: "MFA_REQUIRED",
+          challenge: {
+            type,
+            destination: parameters?.CODE_DELIVERY_DESTINATION,
+          },
+        });
+      };
+
+      user.authenticateUser(details, {
+        onSuccess: (session) => {
+          resolve({ status: "SIGNED_IN", session: toAuthSession(session) });
+        },
+        onFailure: (err) => {
+          reject(toAuthError(err, "Sign in failed"));
+        },
+        mfaRequired: (_name, parameters) => challenge("SMS_MFA", parameters),
+        totpRequired: () => challenge("SOFTWARE_TOKEN_MFA"),
+        newPasswordRequired: () => {
+          // The pool allows self sign-up only, so admin-created users with a
+          // temporary password are not expected
+          reject(
+            new AuthError(
+              "This account needs a new password. Reset your password to continue.",
+              "NewPasswordRequired",
+            ),
+          );
+        },
+      });
+    });
+  }
+
+  confirmMfa(code: string, type: MfaType): Promise<AuthSession> {
+    return new Promise((resolve, reject) => {
+      const user = this.pendingMfaUser;
+      if (!user) {
+        reject(new AuthError("Sign in again to get a new code", "NoChallenge"));
+        return;
+      }
+
+      user.sendMFACode(
+        code,
+        {
+          onSuccess: (session) => {
+            this.pendingMfaUser = null;
+            resolve(toAuthSession(session));
+          },
+          onFailure: (err) => {
+            reject(toAuthError(err, "Verification failed"));
+          },
+        },
+        type,
+      );
+    });
+  }
+
+  forgotPassword(username: string): Promise<CodeDelivery | undefined> {
+    return new Promise((resolve, reject) => {
+      this.getUser(username).forgotPassword({
+        onSuccess: (data) => resolve(toCodeDelivery(data)),
+        onFailure: (err) => reject(toAuthError(err, "Password reset failed")),
+        inputVerificationCode: (data) => resolve(toCodeDelivery(data)),
+      });
+    });
+  }
+
+  confirmPassword(
+    username: string,
+    code: string,
+    newPassword: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.getUser(username).confirmPassword(code, newPassword, {
+        onSuccess: () => resolve(),
+        onFailure: (err) => reject(toAuthError(err, "Password reset failed")),
+      });
+    });
+  }
+
+  refreshSession(session: AuthSession): Promise<AuthSession> {
+    return new Promise((resolve, reject) => {
+      const refreshToken = new CognitoRefreshToken({
+        RefreshToken: session.refreshToken,
+      });
+
+      this.getUser(session.user.username).refreshSession(
+        refreshToken,
+        (err, refreshed: CognitoUserSession) => {
+          if (err || !refreshed) {
+            reject(toAuthError(err, "Session refresh failed"));
+            return;
+          }
+          resolve(toAuthSession(refreshed));
+        },
+      );
+    });
+  }
+
+  signOut(session: AuthSession): Promise<void> {
+    return new Promise((resolve) => {
+      const user = this.getUser(session.user.username);
+      user.setSignInUserSession(
+        new CognitoUserSession({
+          IdToken: new CognitoIdToken({ IdToken: session.idToken }),
+          AccessToken: new CognitoAccessToken({
+            AccessToken: session.accessToken,
+          }),
+          RefreshToken: new CognitoRefreshToken({
+            RefreshToken: session.refreshToken,
+          }),
+        }),
+      );
+      // Revokes the refresh token; signing out locally must not fail when
+      // the device is offline, so the callback always resolves
+      user.signOut(() => resolve());
+    });
+  }
+
+  private getUser(username: string): CognitoUser {
+    return new CognitoUser({ Username: username, Pool: this.userPool });
+  }
+}
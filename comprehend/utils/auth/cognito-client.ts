@@ -0,0 +1,40 @@
+import {
+  AuthSession,
+  CodeDelivery,
+  MfaType,
+  SignInResult,
+  SignUpParams,
+  SignUpResult,
+} from "@/types/auth";
+
+/**
+ * Operations the auth context needs from Cognito
+ *
+ * AuthProvider takes any implementation, so tests can drive the whole auth
+ * flow with a fake instead of the user pool. Implementations reject with an
+ * AuthError.
+ */
+export interface CognitoClient {
+  /** Register a new account; a verification code is emailed */
+  signUp(params: SignUpParams): Promise<SignUpResult>;
+  /** Verify the account's email with the emailed code */
+  confirmSignUp(username: string, code: string): Promise<void>;
+  /** Email a new verification code */
+  resendConfirmationCode(username: string): Promise<CodeDelivery | undefined>;
+  /** Sign in; resolves with a challenge when a second factor is needed */
+  signIn(username: string, password: string): Promise<SignInResult>;
+  /** Answer the MFA challenge from the last signIn call */
+  confirmMfa(code: string, type: MfaType): Promise<AuthSession>;
+  /** Email a password reset code */
+  forgotPassword(username: string): Promise<CodeDelivery | undefined>;
+  /** Set a new password with the emailed reset code */
+  confirmPassword(
+    username: string,
+    code: string,
+    newPassword: string,
+  ): Promise<void>;
+  /** Renew the ID and access tokens of a session */
+  refreshSession(session: AuthSession): Promise<AuthSession>;
+  /** Revoke the session's tokens where possible */
+  signOut(session: AuthSession): Promise<void>;
+}
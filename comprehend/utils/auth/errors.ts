@@ -0,0 +1,64 @@
+/**
+ * Messages shown for Cognito error codes
+ * Codes not listed fall back to the message Cognito returned
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  NotAuthorizedException: "Incorrect username or password.",
+  UserNotFoundException: "Incorrect username or password.",
+  UserNotConfirmedException: "Verify your email address to sign in.",
+  UsernameExistsException: "That username is already taken.",
+  InvalidPasswordException:
+    "Passwords need at least 8 characters with upper and lower case letters and a number.",
+  CodeMismatchException: "That code is not correct.",
+  ExpiredCodeException: "That code has expired. Request a new one.",
+  LimitExceededException: "Too many attempts. Try again later.",
+  TooManyRequestsException: "Too many attempts. Try again later.",
+  TooManyFailedAttemptsException: "Too many attempts. Try again later.",
+  NetworkError: "Could not reach the server. Check your connection.",
+};
+
+/**
+ * Error raised by the auth client
+ * `code` carries the Cognito error code so screens can react to specific
+ * failures, e.g. sending unconfirmed users to email verification
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = "AuthError",
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Cognito error codes the app reacts to
+ */
+export const AUTH_ERROR_CODES = {
+  /** Wrong credentials, or a refresh token that expired or was revoked */
+  NOT_AUTHORIZED: "NotAuthorizedException",
+  /** Sign-in by an account whose email is not verified yet */
+  USER_NOT_CONFIRMED: "UserNotConfirmedException",
+} as const;
+
+/**
+ * Converts an error from Cognito (or anything else) into an AuthError
+ */
+export function toAuthError(error: unknown, fallback: string): AuthError {
+  if (error instanceof AuthError) {
+    return error;
+  }
+
+  const code =
+    typeof error === "object" && error !== null && "code" in error
+      ? String((error as { code: unknown }).code)
+      : undefined;
+  const message =
+    error instanceof Error && error.message ? error.message : fallback;
+
+  return new AuthError(
+    (code && ERROR_MESSAGES[code]) ?? message,
+    code ?? "AuthError",
+  );
+}
@@ -0,0 +1,76 @@
+import * as SecureStore from "expo-secure-store";
+import { AuthSession } from "@/types/auth";
+
+/**
+ * Persists the session between app launches
+ */
+export interface TokenStorage {
+  /** Stored session, or null when there is none or it cannot be read */
+  load(): Promise<AuthSession | null>;
+  /** Store the session, replacing any previous one */
+  save(session: AuthSession): Promise<void>;
+  /** Remove the stored session */
+  clear(): Promise<void>;
+}
+
+/**
+ * SecureStore keys
+ * Tokens are stored separately because SecureStore values should stay
+ * under 2048 bytes and a Cognito refresh token alone is close to that
+ */
+const KEYS = {
+  ID_TOKEN: "auth.idToken",
+  ACCESS_TOKEN: "auth.accessToken",
+  REFRESH_TOKEN: "auth.refreshToken",
+  SESSION_INFO: "auth.session",
+} as const;
+
+/**
+ * Session fields stored next to the tokens
+ */
+type SessionInfo = Pick<AuthSession, "expiresAt" | "user">;
+
+/**
+ * TokenStorage backed by expo-secure-store (Keychain / Keystore)
+ */
+export class SecureTokenStorage implements TokenStorage {
+  async load(): Promise<AuthSession | null> {
+    const [idToken, accessToken, refreshToken, infoJson] = await Promise.all([
+      SecureStore.getItemAsync(KEYS.ID_TOKEN),
+      SecureStore.getItemAsync(KEYS.ACCESS_TOKEN),
+      SecureStore.getItemAsync(KEYS.REFRESH_TOKEN),
+      SecureStore.getItemAsync(KEYS.SESSION_INFO),
+    ]);
+
+    if (!idToken || !accessToken || !refreshToken || !infoJson) {
+      return null;
+    }
+
+    try {
+      const info = JSON.parse(infoJson) as SessionInfo;
+      return { idToken, accessToken, refreshToken, ...info };
+    } catch {
+      return null;
+    }
+  }
+
+  async save(session: AuthSession): Promise<void> {
+    const info: SessionInfo = {
+      expiresAt: session.expiresAt,
+      user: session.user,
+    };
+
+    await Promise.all([
+      SecureStore.setItemAsync(KEYS.ID_TOKEN, session.idToken),
+      SecureStore.setItemAsync(KEYS.ACCESS_TOKEN, session.accessToken),
+      SecureStore.setItemAsync(KEYS.REFRESH_TOKEN, session.refreshToken),
+      SecureStore.setItemAsync(KEYS.SESSION_INFO, JSON.stringify(info)),
+    ]);
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all(
+      Object.values(KEYS).map((key) => SecureStore.deleteItemAsync(key)),
+    );
+  }
+}
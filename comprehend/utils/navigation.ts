@@ -0,0 +1,41 @@
+import {
+  AUTH_GROUP,
+  AUTH_ROUTES,
+  RETURN_TO_PARAM,
+  ROUTES,
+} from "@/constants/app";
+
+/**
+ * Resolves the path to open after signing in
+ *
+ * Only in-app paths are accepted; anything else (missing, external or
+ * protocol-relative URLs, or a path back into the auth screens) falls back
+ * to the Reader.
+ */
+export function resolveReturnTo(returnTo: string | string[] | undefined) {
+  const path = Array.isArray(returnTo) ? returnTo[0] : returnTo;
+
+  // "//host" is protocol-relative, and browsers read "/\host" the same way
+  if (!path || !path.startsWith("/") || /^\/[/\\]/.test(path)) {
+    return ROUTES.READER;
+  }
+
+  // Compare the route without its query, fragment or trailing slash
+  const route = path.split(/[?#]/)[0].replace(/(.)\/+$/, "$1");
+  if (AUTH_ROUTES.includes(route) || route.startsWith(`/${AUTH_GROUP}`)) {
+    return ROUTES.READER;
+  }
+
+  return path;
+}
+
+/**
+ * Adds the pending deep link to the params of an auth screen, so it
+ * survives moving between sign-in, sign-up and verification
+ */
+export function withReturnTo(
+  returnTo: string | undefined,
+  params: Record<string, string> = {},
+): Record<string, string> {
+  return returnTo ? { ...params, [RETURN_TO_PARAM]: returnTo } : params;
+}
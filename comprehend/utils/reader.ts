@@ -0,0 +1,54 @@
+import { Token, Vocab } from "@/types/exercise";
+
+/**
+ * A token with its text and the vocab it is linked to, ready to render
+ */
+export interface ReaderToken {
+  /** The token */
+  token: Token;
+  /** Content covered by the token */
+  text: string;
+  /** Saved vocab linked to the token, if any */
+  vocab?: Vocab;
+  /** Whether the token is only whitespace and cannot be looked up */
+  isWhitespace: boolean;
+}
+
+/**
+ * Maps each token ID to the vocab linked to it
+ * When a token belongs to several vocab entries the first one wins
+ */
+export function buildTokenVocabIndex(vocab: Vocab[]): Map<string, Vocab> {
+  const index = new Map<string, Vocab>();
+  vocab.forEach((entry) => {
+    entry.tokenIds.forEach((tokenId) => {
+      if (!index.has(tokenId)) {
+        index.set(tokenId, entry);
+      }
+    });
+  });
+  return index;
+}
+
+/**
+ * Pairs the tokens of an exercise with their text and linked vocab
+ * Tokens are returned in reading order
+ */
+export function buildReaderTokens(
+  content: string,
+  tokens: Token[],
+  vocab: Vocab[],
+): ReaderToken[] {
+  const vocabIndex = buildTokenVocabIndex(vocab);
+  return [...tokens]
+    .sort((a, b) => a.order - b.order)
+    .map((token) => {
+      const text = content.slice(token.startIndex, token.endIndex);
+      return {
+        token,
+        text,
+        vocab: vocabIndex.get(token.tokenId),
+        isWhitespace: text.trim().length === 0,
+      };
+    });
+}